@@ -9,6 +9,14 @@ import dotenv from 'dotenv';
 import balloonRoutes from './routes/balloons.routes';
 import settingsRoutes from './routes/settings.routes';
 import trajectoryRoutes from './routes/trajectory.routes';
+import trackerRoutes from './routes/tracker.routes';
+import eventRoutes from './routes/events.routes';
+import ingestionRoutes from './routes/ingestion.routes';
+import snapshotRoutes from './routes/snapshots.routes';
+import jobRoutes from './routes/jobs.routes';
+import ingestRoutes from './routes/ingest.routes';
+import exportRoutes from './routes/export.routes';
+import streamRoutes from './routes/stream.routes';
 
 // Load environment variables
 dotenv.config();
@@ -18,7 +26,6 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
 
 // Request logging
 app.use((req, res, next) => {
@@ -26,9 +33,20 @@ app.use((req, res, next) => {
   next();
 });
 
+// Uploads parse their own (larger) bodies, so they go ahead of the JSON parser
+app.use('/api', ingestRoutes);
+app.use(express.json());
+
 // Routes
 app.use('/api', balloonRoutes);
 app.use('/api', settingsRoutes);
+app.use('/api', trackerRoutes);
+app.use('/api', eventRoutes);
+app.use('/api', ingestionRoutes);
+app.use('/api', snapshotRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', streamRoutes);
 app.use('/api/trajectory', trajectoryRoutes);
 
 // Root endpoint
@@ -41,6 +59,7 @@ app.get('/', (req, res) => {
       balloons: '/api/balloons',
       balloon_by_id: '/api/balloons/:id',
       balloon_history: '/api/balloons/:id/history',
+      tracking_diagnostics: '/api/balloons/:id/tracking-diagnostics',
       trajectories: '/api/balloons/trajectories',
       trajectory_single: '/api/trajectory/:balloonId',
       trajectory_all: '/api/trajectory',
@@ -48,6 +67,20 @@ app.get('/', (req, res) => {
       settings: '/api/settings',
       auto_update: 'POST /api/settings/auto-update',
       refresh: 'POST /api/refresh',
+      tracker_profiles: '/api/tracker/profiles',
+      retrack: 'POST /api/tracker/retrack',
+      events: '/api/events',
+      ingestion_reports: '/api/ingestion/reports',
+      ingestion_backfill: 'POST /api/ingestion/backfill',
+      snapshot_versions: '/api/snapshots/:timestamp/versions',
+      snapshot_diff: '/api/snapshots/:timestamp/diff',
+      stale_snapshots: '/api/snapshots/stale',
+      jobs: '/api/jobs',
+      job_by_id: '/api/jobs/:id',
+      ingest: 'POST /api/ingest',
+      export: '/api/export/:format',
+      export_balloon: '/api/export/:format/:balloonId',
+      stream: '/api/stream',
     },
     phase2_features: {
       wind_data: 'Open-Meteo API for upper-air wind data',
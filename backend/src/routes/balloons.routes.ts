@@ -4,8 +4,26 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { BalloonResponse, HealthResponse, BalloonDataPoint } from '../types/balloon';
 import { TrajectoryService } from '../services/trajectory.service';
+import {
+  HOUR_MS,
+  MAX_FLEET_WINDOW_HOURS,
+  hourOffsetOf,
+  resolveFleetWindow,
+  resolveHour,
+  toTimeRange,
+  windowHours,
+} from '../services/time.window';
+import {
+  BboxSchema,
+  ORDERED_RANGE_ERROR,
+  TimeRangeSchema,
+  commaList,
+  isOrderedRange,
+  isoTimestamp,
+} from '../services/query.schemas';
 
 // OPTIMIZATION: Use singleton service instances for shared caching
 import { windborneService, tracker, db } from '../services';
@@ -13,6 +31,121 @@ import { windborneService, tracker, db } from '../services';
 const router = Router();
 const trajectoryService = new TrajectoryService(db);
 
+const MAX_BALLOON_LIMIT = 5000;
+
+// Fields ?fields= can select (kalman_state is never returned)
+const BALLOON_FIELDS = [
+  'id', 'latitude', 'longitude', 'altitude_km', 'timestamp', 'hour_offset', 'speed_kmh', 'direction_deg',
+  'confidence', 'status', 'gap_hours', 'match_cost', 'match_phase', 'score_breakdown', 'filtered_speed_kmh',
+  'filtered_direction_deg', 'velocity_uncertainty_kmh', 'trajectory', 'source', 'external_id',
+] as const satisfies readonly (keyof BalloonDataPoint)[];
+
+type BalloonField = typeof BALLOON_FIELDS[number];
+
+// Opaque to clients: base64url JSON of the hour being paged and the last ID returned
+const CursorSchema = z.object({
+  timestamp: isoTimestamp,
+  after_id: z.string(),
+});
+
+type BalloonCursor = z.infer<typeof CursorSchema>;
+
+function encodeCursor(cursor: BalloonCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+const BalloonsQuerySchema = z.object({
+  // timestamp wins over hour_offset (the older relative form, kept as an alias)
+  timestamp: isoTimestamp.optional(),
+  hour_offset: z.coerce.number().int().min(0).optional(),
+  bbox: BboxSchema.optional(),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lon: z.coerce.number().min(-180).max(180).optional(),
+  radius_km: z.coerce.number().positive().max(20040).optional(), // Up to half the circumference
+  min_altitude_km: z.coerce.number().optional(),
+  max_altitude_km: z.coerce.number().optional(),
+  min_speed_kmh: z.coerce.number().min(0).optional(),
+  max_speed_kmh: z.coerce.number().min(0).optional(),
+  status: commaList(['active', 'new', 'lost']).optional(),
+  min_confidence: z.coerce.number().min(0).max(1).optional(),
+  fields: commaList(BALLOON_FIELDS).optional(),
+  limit: z.coerce.number().int().positive().max(MAX_BALLOON_LIMIT).optional(),
+  cursor: z.string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+        return z.NEVER;
+      }
+    })
+    .pipe(CursorSchema)
+    .optional(),
+})
+  .refine(q => [q.lat, q.lon, q.radius_km].every(v => v === undefined) || [q.lat, q.lon, q.radius_km].every(v => v !== undefined), {
+    message: 'lat, lon and radius_km must be given together',
+  })
+  .refine(q => q.min_altitude_km === undefined || q.max_altitude_km === undefined || q.min_altitude_km <= q.max_altitude_km, {
+    message: 'min_altitude_km must not exceed max_altitude_km',
+  })
+  .refine(q => q.min_speed_kmh === undefined || q.max_speed_kmh === undefined || q.min_speed_kmh <= q.max_speed_kmh, {
+    message: 'min_speed_kmh must not exceed max_speed_kmh',
+  });
+
+const BalloonDetailQuerySchema = z.object({
+  // Reference hour splitting past from future; at wins over hour_offset
+  at: isoTimestamp.optional(),
+  hour_offset: z.coerce.number().int().min(0).optional(),
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+}).refine(isOrderedRange, ORDERED_RANGE_ERROR);
+
+const BalloonValueQuerySchema = z.object({
+  hours: z.coerce.number().int().min(1).max(24).default(24),
+  method: z.enum(['persistence', 'wind', 'hybrid']).default('hybrid'),
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+}).refine(isOrderedRange, ORDERED_RANGE_ERROR);
+
+/**
+ * Reply 400 with the prettified zod error
+ */
+function invalidQuery(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: 'Invalid query',
+    message: z.prettifyError(error),
+  });
+}
+
+/**
+ * Tracked points of the fleet in a from/to window, read from tracked_balloons (never tracked
+ * on the fly: tracking only runs in jobs holding the tracking lock)
+ * Defaults to the 24 hours up to the newest stored hour; null if the window is too long
+ */
+async function readFleetHistory(range: { from?: string; to?: string }): Promise<BalloonDataPoint[] | null> {
+  const window = resolveFleetWindow(toTimeRange(range), await db.getLatestSnapshotTimestamp());
+  if (windowHours(window) > MAX_FLEET_WINDOW_HOURS) return null;
+  return tracker.getTrackedHistory(window);
+}
+
+function windowTooLong(res: Response) {
+  return res.status(400).json({
+    error: 'Invalid query',
+    message: `from/to may span at most ${MAX_FLEET_WINDOW_HOURS} hours`,
+  });
+}
+
+/**
+ * Copy of a balloon with only the selected fields (and its ID)
+ */
+function pickFields(balloon: BalloonDataPoint, fields: BalloonField[]): Partial<BalloonDataPoint> {
+  const picked: Partial<Record<BalloonField, unknown>> = { id: balloon.id };
+  for (const field of fields) {
+    if (balloon[field] !== undefined) picked[field] = balloon[field];
+  }
+  return picked as Partial<BalloonDataPoint>;
+}
+
 // Export services for backward compatibility
 export { windborneService, tracker };
 
@@ -20,14 +153,19 @@ export { windborneService, tracker };
  * GET /api/balloons/history
  * Get simplified history for all balloons + value metric
  * Optimized for slider replay
+ *
+ * Query parameters (optional):
+ * - from, to: ISO timestamps bounding the trail points (inclusive, at most 72 hours apart).
+ *   Default: the 24 hours up to the newest stored hour
  */
 router.get('/balloons/history', async (req: Request, res: Response) => {
-  try {
-    // Ensure we have latest data
-    const rawData = await windborneService.getBalloonData();
-    console.log(`[History] rawData points: ${rawData.length}`);
+  const parsed = TimeRangeSchema.safeParse(req.query);
+  if (!parsed.success) return invalidQuery(res, parsed.error);
+  const range = parsed.data;
 
-    const trackedData = await tracker.processHistoricalData(rawData);
+  try {
+    const trackedData = await readFleetHistory(range);
+    if (!trackedData) return windowTooLong(res);
     console.log(`[History] trackedData points: ${trackedData.length}`);
 
     const uniqueIds = tracker.getUniqueBalloonIds(trackedData);
@@ -63,47 +201,80 @@ router.get('/balloons/history', async (req: Request, res: Response) => {
 /**
  * GET /api/balloons
  * Get balloon positions for a specific hour (lightweight - no full trajectories)
+ * Filters run in the database; results are ordered by ID
  *
- * Query parameters:
- * - hour_offset: Optional hour offset (0=current, 1=1hr ago, etc). Default: 0
+ * Query parameters (all optional):
+ * - timestamp: ISO timestamp of the hour to read (floored to the hour). Default: current hour
+ * - hour_offset: alias for the hour relative to the current one (0=current, 1=1hr ago, etc)
+ * - bbox: min_lon,min_lat,max_lon,max_lat (min_lon > max_lon crosses the antimeridian)
+ * - lat, lon, radius_km: within radius_km (great-circle) of a point - all three or none
+ * - min_altitude_km, max_altitude_km, min_speed_kmh, max_speed_kmh: inclusive ranges
+ *   (balloons without a speed yet never match a speed range)
+ * - status: comma-separated active,new,lost (default: active,new)
+ * - min_confidence: 0-1
+ * - fields: comma-separated fields to return (id is always included)
+ * - limit: page size (max 5000, default: every match)
+ * - cursor: next_cursor of the previous page (keeps reading the hour the first page read)
  */
 router.get('/balloons', async (req: Request, res: Response) => {
-  try {
-    // Get requested hour offset from query params (default: 0 for current hour)
-    const requestedHourOffset = parseInt(req.query.hour_offset as string) || 0;
-
-    // Load ONLY the requested hour's data from the database
-    // Calculate the timestamp for the requested hour
-    const currentTimestamp = windborneService.getCurrentTimestamp();
-    const currentTime = new Date(currentTimestamp);
-    const requestedTime = new Date(currentTime.getTime() - requestedHourOffset * 60 * 60 * 1000);
-    const requestedTimestamp = requestedTime.toISOString().slice(0, 13) + ':00:00.000Z';
+  const parsed = BalloonsQuerySchema.safeParse(req.query);
+  if (!parsed.success) return invalidQuery(res, parsed.error);
+  const q = parsed.data;
 
-    // Load balloons for this specific timestamp from DB
-    const balloonsAtTimestamp = await tracker.getBalloonsAtTimestamp(requestedTimestamp);
+  try {
+    // Resolve the requested hour (a cursor pins the hour of its first page)
+    const requestedTimestamp = q.cursor?.timestamp ?? resolveHour({ timestamp: q.timestamp, hour_offset: q.hour_offset });
+
+    // One extra row tells whether there's another page
+    const matches = await tracker.queryBalloons({
+      timestamp: requestedTimestamp,
+      bbox: q.bbox,
+      near: q.lat !== undefined && q.lon !== undefined && q.radius_km !== undefined
+        ? { latitude: q.lat, longitude: q.lon, radius_km: q.radius_km }
+        : undefined,
+      min_altitude_km: q.min_altitude_km,
+      max_altitude_km: q.max_altitude_km,
+      min_speed_kmh: q.min_speed_kmh,
+      max_speed_kmh: q.max_speed_kmh,
+      statuses: q.status,
+      min_confidence: q.min_confidence,
+      after_id: q.cursor?.after_id,
+      limit: q.limit !== undefined ? q.limit + 1 : undefined,
+    });
+    const page = q.limit !== undefined ? matches.slice(0, q.limit) : matches;
+    const nextCursor = q.limit !== undefined && matches.length > q.limit
+      ? encodeCursor({ timestamp: requestedTimestamp, after_id: page[page.length - 1].id })
+      : null;
 
-    console.log(`Loaded ${balloonsAtTimestamp.length} balloons for hour_offset ${requestedHourOffset} (${requestedTimestamp})`);
+    console.log(`Loaded ${page.length} balloons for ${requestedTimestamp}`);
 
     // Return balloons WITHOUT full trajectory data (much more efficient)
     // Trajectory data will be fetched separately when a balloon is selected
-    const balloonsWithoutTrajectories = balloonsAtTimestamp.map((balloon: BalloonDataPoint) => ({
-      ...balloon,
-      // Empty trajectory - will be loaded on demand
-      trajectory: {
-        balloon_id: balloon.id,
-        historical_positions: [],
-        future_positions: [],
-        predicted_positions: [],
-        prediction_horizon_hours: 0,
-      },
-    }));
+    // The raw Kalman state (4x4 covariance) is internal - filtered_* fields summarize it
+    const balloons = page.map(({ kalman_state: _, ...balloon }: BalloonDataPoint) => {
+      const full: BalloonDataPoint = {
+        ...balloon,
+        // Empty trajectory - will be loaded on demand
+        trajectory: {
+          balloon_id: balloon.id,
+          historical_positions: [],
+          future_positions: [],
+          predicted_positions: [],
+          prediction_horizon_hours: 0,
+        },
+      };
+      return q.fields ? pickFields(full, q.fields) : full;
+    });
 
     const response: BalloonResponse = {
       updated_at: windborneService.getCurrentTimestamp(),
       data_age_minutes: windborneService.getDataAgeMinutes(),
       source: 'Windborne Systems API',
-      balloon_count: balloonsWithoutTrajectories.length,
-      balloons: balloonsWithoutTrajectories,
+      timestamp: requestedTimestamp,
+      hour_offset: hourOffsetOf(requestedTimestamp),
+      balloon_count: balloons.length,
+      balloons,
+      next_cursor: nextCursor,
     };
 
     res.json(response);
@@ -116,21 +287,67 @@ router.get('/balloons', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/balloons/trajectories
+ * Get all tracked balloons with full history
+ * (Registered ahead of /balloons/:id, which would otherwise capture it)
+ *
+ * Query parameters (optional):
+ * - from, to: ISO timestamps bounding the returned positions (inclusive, at most 72 hours
+ *   apart). Default: the 24 hours up to the newest stored hour
+ */
+router.get('/balloons/trajectories', async (req: Request, res: Response) => {
+  const parsed = TimeRangeSchema.safeParse(req.query);
+  if (!parsed.success) return invalidQuery(res, parsed.error);
+  const range = parsed.data;
+
+  try {
+    const trackedData = await readFleetHistory(range);
+    if (!trackedData) return windowTooLong(res);
+
+    // Group by balloon ID
+    const uniqueIds = tracker.getUniqueBalloonIds(trackedData);
+    const trajectories = uniqueIds.map((id) => ({
+      id,
+      trajectory: tracker.getBalloonTrajectory(trackedData, id),
+    }));
+
+    res.json({
+      updated_at: windborneService.getCurrentTimestamp(),
+      balloon_count: trajectories.length,
+      trajectories,
+    });
+  } catch (error) {
+    console.error('Error fetching trajectories:', error);
+    res.status(500).json({
+      error: 'Failed to fetch trajectories',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /api/balloons/:id
  * Get single balloon with its full trajectory (past + future) relative to a timeframe
  *
- * Query parameters:
- * - hour_offset: Optional reference hour (default: 0 for current)
+ * Query parameters (all optional):
+ * - at: ISO timestamp of the reference hour (floored to the hour). Default: current hour
+ * - hour_offset: alias for the reference hour relative to the current one
+ * - from, to: ISO timestamps bounding the returned positions (inclusive)
  */
 router.get('/balloons/:id', async (req: Request, res: Response) => {
+  const parsed = BalloonDetailQuerySchema.safeParse(req.query);
+  if (!parsed.success) return invalidQuery(res, parsed.error);
+  const q = parsed.data;
+
   try {
     const { id } = req.params;
-    const referenceHourOffset = parseInt(req.query.hour_offset as string) || 0;
+    const referenceTimestamp = resolveHour({ timestamp: q.at, hour_offset: q.hour_offset });
+    const referenceTime = new Date(referenceTimestamp).getTime();
 
-    // OPTIMIZED: Load only this balloon's trajectory from DB (24 records)
+    // OPTIMIZED: Load only this balloon's trajectory from DB (full-resolution + archived points)
     // Instead of loading all 24,000 balloons via processHistoricalData
-    const trajectoryPositions = await tracker.getBalloonTrajectoryFromDB(id);
+    const trajectoryPositions = await tracker.getBalloonTrajectoryFromDB(id, toTimeRange(q));
 
     if (trajectoryPositions.length === 0) {
       return res.status(404).json({
@@ -141,10 +358,10 @@ router.get('/balloons/:id', async (req: Request, res: Response) => {
 
     console.log(`Loaded trajectory for balloon ${id}: ${trajectoryPositions.length} positions (optimized query)`);
 
-    // Split trajectory into past/future relative to the reference hour
-    const pastPositions = trajectoryPositions.filter(p => p.hour_offset > referenceHourOffset);
-    const futurePositions = trajectoryPositions.filter(p => p.hour_offset < referenceHourOffset);
-    const currentPosition = trajectoryPositions.find(p => p.hour_offset === referenceHourOffset);
+    // Split trajectory (oldest first) into past/future relative to the reference hour
+    const pastPositions = trajectoryPositions.filter(p => new Date(p.timestamp).getTime() < referenceTime);
+    const futurePositions = trajectoryPositions.filter(p => new Date(p.timestamp).getTime() > referenceTime);
+    const currentPosition = trajectoryPositions.find(p => new Date(p.timestamp).getTime() === referenceTime);
 
     // Include current position in both arrays for seamless line connection
     const historicalWithCurrent = currentPosition ? [...pastPositions, currentPosition] : pastPositions;
@@ -160,9 +377,10 @@ router.get('/balloons/:id', async (req: Request, res: Response) => {
         prediction_horizon_hours: 0,
       },
       trajectory_length: trajectoryPositions.length,
-      first_seen: trajectoryPositions[trajectoryPositions.length - 1]?.timestamp,
-      last_seen: trajectoryPositions[0]?.timestamp,
-      reference_hour_offset: referenceHourOffset,
+      first_seen: trajectoryPositions[0]?.timestamp,
+      last_seen: trajectoryPositions[trajectoryPositions.length - 1]?.timestamp,
+      reference_timestamp: referenceTimestamp,
+      reference_hour_offset: hourOffsetOf(referenceTimestamp),
     });
   } catch (error) {
     console.error(`Error fetching balloon ${req.params.id}:`, error);
@@ -173,64 +391,29 @@ router.get('/balloons/:id', async (req: Request, res: Response) => {
   }
 });
 
-/**
- * GET /api/balloons/trajectories
- * Get all tracked balloons with full history
- */
-router.get('/balloons/trajectories', async (req: Request, res: Response) => {
-  try {
-    const rawData = await windborneService.getBalloonData();
-    const trackedData = await tracker.processHistoricalData(rawData);
-
-    // Group by balloon ID
-    const uniqueIds = tracker.getUniqueBalloonIds(trackedData);
-    const trajectories = uniqueIds.map((id) => ({
-      id,
-      trajectory: tracker.getBalloonTrajectory(trackedData, id),
-    }));
-
-    res.json({
-      updated_at: windborneService.getCurrentTimestamp(),
-      balloon_count: uniqueIds.length,
-      trajectories,
-    });
-  } catch (error) {
-    console.error('Error fetching trajectories:', error);
-    res.status(500).json({
-      error: 'Failed to fetch trajectories',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-});
-
 /**
  * GET /api/balloons/:id/value
  * Calculate value score for a specific balloon based on prediction accuracy
+ *
+ * Query parameters (all optional):
+ * - hours: prediction horizon, 1-24. Default: 24
+ * - method: persistence, wind or hybrid. Default: hybrid
+ * - from, to: ISO timestamps bounding the positions scored. Default: the 24 hours up to to (or now)
  */
 router.get('/balloons/:id/value', async (req: Request, res: Response) => {
+  const parsed = BalloonValueQuerySchema.safeParse(req.query);
+  if (!parsed.success) return invalidQuery(res, parsed.error);
+  const { hours, method, ...window } = parsed.data;
+
   try {
     const { id } = req.params;
-    const hours = parseInt(req.query.hours as string) || 24;
-    const method = (req.query.method as 'persistence' | 'wind' | 'hybrid') || 'hybrid';
-
-    // Validate parameters
-    if (hours < 1 || hours > 24) {
-      return res.status(400).json({
-        error: 'Invalid hours parameter',
-        message: 'hours must be between 1 and 24',
-      });
-    }
 
-    if (!['persistence', 'wind', 'hybrid'].includes(method)) {
-      return res.status(400).json({
-        error: 'Invalid method parameter',
-        message: 'method must be one of: persistence, wind, hybrid',
-      });
-    }
-
-    // OPTIMIZED: Get balloon trajectory directly from DB (24 records)
+    // OPTIMIZED: Get balloon trajectory directly from DB (last 24 records)
     // Instead of loading all 24,000 balloons via processHistoricalData
-    const trajectory = await tracker.getBalloonTrajectoryFromDB(id);
+    // The value calculation steps hour by hour, so stay clear of the 6-hourly archive
+    const range = toTimeRange(window);
+    range.from ??= new Date(new Date(range.to ?? Date.now()).getTime() - 24 * HOUR_MS).toISOString();
+    const trajectory = await tracker.getBalloonTrajectoryFromDB(id, range);
 
     if (trajectory.length === 0) {
       return res.status(404).json({
@@ -264,9 +447,57 @@ router.get('/balloons/:id/value', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/balloons/:id/tracking-diagnostics
+ * Explain how a balloon's track was linked, hour by hour
+ * Returns match phase (greedy/hungarian), total cost, weighted score breakdown and confidence
+ *
+ * Query parameters (optional):
+ * - from, to: ISO timestamps bounding the hours explained (inclusive)
+ */
+router.get('/balloons/:id/tracking-diagnostics', async (req: Request, res: Response) => {
+  const parsed = TimeRangeSchema.safeParse(req.query);
+  if (!parsed.success) return invalidQuery(res, parsed.error);
+  const range = toTimeRange(parsed.data);
+
+  try {
+    const { id } = req.params;
+    const diagnostics = await tracker.getTrackingDiagnostics(id, range);
+    const corrections = await db.getTrackCorrections(id);
+
+    if (diagnostics.length === 0) {
+      return res.status(404).json({
+        error: 'Balloon not found',
+        message: `No balloon with ID ${id} found`,
+      });
+    }
+
+    const matched = diagnostics.filter(d => d.match_cost !== null);
+    const meanConfidence = diagnostics.reduce((sum, d) => sum + d.confidence, 0) / diagnostics.length;
+
+    res.json({
+      balloon_id: id,
+      hours: diagnostics.length,
+      matched_hours: matched.length,
+      lost_hours: diagnostics.filter(d => d.status === 'lost').length,
+      mean_confidence: meanConfidence,
+      diagnostics,
+      corrections,
+    });
+  } catch (error) {
+    console.error(`Error fetching tracking diagnostics for balloon ${req.params.id}:`, error);
+    res.status(500).json({
+      error: 'Failed to fetch tracking diagnostics',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /api/health
- * API health and data freshness status
+ * API health, data freshness and ingestion quality status
+ * An anomalous latest hour (see GET /api/ingestion/reports) downgrades 'healthy' to 'degraded'
+ * Also reports the last successful data job (see GET /api/jobs)
  */
 router.get('/health', async (req: Request, res: Response) => {
   try {
@@ -288,12 +519,33 @@ router.get('/health', async (req: Request, res: Response) => {
       status = 'healthy';
     }
 
+    // Hours of the last day whose files had quality anomalies
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const anomalousReports = await db.getIngestionReports({ from: since, anomalous_only: true });
+    const [latestReport] = await db.getIngestionReports({ limit: 1 });
+
+    if (status === 'healthy' && latestReport && latestReport.anomalies.length > 0) {
+      status = 'degraded'; // Newest hour looks suspicious
+    }
+
+    // Latest data job that completed (see GET /api/jobs)
+    const [lastSuccessfulJob] = await db.getJobRuns({ status: 'succeeded', limit: 1 });
+
     const response: HealthResponse = {
       status,
       lastUpdate: settings.lastUpdateTimestamp,
       dataFreshness: dataAge,
       balloonCount: currentBalloons.length,
       autoUpdateEnabled: settings.autoUpdateEnabled,
+      anomalousHours: anomalousReports.map(r => ({ timestamp: r.timestamp, anomalies: r.anomalies })),
+      lastSuccessfulJob: lastSuccessfulJob
+        ? {
+          id: lastSuccessfulJob.id,
+          kind: lastSuccessfulJob.kind,
+          trigger: lastSuccessfulJob.trigger,
+          finished_at: lastSuccessfulJob.finished_at,
+        }
+        : null,
     };
 
     res.json(response);
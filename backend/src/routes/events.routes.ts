@@ -0,0 +1,77 @@
+/**
+ * Lifecycle Event API Routes
+ * Launches, bursts, disappearances, ... detected after each hourly update
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { db } from '../services';
+import { BALLOON_EVENT_TYPES } from '../services/lifecycle.service';
+import { BboxSchema, commaList, isoTimestamp } from '../services/query.schemas';
+
+const router = Router();
+
+const DEFAULT_EVENT_LIMIT = 500;
+const MAX_EVENT_LIMIT = 5000;
+
+const EventsQuerySchema = z.object({
+  // Comma-separated list, e.g. type=launch,burst
+  type: commaList(BALLOON_EVENT_TYPES).optional(),
+  balloon_id: z.string().min(1).optional(),
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+  bbox: BboxSchema.optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().positive().max(MAX_EVENT_LIMIT).default(DEFAULT_EVENT_LIMIT),
+});
+
+/**
+ * GET /api/events
+ * Lifecycle events, newest first
+ *
+ * Query params (all optional):
+ * - type: comma-separated event types (launch, ascent_complete, burst, disappearance, reacquisition)
+ * - balloon_id: events of a single balloon
+ * - from, to: inclusive ISO timestamp window
+ * - bbox: min_lon,min_lat,max_lon,max_lat (min_lon > max_lon crosses the antimeridian)
+ * - order: desc (newest first, default) or asc (oldest first)
+ * - limit: max events returned, from the start of that order (default 500, max 5000)
+ */
+router.get('/events', async (req: Request, res: Response) => {
+  const parsed = EventsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+
+  const { type, balloon_id, from, to, bbox, order, limit } = parsed.data;
+
+  try {
+    const events = await db.getBalloonEvents({
+      types: type,
+      balloon_id,
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      bbox,
+      order,
+      limit,
+    });
+
+    res.json({
+      count: events.length,
+      events,
+    });
+  } catch (error) {
+    console.error('Error fetching balloon events:', error);
+    res.status(500).json({
+      error: 'Failed to fetch events',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+/**
+ * Export API Routes
+ * Balloon tracks (and optional predictions) as GeoJSON, KML, GPX or CZML for QGIS, Google Earth,
+ * Cesium, ...
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { BalloonTrajectory } from '../types/balloon';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { exportService } from '../services';
+import { EXPORT_FORMATS, renderExport } from '../services/export.formats';
+import { MAX_EXPORT_BALLOON_IDS, MAX_WIND_PREDICTIONS } from '../services/export.service';
+import { MAX_FLEET_WINDOW_HOURS, toTimeRange, windowHours } from '../services/time.window';
+import { BboxSchema, ORDERED_RANGE_ERROR, commaList, isOrderedRange, isoTimestamp } from '../services/query.schemas';
+
+const router = Router();
+
+const FormatSchema = z.enum(EXPORT_FORMATS);
+
+const ExportQuerySchema = z.object({
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+  // Comma-separated balloon IDs; without them the fleet in the window is exported
+  ids: z.string()
+    .transform(value => [...new Set(value.split(',').map(v => v.trim()).filter(Boolean))])
+    .pipe(z.array(z.string()).min(1).max(MAX_EXPORT_BALLOON_IDS))
+    .optional(),
+  // Fleet filters, applied to the window's last hour (see GET /api/balloons)
+  bbox: BboxSchema.optional(),
+  min_altitude_km: z.coerce.number().optional(),
+  max_altitude_km: z.coerce.number().optional(),
+  status: commaList(['active', 'new']).optional(),
+  min_confidence: z.coerce.number().min(0).max(1).optional(),
+  // Predicted positions as a separate layer
+  predict: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  hours: z.coerce.number().int().min(1).max(12).default(3),
+  // Persistence by default: wind and hybrid query Open-Meteo for every predicted hour
+  method: z.enum(['persistence', 'wind', 'hybrid']).default('persistence'),
+})
+  .refine(isOrderedRange, ORDERED_RANGE_ERROR)
+  .refine(q => !q.ids || [q.bbox, q.min_altitude_km, q.max_altitude_km, q.status, q.min_confidence].every(v => v === undefined), {
+    message: 'ids cannot be combined with fleet filters',
+  });
+
+type ExportQuery = z.infer<typeof ExportQuerySchema>;
+
+/**
+ * Reply with the rendered export as a download
+ */
+async function sendExport(res: Response, format: z.infer<typeof FormatSchema>, name: string, q: ExportQuery, trajectories: BalloonTrajectory[]) {
+  if (q.predict && q.method !== 'persistence' && trajectories.length > MAX_WIND_PREDICTIONS) {
+    return res.status(400).json({
+      error: 'Too many predictions',
+      message: `${q.method} predictions are limited to ${MAX_WIND_PREDICTIONS} balloons (got ${trajectories.length}); use method=persistence or narrow the selection`,
+    });
+  }
+
+  const layers = q.predict
+    ? await exportService.addPredictions(trajectories, { hours: q.hours, method: q.method })
+    : trajectories;
+  const rendered = renderExport(format, layers);
+
+  console.log(`[Export] ${format}: ${layers.length} balloons${q.predict ? ` with ${q.method} predictions` : ''}`);
+  res.attachment(`${name}.${rendered.extension}`);
+  res.type(rendered.contentType);
+  res.send(rendered.body);
+}
+
+/**
+ * GET /api/export/:format
+ * Tracks of a set of balloons or of the fleet in a time window (format: geojson, kml, gpx or czml)
+ *
+ * Query params (all optional):
+ * - ids: comma-separated balloon IDs (max 100) - their stored tracks, archive included
+ * - from, to: inclusive ISO window. Without ids it defaults to the 24 hours up to the newest
+ *   stored hour and may span at most 72 hours
+ * - bbox, min_altitude_km, max_altitude_km, status (active,new), min_confidence: export only
+ *   the balloons matching these in the window's last hour (not with ids)
+ * - predict: true adds predicted positions as a separate layer (CZML: separate packets), for
+ *   the balloons reporting in the newest hour exported
+ * - hours: prediction horizon, 1-12 (default: 3)
+ * - method: persistence, wind or hybrid (default: persistence; wind and hybrid max 25 balloons)
+ */
+router.get('/export/:format', async (req: Request, res: Response) => {
+  const format = FormatSchema.safeParse(req.params.format);
+  if (!format.success) {
+    return res.status(404).json({
+      error: 'Unknown format',
+      message: `Export formats: ${EXPORT_FORMATS.join(', ')}`,
+    });
+  }
+
+  const parsed = ExportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+  const q = parsed.data;
+
+  try {
+    if (q.ids) {
+      const trajectories = await exportService.getBalloonTrajectories(q.ids, toTimeRange(q));
+      return await sendExport(res, format.data, 'balloons', q, trajectories);
+    }
+
+    const window = await exportService.resolveFleetWindow(toTimeRange(q));
+    if (windowHours(window) > MAX_FLEET_WINDOW_HOURS) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        message: `Fleet exports span at most ${MAX_FLEET_WINDOW_HOURS} hours (pass ids for longer tracks)`,
+      });
+    }
+
+    const trajectories = await exportService.getFleetTrajectories(window, {
+      bbox: q.bbox,
+      min_altitude_km: q.min_altitude_km,
+      max_altitude_km: q.max_altitude_km,
+      statuses: q.status,
+      min_confidence: q.min_confidence,
+    });
+    await sendExport(res, format.data, `balloons-${window.to.slice(0, 13)}`, q, trajectories);
+  } catch (error) {
+    console.error('Error exporting tracks:', error);
+    res.status(500).json({
+      error: 'Failed to export tracks',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/export/:format/:balloonId
+ * One balloon's stored track (archive included), optionally limited to from/to
+ * Takes the same predict, hours and method params as above
+ */
+router.get('/export/:format/:balloonId', async (req: Request, res: Response) => {
+  const format = FormatSchema.safeParse(req.params.format);
+  if (!format.success) {
+    return res.status(404).json({
+      error: 'Unknown format',
+      message: `Export formats: ${EXPORT_FORMATS.join(', ')}`,
+    });
+  }
+
+  const parsed = ExportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+  const q = parsed.data;
+
+  try {
+    const { balloonId } = req.params;
+    const trajectories = await exportService.getBalloonTrajectories([balloonId], toTimeRange(q));
+
+    if (trajectories.length === 0) {
+      return res.status(404).json({
+        error: 'Balloon not found',
+        message: `No balloon with ID ${balloonId} found`,
+      });
+    }
+
+    await sendExport(res, format.data, balloonId, q, trajectories);
+  } catch (error) {
+    console.error(`Error exporting balloon ${req.params.balloonId}:`, error);
+    res.status(500).json({
+      error: 'Failed to export track',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,90 @@
+/**
+ * Ingest API Routes
+ * Upload positions of our own sondes (CSV, GeoJSON or NDJSON) into tracking
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { z } from 'zod';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { ingestService } from '../services';
+import { DEFAULT_INGEST_SOURCE, IngestFormat, SourceTagSchema, parseIngestPayload } from '../services/ingest.service';
+
+const router = Router();
+
+const MAX_BODY_SIZE = '10mb';
+
+const IngestQuerySchema = z.object({
+  source: SourceTagSchema.default(DEFAULT_INGEST_SOURCE),
+  format: z.enum(['csv', 'geojson', 'ndjson']).optional(),
+});
+
+/**
+ * Payload format from the Content-Type, when ?format= isn't given
+ */
+function formatFromContentType(req: Request): IngestFormat | undefined {
+  if (req.is('text/csv')) return 'csv';
+  if (req.is(['application/x-ndjson', 'application/ndjson'])) return 'ndjson';
+  if (req.is(['application/json', 'application/geo+json'])) return 'geojson';
+  return undefined;
+}
+
+// Every format arrives as text, JSON included: this router is mounted ahead of the global
+// express.json(), whose 100kb default would reject most uploads
+const textBody = express.text({
+  type: ['text/csv', 'text/plain', 'application/x-ndjson', 'application/ndjson', 'application/json', 'application/geo+json'],
+  limit: MAX_BODY_SIZE,
+});
+
+/**
+ * POST /api/ingest
+ * Store timestamped positions and track every hour they touch (see ingest.service.ts)
+ *
+ * Body (by Content-Type, or ?format=):
+ * - text/csv: header row with timestamp, latitude/lat, longitude/lon, altitude_km/alt and optional id
+ * - application/geo+json or application/json: FeatureCollection of Points [lon, lat, alt_km?]
+ *   with timestamp (and optional id, altitude_km) properties
+ * - application/x-ndjson: one {timestamp, latitude, longitude, altitude_km, external_id?} per line
+ *
+ * Query params (optional):
+ * - source: tag stored with the positions (default "external")
+ * - format: csv, geojson or ndjson (overrides the Content-Type)
+ */
+router.post('/ingest', textBody, async (req: Request, res: Response) => {
+  const parsed = IngestQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+
+  const format = parsed.data.format ?? formatFromContentType(req);
+  if (!format) {
+    return res.status(400).json({
+      error: 'Unknown format',
+      message: 'Send text/csv, application/geo+json or application/x-ndjson, or pass ?format=',
+    });
+  }
+
+  const payload = parseIngestPayload(format, req.body);
+  if (!payload.success) {
+    return res.status(400).json({
+      error: 'Invalid positions',
+      message: payload.message,
+    });
+  }
+
+  try {
+    const result = await ingestService.ingest(parsed.data.source, payload.positions);
+    res.json(result);
+  } catch (error) {
+    console.error('Error ingesting positions:', error);
+    res.status(500).json({
+      error: 'Failed to ingest positions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
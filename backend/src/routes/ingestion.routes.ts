@@ -0,0 +1,86 @@
+/**
+ * Ingestion API Routes
+ * Data-quality reports of the ingested hour files, and backfill of missing hours
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { db, windborneService } from '../services';
+import { isoTimestamp } from '../services/query.schemas';
+
+const router = Router();
+
+const DEFAULT_REPORT_LIMIT = 48;
+const MAX_REPORT_LIMIT = 1000;
+
+const ReportsQuerySchema = z.object({
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+  anomalous: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().positive().max(MAX_REPORT_LIMIT).default(DEFAULT_REPORT_LIMIT),
+});
+
+/**
+ * GET /api/ingestion/reports
+ * Quality report of each ingested hour, newest first
+ *
+ * Query params (all optional):
+ * - from, to: inclusive ISO timestamp window
+ * - anomalous: true to only return hours with anomalies
+ * - limit: max reports returned (default 48, max 1000)
+ */
+router.get('/ingestion/reports', async (req: Request, res: Response) => {
+  const parsed = ReportsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+
+  const { from, to, anomalous, limit } = parsed.data;
+
+  try {
+    const reports = await db.getIngestionReports({
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      anomalous_only: anomalous,
+      limit,
+    });
+
+    res.json({
+      count: reports.length,
+      anomalous_count: reports.filter(r => r.anomalies.length > 0).length,
+      reports,
+    });
+  } catch (error) {
+    console.error('Error fetching ingestion reports:', error);
+    res.status(500).json({
+      error: 'Failed to fetch ingestion reports',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/ingestion/backfill
+ * Fetch the hours of the last 24 that have no stored snapshot (with retries), then
+ * re-run tracking from the earliest repaired hour forward
+ * Returns which hours were repaired and which are still missing
+ */
+router.post('/ingestion/backfill', async (req: Request, res: Response) => {
+  try {
+    const result = await windborneService.backfillMissingHours();
+    res.json(result);
+  } catch (error) {
+    console.error('Error backfilling missing hours:', error);
+    res.status(500).json({
+      error: 'Failed to backfill missing hours',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
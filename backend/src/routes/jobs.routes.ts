@@ -0,0 +1,103 @@
+/**
+ * Job API Routes
+ * History of the data jobs (hourly updates, refreshes, backfills, full fetches, rebuilds,
+ * cleanups), for debugging missed hours after the fact
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { db } from '../services';
+import { isoTimestamp } from '../services/query.schemas';
+
+const router = Router();
+
+const DEFAULT_RUN_LIMIT = 50;
+const MAX_RUN_LIMIT = 500;
+
+const RunsQuerySchema = z.object({
+  kind: z.enum(['hourly_update', 'refresh', 'backfill', 'full_fetch', 'rebuild', 'cleanup', 'ingest']).optional(),
+  status: z.enum(['running', 'succeeded', 'failed']).optional(),
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+  limit: z.coerce.number().int().positive().max(MAX_RUN_LIMIT).default(DEFAULT_RUN_LIMIT),
+});
+
+/**
+ * GET /api/jobs
+ * Recorded job runs, most recently started first
+ *
+ * Query params (all optional):
+ * - kind: hourly_update, refresh, backfill, full_fetch, rebuild, cleanup or ingest
+ * - status: running, succeeded or failed
+ * - from, to: inclusive ISO window on the start time
+ * - limit: max runs returned (default 50, max 500)
+ */
+router.get('/jobs', async (req: Request, res: Response) => {
+  const parsed = RunsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+
+  const { kind, status, from, to, limit } = parsed.data;
+
+  try {
+    const runs = await db.getJobRuns({
+      kind,
+      status,
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      limit,
+    });
+
+    res.json({
+      count: runs.length,
+      failed_count: runs.filter(r => r.status === 'failed').length,
+      runs,
+    });
+  } catch (error) {
+    console.error('Error fetching job runs:', error);
+    res.status(500).json({
+      error: 'Failed to fetch job runs',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * One job run, including phase timings and the error stack if it failed
+ */
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  const parsed = z.coerce.number().int().positive().safeParse(req.params.id);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid job run id',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+
+  try {
+    const run = await db.getJobRun(parsed.data);
+    if (!run) {
+      return res.status(404).json({
+        error: 'Job run not found',
+        message: `No job run with id ${parsed.data}`,
+      });
+    }
+
+    res.json(run);
+  } catch (error) {
+    console.error('Error fetching job run:', error);
+    res.status(500).json({
+      error: 'Failed to fetch job run',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -4,7 +4,7 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { BalloonDataPoint } from '../types/balloon';
+import { JobTrigger } from '../types/balloon';
 
 // OPTIMIZATION: Use singleton service instances for shared caching
 import { windborneService, tracker } from '../services';
@@ -64,15 +64,25 @@ router.post('/settings/auto-update', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Who is calling /api/refresh, for the job history
+ * Cron callers pass ?trigger=cron (or send a user agent mentioning cron, like vercel-cron)
+ */
+function refreshTrigger(req: Request): JobTrigger {
+  if (req.query.trigger === 'cron') return 'cron';
+  return /cron/i.test(req.get('user-agent') ?? '') ? 'cron' : 'manual';
+}
+
 /**
  * Refresh handler (shared logic for GET and POST)
  */
 const handleRefresh = async (req: Request, res: Response) => {
   try {
-    console.log('Manual refresh requested');
-    const rawData = await windborneService.forceRefresh();
-    const trackedData = await tracker.processHistoricalData(rawData);
-    const currentBalloons = trackedData.filter((b: BalloonDataPoint) => b.hour_offset === 0);
+    const trigger = refreshTrigger(req);
+    console.log(`Manual refresh requested (${trigger})`);
+    await windborneService.forceRefresh(trigger);
+    // Tracking happened under the job lock - just read the result
+    const currentBalloons = await tracker.getBalloonsAtTimestamp(windborneService.getCurrentTimestamp());
 
     res.json({
       success: true,
@@ -0,0 +1,149 @@
+/**
+ * Snapshot API Routes
+ * Versions of re-fetched hour files, what changed between them, and which tracked hours are stale
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { db } from '../services';
+import { diffSnapshots } from '../services/snapshot.versioning';
+import { isoTimestamp } from '../services/query.schemas';
+
+const router = Router();
+
+const DiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive().optional(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * Parse the :timestamp param into the stored ISO form, or send a 400
+ */
+function parseTimestamp(req: Request, res: Response): string | null {
+  const parsed = isoTimestamp.safeParse(req.params.timestamp);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: 'Invalid timestamp',
+      message: z.prettifyError(parsed.error),
+    });
+    return null;
+  }
+  return new Date(parsed.data).toISOString();
+}
+
+/**
+ * GET /api/snapshots/stale
+ * Hours whose latest snapshot version is newer than the version tracking was built on
+ */
+router.get('/snapshots/stale', async (req: Request, res: Response) => {
+  try {
+    const stale = await db.getStaleSnapshots();
+    res.json({
+      count: stale.length,
+      hours: stale,
+    });
+  } catch (error) {
+    console.error('Error fetching stale snapshots:', error);
+    res.status(500).json({
+      error: 'Failed to fetch stale snapshots',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/snapshots/:timestamp/versions
+ * Every stored version of an hour (content hash, fetch time, source URL, row count)
+ */
+router.get('/snapshots/:timestamp/versions', async (req: Request, res: Response) => {
+  const timestamp = parseTimestamp(req, res);
+  if (!timestamp) return;
+
+  try {
+    const versions = await db.getSnapshotVersions(timestamp);
+    if (versions.length === 0) {
+      return res.status(404).json({
+        error: 'Snapshot not found',
+        message: `No versions stored for ${timestamp}`,
+      });
+    }
+
+    const stale = (await db.getStaleSnapshots()).find(s => s.timestamp === timestamp);
+    res.json({
+      timestamp,
+      latest_version: versions[versions.length - 1].version,
+      tracked_version: stale?.tracked_version ?? null,
+      stale: stale !== undefined,
+      versions,
+    });
+  } catch (error) {
+    console.error('Error fetching snapshot versions:', error);
+    res.status(500).json({
+      error: 'Failed to fetch snapshot versions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/snapshots/:timestamp/diff
+ * Positions that changed between two versions of an hour
+ *
+ * Query params (optional):
+ * - from: older version (default: the one before `to`)
+ * - to: newer version (default: latest)
+ */
+router.get('/snapshots/:timestamp/diff', async (req: Request, res: Response) => {
+  const timestamp = parseTimestamp(req, res);
+  if (!timestamp) return;
+
+  const parsed = DiffQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+
+  try {
+    const versions = await db.getSnapshotVersions(timestamp);
+    if (versions.length === 0) {
+      return res.status(404).json({
+        error: 'Snapshot not found',
+        message: `No versions stored for ${timestamp}`,
+      });
+    }
+
+    const toVersion = parsed.data.to ?? versions[versions.length - 1].version;
+    const fromVersion = parsed.data.from ?? toVersion - 1;
+    if (fromVersion < 1) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        message: `${timestamp} has a single version - nothing to compare against`,
+      });
+    }
+
+    const [fromData, toData] = await Promise.all([
+      db.getSnapshotVersion(timestamp, fromVersion),
+      db.getSnapshotVersion(timestamp, toVersion),
+    ]);
+    if (!fromData || !toData) {
+      return res.status(404).json({
+        error: 'Version not found',
+        message: `${timestamp} has versions ${versions.map(v => v.version).join(', ')}`,
+      });
+    }
+
+    res.json(diffSnapshots(timestamp, fromVersion, fromData, toVersion, toData));
+  } catch (error) {
+    console.error('Error diffing snapshot versions:', error);
+    res.status(500).json({
+      error: 'Failed to diff snapshot versions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+/**
+ * Update Stream API Routes
+ * Server-Sent Events for finished data jobs and new hours (see update.stream.ts)
+ */
+
+import { Router, Request, Response } from 'express';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { db, updateStream } from '../services';
+import { UpdateStreamEventType } from '../services/update.stream';
+import { UpdateStreamEvents } from '../types/balloon';
+
+const router = Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Reconnect delay the browser's EventSource uses after a drop
+const RETRY_MS = 10 * 1000;
+
+function writeEvent<K extends UpdateStreamEventType>(res: Response, type: K, data: UpdateStreamEvents[K], id?: number) {
+  res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * GET /api/stream
+ * text/event-stream of:
+ * - ready: on connect, with the newest hour (compare it to catch up after a reconnect)
+ * - new_hour: a newer hour was tracked, with its balloon count
+ * - job_finished / job_failed: an hourly update or refresh ended (counts, or the error)
+ *
+ * Not available on serverless deployments, where no process outlives a request; clients
+ * fall back to polling /api/settings
+ */
+router.get('/stream', async (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // nginx would otherwise buffer the stream
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const unsubscribe = updateStream.subscribe(message => writeEvent(res, message.type, message.data, message.id));
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+  console.log(`[Stream] Client connected (${updateStream.clientCount} total)`);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    console.log(`[Stream] Client disconnected (${updateStream.clientCount} total)`);
+  });
+
+  try {
+    writeEvent(res, 'ready', { latest_timestamp: await db.getLatestSnapshotTimestamp() });
+  } catch (error) {
+    console.error('Error opening update stream:', error);
+    writeEvent(res, 'ready', { latest_timestamp: null });
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+/**
+ * Tracker API Routes
+ * Tracker profiles and offline re-tracking for tuning
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+
+// OPTIMIZATION: Use singleton service instances for shared caching
+import { retrackService, trackerProfiles, activeTrackerProfile } from '../services';
+
+const router = Router();
+
+const RetrackRequestSchema = z.object({
+  profile: z.string().min(1),
+  namespace: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/).optional(),
+  hours: z.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/tracker/profiles
+ * List the available tracker profiles and the one used for live tracking
+ */
+router.get('/tracker/profiles', (req: Request, res: Response) => {
+  res.json({
+    active: activeTrackerProfile,
+    profiles: Object.fromEntries(trackerProfiles),
+  });
+});
+
+/**
+ * POST /api/tracker/retrack
+ * Re-run tracking over the stored snapshots with a profile into a scratch namespace
+ * and report the diff against the live tracks (ID switches, new tracks, mean confidence)
+ * Production IDs are not modified
+ *
+ * Body: { profile: string, namespace?: string, hours?: number }
+ */
+router.post('/tracker/retrack', async (req: Request, res: Response) => {
+  const parsed = RetrackRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: z.prettifyError(parsed.error),
+    });
+  }
+
+  const { profile, namespace, hours } = parsed.data;
+  if (!trackerProfiles.has(profile)) {
+    return res.status(400).json({
+      error: 'Unknown profile',
+      message: `No tracker profile named "${profile}" (available: ${[...trackerProfiles.keys()].join(', ')})`,
+    });
+  }
+
+  try {
+    const report = await retrackService.retrack(profile, { namespace, hours });
+    res.json(report);
+  } catch (error) {
+    console.error(`Error re-tracking with profile ${profile}:`, error);
+    res.status(500).json({
+      error: 'Failed to re-track',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
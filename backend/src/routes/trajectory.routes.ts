@@ -4,17 +4,44 @@
  */
 
 import express from 'express';
+import { z } from 'zod';
 import { TrajectoryService } from '../services/trajectory.service';
 import { TrajectoryResponse, BalloonDataPoint } from '../types/balloon';
 import { WindService } from '../services/wind.service';
+import { HOUR_MS, floorToHour, hourOffsetOf, resolveHour } from '../services/time.window';
+import { isoTimestamp } from '../services/query.schemas';
 
 // OPTIMIZATION: Use singleton service instances for shared caching
-import { windborneService, tracker, db } from '../services';
+import { tracker, db } from '../services';
 
 const router = express.Router();
 const trajectoryService = new TrajectoryService(db);
 const windService = new WindService(db);
 
+// History handed to the predictor: the day before the reference hour
+const HISTORY_WINDOW_HOURS = 24;
+
+const PredictionQuerySchema = z.object({
+  hours: z.coerce.number().int().min(1).max(12).default(3),
+  method: z.enum(['persistence', 'wind', 'hybrid']).default('hybrid'),
+  // Predict from the reference hour: at wins over hour_offset (relative alias)
+  at: isoTimestamp.optional(),
+  hour_offset: z.coerce.number().int().min(0).optional(),
+});
+
+const FleetPredictionQuerySchema = PredictionQuerySchema.extend({
+  limit: z.coerce.number().int().positive().default(10),
+});
+
+/**
+ * A balloon's positions in the history window up to the reference hour, newest first
+ */
+async function historyUpTo(balloonId: string, referenceTimestamp: string): Promise<BalloonDataPoint[]> {
+  const from = new Date(new Date(referenceTimestamp).getTime() - HISTORY_WINDOW_HOURS * HOUR_MS).toISOString();
+  const positions = await tracker.getBalloonTrajectoryFromDB(balloonId, { from, to: referenceTimestamp });
+  return positions.reverse();
+}
+
 /**
  * GET /api/trajectory/wind-field
  * Get wind data for a grid of locations at a specific altitude/pressure level
@@ -131,30 +158,27 @@ router.get('/wind-field', async (req, res) => {
  *
  * Query params:
  * - hours: prediction horizon (default: 3)
- * - method: prediction method - 'persistence', 'wind', 'hybrid' (default: 'persistence' to avoid rate limits)
+ * - method: prediction method - 'persistence', 'wind', 'hybrid' (default: 'hybrid')
+ * - at: ISO timestamp to predict from (floored to the hour; default: current hour)
+ * - hour_offset: alias for at relative to the current hour (0=current, 1=1hr ago, etc)
  */
 router.get('/:balloonId', async (req, res) => {
+  const parsed = PredictionQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+    return;
+  }
+  const q = parsed.data;
+
   try {
     const { balloonId } = req.params;
-    const predictionHours = parseInt(req.query.hours as string) || 3;
-    const method = (req.query.method as 'persistence' | 'wind' | 'hybrid') || 'hybrid';
-
-    // Validate prediction hours
-    if (predictionHours < 1 || predictionHours > 12) {
-      res.status(400).json({
-        error: 'Invalid prediction hours. Must be between 1 and 12.',
-      });
-      return;
-    }
-
-    // Get balloon data from windborne service
-    const rawData = await windborneService.getBalloonData();
-    const trackedData = await tracker.processHistoricalData(rawData);
+    const referenceTimestamp = resolveHour({ timestamp: q.at, hour_offset: q.hour_offset });
 
-    // Find the balloon's historical positions
-    const balloonPositions = trackedData
-      .filter((b: BalloonDataPoint) => b.id === balloonId)
-      .sort((a: BalloonDataPoint, b: BalloonDataPoint) => a.hour_offset - b.hour_offset); // Oldest to newest
+    // The balloon's positions up to the reference hour, newest first
+    const balloonPositions = await historyUpTo(balloonId, referenceTimestamp);
 
     if (balloonPositions.length === 0) {
       res.status(404).json({
@@ -163,19 +187,20 @@ router.get('/:balloonId', async (req, res) => {
       return;
     }
 
-    // Get the most recent position (lowest hour_offset)
+    // Predict from the most recent position at or before the reference hour
     const currentPosition = balloonPositions[0];
 
     // Generate trajectory prediction
     const trajectory = await trajectoryService.predictTrajectory(
       currentPosition,
       balloonPositions,
-      predictionHours,
-      method
+      q.hours,
+      q.method
     );
 
     const response: TrajectoryResponse = {
       balloon_id: balloonId,
+      reference_timestamp: referenceTimestamp,
       trajectory,
     };
 
@@ -195,41 +220,53 @@ router.get('/:balloonId', async (req, res) => {
  * Query params:
  * - limit: number of balloons to return trajectories for (default: 10)
  * - hours: prediction horizon (default: 3)
- * - method: prediction method (default: 'persistence' to avoid rate limits)
+ * - method: prediction method (default: 'hybrid')
+ * - at: ISO timestamp of the hour to predict from (floored to the hour; default: latest stored hour)
+ * - hour_offset: alias for at relative to the current hour
  */
 router.get('/', async (req, res) => {
-  try {
-    const limit = parseInt(req.query.limit as string) || 10;
-    const predictionHours = parseInt(req.query.hours as string) || 3;
-    const method = (req.query.method as 'persistence' | 'wind' | 'hybrid') || 'hybrid';
-
-    // Get balloon data from windborne service
-    const rawData = await windborneService.getBalloonData();
-    const trackedData = await tracker.processHistoricalData(rawData);
+  const parsed = FleetPredictionQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: 'Invalid query',
+      message: z.prettifyError(parsed.error),
+    });
+    return;
+  }
+  const q = parsed.data;
 
-    // Get unique active balloons (lowest hour_offset available)
-    const minHourOffset = Math.min(...trackedData.map((b: BalloonDataPoint) => b.hour_offset));
-    const activeBalloons = trackedData
-      .filter((b: BalloonDataPoint) => b.hour_offset === minHourOffset && b.status === 'active')
-      .slice(0, limit);
+  try {
+    // Without an explicit hour, use the newest hour with data (it may trail the clock)
+    const latestTimestamp = await db.getLatestSnapshotTimestamp();
+    const referenceTimestamp = q.at !== undefined || q.hour_offset !== undefined || !latestTimestamp
+      ? resolveHour({ timestamp: q.at, hour_offset: q.hour_offset })
+      : floorToHour(latestTimestamp);
+
+    const activeBalloons = await tracker.queryBalloons({
+      timestamp: referenceTimestamp,
+      statuses: ['active'],
+      limit: q.limit,
+    });
 
     if (activeBalloons.length === 0) {
-      res.json({ trajectories: [] });
+      res.json({
+        reference_timestamp: referenceTimestamp,
+        reference_hour_offset: hourOffsetOf(referenceTimestamp),
+        trajectories: [],
+      });
       return;
     }
 
     // Generate trajectories for each balloon
     const trajectories = await Promise.all(
       activeBalloons.map(async (balloon: BalloonDataPoint) => {
-        const historicalPositions = trackedData
-          .filter((b: BalloonDataPoint) => b.id === balloon.id)
-          .sort((a: BalloonDataPoint, b: BalloonDataPoint) => a.hour_offset - b.hour_offset);
+        const historicalPositions = await historyUpTo(balloon.id, referenceTimestamp);
 
         const trajectory = await trajectoryService.predictTrajectory(
           balloon,
           historicalPositions,
-          predictionHours,
-          method
+          q.hours,
+          q.method
         );
 
         return {
@@ -239,7 +276,11 @@ router.get('/', async (req, res) => {
       })
     );
 
-    res.json({ trajectories });
+    res.json({
+      reference_timestamp: referenceTimestamp,
+      reference_hour_offset: hourOffsetOf(referenceTimestamp),
+      trajectories,
+    });
   } catch (error) {
     console.error('Error generating trajectories:', error);
     res.status(500).json({
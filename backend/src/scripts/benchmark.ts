@@ -0,0 +1,124 @@
+/**
+ * Tracker Benchmark CLI
+ * Generates a synthetic constellation, runs the tracker over it and prints metrics as JSON
+ *
+ * Usage: npm run benchmark -- [options]
+ *   --balloons <n>      Initial fleet size (default 1000)
+ *   --hours <n>         Hours to simulate (default 24)
+ *   --seed <n>          RNG seed (default 42)
+ *   --dropout <rate>    Chance a balloon is missing from an hour file (default 0.03)
+ *   --noise <km>        Position noise, 1-sigma (default 2)
+ *   --crossings <n>     Forced path crossings (default 25)
+ *   --profile <name>    Tracker profile (default 'default', see TRACKER_PROFILES_PATH)
+ *   --wind <file>       Recorded wind samples (WindData[] JSON) instead of the analytic field
+ *   --wind-prediction   Give the tracker the simulation's wind field as wind priors for new tracks
+ *   --smoothing         Run the fixed-lag smoother after each hour and score the corrected tracks
+ *   --out <dir>         Also write the hour files (00.json = newest) and truth.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ConstellationSimulator,
+  DEFAULT_SIMULATION_OPTIONS,
+  SimulationOptions,
+  analyticWindField,
+  createRecordedWindField,
+  createSimulatedWindService,
+} from '../services/simulator.service';
+import { TrackerBenchmark } from '../services/benchmark.service';
+import { DEFAULT_PROFILE_NAME, getTrackerProfile, loadTrackerProfiles } from '../services/tracker.profiles';
+
+// Flags that take no value
+const BOOLEAN_FLAGS = new Set(['wind-prediction', 'smoothing']);
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const name = argv[i].slice(2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      args.set(name, 'true');
+    } else {
+      args.set(name, argv[i + 1] ?? '');
+      i++;
+    }
+  }
+  return args;
+}
+
+function numberArg(args: Map<string, string>, name: string): number | undefined {
+  if (!args.has(name)) return undefined;
+  const value = Number(args.get(name));
+  if (isNaN(value)) {
+    throw new Error(`--${name} must be a number`);
+  }
+  return value;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const options: Partial<SimulationOptions> = {};
+  const balloons = numberArg(args, 'balloons');
+  const hours = numberArg(args, 'hours');
+  const seed = numberArg(args, 'seed');
+  const dropout = numberArg(args, 'dropout');
+  const noise = numberArg(args, 'noise');
+  const crossings = numberArg(args, 'crossings');
+  if (balloons !== undefined) options.balloons = balloons;
+  if (hours !== undefined) options.hours = hours;
+  if (seed !== undefined) options.seed = seed;
+  if (dropout !== undefined) options.dropoutRate = dropout;
+  if (noise !== undefined) options.positionNoiseKm = noise;
+  if (crossings !== undefined) options.crossings = crossings;
+  if (args.has('wind')) {
+    options.windField = createRecordedWindField(JSON.parse(fs.readFileSync(args.get('wind')!, 'utf-8')));
+  }
+
+  const profileName = args.get('profile') || DEFAULT_PROFILE_NAME;
+  const profile = getTrackerProfile(loadTrackerProfiles(), profileName);
+
+  // Keep stdout pure JSON - tracker progress logs go to stderr
+  console.log = console.error;
+
+  const constellation = new ConstellationSimulator(options).generate();
+
+  if (args.has('out')) {
+    const outDir = args.get('out')!;
+    fs.mkdirSync(outDir, { recursive: true });
+    const newestFirst = [...constellation.hours].reverse();
+    newestFirst.forEach((hour, offset) => {
+      fs.writeFileSync(path.join(outDir, `${String(offset).padStart(2, '0')}.json`), JSON.stringify(hour.data));
+    });
+    fs.writeFileSync(
+      path.join(outDir, 'truth.json'),
+      JSON.stringify(Object.fromEntries(constellation.hours.map(h => [h.timestamp, h.truth])))
+    );
+    console.error(`Wrote ${constellation.hours.length} hour files to ${outDir}`);
+  }
+
+  // The tracker sees the same wind field the balloons drift in (no per-balloon shear)
+  const windService = args.has('wind-prediction')
+    ? createSimulatedWindService(
+        options.windField ?? analyticWindField,
+        options.startTimestamp ?? DEFAULT_SIMULATION_OPTIONS.startTimestamp
+      )
+    : undefined;
+
+  const smoothing = args.has('smoothing');
+  const metrics = await new TrackerBenchmark(profile, windService, { smoothing }).run(constellation);
+
+  process.stdout.write(JSON.stringify({
+    profile: profileName,
+    wind_prediction: windService !== undefined,
+    smoothing,
+    simulation: { ...constellation.options, truth_ids: constellation.truthIds },
+    metrics,
+  }, null, 2) + '\n');
+}
+
+main().catch((error) => {
+  console.error('Benchmark failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+/**
+ * Database Conformance CLI
+ * Runs the shared IDatabase checks (see database.conformance.ts) against each adapter
+ *
+ * SQLite and the in-memory adapter get a fresh database per check. Postgres only runs when
+ * CONFORMANCE_DATABASE_URL is set - never DATABASE_URL, since every check truncates all
+ * tables of that database first. Point it at a scratch database.
+ *
+ * Usage: npm run conformance -- [options]
+ *   --adapter <name>    sqlite, memory, postgres or all (default: all)
+ */
+
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { CONFORMANCE_RETENTION, ConformanceResult, ConformanceTarget, runConformanceSuite } from '../services/database.conformance';
+import { DatabaseService } from '../services/database.service';
+import { MemoryService } from '../services/database.memory';
+import { PostgresService } from '../services/database.postgres';
+
+dotenv.config();
+
+const ADAPTERS = ['sqlite', 'memory', 'postgres'];
+
+function sqliteTarget(): ConformanceTarget {
+  return {
+    name: 'sqlite',
+    create: async () => {
+      const db = new DatabaseService({ sqlitePath: ':memory:', autoMigrate: false, retention: CONFORMANCE_RETENTION });
+      await db.runMigrations();
+      return db;
+    },
+  };
+}
+
+function memoryTarget(): ConformanceTarget {
+  return {
+    name: 'memory',
+    create: async () => new MemoryService({ memorySnapshotPath: '', retention: CONFORMANCE_RETENTION }),
+  };
+}
+
+/**
+ * One adapter (and pool) for every check, with all data tables emptied in between
+ */
+function postgresTarget(connectionString: string): { target: ConformanceTarget; close: () => Promise<void> } {
+  const admin = new Pool({ connectionString });
+  const db = new PostgresService({ connectionString, autoMigrate: false, retention: CONFORMANCE_RETENTION });
+
+  return {
+    target: {
+      name: 'postgres',
+      create: async () => {
+        await db.runMigrations();
+        const { rows } = await admin.query<{ tablename: string }>(
+          `SELECT tablename FROM pg_tables WHERE schemaname = current_schema() AND tablename <> 'schema_migrations'`
+        );
+        if (rows.length > 0) {
+          await admin.query(`TRUNCATE ${rows.map(r => `"${r.tablename}"`).join(', ')} RESTART IDENTITY`);
+        }
+        return db;
+      },
+    },
+    close: () => admin.end(),
+  };
+}
+
+function printResults(results: ConformanceResult[]) {
+  for (const r of results) {
+    console.log(`${r.passed ? '✓' : '✗'} [${r.target}] ${r.check} (${r.duration_ms}ms)`);
+    if (r.error) console.log(`    ${r.error.split('\n').join('\n    ')}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const adapterIndex = args.indexOf('--adapter');
+  const adapter = adapterIndex >= 0 ? args[adapterIndex + 1] : 'all';
+  if (adapter !== 'all' && !ADAPTERS.includes(adapter)) {
+    throw new Error(`Usage: npm run conformance -- [--adapter ${[...ADAPTERS, 'all'].join('|')}]`);
+  }
+
+  const results: ConformanceResult[] = [];
+
+  if (adapter === 'all' || adapter === 'sqlite') {
+    results.push(...await runConformanceSuite(sqliteTarget()));
+  }
+
+  if (adapter === 'all' || adapter === 'memory') {
+    results.push(...await runConformanceSuite(memoryTarget()));
+  }
+
+  if (adapter === 'all' || adapter === 'postgres') {
+    const connectionString = process.env.CONFORMANCE_DATABASE_URL;
+    if (!connectionString) {
+      if (adapter === 'postgres') throw new Error('CONFORMANCE_DATABASE_URL is not set');
+      console.log('Skipping postgres: CONFORMANCE_DATABASE_URL is not set');
+    } else {
+      const postgres = postgresTarget(connectionString);
+      try {
+        results.push(...await runConformanceSuite(postgres.target));
+      } finally {
+        await postgres.close();
+      }
+    }
+  }
+
+  printResults(results);
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n${results.length - failed} passed, ${failed} failed`);
+  if (failed > 0) process.exit(1);
+}
+
+main().then(() => {
+  // The Postgres pool keeps the process alive otherwise
+  process.exit(0);
+}).catch((error) => {
+  console.error('Conformance run failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Schema Migration CLI
+ * Applies or lists the numbered schema migrations (see database.migrations.ts) on the
+ * configured database (DATABASE_TYPE / DATABASE_URL, as the server uses)
+ *
+ * Usage: npm run migrate -- [command] [options]
+ *   up                  Apply pending migrations (default)
+ *   status              List every migration and when it was applied
+ *   --dry-run           With up: print the SQL of the pending migrations without running it
+ */
+
+import dotenv from 'dotenv';
+import { createDatabase } from '../services/database.factory';
+
+dotenv.config();
+
+const COMMANDS = new Set(['up', 'status']);
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const positional = args.filter(arg => !arg.startsWith('--'));
+  const command = positional[0] ?? 'up';
+  if (positional.length > 1 || !COMMANDS.has(command)) {
+    throw new Error('Usage: npm run migrate -- [up|status] [--dry-run]');
+  }
+
+  const db = createDatabase({ autoMigrate: false });
+
+  if (command === 'status') {
+    const status = await db.getMigrationStatus();
+    for (const m of status) {
+      console.log(`${String(m.version).padStart(3)}  ${m.name.padEnd(24)} ${m.applied_at ?? 'pending'}`);
+    }
+    console.log(`${status.filter(m => !m.applied_at).length} pending of ${status.length}`);
+    return;
+  }
+
+  const { migrations } = await db.runMigrations({ dryRun });
+  if (migrations.length === 0) {
+    console.log('Schema is up to date');
+    return;
+  }
+
+  for (const m of migrations) {
+    console.log(`${dryRun ? 'Would apply' : 'Applied'} ${m.version}_${m.name}`);
+    if (dryRun) {
+      for (const statement of m.statements) {
+        console.log(`  ${statement.replace(/\s+/g, ' ').trim()};`);
+      }
+    }
+  }
+}
+
+main().then(() => {
+  // The Postgres pool keeps the process alive otherwise
+  process.exit(0);
+}).catch((error) => {
+  console.error('Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Capture Recorder CLI
+ * Saves the current 24 hour files (00.json ... 23.json) from the live API into a capture
+ * folder, for replay with BALLOON_SOURCE=directory
+ *
+ * Usage: npm run record -- <dir> [options]
+ *   --capture <name>    Capture folder name (default: current hour, e.g. 2025-01-01T06)
+ *   --base <url>        API base (default WINDBORNE_API_BASE or the treasure endpoint)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_WINDBORNE_API_BASE, HttpBalloonSource } from '../services/balloon.source';
+
+const HOURS = 24;
+
+function parseArgs(argv: string[]): { positional: string[]; flags: Map<string, string> } {
+  const positional: string[] = [];
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      flags.set(argv[i].slice(2), argv[i + 1] ?? '');
+      i++;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  return { positional, flags };
+}
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  if (positional.length !== 1) {
+    throw new Error('Usage: npm run record -- <dir> [--capture <name>] [--base <url>]');
+  }
+
+  const capture = flags.get('capture') || new Date().toISOString().slice(0, 13);
+  const captureDir = path.join(positional[0], capture);
+  const source = new HttpBalloonSource(flags.get('base') || process.env.WINDBORNE_API_BASE || DEFAULT_WINDBORNE_API_BASE);
+
+  fs.mkdirSync(captureDir, { recursive: true });
+
+  let saved = 0;
+  for (let hourOffset = 0; hourOffset < HOURS; hourOffset++) {
+    const file = path.join(captureDir, `${String(hourOffset).padStart(2, '0')}.json`);
+    try {
+      // Stored as served (corrupt entries included) so replays see exactly what the API returned
+      fs.writeFileSync(file, JSON.stringify(await source.fetchHour(hourOffset)));
+      saved++;
+    } catch (error) {
+      console.error(`Skipping ${path.basename(file)}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`Recorded ${saved}/${HOURS} hour files to ${captureDir}`);
+}
+
+main().catch((error) => {
+  console.error('Recording failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+/**
+ * Tracker Regression CLI
+ * Runs the fixed tracker scenarios (see tracker.regression.ts) and fails on any regression
+ *
+ * Usage: npm run regression
+ */
+
+import { runTrackerRegressions } from '../services/tracker.regression';
+
+async function main() {
+  // Keep the report readable - tracker progress logs go to stderr
+  const log = console.log;
+  console.log = console.error;
+
+  const results = await runTrackerRegressions();
+
+  for (const r of results) {
+    log(`${r.passed ? '✓' : '✗'} ${r.check} (${r.duration_ms}ms)`);
+    if (r.error) log(`    ${r.error.split('\n').join('\n    ')}`);
+  }
+  const failed = results.filter(r => !r.passed).length;
+  log(`\n${results.length - failed} passed, ${failed} failed`);
+  if (failed > 0) process.exit(1);
+}
+
+main().then(() => {
+  // Timers left by the services under test keep the process alive otherwise
+  process.exit(0);
+}).catch((error) => {
+  console.error('Regression run failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+/**
+ * Backfill Planner
+ * Finds hours of the 24-hour window that have no stored snapshot, and retries flaky fetches
+ *
+ * WindborneService fetches only the missing hours (with retries and exponential backoff)
+ * and re-runs tracking from the earliest repaired hour forward, instead of re-fetching and
+ * re-tracking the whole window.
+ */
+
+import { HOUR_MS } from './time.window';
+
+export const BACKFILL_WINDOW_HOURS = 24;
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 2000, // 2s, 4s, 8s between attempts
+};
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+export interface MissingHour {
+  timestamp: string;
+  hour_offset: number; // 0 = current hour (00.json)
+}
+
+export interface BackfillPlan {
+  expected: string[];     // Window timestamps, newest first
+  missing: MissingHour[]; // Oldest first
+}
+
+/**
+ * Timestamps of the window ending at the current hour, newest first (index = hour offset)
+ */
+export function expectedHourTimestamps(currentTimestamp: string, hours: number = BACKFILL_WINDOW_HOURS): string[] {
+  const currentMs = new Date(currentTimestamp).getTime();
+  return Array.from({ length: hours }, (_, offset) => new Date(currentMs - offset * HOUR_MS).toISOString());
+}
+
+/**
+ * Compare stored snapshot timestamps against the expected window
+ *
+ * @param currentTimestamp - Current hour (ISO, top of hour)
+ * @param storedTimestamps - Timestamps that already have a snapshot (any order, may include older hours)
+ */
+export function planBackfill(currentTimestamp: string, storedTimestamps: string[]): BackfillPlan {
+  const expected = expectedHourTimestamps(currentTimestamp);
+  const stored = new Set(storedTimestamps);
+
+  const missing = expected
+    .map((timestamp, hour_offset) => ({ timestamp, hour_offset }))
+    .filter(hour => !stored.has(hour.timestamp))
+    .reverse();
+
+  return { expected, missing };
+}
+
+/**
+ * Run an attempt until it succeeds, waiting baseDelayMs * 2^(n-1) after the n-th failure
+ * Returns the last result either way, so the caller can report why it failed
+ *
+ * @param attempt - One try (should not throw; failures are signalled through the result)
+ * @param succeeded - Whether a result is good enough to stop retrying
+ */
+export async function withRetry<T>(
+  attempt: (attemptNumber: number) => Promise<T>,
+  succeeded: (result: T) => boolean,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<{ result: T; attempts: number }> {
+  let result = await attempt(1);
+  let attempts = 1;
+
+  while (!succeeded(result) && attempts < options.maxAttempts) {
+    const delay = options.baseDelayMs * 2 ** (attempts - 1);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    attempts++;
+    result = await attempt(attempts);
+  }
+
+  return { result, attempts };
+}
@@ -0,0 +1,204 @@
+/**
+ * Balloon Data Sources
+ * Where the hourly constellation files (00.json = current hour ... 23.json = 23 hours ago) come from
+ *
+ * - http: the live Windborne treasure endpoint (WINDBORNE_API_BASE)
+ * - directory: recorded files on disk (BALLOON_SOURCE_DIR), for offline development and
+ *   replaying incidents. Either the files sit directly in the directory, or there is one
+ *   folder per captured hour (e.g. 2025-01-01T06/00.json ... 23.json). Captures are replayed
+ *   in name order, one per wall-clock hour, starting at BALLOON_SOURCE_CAPTURE (default: oldest)
+ * - memory: hours set in code, for tests and scripts
+ *
+ * Sources return the payload as-is; WindborneService validates and filters it.
+ * A failed or missing hour rejects, and the caller treats it as an empty hour.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { HOUR_MS } from './time.window';
+
+export const DEFAULT_WINDBORNE_API_BASE = 'https://a.windbornesystems.com/treasure';
+
+export interface BalloonDataSource {
+  readonly name: string; // Shown in logs, e.g. "http (https://...)"
+  /**
+   * Raw payload of one hour file
+   * @param hourOffset - 0 for current (00.json), 1 for 1 hour ago (01.json), etc.
+   */
+  fetchHour(hourOffset: number): Promise<unknown>;
+  /**
+   * Where fetchHour(hourOffset) reads from right now (URL or file path), stored with the snapshot
+   */
+  locate(hourOffset: number): string;
+}
+
+function hourFileName(hourOffset: number): string {
+  return `${hourOffset.toString().padStart(2, '0')}.json`;
+}
+
+/**
+ * Live Windborne treasure endpoint
+ */
+export class HttpBalloonSource implements BalloonDataSource {
+  readonly name: string;
+  private baseUrl: string;
+
+  constructor(baseUrl: string = DEFAULT_WINDBORNE_API_BASE) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = `http (${this.baseUrl})`;
+  }
+
+  locate(hourOffset: number): string {
+    return `${this.baseUrl}/${hourFileName(hourOffset)}`;
+  }
+
+  async fetchHour(hourOffset: number): Promise<unknown> {
+    const url = this.locate(hourOffset);
+
+    try {
+      const response = await axios.get<unknown>(url, {
+        timeout: 30000, // Increased to 30s for serverless cold starts
+        validateStatus: (status) => status >= 200 && status < 300, // Accept all 2xx codes
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const details = [
+          error.code && `code ${error.code}`,
+          error.response && `HTTP ${error.response.status}`,
+        ].filter(Boolean).join(', ');
+        throw new Error(`${url}: ${error.message}${details ? ` (${details})` : ''}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Recorded hour files on disk
+ */
+export class DirectoryBalloonSource implements BalloonDataSource {
+  readonly name: string;
+  private directory: string;
+  private captures: string[]; // Capture folder names in replay order (empty = flat layout)
+  private startIndex: number;
+  private startedAt: number;
+  private now: () => number;
+
+  constructor(directory: string, options: { capture?: string; now?: () => number } = {}) {
+    this.directory = path.resolve(directory);
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+
+    if (!fs.existsSync(this.directory) || !fs.statSync(this.directory).isDirectory()) {
+      throw new Error(`Balloon source directory not found: ${this.directory}`);
+    }
+
+    const entries = fs.readdirSync(this.directory, { withFileTypes: true });
+    const isFlat = entries.some(e => e.isFile() && e.name === hourFileName(0));
+    this.captures = isFlat
+      ? []
+      : entries.filter(e => e.isDirectory()).map(e => e.name).sort();
+
+    if (!isFlat && this.captures.length === 0) {
+      throw new Error(`Balloon source directory has no ${hourFileName(0)} and no capture folders: ${this.directory}`);
+    }
+
+    this.startIndex = 0;
+    if (options.capture) {
+      this.startIndex = this.captures.indexOf(options.capture);
+      if (this.startIndex === -1) {
+        throw new Error(`Unknown capture "${options.capture}" in ${this.directory}`);
+      }
+    }
+
+    this.name = isFlat
+      ? `directory (${this.directory})`
+      : `directory (${this.directory}, ${this.captures.length} captures from ${this.captures[this.startIndex]})`;
+  }
+
+  /**
+   * Capture folder being replayed right now (null for the flat layout)
+   * Advances one capture per elapsed hour and stays on the last one
+   */
+  getCurrentCapture(): string | null {
+    if (this.captures.length === 0) return null;
+    const elapsedHours = Math.floor((this.now() - this.startedAt) / HOUR_MS);
+    return this.captures[Math.min(this.startIndex + elapsedHours, this.captures.length - 1)];
+  }
+
+  locate(hourOffset: number): string {
+    const capture = this.getCurrentCapture();
+    return capture
+      ? path.join(this.directory, capture, hourFileName(hourOffset))
+      : path.join(this.directory, hourFileName(hourOffset));
+  }
+
+  async fetchHour(hourOffset: number): Promise<unknown> {
+    const file = this.locate(hourOffset);
+    const contents = await fs.promises.readFile(file, 'utf-8');
+    try {
+      return JSON.parse(contents);
+    } catch (error) {
+      throw new Error(`${file}: invalid JSON (${error instanceof Error ? error.message : error})`);
+    }
+  }
+}
+
+/**
+ * Hours held in memory
+ */
+export class InMemoryBalloonSource implements BalloonDataSource {
+  readonly name = 'memory';
+  private hours = new Map<number, unknown>();
+
+  constructor(hours: Record<number, unknown> = {}) {
+    for (const [hourOffset, data] of Object.entries(hours)) {
+      this.hours.set(Number(hourOffset), data);
+    }
+  }
+
+  setHour(hourOffset: number, data: unknown): void {
+    this.hours.set(hourOffset, data);
+  }
+
+  clear(): void {
+    this.hours.clear();
+  }
+
+  locate(hourOffset: number): string {
+    return `memory://${hourFileName(hourOffset)}`;
+  }
+
+  async fetchHour(hourOffset: number): Promise<unknown> {
+    if (!this.hours.has(hourOffset)) {
+      throw new Error(`No data for hour ${hourFileName(hourOffset)}`);
+    }
+    return this.hours.get(hourOffset);
+  }
+}
+
+/**
+ * Factory function to create the configured balloon data source
+ * BALLOON_SOURCE selects http (default), directory or memory
+ */
+export function createBalloonDataSource(): BalloonDataSource {
+  const sourceType = process.env.BALLOON_SOURCE || 'http';
+
+  switch (sourceType) {
+    case 'http':
+      return new HttpBalloonSource(process.env.WINDBORNE_API_BASE || DEFAULT_WINDBORNE_API_BASE);
+    case 'directory':
+      if (!process.env.BALLOON_SOURCE_DIR) {
+        throw new Error('BALLOON_SOURCE_DIR must be set when BALLOON_SOURCE=directory');
+      }
+      return new DirectoryBalloonSource(process.env.BALLOON_SOURCE_DIR, {
+        capture: process.env.BALLOON_SOURCE_CAPTURE || undefined,
+      });
+    case 'memory':
+      return new InMemoryBalloonSource();
+    default:
+      throw new Error(`Unknown BALLOON_SOURCE "${sourceType}" (expected http, directory or memory)`);
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Tracker Accuracy Benchmark
+ * Runs BalloonTracker over a synthetic constellation and scores it against ground truth
+ *
+ * Every reported observation has exactly one ground-truth ID and the tracker assigns
+ * every observation an ID, so there are no misses or false positives - the MOTA-style
+ * metrics focus on identity errors:
+ * - id_switches: consecutive observations of a balloon linked to different track IDs
+ * - fragmentations: extra track IDs a balloon's trajectory was split into
+ * - false_new_tracks: new tracks started for balloons that had already been observed
+ * - false_continuations: newly launched balloons attached to an existing track
+ * - mota: 1 - id_switches / observations
+ *
+ * With smoothing, the fixed-lag smoother runs after every hour (as in the hourly update, on an
+ * in-memory database) and the tracks are scored after its corrections.
+ */
+
+import { BalloonDataPoint, TrackCorrection } from '../types/balloon';
+import { MemoryService } from './database.memory';
+import { TrackSmoother } from './smoother.service';
+import { BalloonTracker } from './tracker.service';
+import { DEFAULT_TRACKER_PROFILE, TrackerProfile } from './tracker.profiles';
+import { SyntheticConstellation } from './simulator.service';
+import { WindService } from './wind.service';
+
+export interface BenchmarkMetrics {
+  hours: number;
+  observations: number;
+  truth_balloons: number;     // Balloons observed at least once
+  tracks: number;             // Track IDs assigned by the tracker
+  id_switches: number;
+  fragmentations: number;
+  false_new_tracks: number;
+  false_continuations: number;
+  mota: number;
+  mean_confidence_correct: number;   // Mean confidence of links that were right
+  mean_confidence_incorrect: number; // Mean confidence of links that were wrong
+  runtime_ms_per_hour: { mean: number; max: number; total: number };
+}
+
+export class TrackerBenchmark {
+  private profile: TrackerProfile;
+  private windService?: Pick<WindService, 'getWindAtMultipleLocations'>;
+  private smoothing: boolean;
+
+  /**
+   * @param windService - Optional wind source for the tracker's wind priors on new tracks
+   * @param options.smoothing - Run the fixed-lag smoother after each hour
+   */
+  constructor(
+    profile: TrackerProfile = DEFAULT_TRACKER_PROFILE,
+    windService?: Pick<WindService, 'getWindAtMultipleLocations'>,
+    options: { smoothing?: boolean } = {}
+  ) {
+    this.profile = profile;
+    this.windService = windService;
+    this.smoothing = options.smoothing ?? false;
+  }
+
+  private observationKey(lat: number, lon: number, alt: number): string {
+    return `${lat},${lon},${alt}`;
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
+
+  /**
+   * Track the constellation hour by hour (oldest first) and score the result
+   */
+  async run(constellation: SyntheticConstellation): Promise<BenchmarkMetrics> {
+    // In-memory only: the benchmark tracker never touches the database
+    const tracker = new BalloonTracker(undefined, {
+      profile: this.profile,
+      persist: false,
+      windService: this.windService,
+    });
+    // The smoother corrects stored tracks, so a smoothed run also keeps them in an in-memory database
+    const db = this.smoothing ? new MemoryService({ memorySnapshotPath: '' }) : null;
+    const smoother = db ? new TrackSmoother(db, { profile: this.profile }) : null;
+
+    const historyByBalloonId = new Map<string, BalloonDataPoint[]>();
+    let previousHourData: BalloonDataPoint[] = [];
+    const runtimes: number[] = [];
+    const observedByHour: BalloonDataPoint[][] = [];
+
+    for (const hour of constellation.hours) {
+      const currentHourData: BalloonDataPoint[] = hour.data.map((raw, index) => ({
+        id: `temp_${index}`,
+        latitude: raw[0],
+        longitude: raw[1],
+        altitude_km: raw[2],
+        timestamp: hour.timestamp,
+        hour_offset: 0,
+        confidence: 1.0,
+        status: 'active' as const,
+      }));
+
+      const start = Date.now();
+      const tracked = await tracker.trackBalloons(currentHourData, previousHourData, historyByBalloonId);
+      let corrections: TrackCorrection[] = [];
+      if (db && smoother) {
+        await db.saveTrackedBalloons(tracked);
+        corrections = await smoother.smoothWindow(hour.timestamp);
+      }
+      runtimes.push(Date.now() - start);
+
+      const observed = tracked.filter(b => b.status !== 'lost');
+      for (const balloon of observed) {
+        const history = historyByBalloonId.get(balloon.id) || [];
+        history.push(balloon);
+        if (history.length > 3) {
+          history.shift();
+        }
+        historyByBalloonId.set(balloon.id, history);
+      }
+      previousHourData = tracked;
+      observedByHour.push(observed);
+
+      if (db && corrections.length > 0) {
+        // Corrections rewrote the last few hours: continue from the stored tracks
+        previousHourData = await db.getTrackedBalloonsAtTimestamp(hour.timestamp);
+        const correctedIds = new Set(corrections.flatMap(c => c.reassignments.flatMap(r => [r.old_id, r.new_id])));
+        for (const id of correctedIds) {
+          const trajectory = (await db.getBalloonTrajectory(id)).filter(b => b.status !== 'lost');
+          historyByBalloonId.set(id, trajectory.slice(-3));
+        }
+      }
+    }
+
+    // Smoothed tracks are scored as stored, after every correction
+    const scoredHours = db
+      ? await Promise.all(constellation.hours.map(async hour =>
+          (await db.getTrackedBalloonsAtTimestamp(hour.timestamp)).filter(b => b.status !== 'lost')
+        ))
+      : observedByHour;
+
+    const lastTrackByTruth = new Map<string, string>();
+    const tracksByTruth = new Map<string, Set<string>>();
+    const seenTracks = new Set<string>();
+    const confidenceCorrect: number[] = [];
+    const confidenceIncorrect: number[] = [];
+    let observations = 0;
+    let idSwitches = 0;
+    let falseNewTracks = 0;
+    let falseContinuations = 0;
+
+    constellation.hours.forEach((hour, h) => {
+      const truthByKey = new Map<string, string>();
+      hour.data.forEach((raw, index) => {
+        truthByKey.set(this.observationKey(raw[0], raw[1], raw[2]), hour.truth[index]);
+      });
+
+      // Score this hour's assignments against ground truth
+      for (const balloon of scoredHours[h]) {
+        const truth = truthByKey.get(this.observationKey(balloon.latitude, balloon.longitude, balloon.altitude_km));
+        if (!truth) continue;
+        observations++;
+
+        const lastTrack = lastTrackByTruth.get(truth);
+        const isNewTrack = !seenTracks.has(balloon.id);
+
+        if (lastTrack === undefined) {
+          // First sighting of this balloon - should start a new track
+          if (!isNewTrack) {
+            falseContinuations++;
+          }
+        } else {
+          const correct = lastTrack === balloon.id;
+          if (!correct) {
+            idSwitches++;
+            if (isNewTrack) {
+              falseNewTracks++;
+            }
+          }
+          if (!isNewTrack) {
+            (correct ? confidenceCorrect : confidenceIncorrect).push(balloon.confidence);
+          }
+        }
+
+        lastTrackByTruth.set(truth, balloon.id);
+        seenTracks.add(balloon.id);
+        if (!tracksByTruth.has(truth)) {
+          tracksByTruth.set(truth, new Set());
+        }
+        tracksByTruth.get(truth)!.add(balloon.id);
+      }
+    });
+
+    const fragmentations = [...tracksByTruth.values()].reduce((sum, tracks) => sum + tracks.size - 1, 0);
+
+    return {
+      hours: constellation.hours.length,
+      observations,
+      truth_balloons: tracksByTruth.size,
+      tracks: seenTracks.size,
+      id_switches: idSwitches,
+      fragmentations,
+      false_new_tracks: falseNewTracks,
+      false_continuations: falseContinuations,
+      mota: observations > 0 ? 1 - idSwitches / observations : 1,
+      mean_confidence_correct: this.mean(confidenceCorrect),
+      mean_confidence_incorrect: this.mean(confidenceIncorrect),
+      runtime_ms_per_hour: {
+        mean: this.mean(runtimes),
+        max: runtimes.length > 0 ? Math.max(...runtimes) : 0,
+        total: runtimes.reduce((sum, v) => sum + v, 0),
+      },
+    };
+  }
+}
@@ -0,0 +1,693 @@
+/**
+ * Database Conformance Suite
+ * One set of checks written against IDatabase, run against every adapter so they can't drift
+ * (see scripts/conformance.ts)
+ *
+ * Every check gets a fresh, fully migrated database from the target's factory and only
+ * talks to it through IDatabase. Checks cover each method plus the edge cases callers rely
+ * on: upserts rewriting hour_offset, retention cutoffs, getMaxBalloonId ignoring IDs that
+ * aren't tracker-assigned, expired leases, inclusive time windows.
+ */
+
+import assert from 'assert/strict';
+import {
+  BalloonDataPoint,
+  BalloonEvent,
+  BalloonQuery,
+  IngestionQualityReport,
+  JobRun,
+} from '../types/balloon';
+import { IDatabase } from './database.factory';
+import { RetentionPolicy } from './retention.policy';
+import { HOUR_MS } from './time.window';
+import { WindData } from './wind.service';
+
+const DAY_MS = 24 * HOUR_MS;
+
+// Policy every target must create its databases with, so cleanup cutoffs are predictable
+export const CONFORMANCE_RETENTION: RetentionPolicy = {
+  fullResolutionDays: 1,
+  archiveIntervalHours: 6,
+  archiveWeeks: 1,
+};
+
+export interface ConformanceTarget {
+  name: string;
+  create: () => Promise<IDatabase>; // Fresh, migrated, empty database
+  dispose?: (db: IDatabase) => Promise<void>;
+}
+
+export interface ConformanceResult {
+  target: string;
+  check: string;
+  passed: boolean;
+  error?: string;
+  duration_ms: number;
+}
+
+interface ConformanceCheck {
+  name: string;
+  run: (db: IDatabase) => Promise<void>;
+}
+
+/**
+ * Top of the hour `hoursAgo` hours before the current one, in the stored form
+ */
+function hour(hoursAgo: number): string {
+  const now = Date.now();
+  return new Date(now - (now % HOUR_MS) - hoursAgo * HOUR_MS).toISOString();
+}
+
+function point(id: string, timestamp: string, overrides: Partial<BalloonDataPoint> = {}): BalloonDataPoint {
+  return {
+    id,
+    timestamp,
+    latitude: 10,
+    longitude: 20,
+    altitude_km: 15,
+    hour_offset: Math.round((Date.now() - new Date(timestamp).getTime()) / HOUR_MS),
+    confidence: 0.8,
+    status: 'active',
+    ...overrides,
+  };
+}
+
+function wind(latitude: number, longitude: number, timestamp: string): WindData {
+  return {
+    latitude,
+    longitude,
+    altitude_km: 10,
+    pressure_hpa: 250,
+    wind_u_ms: 5,
+    wind_v_ms: -3,
+    wind_speed_kmh: 21,
+    wind_direction_deg: 300,
+    timestamp,
+  };
+}
+
+function event(balloonId: string, type: BalloonEvent['type'], timestamp: string, longitude = 20): BalloonEvent {
+  return { balloon_id: balloonId, type, timestamp, latitude: 10, longitude, altitude_km: 3, details: { rate_km_h: 4 } };
+}
+
+function report(timestamp: string, anomalies: IngestionQualityReport['anomalies'] = []): IngestionQualityReport {
+  return {
+    timestamp,
+    source: 'conformance',
+    raw_count: 10,
+    accepted_count: 9,
+    rejected: { malformed: 1, non_finite: 0, latitude_out_of_range: 0, longitude_out_of_range: 0, altitude_out_of_range: 0 },
+    duplicate_rows: 0,
+    coordinate_clusters: [],
+    previous_count: null,
+    count_delta: null,
+    fetch_error: null,
+    anomalies,
+    ingested_at: new Date().toISOString(),
+  };
+}
+
+function jobRun(kind: JobRun['kind'], startedAt: string): Omit<JobRun, 'id'> {
+  return {
+    kind,
+    trigger: 'manual',
+    status: 'running',
+    started_at: startedAt,
+    finished_at: null,
+    duration_ms: null,
+    phases: {},
+    balloons_fetched: 0,
+    balloons_continued: 0,
+    balloons_new: 0,
+    rows_deleted: 0,
+    error: null,
+    error_stack: null,
+  };
+}
+
+const CHECKS: ConformanceCheck[] = [
+  {
+    name: 'migrations are applied and nothing is pending',
+    run: async db => {
+      const status = await db.getMigrationStatus();
+      assert.ok(status.length > 0);
+      assert.deepEqual(status.filter(m => !m.applied_at), []);
+      const dryRun = await db.runMigrations({ dryRun: true });
+      assert.equal(dryRun.dry_run, true);
+      assert.deepEqual(dryRun.migrations, []);
+    },
+  },
+  {
+    name: 'wind cache rounds keys, returns numeric timestamps and honours maxAgeMs',
+    run: async db => {
+      const older = hour(3);
+      const newer = hour(1);
+      await db.setWindCache(wind(10.04, 20.01, older));
+      await db.setWindCache(wind(10.04, 20.01, newer));
+
+      const latest = await db.getWindCache(10.0, 20.0, 10.0);
+      assert.ok(latest, 'latest entry by rounded key');
+      assert.equal(typeof latest.timestamp, 'number');
+      assert.equal(latest.timestamp, new Date(newer).getTime());
+      assert.equal(latest.data.timestamp, newer);
+
+      const exact = await db.getWindCache(10.0, 20.0, 10.0, new Date(older).getTime());
+      assert.equal(exact?.timestamp, new Date(older).getTime());
+      assert.equal(await db.getWindCache(11, 20, 10), null);
+
+      // Older than 2 hours: only the 3-hour-old entry goes
+      await db.clearExpiredWindCache(2 * HOUR_MS);
+      assert.equal(await db.getWindCache(10, 20, 10, new Date(older).getTime()), null);
+      assert.ok(await db.getWindCache(10, 20, 10, new Date(newer).getTime()));
+
+      await db.clearExpiredWindCache(0);
+      assert.equal(await db.getWindCache(10, 20, 10), null);
+    },
+  },
+  {
+    name: 'snapshots are versioned by content and listed newest first',
+    run: async db => {
+      const [h2, h1] = [hour(2), hour(1)];
+      const first = await db.saveBalloonSnapshot(h2, [[1, 2, 3]], { source_url: 'memory://02.json' });
+      assert.deepEqual(first, { version: 1, created: true, previous_version: null, tracked_version: null });
+
+      const same = await db.saveBalloonSnapshot(h2, [[1, 2, 3]]);
+      assert.equal(same.created, false);
+      assert.equal(same.version, 1);
+
+      const changed = await db.saveBalloonSnapshot(h2, [[1, 2, 3], [4, 5, 6]]);
+      assert.deepEqual({ version: changed.version, created: changed.created, previous: changed.previous_version }, { version: 2, created: true, previous: 1 });
+      await db.saveBalloonSnapshot(h1, [[7, 8, 9]]);
+
+      assert.deepEqual(await db.getBalloonSnapshot(h2), [[1, 2, 3], [4, 5, 6]]);
+      assert.equal(await db.getBalloonSnapshot(hour(5)), null);
+      assert.equal(await db.getLatestSnapshotTimestamp(), h1);
+      assert.deepEqual((await db.getAllSnapshots()).map(s => s.timestamp), [h1, h2]);
+      assert.deepEqual(await db.getSnapshotTimestamps(), [h1, h2]);
+      assert.deepEqual(await db.getSnapshotTimestamps({ from: h2, to: h2 }), [h2], 'inclusive window');
+      assert.deepEqual(await db.getSnapshotTimestamps({ from: h1 }), [h1]);
+
+      const versions = await db.getSnapshotVersions(h2);
+      assert.deepEqual(versions.map(v => [v.version, v.balloon_count]), [[1, 1], [2, 2]]);
+      assert.equal(versions[0].source_url, 'memory://02.json');
+      assert.notEqual(versions[0].content_hash, versions[1].content_hash);
+      assert.deepEqual(await db.getSnapshotVersion(h2, 1), [[1, 2, 3]]);
+      assert.equal(await db.getSnapshotVersion(h2, 3), null);
+    },
+  },
+  {
+    name: 'tracking records the snapshot version and re-fetches make it stale',
+    run: async db => {
+      const h1 = hour(1);
+      await db.saveBalloonSnapshot(h1, [[1, 2, 3]]);
+      await db.saveTrackedBalloons([point('balloon_0001', h1)]);
+      assert.deepEqual(await db.getStaleSnapshots(), []);
+
+      const refetched = await db.saveBalloonSnapshot(h1, [[1, 2, 4]]);
+      assert.equal(refetched.tracked_version, 1);
+      assert.deepEqual(await db.getStaleSnapshots(), [{ timestamp: h1, version: 2, tracked_version: 1 }]);
+
+      // Uploaded sondes aren't built on the feed snapshot
+      await db.saveBalloonSnapshot(hour(2), [[1, 2, 3]]);
+      await db.saveTrackedBalloons([point('SONDE-1', hour(2), { source: 'lab', external_id: 'SONDE-1' })]);
+      await db.saveBalloonSnapshot(hour(2), [[1, 2, 5]]);
+      assert.deepEqual((await db.getStaleSnapshots()).map(s => s.timestamp), [h1]);
+    },
+  },
+  {
+    name: 'tracked points round-trip every field',
+    run: async db => {
+      const h1 = hour(1);
+      const full = point('balloon_0001', h1, {
+        speed_kmh: 120.5,
+        direction_deg: 270,
+        gap_hours: 2,
+        match_cost: 12.5,
+        match_phase: 'hungarian',
+        score_breakdown: { distance: 1, direction: 2, speed: 3, altitude: 4, gap_penalty: 5 },
+        kalman_state: { latitude: 10, longitude: 20, timestamp: h1 } as unknown as BalloonDataPoint['kalman_state'],
+        filtered_speed_kmh: 118,
+        filtered_direction_deg: 268,
+        velocity_uncertainty_kmh: 4,
+        source: 'lab',
+        external_id: 'SONDE-1',
+      });
+      await db.saveTrackedBalloons([full, point('balloon_0002', h1, { confidence: undefined, status: 'lost' })]);
+
+      const rows = await db.getTrackedBalloonsAtTimestamp(h1);
+      const byId = new Map(rows.map(r => [r.id, r]));
+      assert.deepEqual(byId.get('balloon_0001'), full);
+      // Rows without a stored confidence read back as fully confident
+      assert.equal(byId.get('balloon_0002')?.confidence, 1.0);
+      assert.equal(byId.get('balloon_0002')?.status, 'lost');
+      assert.equal(byId.get('balloon_0002')?.source, undefined);
+      assert.deepEqual(await db.getTrackedBalloonsAtTimestamp(hour(2)), []);
+    },
+  },
+  {
+    name: 're-saving a point replaces it, including a recalculated hour_offset',
+    run: async db => {
+      const h3 = hour(3);
+      await db.saveTrackedBalloons([point('balloon_0001', h3, { hour_offset: 1, latitude: 10 })]);
+      assert.equal((await db.getTrackedBalloonsByHour(1)).length, 1);
+
+      await db.saveTrackedBalloons([point('balloon_0001', h3, { hour_offset: 3, latitude: 11 })]);
+      assert.deepEqual(await db.getTrackedBalloonsByHour(1), []);
+      const moved = await db.getTrackedBalloonsByHour(3);
+      assert.deepEqual(moved.map(b => [b.id, b.latitude]), [['balloon_0001', 11]]);
+      assert.equal((await db.getAllTrackedBalloons()).length, 1);
+    },
+  },
+  {
+    name: 'getMaxBalloonId parses only tracker-assigned IDs, numerically',
+    run: async db => {
+      assert.equal(await db.getMaxBalloonId(), 0);
+      const h1 = hour(1);
+      await db.saveTrackedBalloons([
+        point('balloon_0009', h1),
+        point('balloon_0100', h1),
+        point('balloon_99', h1),
+        point('balloon_12abc', h1),
+        point('balloonX5000', h1),
+        point('SONDE-7000', h1, { source: 'lab', external_id: 'SONDE-7000' }),
+      ]);
+      assert.equal(await db.getMaxBalloonId(), 100);
+    },
+  },
+  {
+    name: 'balloon queries filter one hour in the database and page by ID',
+    run: async db => {
+      const h1 = hour(1);
+      await db.saveTrackedBalloons([
+        point('balloon_0001', h1, { latitude: 10, longitude: 179.5, altitude_km: 12, speed_kmh: 40, confidence: 0.9 }),
+        point('balloon_0002', h1, { latitude: 10, longitude: -179.5, altitude_km: 18, speed_kmh: 90, confidence: 0.5 }),
+        point('balloon_0003', h1, { latitude: 50, longitude: 0, altitude_km: 15, confidence: undefined, status: 'new' }),
+        point('balloon_0004', h1, { latitude: 50.5, longitude: 0.5, altitude_km: 15, speed_kmh: 60, status: 'lost' }),
+        point('balloon_0005', hour(2), { latitude: 10, longitude: 179.5 }),
+      ]);
+      const ids = async (query: Omit<BalloonQuery, 'timestamp'>) =>
+        (await db.queryTrackedBalloons({ timestamp: h1, ...query })).map(b => b.id);
+
+      assert.deepEqual(await ids({}), ['balloon_0001', 'balloon_0002', 'balloon_0003', 'balloon_0004'], 'ordered by ID');
+      assert.deepEqual(await ids({ bbox: { min_lon: 179, min_lat: 0, max_lon: -179, max_lat: 20 } }), ['balloon_0001', 'balloon_0002']);
+      assert.deepEqual(await ids({ bbox: { min_lon: -1, min_lat: 0, max_lon: 1, max_lat: 50.2 } }), ['balloon_0003']);
+      // ~111 km across the antimeridian, ~64 km from (50, 0) to (50.5, 0.5)
+      assert.deepEqual(await ids({ near: { latitude: 10, longitude: 179.5, radius_km: 120 } }), ['balloon_0001', 'balloon_0002']);
+      assert.deepEqual(await ids({ near: { latitude: 50, longitude: 0, radius_km: 70 } }), ['balloon_0003', 'balloon_0004']);
+      assert.deepEqual(await ids({ near: { latitude: 50, longitude: 0, radius_km: 60 } }), ['balloon_0003']);
+      assert.deepEqual(await ids({ min_altitude_km: 15, max_altitude_km: 15 }), ['balloon_0003', 'balloon_0004']);
+      assert.deepEqual(await ids({ min_speed_kmh: 50 }), ['balloon_0002', 'balloon_0004'], 'no speed never matches');
+      assert.deepEqual(await ids({ max_speed_kmh: 60 }), ['balloon_0001', 'balloon_0004']);
+      assert.deepEqual(await ids({ statuses: ['new', 'lost'] }), ['balloon_0003', 'balloon_0004']);
+      assert.deepEqual(await ids({ min_confidence: 0.85 }), ['balloon_0001', 'balloon_0003'], 'missing confidence counts as 1');
+
+      assert.deepEqual(await ids({ limit: 2 }), ['balloon_0001', 'balloon_0002']);
+      assert.deepEqual(await ids({ after_id: 'balloon_0002', limit: 2 }), ['balloon_0003', 'balloon_0004']);
+      assert.deepEqual(await ids({ after_id: 'balloon_0004' }), []);
+    },
+  },
+  {
+    name: 'trajectories are oldest first, span the archive and honour inclusive ranges',
+    run: async db => {
+      const old = hour(36); // Archived by cleanup (hours divisible by 6 only)
+      const oldAligned = new Date(new Date(old).getTime() - (new Date(old).getUTCHours() % 6) * HOUR_MS).toISOString();
+      await db.saveTrackedBalloons([
+        point('balloon_0001', oldAligned),
+        point('balloon_0001', hour(2)),
+        point('balloon_0001', hour(1)),
+        point('balloon_0002', hour(1)),
+      ]);
+      await db.cleanupStaleData();
+
+      const all = await db.getBalloonTrajectory('balloon_0001');
+      assert.deepEqual(all.map(b => b.timestamp), [oldAligned, hour(2), hour(1)]);
+      const recent = await db.getBalloonTrajectory('balloon_0001', { from: hour(2), to: hour(2) });
+      assert.deepEqual(recent.map(b => b.timestamp), [hour(2)]);
+      assert.deepEqual(await db.getBalloonTrajectory('balloon_9999'), []);
+    },
+  },
+  {
+    name: 'track corrections swap IDs atomically, re-filter moved rows, move events and keep an audit trail',
+    run: async db => {
+      const [h3, h2, h1] = [hour(3), hour(2), hour(1)];
+      await db.saveTrackedBalloons([
+        point('balloon_0001', h3, { latitude: 1 }),
+        point('balloon_0002', h3, { latitude: 2 }),
+        point('balloon_0001', h2, { latitude: 1.1 }),
+        point('balloon_0002', h2, { latitude: 2.1 }),
+        point('balloon_0001', h1, { latitude: 1.2 }),
+        point('balloon_0002', h1, { latitude: 2.2 }),
+      ]);
+      await db.saveBalloonEvents([event('balloon_0001', 'burst', h1)]);
+
+      const refiltered = (timestamp: string, speed: number) => ({
+        timestamp,
+        kalman_state: {
+          latitude: 1,
+          longitude: 20,
+          velocity_east_kmh: speed,
+          velocity_north_kmh: 0,
+          covariance: [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 4, 0], [0, 0, 0, 4]],
+          timestamp,
+        },
+        filtered_speed_kmh: speed,
+        filtered_direction_deg: 90,
+        velocity_uncertainty_kmh: 2,
+      });
+
+      await db.applyTrackCorrection({
+        from_timestamp: h2,
+        to_timestamp: h1,
+        reassignments: [
+          {
+            old_id: 'balloon_0001', new_id: 'balloon_0002', join_speed_kmh: 50, join_direction_deg: 90,
+            filter_states: [refiltered(h2, 48), refiltered(h1, 49)],
+          },
+          { old_id: 'balloon_0002', new_id: 'balloon_0001', join_speed_kmh: 60, join_direction_deg: 180, filter_states: [] },
+        ],
+        cost_before: 80,
+        cost_after: 20,
+      });
+
+      const lat = async (id: string) => (await db.getBalloonTrajectory(id)).map(b => b.latitude);
+      assert.deepEqual(await lat('balloon_0001'), [1, 2.1, 2.2]);
+      assert.deepEqual(await lat('balloon_0002'), [2, 1.1, 1.2]);
+
+      const join = (await db.getTrackedBalloonsAtTimestamp(h2)).find(b => b.id === 'balloon_0002')!;
+      assert.equal(join.match_phase, 'smoother');
+      assert.equal(join.speed_kmh, 50);
+      const moved = (await db.getBalloonTrajectory('balloon_0002', { from: h2 })).map(p => p.filtered_speed_kmh);
+      assert.deepEqual(moved, [48, 49]);
+      const latest = (await db.getTrackedBalloonsAtTimestamp(h1)).find(b => b.id === 'balloon_0002')!;
+      assert.equal(latest.kalman_state?.velocity_east_kmh, 49);
+
+      assert.deepEqual((await db.getBalloonEvents({ types: ['burst'] })).map(e => e.balloon_id), ['balloon_0002']);
+
+      const audit = await db.getTrackCorrections();
+      assert.equal(audit.length, 2);
+      assert.deepEqual(audit.map(a => [a.old_id, a.new_id, a.cost_before, a.cost_after]), [
+        ['balloon_0001', 'balloon_0002', 80, 20],
+        ['balloon_0002', 'balloon_0001', 80, 20],
+      ]);
+      assert.equal((await db.getTrackCorrections('balloon_0001')).length, 2);
+      assert.deepEqual(await db.getTrackCorrections('balloon_0003'), []);
+    },
+  },
+  {
+    name: 'a track correction of a middle window carries the swap through every later hour and its events',
+    run: async db => {
+      const [h4, h3, h2, h1] = [hour(4), hour(3), hour(2), hour(1)];
+      await db.saveTrackedBalloons([
+        point('balloon_0001', h4, { latitude: 1 }),
+        point('balloon_0002', h4, { latitude: 2 }),
+        point('balloon_0001', h3, { latitude: 1.1 }),
+        point('balloon_0002', h3, { latitude: 2.1 }),
+        point('balloon_0001', h2, { latitude: 1.2 }),
+        point('balloon_0002', h2, { latitude: 2.2 }),
+        point('balloon_0001', h1, { latitude: 1.3, filtered_speed_kmh: 11 }),
+        point('balloon_0002', h1, { latitude: 2.3, filtered_speed_kmh: 22 }),
+      ]);
+      await db.saveBalloonEvents([event('balloon_0001', 'burst', h1), event('balloon_0002', 'launch', h4)]);
+
+      // Judged on h3..h2 only, h1 was tracked after the lookahead window
+      await db.applyTrackCorrection({
+        from_timestamp: h3,
+        to_timestamp: h2,
+        reassignments: [
+          { old_id: 'balloon_0001', new_id: 'balloon_0002', join_speed_kmh: 50, join_direction_deg: 90, filter_states: [] },
+          { old_id: 'balloon_0002', new_id: 'balloon_0001', join_speed_kmh: 60, join_direction_deg: 180, filter_states: [] },
+        ],
+        cost_before: 80,
+        cost_after: 20,
+      });
+
+      const lat = async (id: string) => (await db.getBalloonTrajectory(id)).map(b => b.latitude);
+      assert.deepEqual(await lat('balloon_0001'), [1, 2.1, 2.2, 2.3]);
+      assert.deepEqual(await lat('balloon_0002'), [2, 1.1, 1.2, 1.3]);
+
+      // Rows outside the refiltered hours keep their own filter run
+      const latest = (await db.getTrackedBalloonsAtTimestamp(h1)).find(b => b.id === 'balloon_0002')!;
+      assert.equal(latest.filtered_speed_kmh, 11);
+
+      const events = await db.getBalloonEvents();
+      assert.deepEqual(events.map(e => [e.balloon_id, e.type]).sort(), [['balloon_0002', 'burst'], ['balloon_0002', 'launch']]);
+
+      const audit = await db.getTrackCorrections();
+      assert.deepEqual(audit.map(a => [a.from_timestamp, a.to_timestamp]), [[h3, h2], [h3, h2]]);
+    },
+  },
+  {
+    name: 'clearTrackingFrom drops feed rows and events from a timestamp on, keeping uploads',
+    run: async db => {
+      const [h3, h2, h1] = [hour(3), hour(2), hour(1)];
+      await db.saveBalloonSnapshot(h2, [[1, 2, 3]]);
+      await db.saveTrackedBalloons([
+        point('balloon_0001', h3),
+        point('balloon_0001', h2),
+        point('balloon_0001', h1),
+        point('SONDE-1', h1, { source: 'lab', external_id: 'SONDE-1' }),
+      ]);
+      await db.saveBalloonEvents([event('balloon_0001', 'launch', h3), event('balloon_0001', 'burst', h1), event('SONDE-1', 'burst', h1)]);
+      await db.saveBalloonSnapshot(h2, [[1, 2, 4]]); // Stale until re-tracked
+
+      await db.clearTrackingFrom(h2);
+
+      assert.deepEqual((await db.getAllTrackedBalloons()).map(b => `${b.id}@${b.timestamp}`).sort(), [
+        `SONDE-1@${h1}`,
+        `balloon_0001@${h3}`,
+      ]);
+      assert.deepEqual((await db.getBalloonEvents()).map(e => `${e.balloon_id}:${e.type}`).sort(), ['SONDE-1:burst', 'balloon_0001:launch']);
+      assert.deepEqual(await db.getStaleSnapshots(), []);
+    },
+  },
+  {
+    name: 'lifecycle events ignore duplicates, list newest first and filter by type, balloon, window, bbox and limit',
+    run: async db => {
+      const [h3, h2, h1] = [hour(3), hour(2), hour(1)];
+      await db.saveBalloonEvents([
+        event('balloon_0001', 'launch', h3, 20),
+        event('balloon_0001', 'burst', h1, 20),
+        event('balloon_0002', 'launch', h2, 179.5),
+        event('balloon_0003', 'disappearance', h1, -179.5),
+      ]);
+      await db.saveBalloonEvents([event('balloon_0001', 'launch', h3, 25)]); // Same balloon, type and hour
+
+      const all = await db.getBalloonEvents();
+      assert.equal(all.length, 4);
+      assert.deepEqual(all.map(e => e.timestamp), [h1, h1, h2, h3], 'newest first');
+      assert.equal(all[0].balloon_id, 'balloon_0003', 'ties newest-inserted first');
+      const oldestFirst = await db.getBalloonEvents({ order: 'asc' });
+      assert.deepEqual(oldestFirst.map(e => e.timestamp), [h3, h2, h1, h1]);
+      assert.equal(oldestFirst[0].longitude, 20, 'duplicates keep the first event');
+      assert.deepEqual(oldestFirst[0].details, { rate_km_h: 4 });
+      assert.equal(typeof oldestFirst[0].id, 'number');
+
+      assert.equal((await db.getBalloonEvents({ types: ['launch'] })).length, 2);
+      assert.equal((await db.getBalloonEvents({ balloon_id: 'balloon_0001' })).length, 2);
+      assert.equal((await db.getBalloonEvents({ from: h2, to: h2 })).length, 1);
+      assert.deepEqual((await db.getBalloonEvents({ limit: 1 })).map(e => e.balloon_id), ['balloon_0003'], 'limit keeps the newest');
+      const acrossDateline = await db.getBalloonEvents({ bbox: { min_lon: 179, min_lat: 0, max_lon: -179, max_lat: 20 } });
+      assert.deepEqual(acrossDateline.map(e => e.balloon_id).sort(), ['balloon_0002', 'balloon_0003']);
+    },
+  },
+  {
+    name: 'ingestion reports upsert per hour and filter newest first',
+    run: async db => {
+      const [h3, h2, h1] = [hour(3), hour(2), hour(1)];
+      await db.saveIngestionReport(report(h3));
+      await db.saveIngestionReport(report(h2, ['empty']));
+      await db.saveIngestionReport(report(h1));
+      await db.saveIngestionReport({ ...report(h1, ['fetch_failed']), fetch_error: 'timeout' });
+
+      const all = await db.getIngestionReports();
+      assert.deepEqual(all.map(r => r.timestamp), [h1, h2, h3]);
+      assert.deepEqual(all[0].anomalies, ['fetch_failed']);
+      assert.equal(all[0].fetch_error, 'timeout');
+      assert.deepEqual(all[1].rejected, report(h2).rejected);
+
+      assert.deepEqual((await db.getIngestionReports({ anomalous_only: true })).map(r => r.timestamp), [h1, h2]);
+      assert.deepEqual((await db.getIngestionReports({ from: h3, to: h2 })).map(r => r.timestamp), [h2, h3]);
+      assert.equal((await db.getIngestionReports({ limit: 1 })).length, 1);
+    },
+  },
+  {
+    name: 'uploaded positions are stored per hour and source',
+    run: async db => {
+      const h1 = hour(1);
+      const positions = [{ timestamp: h1, latitude: 1, longitude: 2, altitude_km: 3, external_id: 'SONDE-1' }];
+      assert.equal(await db.getExternalSnapshot(h1, 'lab'), null);
+      await db.saveExternalSnapshot(h1, 'lab', positions);
+      await db.saveExternalSnapshot(h1, 'lab', [...positions, { timestamp: h1, latitude: 4, longitude: 5, altitude_km: 6 }]);
+      assert.equal((await db.getExternalSnapshot(h1, 'lab'))?.length, 2);
+      assert.equal(await db.getExternalSnapshot(h1, 'other'), null);
+
+      await db.saveTrackedBalloons([
+        point('SONDE-1', h1, { source: 'lab', external_id: 'SONDE-1' }),
+        point('SONDE-2', h1, { source: 'field', external_id: 'SONDE-2' }),
+        point('balloon_0001', h1),
+      ]);
+      await db.clearSourceTracking(h1, 'lab');
+      assert.deepEqual((await db.getTrackedBalloonsAtTimestamp(h1)).map(b => b.id).sort(), ['SONDE-2', 'balloon_0001']);
+    },
+  },
+  {
+    name: 'job runs are created, updated and listed newest first',
+    run: async db => {
+      const firstId = await db.createJobRun(jobRun('hourly_update', hour(3)));
+      const secondId = await db.createJobRun(jobRun('backfill', hour(1)));
+      assert.ok(firstId > 0 && secondId > firstId, 'increasing numeric IDs');
+
+      await db.updateJobRun({
+        ...jobRun('backfill', hour(1)),
+        id: secondId,
+        status: 'failed',
+        finished_at: hour(0),
+        duration_ms: HOUR_MS,
+        phases: { fetch: 10, track: 20 },
+        balloons_fetched: 5,
+        error: 'boom',
+        error_stack: 'Error: boom',
+      });
+
+      const failed = await db.getJobRun(secondId);
+      assert.equal(failed?.status, 'failed');
+      assert.deepEqual(failed?.phases, { fetch: 10, track: 20 });
+      assert.equal(failed?.balloons_fetched, 5);
+      assert.equal(failed?.duration_ms, HOUR_MS);
+      assert.equal(await db.getJobRun(secondId + 100), null);
+
+      assert.deepEqual((await db.getJobRuns()).map(r => r.id), [secondId, firstId]);
+      assert.deepEqual((await db.getJobRuns({ kind: 'hourly_update' })).map(r => r.id), [firstId]);
+      assert.deepEqual((await db.getJobRuns({ status: 'failed' })).map(r => r.id), [secondId]);
+      assert.deepEqual((await db.getJobRuns({ from: hour(4), to: hour(2) })).map(r => r.id), [firstId]);
+      assert.equal((await db.getJobRuns({ limit: 1 })).length, 1);
+    },
+  },
+  {
+    name: 'job locks exclude other owners until released or expired',
+    run: async db => {
+      assert.equal(await db.acquireJobLock('tracking', 'a', 'hourly', 60000), true);
+      assert.equal(await db.acquireJobLock('tracking', 'b', 'refresh', 60000), false);
+      assert.equal(await db.acquireJobLock('tracking', 'a', 'hourly', 60000), true, 'same owner re-acquires');
+      assert.equal(await db.acquireJobLock('other', 'b', 'refresh', 60000), true, 'locks are independent');
+      assert.equal((await db.getJobLock('tracking'))?.owner, 'a');
+
+      assert.equal(await db.renewJobLock('tracking', 'a', 60000), true);
+      assert.equal(await db.renewJobLock('tracking', 'b', 60000), false);
+
+      await db.releaseJobLock('tracking', 'b'); // Not the holder - no-op
+      assert.equal((await db.getJobLock('tracking'))?.owner, 'a');
+      await db.releaseJobLock('tracking', 'a');
+      assert.equal(await db.getJobLock('tracking'), null);
+
+      // An expired lease is free for anyone and no longer reported
+      assert.equal(await db.acquireJobLock('tracking', 'a', 'hourly', 1), true);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      assert.equal(await db.getJobLock('tracking'), null);
+      assert.equal(await db.acquireJobLock('tracking', 'b', 'refresh', 60000), true);
+      assert.equal(await db.renewJobLock('tracking', 'a', 60000), false, 'a lease taken over is lost');
+    },
+  },
+  {
+    name: 'scratch tracks are saved and cleared per namespace',
+    run: async db => {
+      await db.saveScratchTracks('profile-a', [point('balloon_0001', hour(1))]);
+      await db.saveScratchTracks('profile-a', [point('balloon_0001', hour(1), { confidence: 0.5 })]);
+      await db.clearScratchTracks('profile-a');
+      await db.clearScratchTracks('never-used');
+      // Scratch rows never leak into production reads
+      assert.deepEqual(await db.getAllTrackedBalloons(), []);
+    },
+  },
+  {
+    name: 'cleanup archives aligned observed points and applies both cutoffs',
+    run: async db => {
+      const now = Date.now();
+      const aligned = (ms: number) => {
+        const top = ms - (ms % HOUR_MS);
+        return new Date(top - (new Date(top).getUTCHours() % 6) * HOUR_MS).toISOString();
+      };
+      const recent = hour(1);                               // Inside the full-resolution window
+      const archived = aligned(now - DAY_MS - 6 * HOUR_MS); // Past it, on a 6-hour boundary
+      const skipped = new Date(new Date(archived).getTime() + HOUR_MS).toISOString(); // Off the boundary
+      const expired = aligned(now - 9 * DAY_MS);            // Past the 1-week archive window
+
+      await db.saveTrackedBalloons([
+        point('balloon_0001', recent),
+        point('balloon_0001', archived),
+        point('balloon_0002', archived, { status: 'lost' }), // Coasting placeholders aren't archived
+        point('balloon_0001', skipped),
+        point('balloon_0001', expired),
+      ]);
+      for (const timestamp of [recent, archived, skipped, expired]) {
+        await db.saveBalloonSnapshot(timestamp, [[1, 2, 3]]);
+      }
+      await db.saveIngestionReport(report(expired));
+      await db.createJobRun(jobRun('cleanup', expired));
+
+      const result = await db.cleanupStaleData();
+      assert.deepEqual(result, {
+        deletedTrackedBalloons: 4,
+        deletedSnapshots: 3,
+        archivedTrackedBalloons: 1,
+        archivedSnapshots: 1,
+        expiredArchiveRows: 0,
+      });
+
+      assert.deepEqual((await db.getAllTrackedBalloons()).map(b => b.timestamp), [recent]);
+      assert.deepEqual((await db.getBalloonTrajectory('balloon_0001')).map(b => b.timestamp), [archived, recent]);
+      assert.deepEqual(await db.getSnapshotTimestamps(), [recent]);
+      assert.deepEqual(await db.getSnapshotVersions(archived), []);
+      assert.deepEqual(await db.getIngestionReports(), []);
+      assert.deepEqual(await db.getJobRuns(), []);
+    },
+  },
+  {
+    name: 'clearAllData empties tracking, snapshots, events and uploads',
+    run: async db => {
+      const h1 = hour(1);
+      await db.saveBalloonSnapshot(h1, [[1, 2, 3]]);
+      await db.saveTrackedBalloons([point('balloon_0001', h1)]);
+      await db.saveBalloonEvents([event('balloon_0001', 'launch', h1)]);
+      await db.saveExternalSnapshot(h1, 'lab', [{ timestamp: h1, latitude: 1, longitude: 2, altitude_km: 3 }]);
+
+      await db.clearAllData();
+
+      assert.deepEqual(await db.getAllTrackedBalloons(), []);
+      assert.deepEqual(await db.getAllSnapshots(), []);
+      assert.deepEqual(await db.getSnapshotVersions(h1), []);
+      assert.deepEqual(await db.getBalloonEvents(), []);
+      assert.equal(await db.getExternalSnapshot(h1, 'lab'), null);
+      assert.equal(await db.getMaxBalloonId(), 0);
+    },
+  },
+];
+
+/**
+ * Run every check against a target, each on a fresh database
+ */
+export async function runConformanceSuite(target: ConformanceTarget): Promise<ConformanceResult[]> {
+  const results: ConformanceResult[] = [];
+
+  for (const check of CHECKS) {
+    const startedAt = Date.now();
+    let db: IDatabase | null = null;
+    try {
+      db = await target.create();
+      await check.run(db);
+      results.push({ target: target.name, check: check.name, passed: true, duration_ms: Date.now() - startedAt });
+    } catch (error) {
+      results.push({
+        target: target.name,
+        check: check.name,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        duration_ms: Date.now() - startedAt,
+      });
+    } finally {
+      if (db && target.dispose) await target.dispose(db);
+    }
+  }
+
+  return results;
+}
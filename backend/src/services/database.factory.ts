@@ -1,43 +1,121 @@
 import { DatabaseService } from './database.service';
 import { PostgresService } from './database.postgres';
+import { MemoryService } from './database.memory';
 import { WindData } from './wind.service';
-import { RawBalloonData, BalloonDataPoint } from '../types/balloon';
+import { DatabaseOptions } from './database.migrations';
+import {
+  RawBalloonData,
+  BalloonDataPoint,
+  BalloonEvent,
+  BalloonEventFilter,
+  BalloonEventRecord,
+  BalloonQuery,
+  IngestionQualityReport,
+  IngestedPosition,
+  IngestionReportFilter,
+  JobLockLease,
+  JobRun,
+  JobRunFilter,
+  MigrationRunResult,
+  MigrationStatus,
+  RetentionCleanupResult,
+  SnapshotSaveResult,
+  SnapshotSource,
+  SnapshotStaleness,
+  SnapshotVersionInfo,
+  TimeRange,
+  TrackCorrection,
+  TrackCorrectionRecord,
+} from '../types/balloon';
 
 /**
- * Database interface that both SQLite and Postgres adapters implement
+ * Database interface that the SQLite, Postgres and in-memory adapters implement
  * This enables seamless switching between databases via environment variables
+ * Every method is async, whether or not the adapter's driver is
  */
 export interface IDatabase {
+  // Schema Migration Methods (see database.migrations.ts)
+  getMigrationStatus(): Promise<MigrationStatus[]>;
+  runMigrations(options?: { dryRun?: boolean }): Promise<MigrationRunResult>;
+
   // Wind Cache Methods
-  getWindCache(lat: number, lon: number, altitude_km: number, timestamp?: number): Promise<{ data: WindData; timestamp: number } | null> | { data: WindData; timestamp: number } | null;
-  setWindCache(data: WindData): Promise<void> | void;
-  clearExpiredWindCache(maxAgeMs: number): Promise<void> | void;
+  getWindCache(lat: number, lon: number, altitude_km: number, timestamp?: number): Promise<{ data: WindData; timestamp: number } | null>;
+  setWindCache(data: WindData): Promise<void>;
+  // Deletes entries whose wind timestamp is more than maxAgeMs old (0: everything up to now)
+  clearExpiredWindCache(maxAgeMs: number): Promise<void>;
 
   // Balloon Snapshot Methods
-  saveBalloonSnapshot(timestamp: string, rawData: RawBalloonData[]): Promise<void> | void;
-  getBalloonSnapshot(timestamp: string): Promise<RawBalloonData[] | null> | RawBalloonData[] | null;
-  getLatestSnapshotTimestamp(): Promise<string | null> | string | null;
-  getAllSnapshots(): Promise<{ timestamp: string, data: RawBalloonData[] }[]> | { timestamp: string, data: RawBalloonData[] }[];
+  // Saving content that differs from the latest version creates a new version
+  saveBalloonSnapshot(timestamp: string, rawData: RawBalloonData[], source?: SnapshotSource): Promise<SnapshotSaveResult>;
+  getBalloonSnapshot(timestamp: string): Promise<RawBalloonData[] | null>;
+  getLatestSnapshotTimestamp(): Promise<string | null>;
+  getAllSnapshots(): Promise<{ timestamp: string, data: RawBalloonData[] }[]>;
+  getSnapshotTimestamps(range?: TimeRange): Promise<string[]>;
+  getSnapshotVersions(timestamp: string): Promise<SnapshotVersionInfo[]>;
+  getSnapshotVersion(timestamp: string, version: number): Promise<RawBalloonData[] | null>;
+  // Hours whose latest version is newer than the version their tracking was built on
+  getStaleSnapshots(): Promise<SnapshotStaleness[]>;
 
   // Tracked Balloon Methods
-  saveTrackedBalloons(balloons: BalloonDataPoint[]): Promise<void> | void;
-  getMaxBalloonId(): Promise<number> | number;
-  getTrackedBalloonsByHour(hourOffset: number): Promise<BalloonDataPoint[]> | BalloonDataPoint[];
-  getTrackedBalloonsAtTimestamp(timestamp: string): Promise<BalloonDataPoint[]> | BalloonDataPoint[];
-  getBalloonTrajectory(balloonId: string): Promise<BalloonDataPoint[]> | BalloonDataPoint[];
-  getAllTrackedBalloons(): Promise<BalloonDataPoint[]> | BalloonDataPoint[];
-  cleanupStaleData(): Promise<{ deletedTrackedBalloons: number; deletedSnapshots: number }> | { deletedTrackedBalloons: number; deletedSnapshots: number };
-  clearAllData(): Promise<void> | void;
+  saveTrackedBalloons(balloons: BalloonDataPoint[]): Promise<void>;
+  getMaxBalloonId(): Promise<number>;
+  getTrackedBalloonsByHour(hourOffset: number): Promise<BalloonDataPoint[]>;
+  getTrackedBalloonsAtTimestamp(timestamp: string): Promise<BalloonDataPoint[]>;
+  // Filtered, ID-ordered points of one hour (GET /api/balloons)
+  queryTrackedBalloons(query: BalloonQuery): Promise<BalloonDataPoint[]>;
+  getBalloonTrajectory(balloonId: string, range?: TimeRange): Promise<BalloonDataPoint[]>;
+  getAllTrackedBalloons(): Promise<BalloonDataPoint[]>;
+  // Swap IDs from correction.from_timestamp on - every later hour and its events, not just the lookahead window
+  applyTrackCorrection(correction: TrackCorrection): Promise<void>;
+  getTrackCorrections(balloonId?: string): Promise<TrackCorrectionRecord[]>;
+  // Drop tracked rows and lifecycle events at or after a timestamp, before re-tracking from there
+  // Feed tracking only - uploaded sondes (tracked_balloons.source set) are kept
+  clearTrackingFrom(timestamp: string): Promise<void>;
+
+  // Lifecycle Event Methods (duplicates of an already stored balloon/type/hour are ignored)
+  saveBalloonEvents(events: BalloonEvent[]): Promise<void>;
+  getBalloonEvents(filter?: BalloonEventFilter): Promise<BalloonEventRecord[]>;
+
+  // Ingestion Report Methods (one report per hour, newest first)
+  saveIngestionReport(report: IngestionQualityReport): Promise<void>;
+  getIngestionReports(filter?: IngestionReportFilter): Promise<IngestionQualityReport[]>;
+
+  // Uploaded Sonde Methods (POST /api/ingest, one row per hour and source)
+  saveExternalSnapshot(timestamp: string, source: string, positions: IngestedPosition[]): Promise<void>;
+  getExternalSnapshot(timestamp: string, source: string): Promise<IngestedPosition[] | null>;
+  clearSourceTracking(timestamp: string, source: string): Promise<void>;
+
+  // Job Run Methods (history of data jobs, newest first)
+  createJobRun(run: Omit<JobRun, 'id'>): Promise<number>;
+  updateJobRun(run: JobRun): Promise<void>;
+  getJobRuns(filter?: JobRunFilter): Promise<JobRun[]>;
+  getJobRun(id: number): Promise<JobRun | null>;
+
+  // Scratch Track Methods (offline re-tracking, never read by production)
+  saveScratchTracks(namespace: string, balloons: BalloonDataPoint[]): Promise<void>;
+  clearScratchTracks(namespace: string): Promise<void>;
+
+  // Job Lock Methods (expiring leases shared by all instances, see job.lock.ts)
+  // acquire succeeds if the lock is free, expired or already held by the same owner
+  acquireJobLock(name: string, owner: string, job: string, leaseMs: number): Promise<boolean>;
+  renewJobLock(name: string, owner: string, leaseMs: number): Promise<boolean>;
+  releaseJobLock(name: string, owner: string): Promise<void>;
+  getJobLock(name: string): Promise<JobLockLease | null>;
+
+  // Retention (full-resolution window + downsampled archive, see retention.policy.ts)
+  cleanupStaleData(): Promise<RetentionCleanupResult>;
+  clearAllData(): Promise<void>;
 }
 
 /**
  * Factory function to create the appropriate database service
  * based on environment configuration
  *
- * Set DATABASE_TYPE=postgres and DATABASE_URL=your_postgres_url for Postgres
+ * Set DATABASE_TYPE=postgres and DATABASE_URL=your_postgres_url for Postgres,
+ * or DATABASE_TYPE=memory for the in-memory adapter (optionally MEMORY_DB_SNAPSHOT)
  * Otherwise defaults to SQLite
  */
-export function createDatabase(): IDatabase {
+export function createDatabase(options: DatabaseOptions = {}): IDatabase {
   const dbType = process.env.DATABASE_TYPE || 'sqlite';
 
   if (dbType === 'postgres') {
@@ -45,9 +123,14 @@ export function createDatabase(): IDatabase {
       throw new Error('DATABASE_URL must be set when using PostgreSQL');
     }
     console.log('🐘 Using PostgreSQL database');
-    return new PostgresService();
+    return new PostgresService(options);
+  }
+
+  if (dbType === 'memory') {
+    console.log('🧠 Using in-memory database');
+    return new MemoryService(options);
   }
 
   console.log('📦 Using SQLite database');
-  return new DatabaseService();
+  return new DatabaseService(options);
 }
@@ -0,0 +1,918 @@
+/**
+ * In-Memory Database (DATABASE_TYPE=memory)
+ * Full IDatabase implementation on indexed in-memory structures, for demos, tests and
+ * serverless previews that can't rely on native better-sqlite3 bindings or a Neon database
+ *
+ * Behaves like the SQL adapters (the conformance suite runs against all three), but there is
+ * no schema: every migration reports as applied. Nothing survives a restart unless
+ * MEMORY_DB_SNAPSHOT points at a JSON file - it is loaded on start if it exists and written
+ * a few seconds after changes and on exit (MEMORY_DB_SNAPSHOT_SAVE=false only loads it, for
+ * read-only seed data).
+ */
+
+import fs from 'fs';
+import { WindData } from './wind.service';
+import {
+  RawBalloonData,
+  BalloonDataPoint,
+  BalloonEvent,
+  BalloonEventFilter,
+  BalloonEventRecord,
+  BalloonQuery,
+  IngestionQualityReport,
+  IngestedPosition,
+  IngestionReportFilter,
+  JobLockLease,
+  JobRun,
+  JobRunFilter,
+  MigrationRunResult,
+  MigrationStatus,
+  RetentionCleanupResult,
+  SnapshotSaveResult,
+  SnapshotSource,
+  SnapshotStaleness,
+  SnapshotVersionInfo,
+  TimeRange,
+  TrackCorrection,
+  TrackCorrectionRecord,
+} from '../types/balloon';
+import { RetentionPolicy, getRetentionCutoffs, loadRetentionPolicy } from './retention.policy';
+import { haversineDistance } from './geo.math';
+import { hashSnapshot } from './snapshot.versioning';
+import { DatabaseOptions, migrationStatus, MIGRATIONS } from './database.migrations';
+
+const STATE_FORMAT = 1;
+const SAVE_DELAY_MS = 5000; // Coalesces the writes of one tracking run into one file save
+
+interface StoredSnapshot {
+  timestamp: string;
+  raw_data: RawBalloonData[];
+  content_hash: string;
+  fetched_at: string | null;
+  source_url: string | null;
+  version: number;
+  tracked_version: number | null;
+}
+
+interface StoredSnapshotVersion extends SnapshotVersionInfo {
+  raw_data: RawBalloonData[];
+}
+
+interface StoredWind {
+  lat: number;
+  lon: number;
+  altitude_km: number;
+  timestamp: number;
+  data: WindData;
+}
+
+interface StoredExternalSnapshot {
+  timestamp: string;
+  source: string;
+  positions: IngestedPosition[];
+  updated_at: string;
+}
+
+type ScratchPoint = Pick<BalloonDataPoint,
+  'id' | 'timestamp' | 'latitude' | 'longitude' | 'altitude_km' | 'status' | 'confidence' | 'match_cost' | 'match_phase' | 'gap_hours'
+> & { namespace: string };
+
+/**
+ * Everything the adapter holds, as written to MEMORY_DB_SNAPSHOT
+ * Job locks are left out - leases belong to running processes
+ */
+export interface MemoryDatabaseState {
+  format: number;
+  saved_at: string;
+  wind_cache: StoredWind[];
+  balloon_snapshots: StoredSnapshot[];
+  balloon_snapshot_versions: StoredSnapshotVersion[];
+  balloon_snapshots_archive: { timestamp: string; raw_data: RawBalloonData[] }[];
+  tracked_balloons: BalloonDataPoint[];
+  tracked_balloons_archive: BalloonDataPoint[];
+  track_corrections: TrackCorrectionRecord[];
+  scratch_tracked_balloons: ScratchPoint[];
+  balloon_events: BalloonEventRecord[];
+  ingestion_reports: IngestionQualityReport[];
+  external_snapshots: StoredExternalSnapshot[];
+  job_runs: JobRun[];
+}
+
+/**
+ * Tracked points keyed by (id, timestamp), indexed both per hour and per balloon
+ */
+class TrackIndex {
+  private byTimestamp = new Map<string, Map<string, BalloonDataPoint>>();
+  private byId = new Map<string, Map<string, BalloonDataPoint>>();
+
+  put(point: BalloonDataPoint) {
+    if (!this.byTimestamp.has(point.timestamp)) this.byTimestamp.set(point.timestamp, new Map());
+    if (!this.byId.has(point.id)) this.byId.set(point.id, new Map());
+    this.byTimestamp.get(point.timestamp)!.set(point.id, point);
+    this.byId.get(point.id)!.set(point.timestamp, point);
+  }
+
+  delete(point: BalloonDataPoint) {
+    const hour = this.byTimestamp.get(point.timestamp);
+    hour?.delete(point.id);
+    if (hour?.size === 0) this.byTimestamp.delete(point.timestamp);
+    const track = this.byId.get(point.id);
+    track?.delete(point.timestamp);
+    if (track?.size === 0) this.byId.delete(point.id);
+  }
+
+  atTimestamp(timestamp: string): BalloonDataPoint[] {
+    return Array.from(this.byTimestamp.get(timestamp)?.values() ?? []);
+  }
+
+  // Oldest first
+  ofBalloon(id: string): BalloonDataPoint[] {
+    return Array.from(this.byId.get(id)?.values() ?? []).sort(byTimestamp);
+  }
+
+  ids(): string[] {
+    return Array.from(this.byId.keys());
+  }
+
+  // Points of every hour the predicate selects
+  where(hour: (timestamp: string) => boolean): BalloonDataPoint[] {
+    const points: BalloonDataPoint[] = [];
+    for (const [timestamp, rows] of this.byTimestamp) {
+      if (hour(timestamp)) points.push(...rows.values());
+    }
+    return points;
+  }
+
+  all(): BalloonDataPoint[] {
+    return this.where(() => true);
+  }
+
+  clear() {
+    this.byTimestamp.clear();
+    this.byId.clear();
+  }
+}
+
+// Plain string order, as the SQL adapters compare ISO timestamps
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function byTimestamp(a: { timestamp: string }, b: { timestamp: string }): number {
+  return compareText(a.timestamp, b.timestamp);
+}
+
+function inRange(timestamp: string, range: TimeRange): boolean {
+  return (!range.from || timestamp >= range.from) && (!range.to || timestamp <= range.to);
+}
+
+function windKey(lat: number, lon: number, altitude_km: number): string {
+  return `${Number(lat.toFixed(1))}|${Number(lon.toFixed(1))}|${Number(altitude_km.toFixed(1))}`;
+}
+
+function eventKey(e: BalloonEvent): string {
+  return `${e.balloon_id}|${e.type}|${e.timestamp}`;
+}
+
+/**
+ * Stored form of a tracked point: a detached copy without unset fields
+ */
+function storedPoint(b: BalloonDataPoint): BalloonDataPoint {
+  const stored: Record<string, unknown> = structuredClone({ ...b, status: b.status ?? 'active' });
+  for (const key of Object.keys(stored)) {
+    if (stored[key] === undefined || stored[key] === null) delete stored[key];
+  }
+  return stored as unknown as BalloonDataPoint;
+}
+
+/**
+ * Columns the downsampled archive keeps (see retention.policy.ts)
+ */
+function archivedPoint(b: BalloonDataPoint): BalloonDataPoint {
+  return storedPoint({
+    id: b.id,
+    timestamp: b.timestamp,
+    latitude: b.latitude,
+    longitude: b.longitude,
+    altitude_km: b.altitude_km,
+    speed_kmh: b.speed_kmh,
+    direction_deg: b.direction_deg,
+    status: b.status,
+    hour_offset: b.hour_offset,
+    confidence: b.confidence,
+    filtered_speed_kmh: b.filtered_speed_kmh,
+    filtered_direction_deg: b.filtered_direction_deg,
+    source: b.source,
+    external_id: b.external_id,
+  });
+}
+
+function readPoint(b: BalloonDataPoint): BalloonDataPoint {
+  // Points saved without a confidence read back as fully confident, as in the SQL adapters
+  return { ...structuredClone(b), confidence: b.confidence ?? 1.0 };
+}
+
+export class MemoryService {
+  private retention: RetentionPolicy;
+  private createdAt = new Date().toISOString();
+
+  private windCache = new Map<string, Map<number, StoredWind>>();
+  private snapshots = new Map<string, StoredSnapshot>();
+  private snapshotVersions = new Map<string, StoredSnapshotVersion[]>();
+  private snapshotArchive = new Map<string, RawBalloonData[]>();
+  private tracked = new TrackIndex();
+  private trackedArchive = new TrackIndex();
+  private corrections: TrackCorrectionRecord[] = [];
+  private scratch = new Map<string, Map<string, ScratchPoint>>();
+  private events = new Map<number, BalloonEventRecord>();
+  private eventKeys = new Set<string>();
+  private ingestionReports = new Map<string, IngestionQualityReport>();
+  private externalSnapshots = new Map<string, StoredExternalSnapshot>();
+  private jobRuns = new Map<number, JobRun>();
+  private jobLocks = new Map<string, JobLockLease>();
+  private nextId = { correction: 1, event: 1, jobRun: 1 };
+
+  private statePath: string | null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: DatabaseOptions = {}) {
+    this.retention = options.retention ?? loadRetentionPolicy();
+    this.statePath = options.memorySnapshotPath ?? process.env.MEMORY_DB_SNAPSHOT ?? null;
+
+    if (this.statePath && fs.existsSync(this.statePath)) {
+      this.importState(JSON.parse(fs.readFileSync(this.statePath, 'utf8')));
+      console.log(`✅ Loaded in-memory database from ${this.statePath}`);
+    }
+
+    if (this.statePath && (options.memorySnapshotSave ?? process.env.MEMORY_DB_SNAPSHOT_SAVE !== 'false')) {
+      process.once('exit', () => this.saveState());
+    } else {
+      this.statePath = null;
+    }
+  }
+
+  // --- State Snapshot Methods ---
+
+  exportState(): MemoryDatabaseState {
+    return structuredClone({
+      format: STATE_FORMAT,
+      saved_at: new Date().toISOString(),
+      wind_cache: Array.from(this.windCache.values()).flatMap(entries => Array.from(entries.values())),
+      balloon_snapshots: Array.from(this.snapshots.values()),
+      balloon_snapshot_versions: Array.from(this.snapshotVersions.values()).flat(),
+      balloon_snapshots_archive: Array.from(this.snapshotArchive, ([timestamp, raw_data]) => ({ timestamp, raw_data })),
+      tracked_balloons: this.tracked.all(),
+      tracked_balloons_archive: this.trackedArchive.all(),
+      track_corrections: this.corrections,
+      scratch_tracked_balloons: Array.from(this.scratch.values()).flatMap(rows => Array.from(rows.values())),
+      balloon_events: Array.from(this.events.values()),
+      ingestion_reports: Array.from(this.ingestionReports.values()),
+      external_snapshots: Array.from(this.externalSnapshots.values()),
+      job_runs: Array.from(this.jobRuns.values()),
+    });
+  }
+
+  /**
+   * Replace everything held with a previously exported state
+   */
+  importState(state: MemoryDatabaseState) {
+    if (state.format !== STATE_FORMAT) {
+      throw new Error(`Unsupported in-memory database snapshot format ${state.format} (expected ${STATE_FORMAT})`);
+    }
+    const copy = structuredClone(state);
+
+    this.clearEverything();
+    for (const entry of copy.wind_cache) this.putWind(entry);
+    for (const s of copy.balloon_snapshots) this.snapshots.set(s.timestamp, s);
+    for (const v of copy.balloon_snapshot_versions) {
+      if (!this.snapshotVersions.has(v.timestamp)) this.snapshotVersions.set(v.timestamp, []);
+      this.snapshotVersions.get(v.timestamp)!.push(v);
+    }
+    for (const versions of this.snapshotVersions.values()) versions.sort((a, b) => a.version - b.version);
+    for (const a of copy.balloon_snapshots_archive) this.snapshotArchive.set(a.timestamp, a.raw_data);
+    for (const b of copy.tracked_balloons) this.tracked.put(b);
+    for (const b of copy.tracked_balloons_archive) this.trackedArchive.put(b);
+    this.corrections = copy.track_corrections;
+    for (const p of copy.scratch_tracked_balloons) this.putScratch(p);
+    for (const e of copy.balloon_events) {
+      this.events.set(e.id, e);
+      this.eventKeys.add(eventKey(e));
+    }
+    for (const r of copy.ingestion_reports) this.ingestionReports.set(r.timestamp, r);
+    for (const s of copy.external_snapshots) this.externalSnapshots.set(`${s.timestamp}|${s.source}`, s);
+    for (const run of copy.job_runs) this.jobRuns.set(run.id, run);
+
+    const nextAfter = (ids: number[]) => Math.max(0, ...ids) + 1;
+    this.nextId = {
+      correction: nextAfter(this.corrections.map(c => c.id)),
+      event: nextAfter(Array.from(this.events.keys())),
+      jobRun: nextAfter(Array.from(this.jobRuns.keys())),
+    };
+  }
+
+  /**
+   * Write the state to MEMORY_DB_SNAPSHOT now (no-op without one)
+   * Sync, so it also works from the exit handler
+   */
+  saveState() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.statePath) return;
+
+    try {
+      const tmpPath = `${this.statePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.exportState()));
+      fs.renameSync(tmpPath, this.statePath); // Never leave a half-written snapshot behind
+    } catch (error) {
+      console.error(`Error saving in-memory database to ${this.statePath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Schedule a save after a change (debounced)
+   */
+  private changed() {
+    if (!this.statePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.saveState(), SAVE_DELAY_MS);
+    this.saveTimer.unref(); // Exit saves anyway
+  }
+
+  // --- Schema Migration Methods ---
+
+  // No schema to migrate: every migration counts as applied when the adapter was created
+  async getMigrationStatus(): Promise<MigrationStatus[]> {
+    return migrationStatus(MIGRATIONS.map(m => ({ version: m.version, applied_at: this.createdAt })));
+  }
+
+  async runMigrations(options: { dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    return { dry_run: options.dryRun ?? false, migrations: [] };
+  }
+
+  // --- Wind Cache Methods ---
+
+  async getWindCache(lat: number, lon: number, altitude_km: number, timestamp?: number): Promise<{ data: WindData; timestamp: number } | null> {
+    const entries = this.windCache.get(windKey(lat, lon, altitude_km));
+    if (!entries) return null;
+
+    let entry: StoredWind | undefined;
+    if (timestamp) {
+      entry = entries.get(timestamp);
+    } else {
+      for (const candidate of entries.values()) {
+        if (!entry || candidate.timestamp > entry.timestamp) entry = candidate;
+      }
+    }
+
+    return entry ? { data: structuredClone(entry.data), timestamp: entry.timestamp } : null;
+  }
+
+  async setWindCache(data: WindData): Promise<void> {
+    this.putWind({
+      lat: Number(data.latitude.toFixed(1)),
+      lon: Number(data.longitude.toFixed(1)),
+      altitude_km: Number(data.altitude_km.toFixed(1)),
+      timestamp: new Date(data.timestamp).getTime(),
+      data: structuredClone(data),
+    });
+    this.changed();
+  }
+
+  private putWind(entry: StoredWind) {
+    const key = windKey(entry.lat, entry.lon, entry.altitude_km);
+    if (!this.windCache.has(key)) this.windCache.set(key, new Map());
+    this.windCache.get(key)!.set(entry.timestamp, entry);
+  }
+
+  async clearExpiredWindCache(maxAgeMs: number): Promise<void> {
+    const cutoff = Date.now() - maxAgeMs;
+    for (const [key, entries] of this.windCache) {
+      for (const timestamp of entries.keys()) {
+        if (timestamp < cutoff) entries.delete(timestamp);
+      }
+      if (entries.size === 0) this.windCache.delete(key);
+    }
+    this.changed();
+  }
+
+  // --- Balloon Snapshot Methods ---
+
+  /**
+   * Save an hour's rows as its latest snapshot
+   * Identical content is a no-op; different content becomes a new version
+   */
+  async saveBalloonSnapshot(timestamp: string, rawData: RawBalloonData[], source: SnapshotSource = {}): Promise<SnapshotSaveResult> {
+    const contentHash = hashSnapshot(rawData);
+    const current = this.snapshots.get(timestamp);
+
+    if (current && current.content_hash === contentHash) {
+      return { version: current.version, created: false, previous_version: current.version, tracked_version: current.tracked_version };
+    }
+
+    const version = (current?.version ?? 0) + 1;
+    const fetchedAt = source.fetched_at ?? new Date().toISOString();
+    const sourceUrl = source.source_url ?? null;
+    const rows = structuredClone(rawData);
+
+    if (!this.snapshotVersions.has(timestamp)) this.snapshotVersions.set(timestamp, []);
+    this.snapshotVersions.get(timestamp)!.push({
+      timestamp, version, content_hash: contentHash, fetched_at: fetchedAt, source_url: sourceUrl,
+      balloon_count: rawData.length, raw_data: rows,
+    });
+    this.snapshots.set(timestamp, {
+      timestamp, raw_data: rows, content_hash: contentHash, fetched_at: fetchedAt, source_url: sourceUrl,
+      version, tracked_version: current?.tracked_version ?? null,
+    });
+    this.changed();
+
+    return { version, created: true, previous_version: current?.version ?? null, tracked_version: current?.tracked_version ?? null };
+  }
+
+  async getBalloonSnapshot(timestamp: string): Promise<RawBalloonData[] | null> {
+    const snapshot = this.snapshots.get(timestamp);
+    return snapshot ? structuredClone(snapshot.raw_data) : null;
+  }
+
+  async getLatestSnapshotTimestamp(): Promise<string | null> {
+    return (await this.getSnapshotTimestamps())[0] ?? null;
+  }
+
+  async getAllSnapshots(): Promise<{ timestamp: string, data: RawBalloonData[] }[]> {
+    return (await this.getSnapshotTimestamps()).map(timestamp => ({
+      timestamp,
+      data: structuredClone(this.snapshots.get(timestamp)!.raw_data),
+    }));
+  }
+
+  /**
+   * Timestamps of stored snapshots, newest first
+   */
+  async getSnapshotTimestamps(range: TimeRange = {}): Promise<string[]> {
+    return Array.from(this.snapshots.keys())
+      .filter(timestamp => inRange(timestamp, range))
+      .sort((a, b) => compareText(b, a));
+  }
+
+  /**
+   * All stored versions of an hour, oldest first (without the rows)
+   */
+  async getSnapshotVersions(timestamp: string): Promise<SnapshotVersionInfo[]> {
+    return (this.snapshotVersions.get(timestamp) ?? []).map(({ raw_data: _rows, ...info }) => ({ ...info }));
+  }
+
+  async getSnapshotVersion(timestamp: string, version: number): Promise<RawBalloonData[] | null> {
+    const stored = this.snapshotVersions.get(timestamp)?.find(v => v.version === version);
+    return stored ? structuredClone(stored.raw_data) : null;
+  }
+
+  async getStaleSnapshots(): Promise<SnapshotStaleness[]> {
+    return Array.from(this.snapshots.values())
+      .filter(s => s.tracked_version !== null && s.tracked_version < s.version)
+      .sort((a, b) => compareText(b.timestamp, a.timestamp))
+      .map(s => ({ timestamp: s.timestamp, version: s.version, tracked_version: s.tracked_version! }));
+  }
+
+  // --- Tracked Balloon Methods ---
+
+  async saveTrackedBalloons(balloons: BalloonDataPoint[]): Promise<void> {
+    // Tracking is built on the latest snapshot of each hour (uploaded sondes aren't)
+    for (const timestamp of new Set(balloons.filter(b => !b.source).map(b => b.timestamp))) {
+      const snapshot = this.snapshots.get(timestamp);
+      if (snapshot) snapshot.tracked_version = snapshot.version;
+    }
+    for (const b of balloons) {
+      this.tracked.put(storedPoint(b));
+    }
+    this.changed();
+  }
+
+  async getMaxBalloonId(): Promise<number> {
+    // Only tracker-assigned IDs ('balloon_' + digits); uploaded sondes keep their own
+    let max = 0;
+    for (const id of this.tracked.ids()) {
+      const match = /^balloon_(\d+)$/.exec(id);
+      if (match) max = Math.max(max, Number(match[1]));
+    }
+    return max;
+  }
+
+  async getTrackedBalloonsByHour(hourOffset: number): Promise<BalloonDataPoint[]> {
+    return this.tracked.all().filter(b => b.hour_offset === hourOffset).map(readPoint);
+  }
+
+  async getTrackedBalloonsAtTimestamp(timestamp: string): Promise<BalloonDataPoint[]> {
+    return this.tracked.atTimestamp(timestamp).map(readPoint);
+  }
+
+  /**
+   * Points of one hour matching GET /api/balloons filters, ordered by ID (keyset pagination)
+   */
+  async queryTrackedBalloons(query: BalloonQuery): Promise<BalloonDataPoint[]> {
+    const { bbox, near } = query;
+    const matches = this.tracked.atTimestamp(query.timestamp).filter(b => {
+      if (bbox) {
+        if (b.latitude < bbox.min_lat || b.latitude > bbox.max_lat) return false;
+        // A box crossing the antimeridian is the union of two longitude ranges
+        const inLon = bbox.min_lon <= bbox.max_lon
+          ? b.longitude >= bbox.min_lon && b.longitude <= bbox.max_lon
+          : b.longitude >= bbox.min_lon || b.longitude <= bbox.max_lon;
+        if (!inLon) return false;
+      }
+      if (near && haversineDistance(near.latitude, near.longitude, b.latitude, b.longitude) > near.radius_km) return false;
+      if (query.min_altitude_km !== undefined && b.altitude_km < query.min_altitude_km) return false;
+      if (query.max_altitude_km !== undefined && b.altitude_km > query.max_altitude_km) return false;
+      if (query.min_speed_kmh !== undefined && !(b.speed_kmh !== undefined && b.speed_kmh >= query.min_speed_kmh)) return false;
+      if (query.max_speed_kmh !== undefined && !(b.speed_kmh !== undefined && b.speed_kmh <= query.max_speed_kmh)) return false;
+      if (query.statuses && query.statuses.length > 0 && !query.statuses.includes(b.status)) return false;
+      if (query.min_confidence !== undefined && (b.confidence ?? 1.0) < query.min_confidence) return false;
+      if (query.after_id !== undefined && b.id <= query.after_id) return false;
+      return true;
+    });
+
+    matches.sort((a, b) => compareText(a.id, b.id));
+    return (query.limit ? matches.slice(0, query.limit) : matches).map(readPoint);
+  }
+
+  /**
+   * Get trajectory for a specific balloon (oldest first)
+   * Spans the downsampled archive followed by the full-resolution points
+   */
+  async getBalloonTrajectory(balloonId: string, range: TimeRange = {}): Promise<BalloonDataPoint[]> {
+    return [...this.trackedArchive.ofBalloon(balloonId), ...this.tracked.ofBalloon(balloonId)]
+      .filter(b => inRange(b.timestamp, range))
+      .map(readPoint);
+  }
+
+  async getAllTrackedBalloons(): Promise<BalloonDataPoint[]> {
+    return this.tracked.all().map(readPoint);
+  }
+
+  /**
+   * Rewrite track IDs from a corrected link onwards and record the audit trail
+   * All points are collected before any is moved, so swaps don't overwrite each other
+   */
+  async applyTrackCorrection(correction: TrackCorrection): Promise<void> {
+    const { from_timestamp, to_timestamp, reassignments } = correction;
+    // The swap holds from the join on, including hours tracked after the lookahead window
+    const window = { from: from_timestamp };
+
+    const moves = reassignments.map(r => ({
+      r,
+      points: this.tracked.ofBalloon(r.old_id).filter(b => inRange(b.timestamp, window)),
+      events: Array.from(this.events.values()).filter(e => e.balloon_id === r.old_id && inRange(e.timestamp, window)),
+    }));
+
+    for (const { points } of moves) {
+      for (const b of points) this.tracked.delete(b);
+    }
+
+    const correctedAt = new Date().toISOString();
+    for (const { r, points, events } of moves) {
+      // The moved points carry the other track's filter run until they get their own
+      const filterStates = new Map(r.filter_states.map(f => [f.timestamp, f]));
+      for (const b of points) {
+        const moved: BalloonDataPoint = { ...b, id: r.new_id };
+        const filter = filterStates.get(b.timestamp);
+        if (filter) {
+          moved.kalman_state = filter.kalman_state;
+          moved.filtered_speed_kmh = filter.filtered_speed_kmh;
+          moved.filtered_direction_deg = filter.filtered_direction_deg;
+          moved.velocity_uncertainty_kmh = filter.velocity_uncertainty_kmh;
+        }
+        if (b.timestamp === from_timestamp) {
+          moved.speed_kmh = r.join_speed_kmh;
+          moved.direction_deg = r.join_direction_deg;
+          moved.match_phase = 'smoother';
+          delete moved.match_cost;
+          delete moved.score_breakdown;
+        }
+        this.tracked.put(moved);
+      }
+      // Events from the join on follow their observations to the new ID
+      for (const e of events) e.balloon_id = r.new_id;
+      this.corrections.push({
+        id: this.nextId.correction++,
+        corrected_at: correctedAt,
+        from_timestamp,
+        to_timestamp,
+        old_id: r.old_id,
+        new_id: r.new_id,
+        cost_before: correction.cost_before,
+        cost_after: correction.cost_after,
+      });
+    }
+
+    this.eventKeys = new Set(Array.from(this.events.values(), eventKey));
+    this.changed();
+  }
+
+  async getTrackCorrections(balloonId?: string): Promise<TrackCorrectionRecord[]> {
+    return this.corrections
+      .filter(c => !balloonId || c.old_id === balloonId || c.new_id === balloonId)
+      .map(c => ({ ...c }));
+  }
+
+  /**
+   * Drop feed tracking and lifecycle events at or after a timestamp (re-tracking from there)
+   */
+  async clearTrackingFrom(timestamp: string): Promise<void> {
+    const uploadedIds = new Set(this.tracked.all().filter(b => b.source).map(b => b.id));
+    for (const [id, e] of this.events) {
+      if (e.timestamp >= timestamp && !uploadedIds.has(e.balloon_id)) {
+        this.events.delete(id);
+        this.eventKeys.delete(eventKey(e));
+      }
+    }
+    for (const b of this.tracked.where(hour => hour >= timestamp)) {
+      if (!b.source) this.tracked.delete(b);
+    }
+    for (const s of this.snapshots.values()) {
+      if (s.timestamp >= timestamp) s.tracked_version = null;
+    }
+    this.changed();
+  }
+
+  // --- Uploaded Sonde Methods ---
+
+  async saveExternalSnapshot(timestamp: string, source: string, positions: IngestedPosition[]): Promise<void> {
+    this.externalSnapshots.set(`${timestamp}|${source}`, {
+      timestamp, source, positions: structuredClone(positions), updated_at: new Date().toISOString(),
+    });
+    this.changed();
+  }
+
+  async getExternalSnapshot(timestamp: string, source: string): Promise<IngestedPosition[] | null> {
+    const stored = this.externalSnapshots.get(`${timestamp}|${source}`);
+    return stored ? structuredClone(stored.positions) : null;
+  }
+
+  async clearSourceTracking(timestamp: string, source: string): Promise<void> {
+    for (const b of this.tracked.atTimestamp(timestamp)) {
+      if (b.source === source) this.tracked.delete(b);
+    }
+    this.changed();
+  }
+
+  // --- Lifecycle Event Methods ---
+
+  async saveBalloonEvents(events: BalloonEvent[]): Promise<void> {
+    const detectedAt = new Date().toISOString();
+    for (const e of events) {
+      const key = eventKey(e);
+      if (this.eventKeys.has(key)) continue;
+      this.eventKeys.add(key);
+      const id = this.nextId.event++;
+      this.events.set(id, { ...structuredClone(e), id, detected_at: detectedAt });
+    }
+    this.changed();
+  }
+
+  async getBalloonEvents(filter: BalloonEventFilter = {}): Promise<BalloonEventRecord[]> {
+    const { bbox } = filter;
+    const matches = Array.from(this.events.values()).filter(e => {
+      if (filter.types && filter.types.length > 0 && !filter.types.includes(e.type)) return false;
+      if (filter.balloon_id && e.balloon_id !== filter.balloon_id) return false;
+      if (!inRange(e.timestamp, filter)) return false;
+      if (bbox) {
+        if (e.latitude < bbox.min_lat || e.latitude > bbox.max_lat) return false;
+        // A box crossing the antimeridian is the union of two longitude ranges
+        const inLon = bbox.min_lon <= bbox.max_lon
+          ? e.longitude >= bbox.min_lon && e.longitude <= bbox.max_lon
+          : e.longitude >= bbox.min_lon || e.longitude <= bbox.max_lon;
+        if (!inLon) return false;
+      }
+      return true;
+    });
+
+    matches.sort((a, b) => byTimestamp(a, b) || a.id - b.id);
+    if (filter.order !== 'asc') matches.reverse();
+    return (filter.limit ? matches.slice(0, filter.limit) : matches).map(e => structuredClone(e));
+  }
+
+  // --- Ingestion Report Methods ---
+
+  async saveIngestionReport(report: IngestionQualityReport): Promise<void> {
+    this.ingestionReports.set(report.timestamp, structuredClone(report));
+    this.changed();
+  }
+
+  /**
+   * Get quality reports, newest hour first
+   */
+  async getIngestionReports(filter: IngestionReportFilter = {}): Promise<IngestionQualityReport[]> {
+    const reports = Array.from(this.ingestionReports.values())
+      .filter(r => inRange(r.timestamp, filter) && (!filter.anomalous_only || r.anomalies.length > 0))
+      .sort((a, b) => byTimestamp(b, a));
+    return (filter.limit ? reports.slice(0, filter.limit) : reports).map(r => structuredClone(r));
+  }
+
+  // --- Job Run Methods ---
+
+  async createJobRun(run: Omit<JobRun, 'id'>): Promise<number> {
+    const id = this.nextId.jobRun++;
+    this.jobRuns.set(id, { ...structuredClone(run), id });
+    this.changed();
+    return id;
+  }
+
+  async updateJobRun(run: JobRun): Promise<void> {
+    const current = this.jobRuns.get(run.id);
+    if (!current) return;
+    // Kind, trigger and start time are fixed at creation, as in the SQL adapters
+    this.jobRuns.set(run.id, { ...structuredClone(run), kind: current.kind, trigger: current.trigger, started_at: current.started_at });
+    this.changed();
+  }
+
+  /**
+   * Get job runs, most recently started first
+   */
+  async getJobRuns(filter: JobRunFilter = {}): Promise<JobRun[]> {
+    const runs = Array.from(this.jobRuns.values())
+      .filter(r =>
+        (!filter.kind || r.kind === filter.kind) &&
+        (!filter.status || r.status === filter.status) &&
+        inRange(r.started_at, filter)
+      )
+      .sort((a, b) => compareText(b.started_at, a.started_at) || b.id - a.id);
+    return (filter.limit ? runs.slice(0, filter.limit) : runs).map(r => structuredClone(r));
+  }
+
+  async getJobRun(id: number): Promise<JobRun | null> {
+    const run = this.jobRuns.get(id);
+    return run ? structuredClone(run) : null;
+  }
+
+  // --- Job Lock Methods (only shared within this process) ---
+
+  async acquireJobLock(name: string, owner: string, job: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const current = this.jobLocks.get(name);
+    if (current && current.owner !== owner && current.expires_at > now.toISOString()) {
+      return false;
+    }
+
+    this.jobLocks.set(name, {
+      name, owner, job, acquired_at: now.toISOString(), expires_at: new Date(now.getTime() + leaseMs).toISOString(),
+    });
+    return true;
+  }
+
+  async renewJobLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const current = this.jobLocks.get(name);
+    if (!current || current.owner !== owner) return false;
+    current.expires_at = new Date(Date.now() + leaseMs).toISOString();
+    return true;
+  }
+
+  async releaseJobLock(name: string, owner: string): Promise<void> {
+    if (this.jobLocks.get(name)?.owner === owner) this.jobLocks.delete(name);
+  }
+
+  async getJobLock(name: string): Promise<JobLockLease | null> {
+    const current = this.jobLocks.get(name);
+    return current && current.expires_at > new Date().toISOString() ? { ...current } : null;
+  }
+
+  // --- Scratch Track Methods (offline re-tracking) ---
+
+  async saveScratchTracks(namespace: string, balloons: BalloonDataPoint[]): Promise<void> {
+    for (const b of balloons) {
+      this.putScratch({
+        namespace, id: b.id, timestamp: b.timestamp, latitude: b.latitude, longitude: b.longitude,
+        altitude_km: b.altitude_km, status: b.status, confidence: b.confidence, match_cost: b.match_cost,
+        match_phase: b.match_phase, gap_hours: b.gap_hours,
+      });
+    }
+    this.changed();
+  }
+
+  private putScratch(point: ScratchPoint) {
+    if (!this.scratch.has(point.namespace)) this.scratch.set(point.namespace, new Map());
+    this.scratch.get(point.namespace)!.set(`${point.id}|${point.timestamp}`, point);
+  }
+
+  async clearScratchTracks(namespace: string): Promise<void> {
+    this.scratch.delete(namespace);
+    this.changed();
+  }
+
+  /**
+   * Apply the retention policy (see retention.policy.ts)
+   * Points past the full-resolution window are downsampled into the archive, then removed;
+   * archive entries past the archive window are deleted
+   */
+  async cleanupStaleData(): Promise<RetentionCleanupResult> {
+    const { fullCutoff, archiveCutoff } = getRetentionCutoffs(this.retention);
+    const archiveEnabled = this.retention.archiveWeeks > 0;
+    const interval = this.retention.archiveIntervalHours;
+    const onInterval = (timestamp: string) => Number(timestamp.slice(11, 13)) % interval === 0;
+    const toArchive = (timestamp: string) => timestamp < fullCutoff && timestamp >= archiveCutoff && onInterval(timestamp);
+
+    let archivedTrackedBalloons = 0;
+    let archivedSnapshots = 0;
+    let expiredArchiveRows = 0;
+
+    const expiredPoints = this.tracked.where(timestamp => timestamp < fullCutoff);
+    const expiredSnapshots = Array.from(this.snapshots.values()).filter(s => s.timestamp < fullCutoff);
+
+    if (archiveEnabled) {
+      // Keep observed points (not coasting placeholders) at hours divisible by the interval
+      for (const b of expiredPoints) {
+        if (b.status !== 'lost' && toArchive(b.timestamp)) {
+          this.trackedArchive.put(archivedPoint(b));
+          archivedTrackedBalloons++;
+        }
+      }
+      for (const s of expiredSnapshots) {
+        if (toArchive(s.timestamp)) {
+          this.snapshotArchive.set(s.timestamp, s.raw_data);
+          archivedSnapshots++;
+        }
+      }
+    }
+
+    for (const b of expiredPoints) this.tracked.delete(b);
+    for (const s of expiredSnapshots) this.snapshots.delete(s.timestamp);
+    for (const timestamp of this.snapshotVersions.keys()) {
+      if (timestamp < fullCutoff) this.snapshotVersions.delete(timestamp);
+    }
+    for (const [key, s] of this.externalSnapshots) {
+      if (s.timestamp < fullCutoff) this.externalSnapshots.delete(key);
+    }
+
+    // Expire the archive (everything, if the archive is disabled)
+    for (const b of this.trackedArchive.where(timestamp => timestamp < archiveCutoff)) {
+      this.trackedArchive.delete(b);
+      expiredArchiveRows++;
+    }
+    for (const timestamp of this.snapshotArchive.keys()) {
+      if (timestamp < archiveCutoff) {
+        this.snapshotArchive.delete(timestamp);
+        expiredArchiveRows++;
+      }
+    }
+
+    for (const timestamp of this.ingestionReports.keys()) {
+      if (timestamp < archiveCutoff) this.ingestionReports.delete(timestamp);
+    }
+    for (const [id, run] of this.jobRuns) {
+      if (run.started_at < archiveCutoff) this.jobRuns.delete(id);
+    }
+    this.changed();
+
+    const result = {
+      deletedTrackedBalloons: expiredPoints.length,
+      deletedSnapshots: expiredSnapshots.length,
+      archivedTrackedBalloons,
+      archivedSnapshots,
+      expiredArchiveRows,
+    };
+
+    console.log(
+      `Database cleanup: Deleted ${result.deletedTrackedBalloons} tracked balloons and ${result.deletedSnapshots} snapshots older than ${fullCutoff} ` +
+      `(archived ${result.archivedTrackedBalloons} + ${result.archivedSnapshots}, expired ${result.expiredArchiveRows} archive rows older than ${archiveCutoff})`
+    );
+
+    return result;
+  }
+
+  /**
+   * Clear ALL balloon data
+   * FALLBACK ONLY: Used when replacing the data with a fresh full fetch
+   */
+  async clearAllData(): Promise<void> {
+    console.log('⚠️  Clearing all balloon data from memory...');
+    const deletedTracked = this.tracked.all().length;
+    const deletedSnapshots = this.snapshots.size;
+
+    this.tracked.clear();
+    this.snapshots.clear();
+    this.snapshotVersions.clear();
+    this.externalSnapshots.clear();
+    this.trackedArchive.clear();
+    this.snapshotArchive.clear();
+    this.corrections = [];
+    this.events.clear();
+    this.eventKeys.clear();
+    this.changed();
+
+    console.log(`Cleared ${deletedTracked} tracked balloons and ${deletedSnapshots} snapshots`);
+  }
+
+  private clearEverything() {
+    this.windCache.clear();
+    this.snapshots.clear();
+    this.snapshotVersions.clear();
+    this.snapshotArchive.clear();
+    this.tracked.clear();
+    this.trackedArchive.clear();
+    this.corrections = [];
+    this.scratch.clear();
+    this.events.clear();
+    this.eventKeys.clear();
+    this.ingestionReports.clear();
+    this.externalSnapshots.clear();
+    this.jobRuns.clear();
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Schema Migrations
+ * Numbered schema changes shared by the SQLite and Postgres adapters
+ *
+ * Each adapter records applied versions in schema_migrations and runs the pending ones in
+ * order, each in its own transaction - at startup (unless DB_AUTO_MIGRATE=false) or with
+ * `npm run migrate`. Statements are shared unless a dialect needs its own SQL.
+ *
+ * To change the schema, append a migration with the next version; never edit one that has
+ * shipped. Migrations up to 13 describe the schema as it grew before this subsystem existed
+ * and only use IF NOT EXISTS / addColumns, so databases created back then are adopted as-is.
+ */
+
+import { MigrationStatus } from '../types/balloon';
+import { RetentionPolicy } from './retention.policy';
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export interface DatabaseOptions {
+  autoMigrate?: boolean;        // Apply pending migrations on startup (default: DB_AUTO_MIGRATE, on)
+  sqlitePath?: string;          // SQLite file (default backend/windborne.db, ':memory:' for none)
+  connectionString?: string;    // Postgres URL (default DATABASE_URL)
+  retention?: RetentionPolicy;  // Default: RETENTION_* env vars
+  memorySnapshotPath?: string;  // JSON state of the memory adapter (default MEMORY_DB_SNAPSHOT, '' for none)
+  memorySnapshotSave?: boolean; // Write that file back on changes (default: MEMORY_DB_SNAPSHOT_SAVE, on)
+}
+
+/**
+ * One schema change:
+ * - a statement both dialects run unchanged
+ * - dialect-specific statements
+ * - columns to add where missing (SQLite has no ADD COLUMN IF NOT EXISTS)
+ */
+export type MigrationStep =
+  | string
+  | { sqlite: string; postgres: string }
+  | { addColumns: { table: string; columns: [name: string, type: string][] } };
+
+export interface Migration {
+  version: number;
+  name: string;
+  steps: MigrationStep[];
+}
+
+const serialId = { sqlite: 'INTEGER PRIMARY KEY AUTOINCREMENT', postgres: 'SERIAL PRIMARY KEY' };
+
+/**
+ * CREATE TABLE whose id column is auto-incrementing
+ */
+function createWithSerialId(table: string, columns: string): MigrationStep {
+  return {
+    sqlite: `CREATE TABLE IF NOT EXISTS ${table} (id ${serialId.sqlite}, ${columns})`,
+    postgres: `CREATE TABLE IF NOT EXISTS ${table} (id ${serialId.postgres}, ${columns})`,
+  };
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    steps: [
+      {
+        sqlite: `CREATE TABLE IF NOT EXISTS wind_cache (
+          lat REAL, lon REAL, altitude_km REAL, data TEXT, timestamp INTEGER,
+          PRIMARY KEY (lat, lon, altitude_km, timestamp)
+        )`,
+        postgres: `CREATE TABLE IF NOT EXISTS wind_cache (
+          lat REAL, lon REAL, altitude_km REAL, data TEXT, timestamp BIGINT,
+          PRIMARY KEY (lat, lon, altitude_km, timestamp)
+        )`,
+      },
+      // Raw hour files (for replay/history)
+      `CREATE TABLE IF NOT EXISTS balloon_snapshots (
+        timestamp TEXT PRIMARY KEY,
+        raw_data TEXT
+      )`,
+      // Persistent ID state
+      `CREATE TABLE IF NOT EXISTS tracked_balloons (
+        id TEXT, timestamp TEXT, lat REAL, lon REAL, alt REAL,
+        speed_kmh REAL, direction_deg REAL, status TEXT, hour_offset INTEGER,
+        PRIMARY KEY (id, timestamp)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tracked_balloons_timestamp ON tracked_balloons(timestamp)',
+      // Trajectory queries (ORDER BY timestamp for a specific balloon)
+      'CREATE INDEX IF NOT EXISTS idx_balloon_trajectory ON tracked_balloons(id, timestamp)',
+    ],
+  },
+  {
+    version: 2,
+    name: 'coasting_gap_hours',
+    steps: [
+      { addColumns: { table: 'tracked_balloons', columns: [['gap_hours', 'INTEGER']] } },
+    ],
+  },
+  {
+    version: 3,
+    name: 'match_diagnostics',
+    steps: [
+      {
+        addColumns: {
+          table: 'tracked_balloons',
+          columns: [
+            ['confidence', 'REAL'],
+            ['match_cost', 'REAL'],
+            ['match_phase', 'TEXT'],
+            ['cost_distance', 'REAL'],
+            ['cost_direction', 'REAL'],
+            ['cost_speed', 'REAL'],
+            ['cost_altitude', 'REAL'],
+            ['cost_gap', 'REAL'],
+          ],
+        },
+      },
+    ],
+  },
+  {
+    version: 4,
+    name: 'track_corrections',
+    steps: [
+      // Audit log of retroactive ID corrections made by the fixed-lag smoother
+      createWithSerialId('track_corrections', `
+        corrected_at TEXT, from_timestamp TEXT, to_timestamp TEXT,
+        old_id TEXT, new_id TEXT, cost_before REAL, cost_after REAL
+      `),
+    ],
+  },
+  {
+    version: 5,
+    name: 'kalman_state',
+    steps: [
+      {
+        addColumns: {
+          table: 'tracked_balloons',
+          columns: [
+            ['kalman_state', 'TEXT'],
+            ['filtered_speed_kmh', 'REAL'],
+            ['filtered_direction_deg', 'REAL'],
+            ['velocity_uncertainty_kmh', 'REAL'],
+          ],
+        },
+      },
+    ],
+  },
+  {
+    version: 6,
+    name: 'scratch_tracks',
+    steps: [
+      // Offline re-track results (tracker profile tuning), kept apart from production IDs
+      `CREATE TABLE IF NOT EXISTS scratch_tracked_balloons (
+        namespace TEXT, id TEXT, timestamp TEXT, lat REAL, lon REAL, alt REAL,
+        status TEXT, confidence REAL, match_cost REAL, match_phase TEXT, gap_hours INTEGER,
+        PRIMARY KEY (namespace, id, timestamp)
+      )`,
+    ],
+  },
+  {
+    version: 7,
+    name: 'balloon_events',
+    steps: [
+      // One event per balloon, type and hour, so re-running detection is idempotent
+      createWithSerialId('balloon_events', `
+        balloon_id TEXT, type TEXT, timestamp TEXT, lat REAL, lon REAL, alt REAL,
+        details TEXT, detected_at TEXT,
+        UNIQUE (balloon_id, type, timestamp)
+      `),
+      'CREATE INDEX IF NOT EXISTS idx_balloon_events_timestamp ON balloon_events(timestamp)',
+    ],
+  },
+  {
+    version: 8,
+    name: 'retention_archive',
+    steps: [
+      // Downsampled archive past the full-resolution window (see retention.policy.ts)
+      `CREATE TABLE IF NOT EXISTS tracked_balloons_archive (
+        id TEXT, timestamp TEXT, lat REAL, lon REAL, alt REAL,
+        speed_kmh REAL, direction_deg REAL, status TEXT, hour_offset INTEGER,
+        confidence REAL, filtered_speed_kmh REAL, filtered_direction_deg REAL,
+        PRIMARY KEY (id, timestamp)
+      )`,
+      `CREATE TABLE IF NOT EXISTS balloon_snapshots_archive (
+        timestamp TEXT PRIMARY KEY,
+        raw_data TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tracked_balloons_archive_timestamp ON tracked_balloons_archive(timestamp)',
+    ],
+  },
+  {
+    version: 9,
+    name: 'ingestion_reports',
+    steps: [
+      // Data-quality report of each ingested hour file (see ingestion.quality.ts)
+      `CREATE TABLE IF NOT EXISTS ingestion_reports (
+        timestamp TEXT PRIMARY KEY, source TEXT, raw_count INTEGER, accepted_count INTEGER,
+        rejected TEXT, duplicate_rows INTEGER, coordinate_clusters TEXT,
+        previous_count INTEGER, count_delta INTEGER, fetch_error TEXT, anomalies TEXT,
+        ingested_at TEXT
+      )`,
+    ],
+  },
+  {
+    version: 10,
+    name: 'snapshot_versions',
+    steps: [
+      // Version metadata of the latest snapshot content (see snapshot.versioning.ts)
+      {
+        addColumns: {
+          table: 'balloon_snapshots',
+          columns: [
+            ['content_hash', 'TEXT'],
+            ['fetched_at', 'TEXT'],
+            ['source_url', 'TEXT'],
+            ['version', 'INTEGER'],
+            ['tracked_version', 'INTEGER'],
+          ],
+        },
+      },
+      // Every distinct content an hour file has been fetched with
+      `CREATE TABLE IF NOT EXISTS balloon_snapshot_versions (
+        timestamp TEXT, version INTEGER, content_hash TEXT, fetched_at TEXT,
+        source_url TEXT, balloon_count INTEGER, raw_data TEXT,
+        PRIMARY KEY (timestamp, version)
+      )`,
+    ],
+  },
+  {
+    version: 11,
+    name: 'job_locks',
+    steps: [
+      // Leases that keep tracking jobs from running twice at once (see job.lock.ts)
+      `CREATE TABLE IF NOT EXISTS job_locks (
+        name TEXT PRIMARY KEY, owner TEXT, job TEXT, acquired_at TEXT, expires_at TEXT
+      )`,
+    ],
+  },
+  {
+    version: 12,
+    name: 'job_runs',
+    steps: [
+      // History of data jobs (hourly updates, refreshes, backfills, ...), see job.runs.ts
+      createWithSerialId('job_runs', `
+        kind TEXT, trigger TEXT, status TEXT, started_at TEXT, finished_at TEXT,
+        duration_ms INTEGER, phases TEXT, balloons_fetched INTEGER, balloons_continued INTEGER,
+        balloons_new INTEGER, rows_deleted INTEGER, error TEXT, error_stack TEXT
+      `),
+      'CREATE INDEX IF NOT EXISTS idx_job_runs_started_at ON job_runs(started_at)',
+    ],
+  },
+  {
+    version: 13,
+    name: 'uploaded_sondes',
+    steps: [
+      // Uploaded sondes (POST /api/ingest); NULL for the Windborne feed
+      { addColumns: { table: 'tracked_balloons', columns: [['source', 'TEXT'], ['external_id', 'TEXT']] } },
+      { addColumns: { table: 'tracked_balloons_archive', columns: [['source', 'TEXT'], ['external_id', 'TEXT']] } },
+      // Uploaded positions per hour and source tag (see ingest.service.ts), apart from the feed's snapshots
+      `CREATE TABLE IF NOT EXISTS external_snapshots (
+        timestamp TEXT, source TEXT, positions TEXT, updated_at TEXT,
+        PRIMARY KEY (timestamp, source)
+      )`,
+    ],
+  },
+  {
+    version: 14,
+    name: 'balloon_query_indexes',
+    steps: [
+      // GET /api/balloons filters within one hour and pages through it by ID
+      'CREATE INDEX IF NOT EXISTS idx_tracked_balloons_timestamp_id ON tracked_balloons(timestamp, id)',
+      'CREATE INDEX IF NOT EXISTS idx_tracked_balloons_timestamp_lat ON tracked_balloons(timestamp, lat)',
+    ],
+  },
+];
+
+export const CREATE_SCHEMA_MIGRATIONS = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT,
+    applied_at TEXT
+  )
+`;
+
+/**
+ * Whether adapters apply pending migrations when they start (DB_AUTO_MIGRATE, default on)
+ */
+export function autoMigrateEnabled(): boolean {
+  return process.env.DB_AUTO_MIGRATE !== 'false';
+}
+
+/**
+ * Every known migration, with when it was applied (null while pending)
+ */
+export function migrationStatus(applied: { version: number; applied_at: string }[]): MigrationStatus[] {
+  const appliedAt = new Map(applied.map(m => [m.version, m.applied_at]));
+  return MIGRATIONS.map(m => ({
+    version: m.version,
+    name: m.name,
+    applied_at: appliedAt.get(m.version) ?? null,
+  }));
+}
+
+/**
+ * SQL a step runs on a dialect, for dry runs
+ * SQLite column additions are skipped at run time for columns that already exist
+ */
+export function describeStep(dialect: SqlDialect, step: MigrationStep): string[] {
+  if (typeof step === 'string') return [step];
+  if ('addColumns' in step) {
+    const { table, columns } = step.addColumns;
+    return dialect === 'postgres'
+      ? [`ALTER TABLE ${table} ${columns.map(([name, type]) => `ADD COLUMN IF NOT EXISTS ${name} ${type}`).join(', ')}`]
+      : columns.map(([name, type]) => `ALTER TABLE ${table} ADD COLUMN ${name} ${type} -- if missing`);
+  }
+  return [step[dialect]];
+}
@@ -1,80 +1,157 @@
-import { Pool, QueryResult } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
 import { WindData } from './wind.service';
-import { RawBalloonData, BalloonDataPoint } from '../types/balloon';
+import {
+  RawBalloonData,
+  BalloonDataPoint,
+  BalloonEvent,
+  BalloonEventFilter,
+  BalloonEventRecord,
+  BalloonQuery,
+  IngestedPosition,
+  IngestionQualityReport,
+  IngestionReportFilter,
+  JobLockLease,
+  JobRun,
+  JobRunFilter,
+  MigrationRunResult,
+  MigrationStatus,
+  RetentionCleanupResult,
+  SnapshotSaveResult,
+  SnapshotSource,
+  SnapshotStaleness,
+  SnapshotVersionInfo,
+  TimeRange,
+  TrackCorrection,
+  TrackCorrectionRecord,
+} from '../types/balloon';
+import { RetentionPolicy, getRetentionCutoffs, loadRetentionPolicy } from './retention.policy';
+import { EARTH_RADIUS_KM, KM_PER_DEGREE } from './geo.math';
+import { hashSnapshot } from './snapshot.versioning';
+import {
+  CREATE_SCHEMA_MIGRATIONS,
+  DatabaseOptions,
+  MIGRATIONS,
+  autoMigrateEnabled,
+  describeStep,
+  migrationStatus,
+} from './database.migrations';
+
 
 export class PostgresService {
   private pool: Pool;
+  private retention: RetentionPolicy;
 
-  constructor() {
+  constructor(options: DatabaseOptions = {}) {
     this.pool = new Pool({
-      connectionString: process.env.DATABASE_URL,
+      connectionString: options.connectionString ?? process.env.DATABASE_URL,
       ssl: process.env.NODE_ENV === 'production' ? {
         rejectUnauthorized: false
       } : false
     });
-    this.initializeTables();
+    this.retention = options.retention ?? loadRetentionPolicy();
+    this.initializeTables(options.autoMigrate);
   }
 
-  private async initializeTables() {
-    const client = await this.pool.connect();
-
+  /**
+   * Apply pending migrations, or only warn about them when DB_AUTO_MIGRATE=false
+   * (an explicit autoMigrate: false, as the migrate CLI passes, stays quiet)
+   */
+  private async initializeTables(autoMigrate?: boolean) {
     try {
-      // Wind Cache Table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS wind_cache (
-          lat REAL,
-          lon REAL,
-          altitude_km REAL,
-          data TEXT,
-          timestamp BIGINT,
-          PRIMARY KEY (lat, lon, altitude_km, timestamp)
-        )
-      `);
+      if (autoMigrate ?? autoMigrateEnabled()) {
+        const { migrations } = await this.runMigrations();
+        console.log(migrations.length > 0
+          ? `✅ Applied ${migrations.length} PostgreSQL migration(s): ${migrations.map(m => `${m.version}_${m.name}`).join(', ')}`
+          : '✅ PostgreSQL schema up to date');
+        return;
+      }
 
-      // Raw Balloon Snapshots
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS balloon_snapshots (
-          timestamp TEXT PRIMARY KEY,
-          raw_data TEXT
-        )
-      `);
+      if (autoMigrate !== undefined) return;
+      const pending = (await this.getMigrationStatus()).filter(m => !m.applied_at).length;
+      if (pending > 0) {
+        console.warn(`⚠️ ${pending} pending PostgreSQL migration(s) - DB_AUTO_MIGRATE=false, run \`npm run migrate\``);
+      }
+    } catch (error) {
+      console.error('Error migrating PostgreSQL schema:', error);
+      throw error;
+    }
+  }
 
-      // Tracked Balloons
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS tracked_balloons (
-          id TEXT,
-          timestamp TEXT,
-          lat REAL,
-          lon REAL,
-          alt REAL,
-          speed_kmh REAL,
-          direction_deg REAL,
-          status TEXT,
-          hour_offset INTEGER,
-          PRIMARY KEY (id, timestamp)
-        )
-      `);
+  // --- Schema Migration Methods (see database.migrations.ts) ---
 
-      // Indexes
-      await client.query(`
-        CREATE INDEX IF NOT EXISTS idx_tracked_balloons_timestamp
-        ON tracked_balloons(timestamp)
-      `);
+  async getMigrationStatus(): Promise<MigrationStatus[]> {
+    const client = await this.pool.connect();
+    try {
+      return migrationStatus(await this.readAppliedMigrations(client));
+    } finally {
+      client.release();
+    }
+  }
 
-      await client.query(`
-        CREATE INDEX IF NOT EXISTS idx_balloon_trajectory
-        ON tracked_balloons(id, timestamp)
-      `);
+  /**
+   * Apply pending migrations in order, each in its own transaction
+   * Holds an advisory lock for the whole run, so instances starting together migrate once.
+   * A dry run only lists the SQL that would run.
+   */
+  async runMigrations(options: { dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    const dryRun = options.dryRun ?? false;
+    const client = await this.pool.connect();
+    try {
+      if (!dryRun) {
+        await client.query(`SELECT pg_advisory_lock(hashtext('schema_migrations'))`);
+      }
 
-      console.log('✅ PostgreSQL tables initialized');
-    } catch (error) {
-      console.error('Error initializing PostgreSQL tables:', error);
-      throw error;
+      try {
+        const applied = new Set((await this.readAppliedMigrations(client)).map(m => m.version));
+        const pending = MIGRATIONS.filter(m => !applied.has(m.version));
+        const result: MigrationRunResult = {
+          dry_run: dryRun,
+          migrations: pending.map(m => ({
+            version: m.version,
+            name: m.name,
+            statements: m.steps.flatMap(step => describeStep('postgres', step)),
+          })),
+        };
+        if (dryRun || pending.length === 0) {
+          return result;
+        }
+
+        await client.query(CREATE_SCHEMA_MIGRATIONS);
+        for (const [i, migration] of pending.entries()) {
+          try {
+            await client.query('BEGIN');
+            for (const statement of result.migrations[i].statements) {
+              await client.query(statement);
+            }
+            await client.query(
+              'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+              [migration.version, migration.name, new Date().toISOString()]
+            );
+            await client.query('COMMIT');
+          } catch (error) {
+            await client.query('ROLLBACK');
+            throw new Error(`Migration ${migration.version}_${migration.name} failed: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+
+        return result;
+      } finally {
+        if (!dryRun) {
+          await client.query(`SELECT pg_advisory_unlock(hashtext('schema_migrations'))`);
+        }
+      }
     } finally {
       client.release();
     }
   }
 
+  private async readAppliedMigrations(client: PoolClient): Promise<{ version: number; applied_at: string }[]> {
+    const table = await client.query(`SELECT to_regclass('schema_migrations') AS name`);
+    if (!table.rows[0]?.name) return [];
+    const result = await client.query('SELECT version, applied_at FROM schema_migrations');
+    return result.rows;
+  }
+
   // --- Wind Cache Methods ---
 
   async getWindCache(lat: number, lon: number, altitude_km: number, timestamp?: number): Promise<{ data: WindData; timestamp: number } | null> {
@@ -102,7 +179,7 @@ export class PostgresService {
 
       return {
         data: JSON.parse(result.rows[0].data),
-        timestamp: result.rows[0].timestamp,
+        timestamp: Number(result.rows[0].timestamp), // BIGINT comes back as a string
       };
     } finally {
       client.release();
@@ -127,10 +204,10 @@ export class PostgresService {
   }
 
   async clearExpiredWindCache(maxAgeMs: number): Promise<void> {
-    const aggressiveCutoff = Date.now() - 48 * 60 * 60 * 1000;
+    const cutoff = Date.now() - maxAgeMs;
     const client = await this.pool.connect();
     try {
-      await client.query('DELETE FROM wind_cache WHERE timestamp < $1', [aggressiveCutoff]);
+      await client.query('DELETE FROM wind_cache WHERE timestamp < $1', [cutoff]);
     } finally {
       client.release();
     }
@@ -138,13 +215,64 @@ export class PostgresService {
 
   // --- Balloon Snapshot Methods ---
 
-  async saveBalloonSnapshot(timestamp: string, rawData: RawBalloonData[]): Promise<void> {
+  /**
+   * Save an hour's rows as its latest snapshot
+   * Identical content is a no-op; different content becomes a new version, and the
+   * previous versions stay in balloon_snapshot_versions
+   */
+  async saveBalloonSnapshot(timestamp: string, rawData: RawBalloonData[], source: SnapshotSource = {}): Promise<SnapshotSaveResult> {
+    const contentHash = hashSnapshot(rawData);
+    const fetchedAt = source.fetched_at ?? new Date().toISOString();
+    const insertVersion = `INSERT INTO balloon_snapshot_versions
+      (timestamp, version, content_hash, fetched_at, source_url, balloon_count, raw_data)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (timestamp, version) DO NOTHING`;
+
     const client = await this.pool.connect();
     try {
+      await client.query('BEGIN');
+
+      // Lock the row so concurrent saves of the same hour get consecutive versions
+      const currentResult = await client.query(
+        'SELECT raw_data, content_hash, version, tracked_version FROM balloon_snapshots WHERE timestamp = $1 FOR UPDATE',
+        [timestamp]
+      );
+      const current = currentResult.rows[0] as {
+        raw_data: string; content_hash: string | null; version: number | null; tracked_version: number | null;
+      } | undefined;
+
+      let previousVersion: number | null = null;
+      if (current) {
+        previousVersion = current.version ?? 1;
+        const currentHash = current.content_hash ?? hashSnapshot(JSON.parse(current.raw_data));
+        if (currentHash === contentHash) {
+          await client.query('COMMIT');
+          return { version: previousVersion, created: false, previous_version: previousVersion, tracked_version: current.tracked_version };
+        }
+        if (current.version === null) {
+          // Stored before versioning - keep it as version 1 so it can still be diffed
+          const legacyRows = JSON.parse(current.raw_data) as RawBalloonData[];
+          await client.query(insertVersion, [timestamp, 1, currentHash, null, null, legacyRows.length, current.raw_data]);
+        }
+      }
+
+      const version = (previousVersion ?? 0) + 1;
+      const rawJson = JSON.stringify(rawData);
+      await client.query(insertVersion, [timestamp, version, contentHash, fetchedAt, source.source_url ?? null, rawData.length, rawJson]);
+
       await client.query(
-        'INSERT INTO balloon_snapshots (timestamp, raw_data) VALUES ($1, $2) ON CONFLICT (timestamp) DO UPDATE SET raw_data = $2',
-        [timestamp, JSON.stringify(rawData)]
+        `INSERT INTO balloon_snapshots (timestamp, raw_data, content_hash, fetched_at, source_url, version, tracked_version)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (timestamp) DO UPDATE SET
+          raw_data = $2, content_hash = $3, fetched_at = $4, source_url = $5, version = $6`,
+        [timestamp, rawJson, contentHash, fetchedAt, source.source_url ?? null, version, null]
       );
+
+      await client.query('COMMIT');
+      return { version, created: true, previous_version: previousVersion, tracked_version: current?.tracked_version ?? null };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
@@ -190,6 +318,80 @@ export class PostgresService {
     }
   }
 
+  /**
+   * Timestamps of stored snapshots, newest first (without loading the data)
+   */
+  async getSnapshotTimestamps(range: TimeRange = {}): Promise<string[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (range.from) {
+      params.push(range.from);
+      conditions.push(`timestamp >= $${params.length}`);
+    }
+    if (range.to) {
+      params.push(range.to);
+      conditions.push(`timestamp <= $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT timestamp FROM balloon_snapshots ${where} ORDER BY timestamp DESC`,
+        params
+      );
+      return result.rows.map(r => r.timestamp);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * All stored versions of an hour, oldest first (without the rows)
+   */
+  async getSnapshotVersions(timestamp: string): Promise<SnapshotVersionInfo[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT timestamp, version, content_hash, fetched_at, source_url, balloon_count
+        FROM balloon_snapshot_versions
+        WHERE timestamp = $1
+        ORDER BY version ASC`,
+        [timestamp]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSnapshotVersion(timestamp: string, version: number): Promise<RawBalloonData[] | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT raw_data FROM balloon_snapshot_versions WHERE timestamp = $1 AND version = $2',
+        [timestamp, version]
+      );
+      return result.rows.length > 0 ? JSON.parse(result.rows[0].raw_data) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getStaleSnapshots(): Promise<SnapshotStaleness[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT timestamp, version, tracked_version FROM balloon_snapshots
+        WHERE tracked_version IS NOT NULL AND tracked_version < version
+        ORDER BY timestamp DESC`
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
   // --- Tracked Balloon Methods ---
 
   async saveTrackedBalloons(balloons: BalloonDataPoint[]): Promise<void> {
@@ -198,14 +400,29 @@ export class PostgresService {
     try {
       await client.query('BEGIN');
 
+      // Tracking is built on the latest snapshot of each hour - remember which version that was
+      // Uploaded sondes are not built on the feed snapshot
+      for (const timestamp of new Set(balloons.filter(b => !b.source).map(b => b.timestamp))) {
+        await client.query(
+          'UPDATE balloon_snapshots SET tracked_version = COALESCE(version, 1) WHERE timestamp = $1',
+          [timestamp]
+        );
+      }
+
       for (const b of balloons) {
         await client.query(
           `INSERT INTO tracked_balloons
-          (id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset)
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          (id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset, gap_hours,
+           confidence, match_cost, match_phase, cost_distance, cost_direction, cost_speed, cost_altitude, cost_gap,
+           kalman_state, filtered_speed_kmh, filtered_direction_deg, velocity_uncertainty_kmh, source, external_id)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
           ON CONFLICT (id, timestamp) DO UPDATE SET
             lat = $3, lon = $4, alt = $5, speed_kmh = $6,
-            direction_deg = $7, status = $8, hour_offset = $9`,
+            direction_deg = $7, status = $8, hour_offset = $9, gap_hours = $10,
+            confidence = $11, match_cost = $12, match_phase = $13, cost_distance = $14,
+            cost_direction = $15, cost_speed = $16, cost_altitude = $17, cost_gap = $18,
+            kalman_state = $19, filtered_speed_kmh = $20, filtered_direction_deg = $21,
+            velocity_uncertainty_kmh = $22, source = $23, external_id = $24`,
           [
             b.id,
             b.timestamp,
@@ -215,7 +432,22 @@ export class PostgresService {
             b.speed_kmh ?? null,
             b.direction_deg ?? null,
             b.status ?? 'active',
-            b.hour_offset
+            b.hour_offset,
+            b.gap_hours ?? null,
+            b.confidence ?? null,
+            b.match_cost ?? null,
+            b.match_phase ?? null,
+            b.score_breakdown?.distance ?? null,
+            b.score_breakdown?.direction ?? null,
+            b.score_breakdown?.speed ?? null,
+            b.score_breakdown?.altitude ?? null,
+            b.score_breakdown?.gap_penalty ?? null,
+            b.kalman_state ? JSON.stringify(b.kalman_state) : null,
+            b.filtered_speed_kmh ?? null,
+            b.filtered_direction_deg ?? null,
+            b.velocity_uncertainty_kmh ?? null,
+            b.source ?? null,
+            b.external_id ?? null
           ]
         );
       }
@@ -235,7 +467,7 @@ export class PostgresService {
       const result = await client.query(`
         SELECT MAX(CAST(substr(id, 9) AS INTEGER)) as max_id
         FROM tracked_balloons
-        WHERE id LIKE 'balloon_%'
+        WHERE id ~ '^balloon_[0-9]+$'
       `);
       return result.rows[0]?.max_id ?? 0;
     } finally {
@@ -270,12 +502,63 @@ export class PostgresService {
     }
   }
 
-  async getBalloonTrajectory(balloonId: string): Promise<BalloonDataPoint[]> {
+  /**
+   * Points of one hour matching GET /api/balloons filters, ordered by ID (keyset pagination)
+   * IDs compare bytewise (COLLATE "C"), as in SQLite, so cursors mean the same everywhere
+   */
+  async queryTrackedBalloons(query: BalloonQuery): Promise<BalloonDataPoint[]> {
+    const params: (string | number)[] = [];
+    const param = (value: string | number) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const conditions = [`timestamp = ${param(query.timestamp)}`];
+
+    if (query.bbox) {
+      const { min_lon, min_lat, max_lon, max_lat } = query.bbox;
+      conditions.push(`lat >= ${param(min_lat)} AND lat <= ${param(max_lat)}`);
+      // A box crossing the antimeridian is the union of two longitude ranges
+      conditions.push(min_lon <= max_lon
+        ? `(lon >= ${param(min_lon)} AND lon <= ${param(max_lon)})`
+        : `(lon >= ${param(min_lon)} OR lon <= ${param(max_lon)})`);
+    }
+    if (query.near) {
+      const { latitude, longitude, radius_km } = query.near;
+      conditions.push(`lat >= ${param(latitude - radius_km / KM_PER_DEGREE)} AND lat <= ${param(latitude + radius_km / KM_PER_DEGREE)}`);
+      const lat = param(latitude);
+      conditions.push(`2 * ${EARTH_RADIUS_KM} * asin(sqrt(LEAST(1,
+        power(sin(radians(lat - ${lat}) / 2), 2) + cos(radians(${lat})) * cos(radians(lat)) * power(sin(radians(lon - ${param(longitude)}) / 2), 2)
+      ))) <= ${param(radius_km)}`);
+    }
+    if (query.min_altitude_km !== undefined) {
+      conditions.push(`alt >= ${param(query.min_altitude_km)}`);
+    }
+    if (query.max_altitude_km !== undefined) {
+      conditions.push(`alt <= ${param(query.max_altitude_km)}`);
+    }
+    if (query.min_speed_kmh !== undefined) {
+      conditions.push(`speed_kmh >= ${param(query.min_speed_kmh)}`);
+    }
+    if (query.max_speed_kmh !== undefined) {
+      conditions.push(`speed_kmh <= ${param(query.max_speed_kmh)}`);
+    }
+    if (query.statuses && query.statuses.length > 0) {
+      conditions.push(`status IN (${query.statuses.map(param).join(', ')})`);
+    }
+    if (query.min_confidence !== undefined) {
+      conditions.push(`COALESCE(confidence, 1.0) >= ${param(query.min_confidence)}`);
+    }
+    if (query.after_id !== undefined) {
+      conditions.push(`id COLLATE "C" > ${param(query.after_id)}`);
+    }
+
+    const limit = query.limit ? `LIMIT ${param(query.limit)}` : '';
+
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM tracked_balloons WHERE id = $1 ORDER BY timestamp ASC',
-        [balloonId]
+        `SELECT * FROM tracked_balloons WHERE ${conditions.join(' AND ')} ORDER BY id COLLATE "C" ASC ${limit}`,
+        params
       );
       return result.rows.map(this.mapRowToBalloon);
     } finally {
@@ -283,6 +566,42 @@ export class PostgresService {
     }
   }
 
+  /**
+   * Get trajectory for a specific balloon (oldest first)
+   * Spans the downsampled archive followed by the full-resolution rows
+   *
+   * @param range - Optional inclusive time window
+   */
+  async getBalloonTrajectory(balloonId: string, range: TimeRange = {}): Promise<BalloonDataPoint[]> {
+    const conditions = ['id = $1'];
+    const params: string[] = [balloonId];
+    if (range.from) {
+      params.push(range.from);
+      conditions.push(`timestamp >= $${params.length}`);
+    }
+    if (range.to) {
+      params.push(range.to);
+      conditions.push(`timestamp <= $${params.length}`);
+    }
+    const where = conditions.join(' AND ');
+
+    const client = await this.pool.connect();
+    try {
+      // Archived rows are all older than the full-resolution window, so concatenating keeps the order
+      const archived = await client.query(
+        `SELECT * FROM tracked_balloons_archive WHERE ${where} ORDER BY timestamp ASC`,
+        params
+      );
+      const recent = await client.query(
+        `SELECT * FROM tracked_balloons WHERE ${where} ORDER BY timestamp ASC`,
+        params
+      );
+      return [...archived.rows, ...recent.rows].map(this.mapRowToBalloon);
+    } finally {
+      client.release();
+    }
+  }
+
   async getAllTrackedBalloons(): Promise<BalloonDataPoint[]> {
     const client = await this.pool.connect();
     try {
@@ -293,29 +612,598 @@ export class PostgresService {
     }
   }
 
-  async cleanupStaleData(): Promise<{ deletedTrackedBalloons: number; deletedSnapshots: number }> {
-    const cutoffTime = new Date();
-    cutoffTime.setHours(cutoffTime.getHours() - 24);
-    const cutoffTimestamp = cutoffTime.toISOString();
+  /**
+   * Atomically rewrite track IDs from a corrected link onwards and record the audit trail
+   * IDs are moved through a temporary prefix so swaps don't collide on (id, timestamp)
+   */
+  async applyTrackCorrection(correction: TrackCorrection): Promise<void> {
+    const { from_timestamp, to_timestamp, reassignments } = correction;
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const correctedAt = new Date().toISOString();
+
+      for (const r of reassignments) {
+        await client.query(
+          'UPDATE tracked_balloons SET id = $1 WHERE id = $2 AND timestamp >= $3',
+          [`__swap__${r.new_id}`, r.old_id, from_timestamp]
+        );
+        // Events from the join on follow their observations to the new ID
+        await client.query(
+          'UPDATE balloon_events SET balloon_id = $1 WHERE balloon_id = $2 AND timestamp >= $3',
+          [`__swap__${r.new_id}`, r.old_id, from_timestamp]
+        );
+      }
+
+      for (const r of reassignments) {
+        await client.query(
+          'UPDATE tracked_balloons SET id = $1 WHERE id = $2',
+          [r.new_id, `__swap__${r.new_id}`]
+        );
+        await client.query(
+          'UPDATE balloon_events SET balloon_id = $1 WHERE balloon_id = $2',
+          [r.new_id, `__swap__${r.new_id}`]
+        );
+        await client.query(
+          `UPDATE tracked_balloons
+          SET speed_kmh = $1, direction_deg = $2, match_phase = 'smoother', match_cost = NULL,
+            cost_distance = NULL, cost_direction = NULL, cost_speed = NULL, cost_altitude = NULL, cost_gap = NULL
+          WHERE id = $3 AND timestamp = $4`,
+          [r.join_speed_kmh, r.join_direction_deg, r.new_id, from_timestamp]
+        );
+        // The moved rows carry the other track's filter run until they get their own
+        for (const f of r.filter_states) {
+          await client.query(
+            `UPDATE tracked_balloons
+            SET kalman_state = $1, filtered_speed_kmh = $2, filtered_direction_deg = $3, velocity_uncertainty_kmh = $4
+            WHERE id = $5 AND timestamp = $6`,
+            [JSON.stringify(f.kalman_state), f.filtered_speed_kmh, f.filtered_direction_deg, f.velocity_uncertainty_kmh, r.new_id, f.timestamp]
+          );
+        }
+        await client.query(
+          `INSERT INTO track_corrections
+          (corrected_at, from_timestamp, to_timestamp, old_id, new_id, cost_before, cost_after)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [correctedAt, from_timestamp, to_timestamp, r.old_id, r.new_id, correction.cost_before, correction.cost_after]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getTrackCorrections(balloonId?: string): Promise<TrackCorrectionRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = balloonId
+        ? await client.query(
+          'SELECT * FROM track_corrections WHERE old_id = $1 OR new_id = $1 ORDER BY id ASC',
+          [balloonId]
+        )
+        : await client.query('SELECT * FROM track_corrections ORDER BY id ASC');
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Drop tracked rows and lifecycle events at or after a timestamp (re-tracking from there)
+   */
+  async clearTrackingFrom(timestamp: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `DELETE FROM balloon_events WHERE timestamp >= $1
+          AND balloon_id NOT IN (SELECT id FROM tracked_balloons WHERE source IS NOT NULL)`,
+        [timestamp]
+      );
+      await client.query('DELETE FROM tracked_balloons WHERE timestamp >= $1 AND source IS NULL', [timestamp]);
+      await client.query('UPDATE balloon_snapshots SET tracked_version = NULL WHERE timestamp >= $1', [timestamp]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // --- Uploaded Sonde Methods ---
+
+  async saveExternalSnapshot(timestamp: string, source: string, positions: IngestedPosition[]): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO external_snapshots (timestamp, source, positions, updated_at)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (timestamp, source) DO UPDATE SET positions = $3, updated_at = $4`,
+        [timestamp, source, JSON.stringify(positions), new Date().toISOString()]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getExternalSnapshot(timestamp: string, source: string): Promise<IngestedPosition[] | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT positions FROM external_snapshots WHERE timestamp = $1 AND source = $2',
+        [timestamp, source]
+      );
+      return result.rows.length > 0 ? JSON.parse(result.rows[0].positions) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async clearSourceTracking(timestamp: string, source: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('DELETE FROM tracked_balloons WHERE timestamp = $1 AND source = $2', [timestamp, source]);
+    } finally {
+      client.release();
+    }
+  }
+
+  // --- Lifecycle Event Methods ---
 
+  async saveBalloonEvents(events: BalloonEvent[]): Promise<void> {
     const client = await this.pool.connect();
+
     try {
+      await client.query('BEGIN');
+      const detectedAt = new Date().toISOString();
+
+      for (const e of events) {
+        await client.query(
+          `INSERT INTO balloon_events
+          (balloon_id, type, timestamp, lat, lon, alt, details, detected_at)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          ON CONFLICT (balloon_id, type, timestamp) DO NOTHING`,
+          [
+            e.balloon_id, e.type, e.timestamp, e.latitude, e.longitude, e.altitude_km,
+            e.details ? JSON.stringify(e.details) : null, detectedAt
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getBalloonEvents(filter: BalloonEventFilter = {}): Promise<BalloonEventRecord[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const param = (value: string | number) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (filter.types && filter.types.length > 0) {
+      conditions.push(`type IN (${filter.types.map(param).join(', ')})`);
+    }
+    if (filter.balloon_id) {
+      conditions.push(`balloon_id = ${param(filter.balloon_id)}`);
+    }
+    if (filter.from) {
+      conditions.push(`timestamp >= ${param(filter.from)}`);
+    }
+    if (filter.to) {
+      conditions.push(`timestamp <= ${param(filter.to)}`);
+    }
+    if (filter.bbox) {
+      const { min_lon, min_lat, max_lon, max_lat } = filter.bbox;
+      conditions.push(`lat >= ${param(min_lat)} AND lat <= ${param(max_lat)}`);
+      // A box crossing the antimeridian is the union of two longitude ranges
+      conditions.push(min_lon <= max_lon
+        ? `(lon >= ${param(min_lon)} AND lon <= ${param(max_lon)})`
+        : `(lon >= ${param(min_lon)} OR lon <= ${param(max_lon)})`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? `LIMIT ${param(filter.limit)}` : '';
+    const direction = filter.order === 'asc' ? 'ASC' : 'DESC';
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM balloon_events ${where} ORDER BY timestamp ${direction}, id ${direction} ${limit}`,
+        params
+      );
+      return result.rows.map(this.mapRowToEvent);
+    } finally {
+      client.release();
+    }
+  }
+
+  // --- Ingestion Report Methods ---
+
+  /**
+   * Save an hour's quality report (replaces the report of an earlier fetch of the same hour)
+   */
+  async saveIngestionReport(report: IngestionQualityReport): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO ingestion_reports
+        (timestamp, source, raw_count, accepted_count, rejected, duplicate_rows, coordinate_clusters,
+         previous_count, count_delta, fetch_error, anomalies, ingested_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        ON CONFLICT (timestamp) DO UPDATE SET
+          source = EXCLUDED.source,
+          raw_count = EXCLUDED.raw_count,
+          accepted_count = EXCLUDED.accepted_count,
+          rejected = EXCLUDED.rejected,
+          duplicate_rows = EXCLUDED.duplicate_rows,
+          coordinate_clusters = EXCLUDED.coordinate_clusters,
+          previous_count = EXCLUDED.previous_count,
+          count_delta = EXCLUDED.count_delta,
+          fetch_error = EXCLUDED.fetch_error,
+          anomalies = EXCLUDED.anomalies,
+          ingested_at = EXCLUDED.ingested_at`,
+        [
+          report.timestamp, report.source, report.raw_count, report.accepted_count,
+          JSON.stringify(report.rejected), report.duplicate_rows, JSON.stringify(report.coordinate_clusters),
+          report.previous_count, report.count_delta, report.fetch_error,
+          JSON.stringify(report.anomalies), report.ingested_at
+        ]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get quality reports, newest hour first
+   */
+  async getIngestionReports(filter: IngestionReportFilter = {}): Promise<IngestionQualityReport[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const param = (value: string | number) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (filter.from) {
+      conditions.push(`timestamp >= ${param(filter.from)}`);
+    }
+    if (filter.to) {
+      conditions.push(`timestamp <= ${param(filter.to)}`);
+    }
+    if (filter.anomalous_only) {
+      conditions.push(`anomalies != '[]'`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? `LIMIT ${param(filter.limit)}` : '';
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM ingestion_reports ${where} ORDER BY timestamp DESC ${limit}`,
+        params
+      );
+      return result.rows.map(this.mapRowToIngestionReport);
+    } finally {
+      client.release();
+    }
+  }
+
+  // --- Job Run Methods ---
+
+  async createJobRun(run: Omit<JobRun, 'id'>): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO job_runs
+        (kind, trigger, status, started_at, finished_at, duration_ms, phases,
+         balloons_fetched, balloons_continued, balloons_new, rows_deleted, error, error_stack)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING id`,
+        [
+          run.kind, run.trigger, run.status, run.started_at, run.finished_at, run.duration_ms,
+          JSON.stringify(run.phases), run.balloons_fetched, run.balloons_continued, run.balloons_new,
+          run.rows_deleted, run.error, run.error_stack
+        ]
+      );
+      return result.rows[0].id;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobRun(run: JobRun): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE job_runs SET
+          status = $1, finished_at = $2, duration_ms = $3, phases = $4,
+          balloons_fetched = $5, balloons_continued = $6, balloons_new = $7, rows_deleted = $8,
+          error = $9, error_stack = $10
+        WHERE id = $11`,
+        [
+          run.status, run.finished_at, run.duration_ms, JSON.stringify(run.phases),
+          run.balloons_fetched, run.balloons_continued, run.balloons_new, run.rows_deleted,
+          run.error, run.error_stack, run.id
+        ]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get job runs, most recently started first
+   */
+  async getJobRuns(filter: JobRunFilter = {}): Promise<JobRun[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const param = (value: string | number) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (filter.kind) {
+      conditions.push(`kind = ${param(filter.kind)}`);
+    }
+    if (filter.status) {
+      conditions.push(`status = ${param(filter.status)}`);
+    }
+    if (filter.from) {
+      conditions.push(`started_at >= ${param(filter.from)}`);
+    }
+    if (filter.to) {
+      conditions.push(`started_at <= ${param(filter.to)}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? `LIMIT ${param(filter.limit)}` : '';
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM job_runs ${where} ORDER BY started_at DESC, id DESC ${limit}`,
+        params
+      );
+      return result.rows.map(this.mapRowToJobRun);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJobRun(id: number): Promise<JobRun | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM job_runs WHERE id = $1', [id]);
+      return result.rows.length > 0 ? this.mapRowToJobRun(result.rows[0]) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // --- Job Lock Methods ---
+
+  /**
+   * Take the lease if it is free, expired or already ours
+   * Session advisory locks don't survive pooled/serverless connections, so the lease row is
+   * the lock; a transaction-scoped advisory lock serializes instances competing for it
+   */
+  async acquireJobLock(name: string, owner: string, job: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + leaseMs).toISOString();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`job_locks:${name}`]);
+
+      const current = await client.query(
+        'SELECT owner, expires_at FROM job_locks WHERE name = $1',
+        [name]
+      );
+      const row = current.rows[0] as { owner: string; expires_at: string } | undefined;
+      if (row && row.owner !== owner && row.expires_at > now.toISOString()) {
+        await client.query('COMMIT');
+        return false;
+      }
+
+      await client.query(
+        `INSERT INTO job_locks (name, owner, job, acquired_at, expires_at)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (name) DO UPDATE SET owner = $2, job = $3, acquired_at = $4, expires_at = $5`,
+        [name, owner, job, now.toISOString(), expiresAt]
+      );
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async renewJobLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'UPDATE job_locks SET expires_at = $1 WHERE name = $2 AND owner = $3',
+        [new Date(Date.now() + leaseMs).toISOString(), name, owner]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async releaseJobLock(name: string, owner: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('DELETE FROM job_locks WHERE name = $1 AND owner = $2', [name, owner]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJobLock(name: string): Promise<JobLockLease | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT name, owner, job, acquired_at, expires_at FROM job_locks WHERE name = $1 AND expires_at > $2',
+        [name, new Date().toISOString()]
+      );
+      return result.rows[0] ?? null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // --- Scratch Track Methods (offline re-tracking) ---
+
+  async saveScratchTracks(namespace: string, balloons: BalloonDataPoint[]): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const b of balloons) {
+        await client.query(
+          `INSERT INTO scratch_tracked_balloons
+          (namespace, id, timestamp, lat, lon, alt, status, confidence, match_cost, match_phase, gap_hours)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          ON CONFLICT (namespace, id, timestamp) DO UPDATE SET
+            lat = $4, lon = $5, alt = $6, status = $7, confidence = $8,
+            match_cost = $9, match_phase = $10, gap_hours = $11`,
+          [
+            namespace, b.id, b.timestamp, b.latitude, b.longitude, b.altitude_km, b.status,
+            b.confidence ?? null, b.match_cost ?? null, b.match_phase ?? null, b.gap_hours ?? null
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async clearScratchTracks(namespace: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('DELETE FROM scratch_tracked_balloons WHERE namespace = $1', [namespace]);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Apply the retention policy (see retention.policy.ts)
+   * Rows past the full-resolution window are downsampled into the archive tables, then
+   * removed; archive rows past the archive window are deleted
+   */
+  async cleanupStaleData(): Promise<RetentionCleanupResult> {
+    const { fullCutoff, archiveCutoff } = getRetentionCutoffs(this.retention);
+    const archiveEnabled = this.retention.archiveWeeks > 0;
+    const interval = this.retention.archiveIntervalHours;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      let archivedTrackedBalloons = 0;
+      let archivedSnapshots = 0;
+
+      if (archiveEnabled) {
+        // Keep observed points (not coasting placeholders) at hours divisible by the interval
+        const trackedArchive = await client.query(
+          `INSERT INTO tracked_balloons_archive
+          (id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset, confidence,
+           filtered_speed_kmh, filtered_direction_deg, source, external_id)
+          SELECT id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset, confidence,
+                 filtered_speed_kmh, filtered_direction_deg, source, external_id
+          FROM tracked_balloons
+          WHERE timestamp < $1 AND timestamp >= $2 AND status != 'lost'
+            AND CAST(SUBSTRING(timestamp, 12, 2) AS INTEGER) % $3 = 0
+          ON CONFLICT (id, timestamp) DO NOTHING`,
+          [fullCutoff, archiveCutoff, interval]
+        );
+        archivedTrackedBalloons = trackedArchive.rowCount ?? 0;
+
+        const snapshotsArchive = await client.query(
+          `INSERT INTO balloon_snapshots_archive (timestamp, raw_data)
+          SELECT timestamp, raw_data FROM balloon_snapshots
+          WHERE timestamp < $1 AND timestamp >= $2
+            AND CAST(SUBSTRING(timestamp, 12, 2) AS INTEGER) % $3 = 0
+          ON CONFLICT (timestamp) DO NOTHING`,
+          [fullCutoff, archiveCutoff, interval]
+        );
+        archivedSnapshots = snapshotsArchive.rowCount ?? 0;
+      }
+
       const trackedResult = await client.query(
         'DELETE FROM tracked_balloons WHERE timestamp < $1',
-        [cutoffTimestamp]
+        [fullCutoff]
       );
 
       const snapshotsResult = await client.query(
         'DELETE FROM balloon_snapshots WHERE timestamp < $1',
-        [cutoffTimestamp]
+        [fullCutoff]
+      );
+
+      // Version history is only kept for the full-resolution window (the archive holds the latest)
+      await client.query('DELETE FROM balloon_snapshot_versions WHERE timestamp < $1', [fullCutoff]);
+      await client.query('DELETE FROM external_snapshots WHERE timestamp < $1', [fullCutoff]);
+
+      // Expire the archive (everything, if the archive is disabled)
+      const expiredTracked = await client.query(
+        'DELETE FROM tracked_balloons_archive WHERE timestamp < $1',
+        [archiveCutoff]
+      );
+      const expiredSnapshots = await client.query(
+        'DELETE FROM balloon_snapshots_archive WHERE timestamp < $1',
+        [archiveCutoff]
       );
 
-      const deletedTrackedBalloons = trackedResult.rowCount ?? 0;
-      const deletedSnapshots = snapshotsResult.rowCount ?? 0;
+      // Quality reports live as long as the longest-kept data they describe
+      await client.query('DELETE FROM ingestion_reports WHERE timestamp < $1', [archiveCutoff]);
+      await client.query('DELETE FROM job_runs WHERE started_at < $1', [archiveCutoff]);
+
+      await client.query('COMMIT');
+
+      const result: RetentionCleanupResult = {
+        deletedTrackedBalloons: trackedResult.rowCount ?? 0,
+        deletedSnapshots: snapshotsResult.rowCount ?? 0,
+        archivedTrackedBalloons,
+        archivedSnapshots,
+        expiredArchiveRows: (expiredTracked.rowCount ?? 0) + (expiredSnapshots.rowCount ?? 0),
+      };
 
-      console.log(`Database cleanup: Deleted ${deletedTrackedBalloons} tracked balloons and ${deletedSnapshots} snapshots older than ${cutoffTimestamp}`);
+      console.log(
+        `Database cleanup: Deleted ${result.deletedTrackedBalloons} tracked balloons and ${result.deletedSnapshots} snapshots older than ${fullCutoff} ` +
+        `(archived ${result.archivedTrackedBalloons} + ${result.archivedSnapshots}, expired ${result.expiredArchiveRows} archive rows older than ${archiveCutoff})`
+      );
 
-      return { deletedTrackedBalloons, deletedSnapshots };
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
@@ -328,6 +1216,14 @@ export class PostgresService {
     try {
       const trackedResult = await client.query('DELETE FROM tracked_balloons');
       const snapshotsResult = await client.query('DELETE FROM balloon_snapshots');
+      await client.query('DELETE FROM balloon_snapshot_versions');
+      await client.query('DELETE FROM external_snapshots');
+      // Archived tracks would collide with the IDs handed out after a wipe
+      await client.query('DELETE FROM tracked_balloons_archive');
+      await client.query('DELETE FROM balloon_snapshots_archive');
+      // Correction audit and events refer to IDs that no longer exist after a wipe
+      await client.query('DELETE FROM track_corrections');
+      await client.query('DELETE FROM balloon_events');
 
       console.log(`Cleared ${trackedResult.rowCount ?? 0} tracked balloons and ${snapshotsResult.rowCount ?? 0} snapshots`);
     } finally {
@@ -346,7 +1242,74 @@ export class PostgresService {
       direction_deg: row.direction_deg,
       status: row.status as 'active' | 'lost' | 'new',
       hour_offset: row.hour_offset,
-      confidence: 1.0
+      gap_hours: row.gap_hours ?? undefined,
+      // Rows written before confidence was persisted default to full confidence
+      confidence: row.confidence ?? 1.0,
+      match_cost: row.match_cost ?? undefined,
+      match_phase: row.match_phase ?? undefined,
+      score_breakdown: row.cost_distance != null ? {
+        distance: row.cost_distance,
+        direction: row.cost_direction,
+        speed: row.cost_speed,
+        altitude: row.cost_altitude,
+        gap_penalty: row.cost_gap ?? 0
+      } : undefined,
+      kalman_state: row.kalman_state ? JSON.parse(row.kalman_state) : undefined,
+      filtered_speed_kmh: row.filtered_speed_kmh ?? undefined,
+      filtered_direction_deg: row.filtered_direction_deg ?? undefined,
+      velocity_uncertainty_kmh: row.velocity_uncertainty_kmh ?? undefined,
+      source: row.source ?? undefined,
+      external_id: row.external_id ?? undefined
+    };
+  }
+
+  private mapRowToEvent(row: any): BalloonEventRecord {
+    return {
+      id: row.id,
+      balloon_id: row.balloon_id,
+      type: row.type,
+      timestamp: row.timestamp,
+      latitude: row.lat,
+      longitude: row.lon,
+      altitude_km: row.alt,
+      details: row.details ? JSON.parse(row.details) : undefined,
+      detected_at: row.detected_at
+    };
+  }
+
+  private mapRowToIngestionReport(row: any): IngestionQualityReport {
+    return {
+      timestamp: row.timestamp,
+      source: row.source,
+      raw_count: row.raw_count,
+      accepted_count: row.accepted_count,
+      rejected: JSON.parse(row.rejected),
+      duplicate_rows: row.duplicate_rows,
+      coordinate_clusters: JSON.parse(row.coordinate_clusters),
+      previous_count: row.previous_count,
+      count_delta: row.count_delta,
+      fetch_error: row.fetch_error,
+      anomalies: JSON.parse(row.anomalies),
+      ingested_at: row.ingested_at
+    };
+  }
+
+  private mapRowToJobRun(row: any): JobRun {
+    return {
+      id: row.id,
+      kind: row.kind,
+      trigger: row.trigger,
+      status: row.status,
+      started_at: row.started_at,
+      finished_at: row.finished_at,
+      duration_ms: row.duration_ms,
+      phases: JSON.parse(row.phases),
+      balloons_fetched: row.balloons_fetched,
+      balloons_continued: row.balloons_continued,
+      balloons_new: row.balloons_new,
+      rows_deleted: row.rows_deleted,
+      error: row.error,
+      error_stack: row.error_stack
     };
   }
 
@@ -1,81 +1,151 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { WindData } from './wind.service';
-import { RawBalloonData, BalloonDataPoint } from '../types/balloon';
+import {
+  RawBalloonData,
+  BalloonDataPoint,
+  BalloonEvent,
+  BalloonEventFilter,
+  BalloonEventRecord,
+  BalloonQuery,
+  IngestionQualityReport,
+  IngestedPosition,
+  IngestionReportFilter,
+  JobLockLease,
+  JobRun,
+  JobRunFilter,
+  MigrationRunResult,
+  MigrationStatus,
+  RetentionCleanupResult,
+  SnapshotSaveResult,
+  SnapshotSource,
+  SnapshotStaleness,
+  SnapshotVersionInfo,
+  TimeRange,
+  TrackCorrection,
+  TrackCorrectionRecord,
+} from '../types/balloon';
+import { RetentionPolicy, getRetentionCutoffs, loadRetentionPolicy } from './retention.policy';
+import { EARTH_RADIUS_KM, KM_PER_DEGREE } from './geo.math';
+import { hashSnapshot } from './snapshot.versioning';
+import {
+  CREATE_SCHEMA_MIGRATIONS,
+  DatabaseOptions,
+  MIGRATIONS,
+  autoMigrateEnabled,
+  describeStep,
+  migrationStatus,
+} from './database.migrations';
+
 
 export class DatabaseService {
   private db: Database.Database;
+  private retention: RetentionPolicy;
 
-  constructor() {
+  constructor(options: DatabaseOptions = {}) {
     // Initialize DB in the root of backend or a data folder
-    const dbPath = path.resolve(__dirname, '../../windborne.db');
+    const dbPath = options.sqlitePath ?? path.resolve(__dirname, '../../windborne.db');
     this.db = new Database(dbPath);
-    this.initializeTables();
+    this.retention = options.retention ?? loadRetentionPolicy();
+    this.initializeTables(options.autoMigrate);
   }
 
-  private initializeTables() {
+  /**
+   * Apply pending migrations, or only warn about them when DB_AUTO_MIGRATE=false
+   * (an explicit autoMigrate: false, as the migrate CLI passes, stays quiet)
+   */
+  private initializeTables(autoMigrate?: boolean) {
+    if (autoMigrate ?? autoMigrateEnabled()) {
+      const { migrations } = this.applyMigrations(false);
+      if (migrations.length > 0) {
+        console.log(`✅ Applied ${migrations.length} SQLite migration(s): ${migrations.map(m => `${m.version}_${m.name}`).join(', ')}`);
+      }
+      return;
+    }
 
-    // Wind Cache Table
-    // Dropping to ensure schema update since we changed PK
-    // In production, use migrations!
-    this.db.exec(`DROP TABLE IF EXISTS wind_cache`);
+    const pending = autoMigrate === undefined ? this.readMigrationStatus().filter(m => !m.applied_at).length : 0;
+    if (pending > 0) {
+      console.warn(`⚠️ ${pending} pending SQLite migration(s) - DB_AUTO_MIGRATE=false, run \`npm run migrate\``);
+    }
+  }
 
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS wind_cache (
-        lat REAL,
-        lon REAL,
-        altitude_km REAL,
-        data TEXT,
-        timestamp INTEGER,
-        PRIMARY KEY (lat, lon, altitude_km, timestamp)
-      )
-    `);
+  // --- Schema Migration Methods (see database.migrations.ts) ---
 
-    // ... (other tables unchanged, but I need to include them to keep file valid if I replace block)
-    // Actually I can just target the wind_cache part if I'm careful.
-    // But getWindCache also needs update.
-    // I'll update the whole block.
-
-    // Raw Balloon Snapshots (for replay/history)
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS balloon_snapshots (
-        timestamp TEXT PRIMARY KEY,
-        raw_data TEXT
-      )
-    `);
+  async getMigrationStatus(): Promise<MigrationStatus[]> {
+    return this.readMigrationStatus();
+  }
 
-    // Tracked Balloons (Persistent ID state)
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tracked_balloons (
-        id TEXT,
-        timestamp TEXT,
-        lat REAL,
-        lon REAL,
-        alt REAL,
-        speed_kmh REAL,
-        direction_deg REAL,
-        status TEXT,
-        hour_offset INTEGER,
-        PRIMARY KEY (id, timestamp)
-      )
-    `);
+  async runMigrations(options: { dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    return this.applyMigrations(options.dryRun ?? false);
+  }
 
-    // Indexes for faster queries (Postgres-compatible syntax)
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_tracked_balloons_timestamp
-      ON tracked_balloons(timestamp)
-    `);
+  // Sync, so the constructor leaves an up-to-date schema behind
+  private readMigrationStatus(): MigrationStatus[] {
+    const table = this.db.prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`
+    ).get();
+    const applied = table
+      ? this.db.prepare('SELECT version, applied_at FROM schema_migrations').all() as { version: number; applied_at: string }[]
+      : [];
+    return migrationStatus(applied);
+  }
 
-    // Composite index for trajectory queries (ORDER BY timestamp for specific balloon)
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_balloon_trajectory
-      ON tracked_balloons(id, timestamp)
-    `);
+  /**
+   * Apply pending migrations in order, each in its own transaction
+   * A dry run only lists the SQL that would run
+   */
+  private applyMigrations(dryRun: boolean): MigrationRunResult {
+    const pendingVersions = new Set(this.readMigrationStatus().filter(m => !m.applied_at).map(m => m.version));
+    const pending = MIGRATIONS.filter(m => pendingVersions.has(m.version));
+    const result: MigrationRunResult = {
+      dry_run: dryRun,
+      migrations: pending.map(m => ({
+        version: m.version,
+        name: m.name,
+        statements: m.steps.flatMap(step => describeStep('sqlite', step)),
+      })),
+    };
+    if (result.dry_run || pending.length === 0) {
+      return result;
+    }
+
+    this.db.exec(CREATE_SCHEMA_MIGRATIONS);
+    const recordMigration = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        for (const step of migration.steps) {
+          if (typeof step === 'string') {
+            this.db.exec(step);
+          } else if ('addColumns' in step) {
+            for (const [column, type] of step.addColumns.columns) {
+              this.addColumnIfMissing(step.addColumns.table, column, type);
+            }
+          } else {
+            this.db.exec(step.sqlite);
+          }
+        }
+        recordMigration.run(migration.version, migration.name, new Date().toISOString());
+      })();
+    }
+
+    return result;
+  }
+
+  /**
+   * Add a column to an existing table if it isn't there yet
+   * SQLite has no ADD COLUMN IF NOT EXISTS, so check table_info first
+   */
+  private addColumnIfMissing(table: string, column: string, type: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
   }
 
   // --- Wind Cache Methods ---
 
-  getWindCache(lat: number, lon: number, altitude_km: number, timestamp?: number): { data: WindData; timestamp: number } | null {
+  async getWindCache(lat: number, lon: number, altitude_km: number, timestamp?: number): Promise<{ data: WindData; timestamp: number } | null> {
     const rLat = Number(lat.toFixed(1));
     const rLon = Number(lon.toFixed(1));
     const rAlt = Number(altitude_km.toFixed(1));
@@ -107,7 +177,7 @@ export class DatabaseService {
     };
   }
 
-  setWindCache(data: WindData): void {
+  async setWindCache(data: WindData): Promise<void> {
     const rLat = Number(data.latitude.toFixed(1));
     const rLon = Number(data.longitude.toFixed(1));
     const rAlt = Number(data.altitude_km.toFixed(1));
@@ -120,26 +190,66 @@ export class DatabaseService {
     `).run(rLat, rLon, rAlt, JSON.stringify(data), ts);
   }
 
-  clearExpiredWindCache(maxAgeMs: number): void {
+  async clearExpiredWindCache(maxAgeMs: number): Promise<void> {
     const cutoff = Date.now() - maxAgeMs;
-    // Don't clear historical cache if we need it for replay!
-    // But wind data expires? Historical wind is permanent.
-    // For now, only clear if really old?
-    // Let's modify to keep 2 days.
-    const aggressiveCutoff = Date.now() - 48 * 60 * 60 * 1000;
-    this.db.prepare(`DELETE FROM wind_cache WHERE timestamp < ?`).run(aggressiveCutoff);
+    this.db.prepare(`DELETE FROM wind_cache WHERE timestamp < ?`).run(cutoff);
   }
 
   // --- Balloon Snapshot Methods ---
 
-  saveBalloonSnapshot(timestamp: string, rawData: RawBalloonData[]): void {
-    this.db.prepare(`
-      INSERT OR REPLACE INTO balloon_snapshots (timestamp, raw_data)
-      VALUES (?, ?)
-    `).run(timestamp, JSON.stringify(rawData));
+  /**
+   * Save an hour's rows as its latest snapshot
+   * Identical content is a no-op; different content becomes a new version, and the
+   * previous versions stay in balloon_snapshot_versions
+   */
+  async saveBalloonSnapshot(timestamp: string, rawData: RawBalloonData[], source: SnapshotSource = {}): Promise<SnapshotSaveResult> {
+    const contentHash = hashSnapshot(rawData);
+    const fetchedAt = source.fetched_at ?? new Date().toISOString();
+
+    const insertVersion = this.db.prepare(`
+      INSERT OR REPLACE INTO balloon_snapshot_versions
+      (timestamp, version, content_hash, fetched_at, source_url, balloon_count, raw_data)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction((): SnapshotSaveResult => {
+      const current = this.db.prepare(`
+        SELECT raw_data, content_hash, version, tracked_version FROM balloon_snapshots WHERE timestamp = ?
+      `).get(timestamp) as {
+        raw_data: string; content_hash: string | null; version: number | null; tracked_version: number | null;
+      } | undefined;
+
+      let previousVersion: number | null = null;
+      if (current) {
+        previousVersion = current.version ?? 1;
+        const currentHash = current.content_hash ?? hashSnapshot(JSON.parse(current.raw_data));
+        if (currentHash === contentHash) {
+          return { version: previousVersion, created: false, previous_version: previousVersion, tracked_version: current.tracked_version };
+        }
+        if (current.version === null) {
+          // Stored before versioning - keep it as version 1 so it can still be diffed
+          const legacyRows = JSON.parse(current.raw_data) as RawBalloonData[];
+          insertVersion.run(timestamp, 1, currentHash, null, null, legacyRows.length, current.raw_data);
+        }
+      }
+
+      const version = (previousVersion ?? 0) + 1;
+      const rawJson = JSON.stringify(rawData);
+      insertVersion.run(timestamp, version, contentHash, fetchedAt, source.source_url ?? null, rawData.length, rawJson);
+
+      this.db.prepare(`
+        INSERT OR REPLACE INTO balloon_snapshots
+        (timestamp, raw_data, content_hash, fetched_at, source_url, version, tracked_version)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(timestamp, rawJson, contentHash, fetchedAt, source.source_url ?? null, version, current?.tracked_version ?? null);
+
+      return { version, created: true, previous_version: previousVersion, tracked_version: current?.tracked_version ?? null };
+    });
+
+    return save();
   }
 
-  getBalloonSnapshot(timestamp: string): RawBalloonData[] | null {
+  async getBalloonSnapshot(timestamp: string): Promise<RawBalloonData[] | null> {
     const row = this.db.prepare(`
       SELECT raw_data FROM balloon_snapshots WHERE timestamp = ?
     `).get(timestamp) as { raw_data: string } | undefined;
@@ -147,14 +257,14 @@ export class DatabaseService {
     return row ? JSON.parse(row.raw_data) : null;
   }
 
-  getLatestSnapshotTimestamp(): string | null {
+  async getLatestSnapshotTimestamp(): Promise<string | null> {
     const row = this.db.prepare(`
           SELECT timestamp FROM balloon_snapshots ORDER BY timestamp DESC LIMIT 1
       `).get() as { timestamp: string } | undefined;
     return row ? row.timestamp : null;
   }
 
-  getAllSnapshots(): { timestamp: string, data: RawBalloonData[] }[] {
+  async getAllSnapshots(): Promise<{ timestamp: string, data: RawBalloonData[] }[]> {
     const rows = this.db.prepare(`
           SELECT timestamp, raw_data FROM balloon_snapshots ORDER BY timestamp DESC
       `).all() as { timestamp: string, raw_data: string }[];
@@ -165,22 +275,101 @@ export class DatabaseService {
     }));
   }
 
+  /**
+   * Timestamps of stored snapshots, newest first (without loading the data)
+   */
+  async getSnapshotTimestamps(range: TimeRange = {}): Promise<string[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (range.from) {
+      conditions.push('timestamp >= ?');
+      params.push(range.from);
+    }
+    if (range.to) {
+      conditions.push('timestamp <= ?');
+      params.push(range.to);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = this.db.prepare(`
+      SELECT timestamp FROM balloon_snapshots ${where} ORDER BY timestamp DESC
+    `).all(...params) as { timestamp: string }[];
+
+    return rows.map(r => r.timestamp);
+  }
+
+  /**
+   * All stored versions of an hour, oldest first (without the rows)
+   */
+  async getSnapshotVersions(timestamp: string): Promise<SnapshotVersionInfo[]> {
+    return this.db.prepare(`
+      SELECT timestamp, version, content_hash, fetched_at, source_url, balloon_count
+      FROM balloon_snapshot_versions
+      WHERE timestamp = ?
+      ORDER BY version ASC
+    `).all(timestamp) as SnapshotVersionInfo[];
+  }
+
+  async getSnapshotVersion(timestamp: string, version: number): Promise<RawBalloonData[] | null> {
+    const row = this.db.prepare(`
+      SELECT raw_data FROM balloon_snapshot_versions WHERE timestamp = ? AND version = ?
+    `).get(timestamp, version) as { raw_data: string } | undefined;
+
+    return row ? JSON.parse(row.raw_data) : null;
+  }
+
+  async getStaleSnapshots(): Promise<SnapshotStaleness[]> {
+    return this.db.prepare(`
+      SELECT timestamp, version, tracked_version FROM balloon_snapshots
+      WHERE tracked_version IS NOT NULL AND tracked_version < version
+      ORDER BY timestamp DESC
+    `).all() as SnapshotStaleness[];
+  }
+
   // --- Tracked Balloon Methods ---
 
-  saveTrackedBalloons(balloons: BalloonDataPoint[]): void {
+  async saveTrackedBalloons(balloons: BalloonDataPoint[]): Promise<void> {
     const insert = this.db.prepare(`
           INSERT OR REPLACE INTO tracked_balloons 
-          (id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset)
-          VALUES (@id, @timestamp, @latitude, @longitude, @altitude_km, @speed_kmh, @direction_deg, @status, @hour_offset)
+          (id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset, gap_hours,
+           confidence, match_cost, match_phase, cost_distance, cost_direction, cost_speed, cost_altitude, cost_gap,
+           kalman_state, filtered_speed_kmh, filtered_direction_deg, velocity_uncertainty_kmh, source, external_id)
+          VALUES (@id, @timestamp, @latitude, @longitude, @altitude_km, @speed_kmh, @direction_deg, @status, @hour_offset, @gap_hours,
+           @confidence, @match_cost, @match_phase, @cost_distance, @cost_direction, @cost_speed, @cost_altitude, @cost_gap,
+           @kalman_state, @filtered_speed_kmh, @filtered_direction_deg, @velocity_uncertainty_kmh, @source, @external_id)
       `);
 
+    // Tracking is built on the latest snapshot of each hour - remember which version that was
+    const markTracked = this.db.prepare(`
+      UPDATE balloon_snapshots SET tracked_version = COALESCE(version, 1) WHERE timestamp = ?
+    `);
+
     const insertMany = this.db.transaction((balloons: BalloonDataPoint[]) => {
+      // Uploaded sondes are not built on the feed snapshot
+      for (const timestamp of new Set(balloons.filter(b => !b.source).map(b => b.timestamp))) {
+        markTracked.run(timestamp);
+      }
       for (const b of balloons) {
         insert.run({
           ...b,
           speed_kmh: b.speed_kmh ?? null,
           direction_deg: b.direction_deg ?? null,
-          status: b.status ?? 'active'
+          status: b.status ?? 'active',
+          gap_hours: b.gap_hours ?? null,
+          confidence: b.confidence ?? null,
+          match_cost: b.match_cost ?? null,
+          match_phase: b.match_phase ?? null,
+          cost_distance: b.score_breakdown?.distance ?? null,
+          cost_direction: b.score_breakdown?.direction ?? null,
+          cost_speed: b.score_breakdown?.speed ?? null,
+          cost_altitude: b.score_breakdown?.altitude ?? null,
+          cost_gap: b.score_breakdown?.gap_penalty ?? null,
+          kalman_state: b.kalman_state ? JSON.stringify(b.kalman_state) : null,
+          filtered_speed_kmh: b.filtered_speed_kmh ?? null,
+          filtered_direction_deg: b.filtered_direction_deg ?? null,
+          velocity_uncertainty_kmh: b.velocity_uncertainty_kmh ?? null,
+          source: b.source ?? null,
+          external_id: b.external_id ?? null
         });
       }
     });
@@ -188,15 +377,16 @@ export class DatabaseService {
     insertMany(balloons);
   }
 
-  getMaxBalloonId(): number {
-    // Assumes format 'balloon_XXXX'
+  async getMaxBalloonId(): Promise<number> {
+    // Only tracker-assigned IDs ('balloon_' + digits); uploaded sondes keep their own
     const row = this.db.prepare(`
-          SELECT MAX(CAST(substr(id, 9) AS INTEGER)) as maxId FROM tracked_balloons WHERE id LIKE 'balloon_%'
+          SELECT MAX(CAST(substr(id, 9) AS INTEGER)) as maxId FROM tracked_balloons
+          WHERE id GLOB 'balloon_[0-9]*' AND substr(id, 9) NOT GLOB '*[^0-9]*'
       `).get() as { maxId: number } | undefined;
     return row && row.maxId ? row.maxId : 0;
   }
 
-  getTrackedBalloonsByHour(hourOffset: number): BalloonDataPoint[] {
+  async getTrackedBalloonsByHour(hourOffset: number): Promise<BalloonDataPoint[]> {
     const rows = this.db.prepare(`
         SELECT * FROM tracked_balloons WHERE hour_offset = ?
     `).all(hourOffset) as any[];
@@ -204,7 +394,7 @@ export class DatabaseService {
     return rows.map(this.mapRowToBalloon);
   }
 
-  getTrackedBalloonsAtTimestamp(timestamp: string): BalloonDataPoint[] {
+  async getTrackedBalloonsAtTimestamp(timestamp: string): Promise<BalloonDataPoint[]> {
     const rows = this.db.prepare(`
         SELECT * FROM tracked_balloons WHERE timestamp = ?
     `).all(timestamp) as any[];
@@ -215,49 +405,551 @@ export class DatabaseService {
   }
 
   /**
-   * Get trajectory for a specific balloon (all timestamps for that balloon ID)
-   * OPTIMIZED: Loads only ~24 records instead of all 24,000 records
+   * Points of one hour matching GET /api/balloons filters, ordered by ID (keyset pagination)
+   * The radius test is a haversine in SQL, behind a latitude band the timestamp index narrows
    */
-  getBalloonTrajectory(balloonId: string): BalloonDataPoint[] {
+  async queryTrackedBalloons(query: BalloonQuery): Promise<BalloonDataPoint[]> {
+    const conditions = ['timestamp = ?'];
+    const params: (string | number)[] = [query.timestamp];
+
+    if (query.bbox) {
+      const { min_lon, min_lat, max_lon, max_lat } = query.bbox;
+      conditions.push('lat >= ? AND lat <= ?');
+      params.push(min_lat, max_lat);
+      // A box crossing the antimeridian is the union of two longitude ranges
+      conditions.push(min_lon <= max_lon ? '(lon >= ? AND lon <= ?)' : '(lon >= ? OR lon <= ?)');
+      params.push(min_lon, max_lon);
+    }
+    if (query.near) {
+      const { latitude, longitude, radius_km } = query.near;
+      conditions.push('lat >= ? AND lat <= ?');
+      params.push(latitude - radius_km / KM_PER_DEGREE, latitude + radius_km / KM_PER_DEGREE);
+      conditions.push(`2 * ${EARTH_RADIUS_KM} * asin(sqrt(min(1,
+        power(sin(radians(lat - ?) / 2), 2) + cos(radians(?)) * cos(radians(lat)) * power(sin(radians(lon - ?) / 2), 2)
+      ))) <= ?`);
+      params.push(latitude, latitude, longitude, radius_km);
+    }
+    if (query.min_altitude_km !== undefined) {
+      conditions.push('alt >= ?');
+      params.push(query.min_altitude_km);
+    }
+    if (query.max_altitude_km !== undefined) {
+      conditions.push('alt <= ?');
+      params.push(query.max_altitude_km);
+    }
+    if (query.min_speed_kmh !== undefined) {
+      conditions.push('speed_kmh >= ?');
+      params.push(query.min_speed_kmh);
+    }
+    if (query.max_speed_kmh !== undefined) {
+      conditions.push('speed_kmh <= ?');
+      params.push(query.max_speed_kmh);
+    }
+    if (query.statuses && query.statuses.length > 0) {
+      conditions.push(`status IN (${query.statuses.map(() => '?').join(', ')})`);
+      params.push(...query.statuses);
+    }
+    if (query.min_confidence !== undefined) {
+      conditions.push('COALESCE(confidence, 1.0) >= ?');
+      params.push(query.min_confidence);
+    }
+    if (query.after_id !== undefined) {
+      conditions.push('id > ?');
+      params.push(query.after_id);
+    }
+
+    const limit = query.limit ? 'LIMIT ?' : '';
+    if (query.limit) params.push(query.limit);
+
     const rows = this.db.prepare(`
       SELECT * FROM tracked_balloons
-      WHERE id = ?
-      ORDER BY timestamp ASC
-    `).all(balloonId) as any[];
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY id ASC
+      ${limit}
+    `).all(...params) as any[];
 
     return rows.map(this.mapRowToBalloon);
   }
 
-  getAllTrackedBalloons(): BalloonDataPoint[] {
+  /**
+   * Get trajectory for a specific balloon (oldest first)
+   * Spans the downsampled archive followed by the full-resolution rows
+   * OPTIMIZED: Loads only this balloon's rows instead of all 24,000 records
+   *
+   * @param range - Optional inclusive time window
+   */
+  async getBalloonTrajectory(balloonId: string, range: TimeRange = {}): Promise<BalloonDataPoint[]> {
+    const conditions = ['id = ?'];
+    const params: string[] = [balloonId];
+    if (range.from) {
+      conditions.push('timestamp >= ?');
+      params.push(range.from);
+    }
+    if (range.to) {
+      conditions.push('timestamp <= ?');
+      params.push(range.to);
+    }
+
+    const query = (table: string) => this.db.prepare(`
+      SELECT * FROM ${table}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY timestamp ASC
+    `).all(...params) as any[];
+
+    // Archived rows are all older than the full-resolution window, so concatenating keeps the order
+    return [...query('tracked_balloons_archive'), ...query('tracked_balloons')].map(this.mapRowToBalloon);
+  }
+
+  async getAllTrackedBalloons(): Promise<BalloonDataPoint[]> {
     const rows = this.db.prepare(`SELECT * FROM tracked_balloons`).all() as any[];
     return rows.map(this.mapRowToBalloon);
   }
 
   /**
-   * Clean up stale balloon data older than 24 hours
+   * Atomically rewrite track IDs from a corrected link onwards and record the audit trail
+   * IDs are moved through a temporary prefix so swaps don't collide on (id, timestamp)
+   */
+  async applyTrackCorrection(correction: TrackCorrection): Promise<void> {
+    const { from_timestamp, to_timestamp, reassignments } = correction;
+
+    const moveToTemp = this.db.prepare(`
+      UPDATE tracked_balloons SET id = ?
+      WHERE id = ? AND timestamp >= ?
+    `);
+    const moveFromTemp = this.db.prepare(`
+      UPDATE tracked_balloons SET id = ?
+      WHERE id = ?
+    `);
+    const updateJoin = this.db.prepare(`
+      UPDATE tracked_balloons
+      SET speed_kmh = ?, direction_deg = ?, match_phase = 'smoother', match_cost = NULL,
+          cost_distance = NULL, cost_direction = NULL, cost_speed = NULL, cost_altitude = NULL, cost_gap = NULL
+      WHERE id = ? AND timestamp = ?
+    `);
+    // The moved rows carry the other track's filter run until they get their own
+    const updateFilter = this.db.prepare(`
+      UPDATE tracked_balloons
+      SET kalman_state = ?, filtered_speed_kmh = ?, filtered_direction_deg = ?, velocity_uncertainty_kmh = ?
+      WHERE id = ? AND timestamp = ?
+    `);
+    // Events from the join on follow their observations to the new ID
+    const moveEventsToTemp = this.db.prepare(`
+      UPDATE balloon_events SET balloon_id = ?
+      WHERE balloon_id = ? AND timestamp >= ?
+    `);
+    const moveEventsFromTemp = this.db.prepare(`
+      UPDATE balloon_events SET balloon_id = ?
+      WHERE balloon_id = ?
+    `);
+    const insertAudit = this.db.prepare(`
+      INSERT INTO track_corrections
+      (corrected_at, from_timestamp, to_timestamp, old_id, new_id, cost_before, cost_after)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const apply = this.db.transaction(() => {
+      const correctedAt = new Date().toISOString();
+      for (const r of reassignments) {
+        moveToTemp.run(`__swap__${r.new_id}`, r.old_id, from_timestamp);
+        moveEventsToTemp.run(`__swap__${r.new_id}`, r.old_id, from_timestamp);
+      }
+      for (const r of reassignments) {
+        moveFromTemp.run(r.new_id, `__swap__${r.new_id}`);
+        moveEventsFromTemp.run(r.new_id, `__swap__${r.new_id}`);
+        updateJoin.run(r.join_speed_kmh, r.join_direction_deg, r.new_id, from_timestamp);
+        for (const f of r.filter_states) {
+          updateFilter.run(
+            JSON.stringify(f.kalman_state), f.filtered_speed_kmh, f.filtered_direction_deg, f.velocity_uncertainty_kmh,
+            r.new_id, f.timestamp
+          );
+        }
+        insertAudit.run(correctedAt, from_timestamp, to_timestamp, r.old_id, r.new_id, correction.cost_before, correction.cost_after);
+      }
+    });
+
+    apply();
+  }
+
+  async getTrackCorrections(balloonId?: string): Promise<TrackCorrectionRecord[]> {
+    if (balloonId) {
+      return this.db.prepare(`
+        SELECT * FROM track_corrections
+        WHERE old_id = ? OR new_id = ?
+        ORDER BY id ASC
+      `).all(balloonId, balloonId) as TrackCorrectionRecord[];
+    }
+
+    return this.db.prepare(`SELECT * FROM track_corrections ORDER BY id ASC`).all() as TrackCorrectionRecord[];
+  }
+
+  /**
+   * Drop tracked rows and lifecycle events at or after a timestamp (re-tracking from there)
+   */
+  async clearTrackingFrom(timestamp: string): Promise<void> {
+    const clear = this.db.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM balloon_events WHERE timestamp >= ?
+          AND balloon_id NOT IN (SELECT id FROM tracked_balloons WHERE source IS NOT NULL)
+      `).run(timestamp);
+      this.db.prepare(`DELETE FROM tracked_balloons WHERE timestamp >= ? AND source IS NULL`).run(timestamp);
+      this.db.prepare(`UPDATE balloon_snapshots SET tracked_version = NULL WHERE timestamp >= ?`).run(timestamp);
+    });
+    clear();
+  }
+
+  // --- Uploaded Sonde Methods ---
+
+  async saveExternalSnapshot(timestamp: string, source: string, positions: IngestedPosition[]): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO external_snapshots (timestamp, source, positions, updated_at)
+      VALUES (?, ?, ?, ?)
+    `).run(timestamp, source, JSON.stringify(positions), new Date().toISOString());
+  }
+
+  async getExternalSnapshot(timestamp: string, source: string): Promise<IngestedPosition[] | null> {
+    const row = this.db.prepare(
+      'SELECT positions FROM external_snapshots WHERE timestamp = ? AND source = ?'
+    ).get(timestamp, source) as { positions: string } | undefined;
+    return row ? JSON.parse(row.positions) : null;
+  }
+
+  async clearSourceTracking(timestamp: string, source: string): Promise<void> {
+    this.db.prepare('DELETE FROM tracked_balloons WHERE timestamp = ? AND source = ?').run(timestamp, source);
+  }
+
+  // --- Lifecycle Event Methods ---
+
+  async saveBalloonEvents(events: BalloonEvent[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO balloon_events
+      (balloon_id, type, timestamp, lat, lon, alt, details, detected_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertMany = this.db.transaction((events: BalloonEvent[]) => {
+      const detectedAt = new Date().toISOString();
+      for (const e of events) {
+        insert.run(
+          e.balloon_id, e.type, e.timestamp, e.latitude, e.longitude, e.altitude_km,
+          e.details ? JSON.stringify(e.details) : null, detectedAt
+        );
+      }
+    });
+
+    insertMany(events);
+  }
+
+  async getBalloonEvents(filter: BalloonEventFilter = {}): Promise<BalloonEventRecord[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.types && filter.types.length > 0) {
+      conditions.push(`type IN (${filter.types.map(() => '?').join(', ')})`);
+      params.push(...filter.types);
+    }
+    if (filter.balloon_id) {
+      conditions.push('balloon_id = ?');
+      params.push(filter.balloon_id);
+    }
+    if (filter.from) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('timestamp <= ?');
+      params.push(filter.to);
+    }
+    if (filter.bbox) {
+      const { min_lon, min_lat, max_lon, max_lat } = filter.bbox;
+      conditions.push('lat >= ? AND lat <= ?');
+      params.push(min_lat, max_lat);
+      // A box crossing the antimeridian is the union of two longitude ranges
+      conditions.push(min_lon <= max_lon ? '(lon >= ? AND lon <= ?)' : '(lon >= ? OR lon <= ?)');
+      params.push(min_lon, max_lon);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? 'LIMIT ?' : '';
+    if (filter.limit) params.push(filter.limit);
+
+    const direction = filter.order === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.db.prepare(`
+      SELECT * FROM balloon_events
+      ${where}
+      ORDER BY timestamp ${direction}, id ${direction}
+      ${limit}
+    `).all(...params) as any[];
+
+    return rows.map(this.mapRowToEvent);
+  }
+
+  // --- Ingestion Report Methods ---
+
+  /**
+   * Save an hour's quality report (replaces the report of an earlier fetch of the same hour)
+   */
+  async saveIngestionReport(report: IngestionQualityReport): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO ingestion_reports
+      (timestamp, source, raw_count, accepted_count, rejected, duplicate_rows, coordinate_clusters,
+       previous_count, count_delta, fetch_error, anomalies, ingested_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      report.timestamp, report.source, report.raw_count, report.accepted_count,
+      JSON.stringify(report.rejected), report.duplicate_rows, JSON.stringify(report.coordinate_clusters),
+      report.previous_count, report.count_delta, report.fetch_error,
+      JSON.stringify(report.anomalies), report.ingested_at
+    );
+  }
+
+  /**
+   * Get quality reports, newest hour first
+   */
+  async getIngestionReports(filter: IngestionReportFilter = {}): Promise<IngestionQualityReport[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.from) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('timestamp <= ?');
+      params.push(filter.to);
+    }
+    if (filter.anomalous_only) {
+      conditions.push(`anomalies != '[]'`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? 'LIMIT ?' : '';
+    if (filter.limit) params.push(filter.limit);
+
+    const rows = this.db.prepare(`
+      SELECT * FROM ingestion_reports
+      ${where}
+      ORDER BY timestamp DESC
+      ${limit}
+    `).all(...params) as any[];
+
+    return rows.map(this.mapRowToIngestionReport);
+  }
+
+  // --- Job Run Methods ---
+
+  async createJobRun(run: Omit<JobRun, 'id'>): Promise<number> {
+    const result = this.db.prepare(`
+      INSERT INTO job_runs
+      (kind, trigger, status, started_at, finished_at, duration_ms, phases,
+       balloons_fetched, balloons_continued, balloons_new, rows_deleted, error, error_stack)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.kind, run.trigger, run.status, run.started_at, run.finished_at, run.duration_ms,
+      JSON.stringify(run.phases), run.balloons_fetched, run.balloons_continued, run.balloons_new,
+      run.rows_deleted, run.error, run.error_stack
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  async updateJobRun(run: JobRun): Promise<void> {
+    this.db.prepare(`
+      UPDATE job_runs SET
+        status = ?, finished_at = ?, duration_ms = ?, phases = ?,
+        balloons_fetched = ?, balloons_continued = ?, balloons_new = ?, rows_deleted = ?,
+        error = ?, error_stack = ?
+      WHERE id = ?
+    `).run(
+      run.status, run.finished_at, run.duration_ms, JSON.stringify(run.phases),
+      run.balloons_fetched, run.balloons_continued, run.balloons_new, run.rows_deleted,
+      run.error, run.error_stack, run.id
+    );
+  }
+
+  /**
+   * Get job runs, most recently started first
+   */
+  async getJobRuns(filter: JobRunFilter = {}): Promise<JobRun[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.kind) {
+      conditions.push('kind = ?');
+      params.push(filter.kind);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.from) {
+      conditions.push('started_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('started_at <= ?');
+      params.push(filter.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? 'LIMIT ?' : '';
+    if (filter.limit) params.push(filter.limit);
+
+    const rows = this.db.prepare(`
+      SELECT * FROM job_runs
+      ${where}
+      ORDER BY started_at DESC, id DESC
+      ${limit}
+    `).all(...params) as any[];
+
+    return rows.map(this.mapRowToJobRun);
+  }
+
+  async getJobRun(id: number): Promise<JobRun | null> {
+    const row = this.db.prepare('SELECT * FROM job_runs WHERE id = ?').get(id);
+    return row ? this.mapRowToJobRun(row) : null;
+  }
+
+  // --- Job Lock Methods ---
+
+  async acquireJobLock(name: string, owner: string, job: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + leaseMs).toISOString();
+
+    // IMMEDIATE takes the write lock up front, so two processes can't both see the lease as free
+    return this.db.transaction(() => {
+      const current = this.db.prepare(
+        'SELECT owner, expires_at FROM job_locks WHERE name = ?'
+      ).get(name) as { owner: string; expires_at: string } | undefined;
+
+      if (current && current.owner !== owner && current.expires_at > now.toISOString()) {
+        return false;
+      }
+
+      this.db.prepare(`
+        INSERT OR REPLACE INTO job_locks (name, owner, job, acquired_at, expires_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(name, owner, job, now.toISOString(), expiresAt);
+      return true;
+    }).immediate();
+  }
+
+  async renewJobLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const result = this.db.prepare(
+      'UPDATE job_locks SET expires_at = ? WHERE name = ? AND owner = ?'
+    ).run(new Date(Date.now() + leaseMs).toISOString(), name, owner);
+    return result.changes > 0;
+  }
+
+  async releaseJobLock(name: string, owner: string): Promise<void> {
+    this.db.prepare('DELETE FROM job_locks WHERE name = ? AND owner = ?').run(name, owner);
+  }
+
+  async getJobLock(name: string): Promise<JobLockLease | null> {
+    const row = this.db.prepare(
+      'SELECT name, owner, job, acquired_at, expires_at FROM job_locks WHERE name = ? AND expires_at > ?'
+    ).get(name, new Date().toISOString()) as JobLockLease | undefined;
+    return row ?? null;
+  }
+
+  // --- Scratch Track Methods (offline re-tracking) ---
+
+  async saveScratchTracks(namespace: string, balloons: BalloonDataPoint[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO scratch_tracked_balloons
+      (namespace, id, timestamp, lat, lon, alt, status, confidence, match_cost, match_phase, gap_hours)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertMany = this.db.transaction((balloons: BalloonDataPoint[]) => {
+      for (const b of balloons) {
+        insert.run(
+          namespace, b.id, b.timestamp, b.latitude, b.longitude, b.altitude_km, b.status,
+          b.confidence ?? null, b.match_cost ?? null, b.match_phase ?? null, b.gap_hours ?? null
+        );
+      }
+    });
+
+    insertMany(balloons);
+  }
+
+  async clearScratchTracks(namespace: string): Promise<void> {
+    this.db.prepare('DELETE FROM scratch_tracked_balloons WHERE namespace = ?').run(namespace);
+  }
+
+  /**
+   * Apply the retention policy (see retention.policy.ts)
+   * Rows past the full-resolution window are downsampled into the archive tables, then
+   * removed; archive rows past the archive window are deleted
    * Should be called hourly to prevent database bloat
-   * OPTIMIZATION: Only keep current hour + 23 hours back (matches Windborne API retention)
    */
-  cleanupStaleData(): { deletedTrackedBalloons: number; deletedSnapshots: number } {
-    const cutoffTime = new Date();
-    cutoffTime.setHours(cutoffTime.getHours() - 24);
-    const cutoffTimestamp = cutoffTime.toISOString();
+  async cleanupStaleData(): Promise<RetentionCleanupResult> {
+    const { fullCutoff, archiveCutoff } = getRetentionCutoffs(this.retention);
+    const archiveEnabled = this.retention.archiveWeeks > 0;
+    const interval = this.retention.archiveIntervalHours;
+
+    const cleanup = this.db.transaction((): RetentionCleanupResult => {
+      let archivedTrackedBalloons = 0;
+      let archivedSnapshots = 0;
+      let expiredArchiveRows = 0;
 
-    // Delete old tracked balloons
-    const deletedTrackedBalloons = this.db.prepare(`
-      DELETE FROM tracked_balloons
-      WHERE timestamp < ?
-    `).run(cutoffTimestamp).changes;
+      if (archiveEnabled) {
+        // Keep observed points (not coasting placeholders) at hours divisible by the interval
+        archivedTrackedBalloons = this.db.prepare(`
+          INSERT OR REPLACE INTO tracked_balloons_archive
+          (id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset, confidence,
+           filtered_speed_kmh, filtered_direction_deg, source, external_id)
+          SELECT id, timestamp, lat, lon, alt, speed_kmh, direction_deg, status, hour_offset, confidence,
+                 filtered_speed_kmh, filtered_direction_deg, source, external_id
+          FROM tracked_balloons
+          WHERE timestamp < ? AND timestamp >= ? AND status != 'lost'
+            AND CAST(substr(timestamp, 12, 2) AS INTEGER) % ? = 0
+        `).run(fullCutoff, archiveCutoff, interval).changes;
 
-    // Delete old balloon snapshots
-    const deletedSnapshots = this.db.prepare(`
-      DELETE FROM balloon_snapshots
-      WHERE timestamp < ?
-    `).run(cutoffTimestamp).changes;
+        archivedSnapshots = this.db.prepare(`
+          INSERT OR REPLACE INTO balloon_snapshots_archive (timestamp, raw_data)
+          SELECT timestamp, raw_data FROM balloon_snapshots
+          WHERE timestamp < ? AND timestamp >= ?
+            AND CAST(substr(timestamp, 12, 2) AS INTEGER) % ? = 0
+        `).run(fullCutoff, archiveCutoff, interval).changes;
+      }
+
+      // Delete full-resolution rows past the window
+      const deletedTrackedBalloons = this.db.prepare(`
+        DELETE FROM tracked_balloons
+        WHERE timestamp < ?
+      `).run(fullCutoff).changes;
+
+      const deletedSnapshots = this.db.prepare(`
+        DELETE FROM balloon_snapshots
+        WHERE timestamp < ?
+      `).run(fullCutoff).changes;
+
+      // Version history is only kept for the full-resolution window (the archive holds the latest)
+      this.db.prepare(`DELETE FROM balloon_snapshot_versions WHERE timestamp < ?`).run(fullCutoff);
+      this.db.prepare(`DELETE FROM external_snapshots WHERE timestamp < ?`).run(fullCutoff);
+
+      // Expire the archive (everything, if the archive is disabled)
+      expiredArchiveRows += this.db.prepare(`
+        DELETE FROM tracked_balloons_archive WHERE timestamp < ?
+      `).run(archiveCutoff).changes;
+      expiredArchiveRows += this.db.prepare(`
+        DELETE FROM balloon_snapshots_archive WHERE timestamp < ?
+      `).run(archiveCutoff).changes;
+
+      // Quality reports live as long as the longest-kept data they describe
+      this.db.prepare(`DELETE FROM ingestion_reports WHERE timestamp < ?`).run(archiveCutoff);
+      this.db.prepare(`DELETE FROM job_runs WHERE started_at < ?`).run(archiveCutoff);
+
+      return { deletedTrackedBalloons, deletedSnapshots, archivedTrackedBalloons, archivedSnapshots, expiredArchiveRows };
+    });
 
-    console.log(`Database cleanup: Deleted ${deletedTrackedBalloons} tracked balloons and ${deletedSnapshots} snapshots older than ${cutoffTimestamp}`);
+    const result = cleanup();
 
-    return { deletedTrackedBalloons, deletedSnapshots };
+    console.log(
+      `Database cleanup: Deleted ${result.deletedTrackedBalloons} tracked balloons and ${result.deletedSnapshots} snapshots older than ${fullCutoff} ` +
+      `(archived ${result.archivedTrackedBalloons} + ${result.archivedSnapshots}, expired ${result.expiredArchiveRows} archive rows older than ${archiveCutoff})`
+    );
+
+    return result;
   }
 
   /**
@@ -265,7 +957,7 @@ export class DatabaseService {
    * FALLBACK ONLY: Used when replacing database with fresh full fetch
    * This is a destructive operation - use with caution!
    */
-  clearAllData(): void {
+  async clearAllData(): Promise<void> {
     console.log('⚠️  Clearing all balloon data from database...');
 
     // Clear tracked balloons
@@ -273,6 +965,16 @@ export class DatabaseService {
 
     // Clear balloon snapshots
     const deletedSnapshots = this.db.prepare(`DELETE FROM balloon_snapshots`).run().changes;
+    this.db.prepare(`DELETE FROM balloon_snapshot_versions`).run();
+    this.db.prepare(`DELETE FROM external_snapshots`).run();
+
+    // Archived tracks would collide with the IDs handed out after a wipe
+    this.db.prepare(`DELETE FROM tracked_balloons_archive`).run();
+    this.db.prepare(`DELETE FROM balloon_snapshots_archive`).run();
+
+    // Correction audit and events refer to IDs that no longer exist after a wipe
+    this.db.prepare(`DELETE FROM track_corrections`).run();
+    this.db.prepare(`DELETE FROM balloon_events`).run();
 
     console.log(`Cleared ${deletedTracked} tracked balloons and ${deletedSnapshots} snapshots`);
   }
@@ -288,7 +990,74 @@ export class DatabaseService {
       direction_deg: row.direction_deg,
       status: row.status as 'active' | 'lost' | 'new',
       hour_offset: row.hour_offset,
-      confidence: 1.0
+      gap_hours: row.gap_hours ?? undefined,
+      // Rows written before confidence was persisted default to full confidence
+      confidence: row.confidence ?? 1.0,
+      match_cost: row.match_cost ?? undefined,
+      match_phase: row.match_phase ?? undefined,
+      score_breakdown: row.cost_distance != null ? {
+        distance: row.cost_distance,
+        direction: row.cost_direction,
+        speed: row.cost_speed,
+        altitude: row.cost_altitude,
+        gap_penalty: row.cost_gap ?? 0
+      } : undefined,
+      kalman_state: row.kalman_state ? JSON.parse(row.kalman_state) : undefined,
+      filtered_speed_kmh: row.filtered_speed_kmh ?? undefined,
+      filtered_direction_deg: row.filtered_direction_deg ?? undefined,
+      velocity_uncertainty_kmh: row.velocity_uncertainty_kmh ?? undefined,
+      source: row.source ?? undefined,
+      external_id: row.external_id ?? undefined
+    };
+  }
+
+  private mapRowToEvent(row: any): BalloonEventRecord {
+    return {
+      id: row.id,
+      balloon_id: row.balloon_id,
+      type: row.type,
+      timestamp: row.timestamp,
+      latitude: row.lat,
+      longitude: row.lon,
+      altitude_km: row.alt,
+      details: row.details ? JSON.parse(row.details) : undefined,
+      detected_at: row.detected_at
+    };
+  }
+
+  private mapRowToIngestionReport(row: any): IngestionQualityReport {
+    return {
+      timestamp: row.timestamp,
+      source: row.source,
+      raw_count: row.raw_count,
+      accepted_count: row.accepted_count,
+      rejected: JSON.parse(row.rejected),
+      duplicate_rows: row.duplicate_rows,
+      coordinate_clusters: JSON.parse(row.coordinate_clusters),
+      previous_count: row.previous_count,
+      count_delta: row.count_delta,
+      fetch_error: row.fetch_error,
+      anomalies: JSON.parse(row.anomalies),
+      ingested_at: row.ingested_at
+    };
+  }
+
+  private mapRowToJobRun(row: any): JobRun {
+    return {
+      id: row.id,
+      kind: row.kind,
+      trigger: row.trigger,
+      status: row.status,
+      started_at: row.started_at,
+      finished_at: row.finished_at,
+      duration_ms: row.duration_ms,
+      phases: JSON.parse(row.phases),
+      balloons_fetched: row.balloons_fetched,
+      balloons_continued: row.balloons_continued,
+      balloons_new: row.balloons_new,
+      rows_deleted: row.rows_deleted,
+      error: row.error,
+      error_stack: row.error_stack
     };
   }
 }
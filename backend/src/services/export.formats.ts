@@ -0,0 +1,380 @@
+/**
+ * Track Export Formats
+ * Serializes balloon trajectories (BalloonTrajectory) for GIS tools: GeoJSON for QGIS and
+ * web maps, KML for Google Earth, GPX for anything that reads GPS tracks and CZML for
+ * time-animated playback on a 3D globe (Cesium)
+ *
+ * Observed positions and predictions are separate layers in every format, coloured like the
+ * map (blue tracks, amber predictions). A prediction line starts at the last
+ * observed position so the two layers join up. Altitudes are written in metres, as each
+ * format expects; GeoJSON points also carry altitude_km.
+ */
+
+import { BalloonDataPoint, BalloonTrajectory, PredictedPosition } from '../types/balloon';
+
+export const EXPORT_FORMATS = ['geojson', 'kml', 'gpx', 'czml'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface RenderedExport {
+  contentType: string;
+  extension: string;
+  body: string;
+}
+
+// Same colours as the map's trajectory layer
+const TRACK_COLOR = '#3b82f6';
+const PREDICTION_COLOR = '#f59e0b';
+
+// Same altitude bands as the map's balloon markers (getAltitudeColor in BalloonMap.tsx)
+const ALTITUDE_COLOR_BANDS: { below_km: number; color: string }[] = [
+  { below_km: 5, color: '#9ecae1' },
+  { below_km: 10, color: '#6baed6' },
+  { below_km: 15, color: '#4292c6' },
+  { below_km: 20, color: '#2171b5' },
+  { below_km: Infinity, color: '#084594' },
+];
+
+type ExportLayer = 'track' | 'prediction';
+
+// Observed and predicted positions share these fields
+type PathPoint = Pick<PredictedPosition, 'latitude' | 'longitude' | 'altitude_km' | 'timestamp'>;
+
+/**
+ * Altitude in metres, rounded to a decimetre
+ */
+function altitudeMeters(altitude_km: number): number {
+  return Math.round(altitude_km * 10000) / 10;
+}
+
+/**
+ * Prediction line vertices: the last observed position followed by the predictions
+ */
+function predictionPath(trajectory: BalloonTrajectory): PathPoint[] {
+  const last = trajectory.historical_positions[trajectory.historical_positions.length - 1];
+  return last ? [last, ...trajectory.predicted_positions] : trajectory.predicted_positions;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * KML colours are aabbggrr
+ */
+function kmlColor(hex: string, alpha: string = 'ff'): string {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `${alpha}${b}${g}${r}`;
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+function lineFeature(balloonId: string, layer: ExportLayer, path: PathPoint[]) {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: path.map(p => [p.longitude, p.latitude, altitudeMeters(p.altitude_km)]),
+    },
+    properties: {
+      balloon_id: balloonId,
+      layer,
+      begin: path[0].timestamp,
+      end: path[path.length - 1].timestamp,
+      point_count: path.length,
+      // Per-vertex times, as GPX converters and QGIS time tools read them
+      coordTimes: path.map(p => p.timestamp),
+      stroke: layer === 'track' ? TRACK_COLOR : PREDICTION_COLOR,
+      'stroke-width': 2,
+      'stroke-opacity': layer === 'track' ? 0.8 : 0.9,
+    },
+  };
+}
+
+function toGeoJson(trajectories: BalloonTrajectory[]): string {
+  const features: object[] = [];
+
+  for (const trajectory of trajectories) {
+    const observed = trajectory.historical_positions;
+    if (observed.length > 1) {
+      features.push(lineFeature(trajectory.balloon_id, 'track', observed));
+    }
+    for (const p of observed) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [p.longitude, p.latitude, altitudeMeters(p.altitude_km)] },
+        properties: {
+          balloon_id: trajectory.balloon_id,
+          layer: 'track',
+          timestamp: p.timestamp,
+          altitude_km: p.altitude_km,
+          speed_kmh: p.speed_kmh ?? null,
+          direction_deg: p.direction_deg ?? null,
+          status: p.status,
+          confidence: p.confidence,
+          'marker-color': TRACK_COLOR,
+        },
+      });
+    }
+
+    if (trajectory.predicted_positions.length === 0) continue;
+    features.push(lineFeature(trajectory.balloon_id, 'prediction', predictionPath(trajectory)));
+    for (const p of trajectory.predicted_positions) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [p.longitude, p.latitude, altitudeMeters(p.altitude_km)] },
+        properties: {
+          balloon_id: trajectory.balloon_id,
+          layer: 'prediction',
+          timestamp: p.timestamp,
+          altitude_km: p.altitude_km,
+          confidence: p.confidence,
+          method: p.method,
+          'marker-color': PREDICTION_COLOR,
+        },
+      });
+    }
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', features });
+}
+
+// ---------------------------------------------------------------------------
+// KML
+// ---------------------------------------------------------------------------
+
+function kmlPlacemark(name: string, styleId: ExportLayer, path: PathPoint[]): string {
+  const coordinates = path
+    .map(p => `${p.longitude},${p.latitude},${altitudeMeters(p.altitude_km)}`)
+    .join(' ');
+
+  return [
+    '    <Placemark>',
+    `      <name>${escapeXml(name)}</name>`,
+    `      <styleUrl>#${styleId}</styleUrl>`,
+    `      <TimeSpan><begin>${path[0].timestamp}</begin><end>${path[path.length - 1].timestamp}</end></TimeSpan>`,
+    '      <LineString>',
+    '        <extrude>1</extrude>',
+    '        <tessellate>1</tessellate>',
+    '        <altitudeMode>absolute</altitudeMode>',
+    `        <coordinates>${coordinates}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+  ].join('\n');
+}
+
+function kmlStyle(id: ExportLayer, color: string): string {
+  return [
+    `  <Style id="${id}">`,
+    `    <LineStyle><color>${kmlColor(color)}</color><width>2</width></LineStyle>`,
+    // Translucent curtain down to the ground from the extruded line
+    `    <PolyStyle><color>${kmlColor(color, '33')}</color></PolyStyle>`,
+    '  </Style>',
+  ].join('\n');
+}
+
+function kmlPoint(name: string, p: BalloonDataPoint): string {
+  return [
+    '    <Placemark>',
+    `      <name>${escapeXml(name)}</name>`,
+    '      <styleUrl>#track</styleUrl>',
+    `      <TimeStamp><when>${p.timestamp}</when></TimeStamp>`,
+    '      <Point>',
+    '        <extrude>1</extrude>',
+    '        <altitudeMode>absolute</altitudeMode>',
+    `        <coordinates>${p.longitude},${p.latitude},${altitudeMeters(p.altitude_km)}</coordinates>`,
+    '      </Point>',
+    '    </Placemark>',
+  ].join('\n');
+}
+
+function toKml(trajectories: BalloonTrajectory[]): string {
+  // A single position can't make a line; it still shows up as a point
+  const tracks = trajectories
+    .filter(t => t.historical_positions.length > 0)
+    .map(t => t.historical_positions.length > 1
+      ? kmlPlacemark(t.balloon_id, 'track', t.historical_positions)
+      : kmlPoint(t.balloon_id, t.historical_positions[0]));
+  const predictions = trajectories
+    .filter(t => t.predicted_positions.length > 0)
+    .map(t => kmlPlacemark(`${t.balloon_id} (predicted)`, 'prediction', predictionPath(t)));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '  <name>SondeLink balloon tracks</name>',
+    kmlStyle('track', TRACK_COLOR),
+    kmlStyle('prediction', PREDICTION_COLOR),
+    '  <Folder>',
+    '    <name>Tracks</name>',
+    ...tracks,
+    '  </Folder>',
+    ...(predictions.length > 0 ? ['  <Folder>', '    <name>Predictions</name>', ...predictions, '  </Folder>'] : []),
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// GPX
+// ---------------------------------------------------------------------------
+
+function gpxTrack(name: string, type: ExportLayer, path: PathPoint[]): string {
+  return [
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <type>${type}</type>`,
+    '    <trkseg>',
+    ...path.map(p =>
+      `      <trkpt lat="${p.latitude}" lon="${p.longitude}"><ele>${altitudeMeters(p.altitude_km)}</ele><time>${p.timestamp}</time></trkpt>`
+    ),
+    '    </trkseg>',
+    '  </trk>',
+  ].join('\n');
+}
+
+function toGpx(trajectories: BalloonTrajectory[]): string {
+  // GPX has no styling; the prediction layer is told apart by <type>prediction</type>
+  const tracks = trajectories
+    .filter(t => t.historical_positions.length > 0)
+    .map(t => gpxTrack(t.balloon_id, 'track', t.historical_positions));
+  const predictions = trajectories
+    .filter(t => t.predicted_positions.length > 0)
+    .map(t => gpxTrack(`${t.balloon_id} (predicted)`, 'prediction', predictionPath(t)));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SondeLink" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...tracks,
+    ...predictions,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// CZML
+// ---------------------------------------------------------------------------
+
+function altitudeColor(altitude_km: number): string {
+  return ALTITUDE_COLOR_BANDS.find(band => altitude_km < band.below_km)!.color;
+}
+
+function rgba(hex: string): [number, number, number, number] {
+  return [parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16), 255];
+}
+
+/**
+ * Sampled position: seconds since the first sample, then lon, lat and metres per sample
+ */
+function czmlPosition(path: PathPoint[]) {
+  const epoch = new Date(path[0].timestamp).getTime();
+  return {
+    epoch: path[0].timestamp,
+    cartographicDegrees: path.flatMap(p => [
+      (new Date(p.timestamp).getTime() - epoch) / 1000,
+      p.longitude,
+      p.latitude,
+      altitudeMeters(p.altitude_km),
+    ]),
+  };
+}
+
+/**
+ * Colour intervals following the altitude band of each position until the next one
+ */
+function czmlAltitudeColors(path: PathPoint[]) {
+  const intervals: { interval: string; rgba: number[] }[] = [];
+  let start = 0;
+  for (let i = 1; i <= path.length; i++) {
+    const color = altitudeColor(path[start].altitude_km);
+    if (i < path.length && altitudeColor(path[i].altitude_km) === color) continue;
+    const end = path[Math.min(i, path.length - 1)].timestamp;
+    intervals.push({ interval: `${path[start].timestamp}/${end}`, rgba: rgba(color) });
+    start = i;
+  }
+  return intervals;
+}
+
+function toCzml(trajectories: BalloonTrajectory[]): string {
+  const packets: object[] = [];
+  const observed = trajectories.filter(t => t.historical_positions.length > 0);
+
+  for (const t of observed) {
+    const path = t.historical_positions;
+    const colors = czmlAltitudeColors(path);
+    packets.push({
+      id: t.balloon_id,
+      name: t.balloon_id,
+      availability: `${path[0].timestamp}/${path[path.length - 1].timestamp}`,
+      position: { ...czmlPosition(path), interpolationAlgorithm: 'LINEAR' },
+      point: { pixelSize: 6, color: colors, outlineColor: { rgba: [255, 255, 255, 255] }, outlineWidth: 1 },
+      path: {
+        width: 2,
+        leadTime: 0,
+        resolution: 3600,
+        material: { solidColor: { color: colors } },
+      },
+    });
+  }
+
+  for (const t of observed.filter(t => t.predicted_positions.length > 0)) {
+    const path = predictionPath(t);
+    packets.push({
+      id: `${t.balloon_id}/predicted`,
+      name: `${t.balloon_id} (predicted)`,
+      availability: `${path[0].timestamp}/${path[path.length - 1].timestamp}`,
+      position: { ...czmlPosition(path), interpolationAlgorithm: 'LINEAR' },
+      point: { pixelSize: 5, color: { rgba: rgba(PREDICTION_COLOR) } },
+      path: {
+        width: 2,
+        leadTime: 0,
+        resolution: 3600,
+        material: { polylineDash: { color: { rgba: rgba(PREDICTION_COLOR) }, dashLength: 16 } },
+      },
+    });
+  }
+
+  // The clock spans every observed and predicted position
+  const times = observed.flatMap(t => {
+    const ends = predictionPath(t); // Last observed position, then any predictions
+    return [t.historical_positions[0].timestamp, ends[ends.length - 1].timestamp];
+  }).sort();
+  const document: Record<string, unknown> = { id: 'document', name: 'SondeLink balloon tracks', version: '1.0' };
+  if (times.length > 0) {
+    document.clock = {
+      interval: `${times[0]}/${times[times.length - 1]}`,
+      currentTime: times[0],
+      multiplier: 600, // Ten minutes of flight per second
+      range: 'LOOP_STOP',
+      step: 'SYSTEM_CLOCK_MULTIPLIER',
+    };
+  }
+
+  return JSON.stringify([document, ...packets]);
+}
+
+/**
+ * Serialize trajectories (oldest position first) in an export format
+ */
+export function renderExport(format: ExportFormat, trajectories: BalloonTrajectory[]): RenderedExport {
+  switch (format) {
+    case 'geojson':
+      return { contentType: 'application/geo+json', extension: 'geojson', body: toGeoJson(trajectories) };
+    case 'kml':
+      return { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml', body: toKml(trajectories) };
+    case 'gpx':
+      return { contentType: 'application/gpx+xml', extension: 'gpx', body: toGpx(trajectories) };
+    case 'czml':
+      return { contentType: 'application/json', extension: 'czml', body: toCzml(trajectories) };
+  }
+}
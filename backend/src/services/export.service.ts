@@ -0,0 +1,122 @@
+/**
+ * Track Export (GET /api/export/:format)
+ * Collects the trajectories an export covers (serialized by export.formats.ts): single
+ * balloons, a filtered set or the whole fleet over a time window, optionally extended with
+ * predictions from TrajectoryService
+ *
+ * Explicit balloon IDs read each balloon's stored trajectory, archived points included.
+ * Everything else reads the window hour by hour instead of one query per balloon, so it only
+ * sees full-resolution hours and is capped at MAX_FLEET_WINDOW_HOURS. Filters pick balloons by
+ * their position in the window's last hour, like GET /api/balloons does for a single hour.
+ * Coasting ('lost') positions are projections, never observations, and are left out.
+ */
+
+import { BalloonDataPoint, BalloonQuery, BalloonTrajectory, TimeRange } from '../types/balloon';
+import { IDatabase } from './database.factory';
+import { floorToHour, resolveFleetWindow } from './time.window';
+import { BalloonTracker } from './tracker.service';
+import { TrajectoryService } from './trajectory.service';
+
+export const MAX_EXPORT_BALLOON_IDS = 100;
+export const MAX_WIND_PREDICTIONS = 25; // wind/hybrid look up Open-Meteo for every predicted hour
+
+export type ExportFilter = Omit<BalloonQuery, 'timestamp' | 'after_id' | 'limit'>;
+
+export interface ExportPrediction {
+  hours: number;
+  method: 'persistence' | 'wind' | 'hybrid';
+}
+
+export class ExportService {
+  private db: IDatabase;
+  private tracker: BalloonTracker;
+  private trajectoryService: TrajectoryService;
+
+  constructor(db: IDatabase, tracker: BalloonTracker, trajectoryService: TrajectoryService) {
+    this.db = db;
+    this.tracker = tracker;
+    this.trajectoryService = trajectoryService;
+  }
+
+  private toTrajectory(balloonId: string, positions: BalloonDataPoint[]): BalloonTrajectory {
+    return {
+      balloon_id: balloonId,
+      historical_positions: positions,
+      predicted_positions: [],
+      prediction_horizon_hours: 0,
+    };
+  }
+
+  /**
+   * Stored trajectories of the given balloons within an optional range (unknown IDs are skipped)
+   */
+  async getBalloonTrajectories(balloonIds: string[], range: TimeRange = {}): Promise<BalloonTrajectory[]> {
+    const trajectories: BalloonTrajectory[] = [];
+    for (const id of balloonIds) {
+      const positions = await this.tracker.getBalloonTrajectoryFromDB(id, range);
+      if (positions.length > 0) trajectories.push(this.toTrajectory(id, positions));
+    }
+    return trajectories;
+  }
+
+  /**
+   * Fleet export window: to defaults to the newest stored hour, from to a day before it
+   */
+  async resolveFleetWindow(range: TimeRange): Promise<Required<TimeRange>> {
+    return resolveFleetWindow(range, await this.db.getLatestSnapshotTimestamp());
+  }
+
+  /**
+   * Trajectories of every balloon seen in a window, or only those matching a filter in the
+   * window's last hour, ordered by ID
+   */
+  async getFleetTrajectories(window: Required<TimeRange>, filter?: ExportFilter): Promise<BalloonTrajectory[]> {
+    let selected: Set<string> | null = null;
+    if (filter && Object.values(filter).some(v => v !== undefined)) {
+      const matches = await this.tracker.queryBalloons({ ...filter, timestamp: floorToHour(window.to) });
+      selected = new Set(matches.map(b => b.id));
+    }
+
+    const byId = new Map<string, BalloonDataPoint[]>();
+    for (const b of await this.tracker.getTrackedHistory(window)) {
+      if (selected && !selected.has(b.id)) continue;
+      if (!byId.has(b.id)) byId.set(b.id, []);
+      byId.get(b.id)!.push(b);
+    }
+
+    return [...byId.keys()]
+      .sort()
+      .map(id => this.toTrajectory(id, byId.get(id)!));
+  }
+
+  /**
+   * Add predictions to the balloons still reporting in the newest hour of the export
+   * (a balloon last seen earlier would be predicted from a stale position)
+   */
+  async addPredictions(trajectories: BalloonTrajectory[], prediction: ExportPrediction): Promise<BalloonTrajectory[]> {
+    const lastSeen = (t: BalloonTrajectory) => t.historical_positions[t.historical_positions.length - 1];
+    const newest = trajectories.reduce((max, t) => (lastSeen(t).timestamp > max ? lastSeen(t).timestamp : max), '');
+
+    const result: BalloonTrajectory[] = [];
+    // One at a time - wind predictions share the Open-Meteo rate limit
+    for (const trajectory of trajectories) {
+      const current = lastSeen(trajectory);
+      if (current.timestamp !== newest) {
+        result.push(trajectory);
+        continue;
+      }
+      const predicted = await this.trajectoryService.predictTrajectory(
+        current,
+        trajectory.historical_positions,
+        prediction.hours,
+        prediction.method
+      );
+      result.push({
+        ...trajectory,
+        predicted_positions: predicted.predicted_positions,
+        prediction_horizon_hours: predicted.prediction_horizon_hours,
+      });
+    }
+    return result;
+  }
+}
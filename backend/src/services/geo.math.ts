@@ -0,0 +1,42 @@
+/**
+ * Geodesy Helpers
+ * Great-circle distances and longitude arithmetic shared by the tracker, smoother, Kalman
+ * filter, simulator and database adapters. Every helper is antimeridian-aware: 179.8°E and
+ * 179.6°W are 0.6° apart, not 359.4°.
+ */
+
+export const EARTH_RADIUS_KM = 6371;
+export const KM_PER_DEGREE = (2 * Math.PI * EARTH_RADIUS_KM) / 360;
+
+export function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Normalize a longitude into the [-180, 180) range
+ * Handles positions that step across the antimeridian (e.g., 181° -> -179°)
+ */
+export function normalizeLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Shortest signed longitude difference from lon1 to lon2 (-180 to 180 degrees)
+ */
+export function longitudeDelta(lon1: number, lon2: number): number {
+  return normalizeLongitude(lon2 - lon1);
+}
+
+/**
+ * Distance (km) between two lat/lon points using the Haversine formula
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(longitudeDelta(lon1, lon2));
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -10,18 +10,64 @@
 
 import { WindborneService } from './windborne.service';
 import { BalloonTracker } from './tracker.service';
+import { TrackSmoother } from './smoother.service';
+import { RetrackService } from './retrack.service';
+import { LifecycleDetector } from './lifecycle.service';
+import { WindService } from './wind.service';
+import { createBalloonDataSource } from './balloon.source';
 import { createDatabase } from './database.factory';
+import { JobLock } from './job.lock';
+import { UpdateStream } from './update.stream';
+import { IngestService } from './ingest.service';
+import { ExportService } from './export.service';
+import { TrajectoryService } from './trajectory.service';
+import { DEFAULT_PROFILE_NAME, getTrackerProfile, loadTrackerProfiles } from './tracker.profiles';
 
 // Initialize database (SQLite or Postgres based on env vars)
 export const db = createDatabase();
 
+// Load tracker profiles (built-in default + TRACKER_PROFILES_PATH) and pick the active one
+export const trackerProfiles = loadTrackerProfiles();
+export const activeTrackerProfile = process.env.TRACKER_PROFILE || DEFAULT_PROFILE_NAME;
+const trackerProfile = getTrackerProfile(trackerProfiles, activeTrackerProfile);
+
+// Wind priors for new tracks (Open-Meteo lookups, batched per hour) - off unless enabled
+const trackerWindPrediction = process.env.TRACKER_WIND_PREDICTION === 'true';
+
 // Initialize tracker
-export const tracker = new BalloonTracker(db);
+export const tracker = new BalloonTracker(db, {
+  profile: trackerProfile,
+  windService: trackerWindPrediction ? new WindService(db) : undefined,
+});
 
 // Initialize tracker's nextId from database
 tracker.initialize().catch(err => {
   console.error('Failed to initialize tracker:', err);
 });
 
+// Initialize fixed-lag smoother (retroactive ID swap correction), gated like the tracker
+export const smoother = new TrackSmoother(db, { profile: trackerProfile });
+
+// Initialize lifecycle event detection (launch, burst, disappearance, ...)
+export const lifecycleDetector = new LifecycleDetector(db);
+
+// Offline re-tracking with alternative profiles (scratch namespace, never touches production IDs)
+export const retrackService = new RetrackService(db, trackerProfiles);
+
+// Hourly constellation files (live API, recorded directory or in-memory, based on BALLOON_SOURCE)
+export const balloonSource = createBalloonDataSource();
+
+// Lease on tracking jobs shared by every instance (cron refresh vs. scheduler, see job.lock.ts)
+export const trackingLock = new JobLock(db);
+
+// Live push of finished updates and new hours to map clients (GET /api/stream)
+export const updateStream = new UpdateStream();
+
 // Initialize windborne service with injected dependencies
-export const windborneService = new WindborneService(db, tracker);
+export const windborneService = new WindborneService(db, tracker, smoother, lifecycleDetector, balloonSource, trackingLock, updateStream);
+
+// Uploads of our own sondes (POST /api/ingest), tracked under the same lease
+export const ingestService = new IngestService(db, tracker, trackingLock);
+
+// Track exports for GIS tools (GET /api/export/:format)
+export const exportService = new ExportService(db, tracker, new TrajectoryService(db));
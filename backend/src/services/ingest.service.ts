@@ -0,0 +1,274 @@
+/**
+ * Position Upload (POST /api/ingest)
+ * Merges timestamped positions of our own sondes (CSV, GeoJSON FeatureCollection or NDJSON)
+ * into tracking alongside the Windborne feed
+ *
+ * Every upload carries a source tag. Positions are bucketed to the top of their hour, keeping
+ * the latest report per sonde, and stored per hour and source in external_snapshots - not in
+ * balloon_snapshots, so feed hashes, versions and backfill only ever see the feed. Each
+ * touched hour of the source is then re-tracked against the previous hour:
+ * - Positions with an external ID keep it as their track ID (no matching)
+ * - Anonymous positions are matched against earlier anonymous positions of the same source
+ *   and get regular balloon_XXXX IDs
+ *
+ * Tracked rows carry the source tag, so feed re-tracking (clearTrackingFrom, backfill,
+ * rebuild) leaves them alone. Later hours of a source that were uploaded before are not
+ * re-linked when an earlier hour changes; upload oldest first.
+ */
+
+import { z } from 'zod';
+import { BalloonDataPoint, IngestedPosition, IngestResult } from '../types/balloon';
+import { IDatabase } from './database.factory';
+import { JobLock } from './job.lock';
+import { JobRunRecorder } from './job.runs';
+import { HOUR_MS, floorToHour } from './time.window';
+import { BalloonTracker } from './tracker.service';
+
+export type IngestFormat = 'csv' | 'geojson' | 'ndjson';
+
+export const DEFAULT_INGEST_SOURCE = 'external';
+export const MAX_INGEST_POSITIONS = 50000;
+const FEED_SOURCE = 'windborne'; // Reserved for the feed itself
+const MAX_ALTITUDE_KM = 50;       // Same range the feed is validated against (ingestion.quality.ts)
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const SourceTagSchema = z.string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, 'Expected 1-32 lowercase letters, digits, "-" or "_"')
+  .refine(value => value !== FEED_SOURCE, { message: `"${FEED_SOURCE}" is reserved for the feed` });
+
+const PositionSchema = z.object({
+  timestamp: z.string()
+    .refine(value => !isNaN(new Date(value).getTime()), { message: 'Expected an ISO 8601 timestamp' })
+    .refine(value => new Date(value).getTime() <= Date.now() + CLOCK_SKEW_MS, { message: 'Timestamp is in the future' }),
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  altitude_km: z.coerce.number().gt(0).lt(MAX_ALTITUDE_KM),
+  // balloon_XXXX is the feed's ID space (see BalloonTracker)
+  external_id: z.string().trim().min(1).max(64)
+    .refine(value => !value.startsWith('balloon_'), { message: 'IDs starting with "balloon_" are reserved' })
+    .optional(),
+});
+
+const PositionsSchema = z.array(PositionSchema).min(1).max(MAX_INGEST_POSITIONS);
+
+const GeoJsonSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(z.object({
+    type: z.literal('Feature'),
+    geometry: z.object({
+      type: z.literal('Point'),
+      coordinates: z.array(z.number()).min(2).max(3), // [lon, lat, alt_km?]
+    }),
+    properties: z.record(z.string(), z.unknown()).nullable().optional(),
+  })),
+});
+
+// CSV header names accepted for each field
+const CSV_COLUMNS: Record<keyof IngestedPosition, string[]> = {
+  timestamp: ['timestamp', 'time'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng'],
+  altitude_km: ['altitude_km', 'alt', 'altitude'],
+  external_id: ['external_id', 'id'],
+};
+
+export type IngestParseResult =
+  | { success: true; positions: IngestedPosition[] }
+  | { success: false; message: string };
+
+function parseCsv(body: string): unknown[] {
+  const lines = body.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const split = (line: string) => line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+  const header = split(lines[0]).map(name => name.toLowerCase());
+  const columns = Object.entries(CSV_COLUMNS).map(([field, names]) => ({
+    field,
+    index: header.findIndex(name => names.includes(name)),
+  })).filter(c => c.index >= 0);
+
+  return lines.slice(1).map(line => {
+    const cells = split(line);
+    const row: Record<string, string> = {};
+    for (const { field, index } of columns) {
+      if (cells[index] !== undefined && cells[index] !== '') row[field] = cells[index];
+    }
+    return row;
+  });
+}
+
+function parseGeoJson(body: unknown): unknown[] | string {
+  const collection = GeoJsonSchema.safeParse(body);
+  if (!collection.success) {
+    return z.prettifyError(collection.error);
+  }
+
+  return collection.data.features.map(({ geometry, properties }) => {
+    const [longitude, latitude, altitude] = geometry.coordinates;
+    const props = properties ?? {};
+    const externalId = props.external_id ?? props.id;
+    return {
+      timestamp: props.timestamp ?? props.time,
+      latitude,
+      longitude,
+      altitude_km: props.altitude_km ?? altitude,
+      external_id: typeof externalId === 'number' ? String(externalId) : externalId,
+    };
+  });
+}
+
+function parseNdjson(body: string): unknown[] | string {
+  const rows: unknown[] = [];
+  const lines = body.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    try {
+      rows.push(JSON.parse(lines[i]));
+    } catch {
+      return `Line ${i + 1} is not valid JSON`;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Parse and validate an upload body
+ *
+ * @param format - Payload format
+ * @param body - Raw text, or the already parsed JSON for GeoJSON sent as application/json
+ */
+export function parseIngestPayload(format: IngestFormat, body: unknown): IngestParseResult {
+  let rows: unknown[] | string;
+  if (format === 'geojson') {
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        return { success: false, message: 'Body is not valid JSON' };
+      }
+    }
+    rows = parseGeoJson(body);
+  } else if (typeof body !== 'string') {
+    return { success: false, message: `Expected a ${format.toUpperCase()} text body` };
+  } else {
+    rows = format === 'csv' ? parseCsv(body) : parseNdjson(body);
+  }
+
+  if (typeof rows === 'string') {
+    return { success: false, message: rows };
+  }
+
+  const positions = PositionsSchema.safeParse(rows);
+  if (!positions.success) {
+    return { success: false, message: z.prettifyError(positions.error) };
+  }
+  return { success: true, positions: positions.data };
+}
+
+function positionKey(position: IngestedPosition): string {
+  return position.external_id !== undefined
+    ? `id:${position.external_id}`
+    : `at:${position.latitude},${position.longitude},${position.altitude_km}`;
+}
+
+/**
+ * Merge reports into an hour, keeping the latest report per sonde
+ * (anonymous positions are only deduplicated by coordinates)
+ */
+function mergePositions(existing: IngestedPosition[], incoming: IngestedPosition[]): IngestedPosition[] {
+  const merged = new Map<string, IngestedPosition>();
+  for (const position of [...existing, ...incoming]) {
+    const key = positionKey(position);
+    const current = merged.get(key);
+    if (!current || new Date(position.timestamp).getTime() >= new Date(current.timestamp).getTime()) {
+      merged.set(key, position);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+export class IngestService {
+  private db: IDatabase;
+  private tracker: BalloonTracker;
+  private jobLock: JobLock;
+  private jobRuns: JobRunRecorder;
+  private uploadCount = 0; // Job names must differ per upload, or the lock would share results
+
+  constructor(db: IDatabase, tracker: BalloonTracker, jobLock: JobLock) {
+    this.db = db;
+    this.tracker = tracker;
+    this.jobLock = jobLock;
+    this.jobRuns = new JobRunRecorder(db);
+  }
+
+  /**
+   * Store uploaded positions and track every hour they touch
+   * Runs under the tracking lock, so it never interleaves with a feed update
+   */
+  async ingest(source: string, positions: IngestedPosition[]): Promise<IngestResult> {
+    const byHour = new Map<string, IngestedPosition[]>();
+    for (const position of positions) {
+      const hour = floorToHour(position.timestamp);
+      if (!byHour.has(hour)) byHour.set(hour, []);
+      byHour.get(hour)!.push(position);
+    }
+    const hours = Array.from(byHour.keys()).sort();
+
+    const job = `ingest:${source}:${++this.uploadCount}`;
+    return this.jobLock.run(job, () => this.jobRuns.record('ingest', 'manual', async run => {
+      await this.tracker.initialize(); // Another instance may have assigned IDs since
+
+      const result: IngestResult = {
+        source,
+        accepted: 0,
+        hours,
+        balloons_continued: 0,
+        balloons_new: 0,
+        ids: [],
+      };
+      const ids = new Set<string>();
+      const byDate = (a: IngestedPosition, b: IngestedPosition) => a.timestamp.localeCompare(b.timestamp);
+
+      for (const hour of hours) {
+        run.phase('save');
+        const incoming = mergePositions([], byHour.get(hour)!);
+        const merged = mergePositions((await this.db.getExternalSnapshot(hour, source)) ?? [], incoming).sort(byDate);
+        await this.db.saveExternalSnapshot(hour, source, merged);
+        result.accepted += incoming.length;
+
+        run.phase('track');
+        const hourOffset = Math.round((Date.now() - new Date(hour).getTime()) / HOUR_MS);
+        const current: BalloonDataPoint[] = merged.map((position, index) => ({
+          id: `temp_${source}_${index}`,
+          latitude: position.latitude,
+          longitude: position.longitude,
+          altitude_km: position.altitude_km,
+          timestamp: hour,
+          hour_offset: hourOffset,
+          confidence: 1.0,
+          status: 'active' as const,
+          source,
+          external_id: position.external_id,
+        }));
+
+        const previous = await this.db.getTrackedBalloonsAtTimestamp(new Date(new Date(hour).getTime() - HOUR_MS).toISOString());
+        await this.db.clearSourceTracking(hour, source);
+        const tracked = await this.tracker.trackBalloons(current, previous);
+        await this.db.saveTrackedBalloons(tracked);
+
+        run.countTracked(tracked);
+        result.balloons_continued += tracked.filter(b => b.status === 'active').length;
+        result.balloons_new += tracked.filter(b => b.status === 'new').length;
+        for (const b of tracked) {
+          if (b.status !== 'lost') ids.add(b.id);
+        }
+        console.log(`[Ingest] ${source} ${hour}: ${merged.length} position(s) tracked`);
+      }
+
+      run.count({ balloons_fetched: positions.length });
+      this.tracker.invalidateCache();
+      result.ids = Array.from(ids).sort();
+      return result;
+    }));
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Ingestion Data Quality
+ * Validates one hour file and describes what was wrong with it
+ *
+ * Rows are rejected for being malformed, non-numeric or out of range (same rules the
+ * service always applied). Accepted rows are additionally checked for exact duplicates
+ * and clusters of identical coordinates, which the API occasionally emits when a batch
+ * of positions is stale. The fleet-size delta needs the previous hour, so it is filled
+ * in afterwards with withPreviousCount().
+ */
+
+import {
+  CoordinateCluster,
+  IngestionAnomaly,
+  IngestionQualityReport,
+  IngestionRejectReason,
+  RawBalloonData,
+} from '../types/balloon';
+
+const MAX_ALTITUDE_KM = 50;              // Stratospheric balloons typically under 50km
+const HIGH_REJECTION_RATE = 0.05;        // Rejected share of raw rows that flags the hour
+const DUPLICATE_RATE = 0.01;             // Duplicate share of accepted rows that flags the hour
+const MIN_CLUSTER_SIZE = 3;              // Rows at the exact same lat/lon that count as a cluster
+const MAX_REPORTED_CLUSTERS = 10;
+const FLEET_CHANGE_RATE = 0.2;           // Relative change in accepted count vs. previous hour...
+const FLEET_CHANGE_MIN_ROWS = 50;        // ...that is also at least this many balloons
+
+function emptyRejections(): Record<IngestionRejectReason, number> {
+  return {
+    malformed: 0,
+    non_finite: 0,
+    latitude_out_of_range: 0,
+    longitude_out_of_range: 0,
+    altitude_out_of_range: 0,
+  };
+}
+
+function rejectReason(entry: unknown): IngestionRejectReason | null {
+  if (!Array.isArray(entry) || entry.length !== 3) return 'malformed';
+  const [lat, lon, alt] = entry;
+  if (![lat, lon, alt].every(v => typeof v === 'number' && Number.isFinite(v))) return 'non_finite';
+  if (lat < -90 || lat > 90) return 'latitude_out_of_range';
+  if (lon < -180 || lon > 180) return 'longitude_out_of_range';
+  if (alt <= 0 || alt >= MAX_ALTITUDE_KM) return 'altitude_out_of_range';
+  return null;
+}
+
+/**
+ * Anomaly flags for a report (recomputed whenever the report changes)
+ */
+function detectAnomalies(report: IngestionQualityReport): IngestionAnomaly[] {
+  const anomalies: IngestionAnomaly[] = [];
+  const rejectedCount = report.raw_count - report.accepted_count;
+
+  if (report.fetch_error) anomalies.push('fetch_failed');
+  else if (report.raw_count === 0) anomalies.push('empty');
+
+  if (report.raw_count > 0 && rejectedCount / report.raw_count > HIGH_REJECTION_RATE) {
+    anomalies.push('high_rejection_rate');
+  }
+  if (report.accepted_count > 0 && report.duplicate_rows / report.accepted_count > DUPLICATE_RATE) {
+    anomalies.push('duplicate_coordinates');
+  }
+  if (report.coordinate_clusters.length > 0) {
+    anomalies.push('coordinate_cluster');
+  }
+  // A failed fetch already explains the missing fleet
+  if (
+    !report.fetch_error &&
+    report.previous_count !== null &&
+    report.count_delta !== null &&
+    Math.abs(report.count_delta) >= FLEET_CHANGE_MIN_ROWS &&
+    Math.abs(report.count_delta) > report.previous_count * FLEET_CHANGE_RATE
+  ) {
+    anomalies.push('fleet_size_change');
+  }
+
+  return anomalies;
+}
+
+/**
+ * Validate an hour file payload
+ *
+ * @param timestamp - Hour the file belongs to
+ * @param source - Data source name (for the report)
+ * @param payload - Parsed file contents, as returned by the source
+ * @returns Accepted rows and the quality report (without the previous-hour delta)
+ */
+export function analyzeHourFile(
+  timestamp: string,
+  source: string,
+  payload: unknown
+): { data: RawBalloonData[]; report: IngestionQualityReport } {
+  if (!Array.isArray(payload)) {
+    return { data: [], report: failedHourReport(timestamp, source, 'Invalid data: not an array') };
+  }
+
+  const rejected = emptyRejections();
+  const data: RawBalloonData[] = [];
+  const seenRows = new Set<string>();
+  const positionCounts = new Map<string, CoordinateCluster>();
+  let duplicateRows = 0;
+
+  for (const entry of payload) {
+    const reason = rejectReason(entry);
+    if (reason) {
+      rejected[reason]++;
+      continue;
+    }
+
+    const [lat, lon, alt] = entry as [number, number, number];
+    data.push([lat, lon, alt]);
+
+    const rowKey = `${lat},${lon},${alt}`;
+    if (seenRows.has(rowKey)) duplicateRows++;
+    seenRows.add(rowKey);
+
+    const positionKey = `${lat},${lon}`;
+    const position = positionCounts.get(positionKey) ?? { latitude: lat, longitude: lon, count: 0 };
+    position.count++;
+    positionCounts.set(positionKey, position);
+  }
+
+  const coordinateClusters = [...positionCounts.values()]
+    .filter(c => c.count >= MIN_CLUSTER_SIZE)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_REPORTED_CLUSTERS);
+
+  const report: IngestionQualityReport = {
+    timestamp,
+    source,
+    raw_count: payload.length,
+    accepted_count: data.length,
+    rejected,
+    duplicate_rows: duplicateRows,
+    coordinate_clusters: coordinateClusters,
+    previous_count: null,
+    count_delta: null,
+    fetch_error: null,
+    anomalies: [],
+    ingested_at: new Date().toISOString(),
+  };
+  report.anomalies = detectAnomalies(report);
+
+  return { data, report };
+}
+
+/**
+ * Report for an hour whose file could not be fetched or parsed
+ */
+export function failedHourReport(timestamp: string, source: string, error: string): IngestionQualityReport {
+  const report: IngestionQualityReport = {
+    timestamp,
+    source,
+    raw_count: 0,
+    accepted_count: 0,
+    rejected: emptyRejections(),
+    duplicate_rows: 0,
+    coordinate_clusters: [],
+    previous_count: null,
+    count_delta: null,
+    fetch_error: error,
+    anomalies: [],
+    ingested_at: new Date().toISOString(),
+  };
+  report.anomalies = detectAnomalies(report);
+  return report;
+}
+
+/**
+ * Fill in the fleet-size delta vs. the previous hour
+ *
+ * @param previousCount - Accepted count of the previous hour, or null if it wasn't ingested
+ */
+export function withPreviousCount(report: IngestionQualityReport, previousCount: number | null): IngestionQualityReport {
+  const updated: IngestionQualityReport = {
+    ...report,
+    previous_count: previousCount,
+    count_delta: previousCount === null ? null : report.accepted_count - previousCount,
+  };
+  updated.anomalies = detectAnomalies(updated);
+  return updated;
+}
@@ -0,0 +1,139 @@
+/**
+ * Job Lock
+ * Keeps tracking jobs (hourly update, refresh, backfill, full fetch) from running twice at once
+ *
+ * On Vercel the cron calls /api/refresh while a long-lived instance may be running its own
+ * hourly scheduler; two passes tracking the same hour would assign duplicate IDs. Every job
+ * takes an expiring lease on a named lock in the database (job_locks) and renews it while it
+ * runs, so a crashed holder's lease simply runs out after JOB_LOCK_LEASE_SECONDS.
+ *
+ * - The same job already running in this process: callers share its promise
+ * - The lock held by another job or instance: callers wait (up to JOB_LOCK_WAIT_SECONDS) until
+ *   it is released, then either read the holder's result from the database (`follow`) or run
+ *   their own job once the lock is theirs
+ */
+
+import crypto from 'crypto';
+import os from 'os';
+import { IDatabase } from './database.factory';
+
+export const TRACKING_LOCK = 'tracking'; // Every job that writes tracked_balloons
+
+export interface JobLockOptions {
+  leaseMs: number; // Lease length; renewed every leaseMs / 3 while the job runs
+  waitMs: number;  // How long a caller waits for someone else's job before giving up
+  pollMs: number;  // How often a waiting caller checks the lock
+}
+
+export const DEFAULT_JOB_LOCK_OPTIONS: JobLockOptions = {
+  leaseMs: 2 * 60 * 1000,
+  waitMs: 5 * 60 * 1000,
+  pollMs: 2000,
+};
+
+function readSeconds(name: string, fallbackMs: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallbackMs;
+  const value = Number(raw);
+  if (isNaN(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number of seconds, got "${raw}"`);
+  }
+  return value * 1000;
+}
+
+/**
+ * Build lock options from env vars, falling back to the defaults
+ */
+export function loadJobLockOptions(): JobLockOptions {
+  return {
+    leaseMs: readSeconds('JOB_LOCK_LEASE_SECONDS', DEFAULT_JOB_LOCK_OPTIONS.leaseMs),
+    waitMs: readSeconds('JOB_LOCK_WAIT_SECONDS', DEFAULT_JOB_LOCK_OPTIONS.waitMs),
+    pollMs: DEFAULT_JOB_LOCK_OPTIONS.pollMs,
+  };
+}
+
+export class JobLock {
+  private db: IDatabase;
+  private lockName: string;
+  private options: JobLockOptions;
+  private instanceId: string;
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(db: IDatabase, lockName: string = TRACKING_LOCK, options: JobLockOptions = loadJobLockOptions()) {
+    this.db = db;
+    this.lockName = lockName;
+    this.options = options;
+    this.instanceId = `${os.hostname()}:${process.pid}`;
+  }
+
+  /**
+   * Run a job while holding the lock
+   *
+   * @param job - Job name; concurrent calls with the same name in this process share one run
+   * @param work - The job itself
+   * @param follow - Result for a caller that waited for another holder (typically a reload
+   *                 from the database). Without it, the caller runs `work` once the lock is free.
+   */
+  run<T>(job: string, work: () => Promise<T>, follow?: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(job) as Promise<T> | undefined;
+    if (existing) {
+      console.log(`[JobLock] ${job} already running in this process - sharing its result`);
+      return existing;
+    }
+
+    const promise = this.acquireAndRun(job, work, follow).finally(() => {
+      this.inFlight.delete(job);
+    });
+    this.inFlight.set(job, promise);
+    return promise;
+  }
+
+  private async acquireAndRun<T>(job: string, work: () => Promise<T>, follow?: () => Promise<T>): Promise<T> {
+    // Unique per run, so two jobs of this process exclude each other too
+    const owner = `${this.instanceId}:${crypto.randomBytes(4).toString('hex')}`;
+    const deadline = Date.now() + this.options.waitMs;
+    let waited = false;
+
+    while (!(await this.db.acquireJobLock(this.lockName, owner, job, this.options.leaseMs))) {
+      if (!waited) {
+        const holder = await this.db.getJobLock(this.lockName);
+        console.log(`[JobLock] ${job} waiting for ${holder ? `${holder.job} (${holder.owner})` : 'the current holder'}`);
+        waited = true;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${Math.round(this.options.waitMs / 1000)}s waiting for the ${this.lockName} lock`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.pollMs));
+
+      // The holder finished (or its lease expired) - its result is already in the database
+      if (follow && !(await this.db.getJobLock(this.lockName))) {
+        console.log(`[JobLock] ${job} finished elsewhere - using its result`);
+        return follow();
+      }
+    }
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await this.db.renewJobLock(this.lockName, owner, this.options.leaseMs))) {
+          console.warn(`[JobLock] ${job} lost its lease on ${this.lockName} (expired and taken over)`);
+        }
+      } catch (error) {
+        console.warn(`[JobLock] Failed to renew lease for ${job}:`, error instanceof Error ? error.message : error);
+      }
+    }, Math.max(1000, Math.floor(this.options.leaseMs / 3)));
+    heartbeat.unref();
+
+    try {
+      return await work();
+    } finally {
+      clearInterval(heartbeat);
+      try {
+        await this.db.releaseJobLock(this.lockName, owner);
+      } catch (error) {
+        // The lease runs out on its own
+        console.warn(`[JobLock] Failed to release ${this.lockName} after ${job}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Job Run History
+ * Records every data job (hourly update, refresh, backfill, full fetch, rebuild, cleanup, upload) in
+ * job_runs: what triggered it, how long each phase took, how many balloons were fetched,
+ * continued and new, how many rows cleanup deleted, and the error with its stack if it failed
+ *
+ * A run is inserted as 'running' when it starts, so a process that died mid-job leaves a row
+ * without finished_at. Recording is best-effort - a database hiccup here never fails the job.
+ */
+
+import {
+  BalloonDataPoint,
+  JobKind,
+  JobRun,
+  JobRunCounts,
+  JobTrigger,
+} from '../types/balloon';
+import { IDatabase } from './database.factory';
+
+/**
+ * One run being recorded
+ * Phases are stopwatch-style: starting a phase ends the previous one
+ */
+export class JobRunHandle {
+  private db: IDatabase;
+  private run: JobRun;
+  private currentPhase: { name: string; startedAt: number } | null = null;
+
+  constructor(db: IDatabase, run: JobRun) {
+    this.db = db;
+    this.run = run;
+  }
+
+  get id(): number {
+    return this.run.id;
+  }
+
+  /**
+   * Start timing a phase (ends the current one)
+   */
+  phase(name: string): void {
+    this.endPhase();
+    this.currentPhase = { name, startedAt: Date.now() };
+  }
+
+  count(counts: Partial<JobRunCounts>): void {
+    for (const [field, value] of Object.entries(counts) as [keyof JobRunCounts, number][]) {
+      this.run[field] += value;
+    }
+  }
+
+  /**
+   * Count continued and new IDs in a tracked hour (coasting 'lost' points are neither)
+   */
+  countTracked(balloons: BalloonDataPoint[]): void {
+    this.count({
+      balloons_continued: balloons.filter(b => b.status === 'active').length,
+      balloons_new: balloons.filter(b => b.status === 'new').length,
+    });
+  }
+
+  /**
+   * Mark the run failed without throwing (for jobs that recover from their own errors)
+   */
+  markFailed(error: unknown): void {
+    this.run.status = 'failed';
+    this.run.error = error instanceof Error ? error.message : String(error);
+    this.run.error_stack = error instanceof Error ? error.stack ?? null : null;
+  }
+
+  async finish(): Promise<JobRun> {
+    this.endPhase();
+    if (this.run.status === 'running') this.run.status = 'succeeded';
+    this.run.finished_at = new Date().toISOString();
+    this.run.duration_ms = new Date(this.run.finished_at).getTime() - new Date(this.run.started_at).getTime();
+
+    if (this.run.id > 0) {
+      try {
+        await this.db.updateJobRun(this.run);
+      } catch (error) {
+        console.warn(`[Jobs] Failed to record the end of run ${this.run.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    const summary = this.run.error ? `failed: ${this.run.error}` : this.run.status;
+    console.log(`[Jobs] ${this.run.kind} (${this.run.trigger}) ${summary} in ${this.run.duration_ms}ms`);
+    return this.run;
+  }
+
+  private endPhase(): void {
+    if (!this.currentPhase) return;
+    const { name, startedAt } = this.currentPhase;
+    this.run.phases[name] = (this.run.phases[name] ?? 0) + (Date.now() - startedAt);
+    this.currentPhase = null;
+  }
+}
+
+export class JobRunRecorder {
+  private db: IDatabase;
+  private onFinish?: (run: JobRun) => void;
+
+  /**
+   * @param onFinish - Called with every finished run, succeeded or failed (see update.stream.ts)
+   */
+  constructor(db: IDatabase, onFinish?: (run: JobRun) => void) {
+    this.db = db;
+    this.onFinish = onFinish;
+  }
+
+  /**
+   * Run a job and record it
+   * A job that throws is recorded as failed and the error is rethrown
+   */
+  async record<T>(kind: JobKind, trigger: JobTrigger, work: (run: JobRunHandle) => Promise<T>): Promise<T> {
+    const run = await this.start(kind, trigger);
+    try {
+      return await work(run);
+    } catch (error) {
+      run.markFailed(error);
+      throw error;
+    } finally {
+      const finished = await run.finish();
+      this.onFinish?.(finished);
+    }
+  }
+
+  private async start(kind: JobKind, trigger: JobTrigger): Promise<JobRunHandle> {
+    const run: JobRun = {
+      id: 0, // Not persisted (yet)
+      kind,
+      trigger,
+      status: 'running',
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      duration_ms: null,
+      phases: {},
+      balloons_fetched: 0,
+      balloons_continued: 0,
+      balloons_new: 0,
+      rows_deleted: 0,
+      error: null,
+      error_stack: null,
+    };
+
+    try {
+      run.id = await this.db.createJobRun(run);
+    } catch (error) {
+      console.warn(`[Jobs] Failed to record the start of ${kind}:`, error instanceof Error ? error.message : error);
+    }
+
+    return new JobRunHandle(this.db, run);
+  }
+}
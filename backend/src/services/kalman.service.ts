@@ -0,0 +1,264 @@
+/**
+ * Kalman Filter for Balloon Track State Estimation
+ * Constant-velocity model in a local east/north tangent plane
+ *
+ * State: [east_km, north_km, v_east_kmh, v_north_kmh]
+ * - Position components are offsets (km) from the stored filtered lat/lon, so they are
+ *   always 0 at rest - only the covariance carries position uncertainty between steps
+ * - Process noise: white-noise acceleration (balloons drift with slowly changing winds)
+ * - Measurement: observed lat/lon (position only)
+ *
+ * Used by the tracker for Mahalanobis gating/costs and for filtered velocity estimates.
+ */
+
+import { BalloonDataPoint, KalmanState } from '../types/balloon';
+import { KM_PER_DEGREE, normalizeLongitude } from './geo.math';
+
+const DEFAULT_PROCESS_NOISE_KM2_PER_H3 = 2500; // Acceleration noise: ~50 km/h velocity change per hour (jet-stream turns)
+const DEFAULT_MEASUREMENT_SIGMA_KM = 2; // Position noise of reported balloon coordinates
+const UNKNOWN_VELOCITY_SIGMA_KMH = 100; // Prior on velocity for a brand-new track
+const KNOWN_VELOCITY_SIGMA_KMH = 30; // Prior when a (non-filtered) velocity estimate exists
+const WIND_VELOCITY_SIGMA_KMH = 40; // Prior when the velocity comes from the wind at the balloon's position
+
+type Matrix = number[][];
+
+export interface Innovation {
+  mahalanobis_d2: number; // Squared Mahalanobis distance of the observation from the prediction
+  likelihood: number; // Gaussian likelihood of the observation (1/km²)
+}
+
+export class KalmanFilter {
+  private processNoise: number;
+  private measurementSigmaKm: number;
+
+  constructor(options: { processNoise?: number; measurementSigmaKm?: number } = {}) {
+    this.processNoise = options.processNoise ?? DEFAULT_PROCESS_NOISE_KM2_PER_H3;
+    this.measurementSigmaKm = options.measurementSigmaKm ?? DEFAULT_MEASUREMENT_SIGMA_KM;
+  }
+
+  // --- Small dense matrix helpers (4x4 and 2x2 only) ---
+
+  private multiply(a: Matrix, b: Matrix): Matrix {
+    return a.map(row => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+  }
+
+  private transpose(a: Matrix): Matrix {
+    return a[0].map((_, j) => a.map(row => row[j]));
+  }
+
+  private add(a: Matrix, b: Matrix): Matrix {
+    return a.map((row, i) => row.map((v, j) => v + b[i][j]));
+  }
+
+  private invert2x2(m: Matrix): { inverse: Matrix; determinant: number } {
+    const determinant = m[0][0] * m[1][1] - m[0][1] * m[1][0];
+    return {
+      inverse: [
+        [m[1][1] / determinant, -m[0][1] / determinant],
+        [-m[1][0] / determinant, m[0][0] / determinant],
+      ],
+      determinant,
+    };
+  }
+
+  /**
+   * Offset (km) of a point from a reference position in the local east/north plane
+   * Uses the shortest longitude difference so dateline crossings stay small
+   */
+  private toLocal(refLat: number, refLon: number, lat: number, lon: number): { east: number; north: number } {
+    const dLon = normalizeLongitude(lon - refLon);
+    return {
+      east: dLon * KM_PER_DEGREE * Math.cos((refLat * Math.PI) / 180),
+      north: (lat - refLat) * KM_PER_DEGREE,
+    };
+  }
+
+  /**
+   * Move a lat/lon position by an east/north offset (km)
+   */
+  private fromLocal(lat: number, lon: number, east: number, north: number): { latitude: number; longitude: number } {
+    const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 1e-6);
+    return {
+      latitude: Math.max(-90, Math.min(90, lat + north / KM_PER_DEGREE)),
+      longitude: normalizeLongitude(lon + east / (KM_PER_DEGREE * cosLat)),
+    };
+  }
+
+  /**
+   * Create a filter state from a single observation
+   * Seeds the velocity from the point's speed/direction when available
+   */
+  initialize(point: BalloonDataPoint): KalmanState {
+    const hasVelocity = point.speed_kmh != null && point.direction_deg != null;
+    const rad = ((point.direction_deg ?? 0) * Math.PI) / 180;
+    const speed = hasVelocity ? point.speed_kmh! : 0;
+    const velocityVar = Math.pow(hasVelocity ? KNOWN_VELOCITY_SIGMA_KMH : UNKNOWN_VELOCITY_SIGMA_KMH, 2);
+    const positionVar = this.measurementSigmaKm * this.measurementSigmaKm;
+
+    return {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      velocity_east_kmh: speed * Math.sin(rad),
+      velocity_north_kmh: speed * Math.cos(rad),
+      covariance: [
+        [positionVar, 0, 0, 0],
+        [0, positionVar, 0, 0],
+        [0, 0, velocityVar, 0],
+        [0, 0, 0, velocityVar],
+      ],
+      timestamp: point.timestamp,
+    };
+  }
+
+  /**
+   * True while a state's velocity is no better than the uninformed prior
+   * (single observation, possibly coasted - no observed motion yet)
+   */
+  isVelocityUnknown(state: KalmanState): boolean {
+    const unknownVar = UNKNOWN_VELOCITY_SIGMA_KMH * UNKNOWN_VELOCITY_SIGMA_KMH;
+    return state.covariance[2][2] >= unknownVar && state.covariance[3][3] >= unknownVar;
+  }
+
+  /**
+   * Replace an uninformed velocity with the wind at the balloon's position
+   * Balloons drift with the wind, so this is a much tighter prior than "unknown"
+   */
+  seedVelocityFromWind(state: KalmanState, wind: { east_kmh: number; north_kmh: number }): KalmanState {
+    const velocityVar = WIND_VELOCITY_SIGMA_KMH * WIND_VELOCITY_SIGMA_KMH;
+    const P = state.covariance;
+    return {
+      ...state,
+      velocity_east_kmh: wind.east_kmh,
+      velocity_north_kmh: wind.north_kmh,
+      covariance: [
+        [P[0][0], P[0][1], 0, 0],
+        [P[1][0], P[1][1], 0, 0],
+        [0, 0, velocityVar, 0],
+        [0, 0, 0, velocityVar],
+      ],
+    };
+  }
+
+  /**
+   * Propagate a state forward to a new timestamp (constant velocity + process noise)
+   */
+  predict(state: KalmanState, timestamp: string): KalmanState {
+    const dt = (new Date(timestamp).getTime() - new Date(state.timestamp).getTime()) / (1000 * 60 * 60);
+    if (!Number.isFinite(dt) || dt <= 0) {
+      return state;
+    }
+
+    const position = this.fromLocal(
+      state.latitude,
+      state.longitude,
+      state.velocity_east_kmh * dt,
+      state.velocity_north_kmh * dt
+    );
+
+    const F: Matrix = [
+      [1, 0, dt, 0],
+      [0, 1, 0, dt],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1],
+    ];
+
+    const q = this.processNoise;
+    const dt2 = (dt * dt) / 2;
+    const dt3 = (dt * dt * dt) / 3;
+    const Q: Matrix = [
+      [q * dt3, 0, q * dt2, 0],
+      [0, q * dt3, 0, q * dt2],
+      [q * dt2, 0, q * dt, 0],
+      [0, q * dt2, 0, q * dt],
+    ];
+
+    return {
+      ...position,
+      velocity_east_kmh: state.velocity_east_kmh,
+      velocity_north_kmh: state.velocity_north_kmh,
+      covariance: this.add(this.multiply(this.multiply(F, state.covariance), this.transpose(F)), Q),
+      timestamp,
+    };
+  }
+
+  /**
+   * Innovation covariance S = H P H' + R (position block of P plus measurement noise)
+   */
+  private innovationCovariance(state: KalmanState): Matrix {
+    const r = this.measurementSigmaKm * this.measurementSigmaKm;
+    const P = state.covariance;
+    return [
+      [P[0][0] + r, P[0][1]],
+      [P[1][0], P[1][1] + r],
+    ];
+  }
+
+  /**
+   * Mahalanobis distance and likelihood of an observation against a predicted state
+   */
+  innovation(predicted: KalmanState, observation: { latitude: number; longitude: number }): Innovation {
+    const y = this.toLocal(predicted.latitude, predicted.longitude, observation.latitude, observation.longitude);
+    const { inverse, determinant } = this.invert2x2(this.innovationCovariance(predicted));
+
+    const mahalanobis_d2 =
+      y.east * (inverse[0][0] * y.east + inverse[0][1] * y.north) +
+      y.north * (inverse[1][0] * y.east + inverse[1][1] * y.north);
+
+    return {
+      mahalanobis_d2,
+      likelihood: Math.exp(-mahalanobis_d2 / 2) / (2 * Math.PI * Math.sqrt(determinant)),
+    };
+  }
+
+  /**
+   * Correct a predicted state with an observed position
+   */
+  update(predicted: KalmanState, observation: { latitude: number; longitude: number; timestamp: string }): KalmanState {
+    const y = this.toLocal(predicted.latitude, predicted.longitude, observation.latitude, observation.longitude);
+    const P = predicted.covariance;
+    const { inverse: SInv } = this.invert2x2(this.innovationCovariance(predicted));
+
+    // K = P H' S^-1, where P H' is the first two columns of P
+    const PHt: Matrix = P.map(row => [row[0], row[1]]);
+    const K = this.multiply(PHt, SInv);
+
+    const correction = K.map(row => row[0] * y.east + row[1] * y.north);
+    const position = this.fromLocal(predicted.latitude, predicted.longitude, correction[0], correction[1]);
+
+    // P = (I - K H) P
+    const IKH: Matrix = [0, 1, 2, 3].map(i =>
+      [0, 1, 2, 3].map(j => (i === j ? 1 : 0) - (j < 2 ? K[i][j] : 0))
+    );
+
+    return {
+      ...position,
+      velocity_east_kmh: predicted.velocity_east_kmh + correction[2],
+      velocity_north_kmh: predicted.velocity_north_kmh + correction[3],
+      covariance: this.multiply(IKH, P),
+      timestamp: observation.timestamp,
+    };
+  }
+
+  /**
+   * Filtered speed/direction and 1-sigma speed uncertainty from a state
+   */
+  getVelocity(state: KalmanState): { speed_kmh: number; direction_deg: number; speed_sigma_kmh: number } {
+    const ve = state.velocity_east_kmh;
+    const vn = state.velocity_north_kmh;
+    const speed_kmh = Math.sqrt(ve * ve + vn * vn);
+    const direction_deg = ((Math.atan2(ve, vn) * 180) / Math.PI + 360) % 360;
+
+    const P = state.covariance;
+    let speedVar: number;
+    if (speed_kmh > 1e-6) {
+      // Project velocity covariance onto the direction of travel
+      const ue = ve / speed_kmh;
+      const un = vn / speed_kmh;
+      speedVar = ue * ue * P[2][2] + 2 * ue * un * P[2][3] + un * un * P[3][3];
+    } else {
+      speedVar = (P[2][2] + P[3][3]) / 2;
+    }
+
+    return { speed_kmh, direction_deg, speed_sigma_kmh: Math.sqrt(Math.max(0, speedVar)) };
+  }
+}
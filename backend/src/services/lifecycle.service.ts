@@ -0,0 +1,160 @@
+/**
+ * Balloon Lifecycle Detector
+ * Turns per-hour track rows into typed lifecycle events (balloon_events table)
+ *
+ * Runs after each hourly update (and after smoothing, so IDs are final for the
+ * hour). Each hour is compared with the two hours before it:
+ * - launch: a new track first seen at low altitude (needs a tracked previous hour,
+ *   otherwise every track in the first window hour would look "new")
+ * - ascent_complete: a climbing track levels off
+ * - burst: a rapid descent starts (burst or cut-down)
+ * - disappearance: an observed track is missing from this hour (coasting or dropped)
+ * - reacquisition: a coasting track is matched again
+ */
+
+import { BalloonDataPoint, BalloonEvent, BalloonEventType } from '../types/balloon';
+import { IDatabase } from './database.factory';
+import { HOUR_MS } from './time.window';
+
+const LAUNCH_MAX_ALTITUDE_KM = 5;       // New tracks below this are treated as launches
+const ASCENT_MIN_RATE_KM_PER_HOUR = 1;  // Climb that counts as ascending
+const LEVEL_MAX_RATE_KM_PER_HOUR = 0.3; // Altitude change that counts as level flight
+const BURST_MIN_RATE_KM_PER_HOUR = 3;   // Descent that counts as a burst / cut-down
+
+export const BALLOON_EVENT_TYPES = [
+  'launch', 'ascent_complete', 'burst', 'disappearance', 'reacquisition',
+] as const satisfies readonly BalloonEventType[];
+
+export class LifecycleDetector {
+  private db: IDatabase;
+
+  constructor(db: IDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Observed (non-coasting) rows at a timestamp, keyed by balloon ID
+   */
+  private async getObserved(timestamp: string): Promise<Map<string, BalloonDataPoint>> {
+    const rows = await this.db.getTrackedBalloonsAtTimestamp(timestamp);
+    return new Map(rows.filter(r => r.status !== 'lost').map(r => [r.id, r]));
+  }
+
+  private createEvent(
+    type: BalloonEventType,
+    timestamp: string,
+    at: BalloonDataPoint,
+    details?: Record<string, number>
+  ): BalloonEvent {
+    return {
+      balloon_id: at.id,
+      type,
+      timestamp,
+      latitude: at.latitude,
+      longitude: at.longitude,
+      altitude_km: at.altitude_km,
+      details,
+    };
+  }
+
+  /**
+   * Detect and store the lifecycle events of one tracked hour
+   *
+   * @param timestamp - Tracked hour (ISO, top of hour)
+   */
+  async detectHour(timestamp: string): Promise<BalloonEvent[]> {
+    const timestampMs = new Date(timestamp).getTime();
+    const previousTimestamp = new Date(timestampMs - HOUR_MS).toISOString();
+    const earlierTimestamp = new Date(timestampMs - 2 * HOUR_MS).toISOString();
+
+    const rows = await this.db.getTrackedBalloonsAtTimestamp(timestamp);
+    if (rows.length === 0) {
+      return []; // Hour not tracked (yet)
+    }
+
+    const previous = await this.getObserved(previousTimestamp);
+    const earlier = await this.getObserved(earlierTimestamp);
+    const rowsById = new Map(rows.map(r => [r.id, r]));
+
+    const events: BalloonEvent[] = [];
+
+    for (const row of rows) {
+      if (row.status === 'lost') continue;
+
+      if (row.status === 'new' && previous.size > 0 && row.altitude_km <= LAUNCH_MAX_ALTITUDE_KM) {
+        events.push(this.createEvent('launch', timestamp, row));
+      }
+
+      if (row.status === 'active' && row.gap_hours) {
+        events.push(this.createEvent('reacquisition', timestamp, row, { gap_hours: row.gap_hours }));
+      }
+
+      const prev = previous.get(row.id);
+      if (!prev) continue;
+
+      const rate = row.altitude_km - prev.altitude_km;
+      const before = earlier.get(row.id);
+      const previousRate = before ? prev.altitude_km - before.altitude_km : null;
+
+      if (
+        previousRate !== null &&
+        previousRate >= ASCENT_MIN_RATE_KM_PER_HOUR &&
+        Math.abs(rate) <= LEVEL_MAX_RATE_KM_PER_HOUR
+      ) {
+        events.push(this.createEvent('ascent_complete', timestamp, row, {
+          float_altitude_km: row.altitude_km,
+          ascent_rate_km_per_hour: previousRate,
+        }));
+      }
+
+      // Only the first hour of a descent - a falling balloon would otherwise fire every hour
+      if (
+        -rate >= BURST_MIN_RATE_KM_PER_HOUR &&
+        (previousRate === null || -previousRate < BURST_MIN_RATE_KM_PER_HOUR)
+      ) {
+        events.push(this.createEvent('burst', timestamp, row, {
+          descent_rate_km_per_hour: -rate,
+          from_altitude_km: prev.altitude_km,
+        }));
+      }
+    }
+
+    // Tracks observed last hour but not this hour (now coasting, or dropped outright)
+    for (const [id, prev] of previous) {
+      const row = rowsById.get(id);
+      if (row && row.status !== 'lost') continue;
+      events.push(this.createEvent('disappearance', timestamp, prev, {
+        last_seen_altitude_km: prev.altitude_km,
+      }));
+    }
+
+    if (events.length > 0) {
+      await this.db.saveBalloonEvents(events);
+
+      const counts = new Map<string, number>();
+      for (const e of events) counts.set(e.type, (counts.get(e.type) ?? 0) + 1);
+      console.log(
+        `[Lifecycle] ${timestamp}: ${[...counts].map(([type, n]) => `${n} ${type}`).join(', ')}`
+      );
+    }
+
+    return events;
+  }
+
+  /**
+   * Detect events for every tracked hour (oldest to newest)
+   * Used after a full re-track, where no hour has been examined yet
+   *
+   * @param timestamps - Tracked hour timestamps (any order)
+   */
+  async detectAll(timestamps: string[]): Promise<BalloonEvent[]> {
+    const sorted = [...new Set(timestamps)].sort();
+    const events: BalloonEvent[] = [];
+
+    for (const timestamp of sorted) {
+      events.push(...await this.detectHour(timestamp));
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Query Parameter Schemas
+ * zod pieces shared by the read endpoints, so the same parameter parses the same way on
+ * every route (resolve the parsed times with time.window.ts)
+ */
+
+import { z } from 'zod';
+import { TimeRange } from '../types/balloon';
+
+export const isoTimestamp = z.string().refine(value => !isNaN(new Date(value).getTime()), {
+  message: 'Expected an ISO 8601 timestamp',
+});
+
+/**
+ * Whether an optional from/to window is in order
+ */
+export function isOrderedRange(range: TimeRange): boolean {
+  return !range.from || !range.to || new Date(range.from) <= new Date(range.to);
+}
+
+export const ORDERED_RANGE_ERROR = { message: 'from must not be after to' };
+
+// Inclusive from/to window
+export const TimeRangeSchema = z.object({
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+}).refine(isOrderedRange, ORDERED_RANGE_ERROR);
+
+// min_lon,min_lat,max_lon,max_lat (GeoJSON order); min_lon > max_lon crosses the antimeridian
+export const BboxSchema = z.string()
+  .transform(value => value.split(',').map(Number))
+  .pipe(z.tuple([
+    z.number().min(-180).max(180),
+    z.number().min(-90).max(90),
+    z.number().min(-180).max(180),
+    z.number().min(-90).max(90),
+  ]))
+  .refine(([, minLat, , maxLat]) => minLat <= maxLat, { message: 'bbox min_lat must not exceed max_lat' })
+  .transform(([min_lon, min_lat, max_lon, max_lat]) => ({ min_lon, min_lat, max_lon, max_lat }));
+
+/**
+ * Comma-separated list of allowed values, e.g. status=active,new
+ */
+export function commaList<T extends string>(values: readonly [T, ...T[]]) {
+  return z.string()
+    .transform(value => value.split(',').map(v => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)).min(1));
+}
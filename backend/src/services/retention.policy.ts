@@ -0,0 +1,78 @@
+/**
+ * Data Retention Policy
+ * How long tracked points and snapshots are kept, and at what resolution
+ *
+ * - Full tier: every hourly row stays in tracked_balloons / balloon_snapshots
+ *   for RETENTION_FULL_DAYS days
+ * - Archive tier: after that, one row every RETENTION_ARCHIVE_INTERVAL_HOURS hours
+ *   is moved to tracked_balloons_archive / balloon_snapshots_archive and kept for
+ *   RETENTION_ARCHIVE_WEEKS weeks (0 disables the archive)
+ *
+ * Downsampling keeps hours of the day divisible by the interval (00:00, 06:00, ...),
+ * so the interval must divide 24.
+ */
+
+export interface RetentionPolicy {
+  fullResolutionDays: number;
+  archiveIntervalHours: number;
+  archiveWeeks: number;
+}
+
+export interface RetentionCutoffs {
+  fullCutoff: string;    // Rows older than this leave the full-resolution tables
+  archiveCutoff: string; // Archived rows older than this are deleted
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  fullResolutionDays: 1, // Matches the Windborne API's 24-hour window
+  archiveIntervalHours: 6,
+  archiveWeeks: 4,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (isNaN(value)) {
+    throw new Error(`${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Build the retention policy from env vars, falling back to the defaults
+ * Throws if a value is out of range
+ */
+export function loadRetentionPolicy(): RetentionPolicy {
+  const policy: RetentionPolicy = {
+    fullResolutionDays: readNumber('RETENTION_FULL_DAYS', DEFAULT_RETENTION_POLICY.fullResolutionDays),
+    archiveIntervalHours: readNumber('RETENTION_ARCHIVE_INTERVAL_HOURS', DEFAULT_RETENTION_POLICY.archiveIntervalHours),
+    archiveWeeks: readNumber('RETENTION_ARCHIVE_WEEKS', DEFAULT_RETENTION_POLICY.archiveWeeks),
+  };
+
+  if (policy.fullResolutionDays <= 0) {
+    throw new Error('RETENTION_FULL_DAYS must be positive');
+  }
+  if (!Number.isInteger(policy.archiveIntervalHours) || policy.archiveIntervalHours < 1 || 24 % policy.archiveIntervalHours !== 0) {
+    throw new Error('RETENTION_ARCHIVE_INTERVAL_HOURS must be a whole number of hours that divides 24');
+  }
+  if (policy.archiveWeeks < 0) {
+    throw new Error('RETENTION_ARCHIVE_WEEKS must not be negative');
+  }
+
+  return policy;
+}
+
+/**
+ * Cutoff timestamps for a cleanup run at `now`
+ * The archive window starts where the full-resolution window ends
+ */
+export function getRetentionCutoffs(policy: RetentionPolicy, now: Date = new Date()): RetentionCutoffs {
+  const fullCutoffMs = now.getTime() - policy.fullResolutionDays * DAY_MS;
+  return {
+    fullCutoff: new Date(fullCutoffMs).toISOString(),
+    archiveCutoff: new Date(fullCutoffMs - policy.archiveWeeks * 7 * DAY_MS).toISOString(),
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Offline Re-Track Service
+ * Re-runs tracking over the stored balloon_snapshots with a chosen tracker profile
+ *
+ * Results are written to a scratch namespace (scratch_tracked_balloons) by a separate
+ * tracker instance - production IDs in tracked_balloons are never touched. The report
+ * diffs the re-track against the live tracks, so profiles can be tuned on real data.
+ *
+ * NOTE: The fixed-lag smoother is not run on the re-track, so live tracks that the
+ * smoother corrected show up as ID switches when the profile repeats the original swap.
+ */
+
+import { BalloonDataPoint, RawBalloonData, RetrackReport, RetrackStats } from '../types/balloon';
+import { IDatabase } from './database.factory';
+import { BalloonTracker } from './tracker.service';
+import { TrackerProfile, getTrackerProfile } from './tracker.profiles';
+
+export class RetrackService {
+  private db: IDatabase;
+  private profiles: Map<string, TrackerProfile>;
+
+  constructor(db: IDatabase, profiles: Map<string, TrackerProfile>) {
+    this.db = db;
+    this.profiles = profiles;
+  }
+
+  /**
+   * Observations from different tracking runs are the same raw snapshot point
+   */
+  private observationKey(b: BalloonDataPoint): string {
+    return `${b.latitude},${b.longitude},${b.altitude_km}`;
+  }
+
+  private calculateStats(rows: BalloonDataPoint[], firstTimestamp: string | null): RetrackStats {
+    const totalConfidence = rows.reduce((sum, b) => sum + b.confidence, 0);
+    return {
+      tracks: new Set(rows.map(b => b.id)).size,
+      new_tracks: rows.filter(b => b.status === 'new' && b.timestamp !== firstTimestamp).length,
+      observations: rows.length,
+      mean_confidence: rows.length > 0 ? totalConfidence / rows.length : 0,
+    };
+  }
+
+  /**
+   * Re-track stored snapshots with a profile and compare against the live tracks
+   *
+   * @param profileName - Tracker profile to use (throws if unknown)
+   * @param options.namespace - Scratch namespace (replaced if it already exists)
+   * @param options.hours - Only re-track the most recent N snapshot hours
+   */
+  async retrack(
+    profileName: string,
+    options: { namespace?: string; hours?: number } = {}
+  ): Promise<RetrackReport> {
+    const startTime = Date.now();
+    const profile = getTrackerProfile(this.profiles, profileName);
+    const namespace = options.namespace ?? `retrack_${profileName}`;
+
+    let snapshots = [...await this.db.getAllSnapshots()]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    if (options.hours !== undefined) {
+      snapshots = snapshots.slice(-options.hours);
+    }
+
+    console.log(`[Retrack] Re-tracking ${snapshots.length} hours with profile "${profileName}" into "${namespace}"`);
+
+    await this.db.clearScratchTracks(namespace);
+
+    // Separate tracker: own ID counter and caches, never saves to tracked_balloons
+    const scratchTracker = new BalloonTracker(this.db, { profile, persist: false });
+
+    const retracked: BalloonDataPoint[] = [];
+    const live: BalloonDataPoint[] = [];
+    const historyByBalloonId = new Map<string, BalloonDataPoint[]>();
+    let previousHourData: BalloonDataPoint[] = [];
+
+    // Diff state: which re-tracked ID each live track was last seen as
+    const lastRetrackIdByLiveId = new Map<string, string>();
+    let liveLinks = 0;
+    let sharedLinks = 0;
+    let unmatchedObservations = 0;
+
+    for (const snap of snapshots) {
+      const currentHourData: BalloonDataPoint[] = snap.data.map((raw: RawBalloonData, index: number) => ({
+        id: `temp_${index}`,
+        latitude: raw[0],
+        longitude: raw[1],
+        altitude_km: raw[2],
+        timestamp: snap.timestamp,
+        hour_offset: 0,
+        confidence: 1.0,
+        status: 'active' as const,
+      }));
+
+      const tracked = await scratchTracker.trackBalloons(currentHourData, previousHourData, historyByBalloonId);
+      await this.db.saveScratchTracks(namespace, tracked);
+
+      const observed = tracked.filter(b => b.status !== 'lost');
+      for (const balloon of observed) {
+        const history = historyByBalloonId.get(balloon.id) || [];
+        history.push(balloon);
+        if (history.length > 3) {
+          history.shift();
+        }
+        historyByBalloonId.set(balloon.id, history);
+      }
+      retracked.push(...observed);
+      previousHourData = tracked;
+
+      // Compare against the live tracks for the same hour
+      const liveHour = (await this.db.getTrackedBalloonsAtTimestamp(snap.timestamp))
+        .filter((b: BalloonDataPoint) => b.status !== 'lost' && !b.source);
+      live.push(...liveHour);
+
+      const liveByKey = new Map<string, BalloonDataPoint>();
+      for (const b of liveHour) {
+        liveByKey.set(this.observationKey(b), b);
+      }
+
+      for (const balloon of observed) {
+        const liveMatch = liveByKey.get(this.observationKey(balloon));
+        if (!liveMatch) {
+          unmatchedObservations++;
+          continue;
+        }
+
+        const lastRetrackId = lastRetrackIdByLiveId.get(liveMatch.id);
+        if (lastRetrackId !== undefined) {
+          liveLinks++;
+          if (lastRetrackId === balloon.id) {
+            sharedLinks++;
+          }
+        }
+        lastRetrackIdByLiveId.set(liveMatch.id, balloon.id);
+      }
+    }
+
+    const firstTimestamp = snapshots[0]?.timestamp ?? null;
+    const report: RetrackReport = {
+      profile: profileName,
+      namespace,
+      from_timestamp: firstTimestamp,
+      to_timestamp: snapshots.at(-1)?.timestamp ?? null,
+      hours: snapshots.length,
+      live: this.calculateStats(live, firstTimestamp),
+      retrack: this.calculateStats(retracked, firstTimestamp),
+      id_switches: liveLinks - sharedLinks,
+      link_agreement: liveLinks > 0 ? sharedLinks / liveLinks : 1,
+      unmatched_observations: unmatchedObservations,
+      duration_ms: Date.now() - startTime,
+    };
+
+    console.log(
+      `[Retrack] "${profileName}": ${report.id_switches} ID switches, ` +
+      `${report.retrack.new_tracks} new tracks (live ${report.live.new_tracks}), ` +
+      `mean confidence ${report.retrack.mean_confidence.toFixed(2)} (live ${report.live.mean_confidence.toFixed(2)}) ` +
+      `[${report.duration_ms}ms]`
+    );
+
+    return report;
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Synthetic Constellation Simulator
+ * Generates a balloon fleet with known ground-truth identities for tracker benchmarking
+ *
+ * - Balloons drift through an analytic (or recorded) wind field, each with its own
+ *   slowly varying offset (altitude shear) and altitude random walk
+ * - Balloons launch and terminate during the run, and drop out of single hour files
+ * - Reported positions get measurement noise and the hour files are shuffled
+ * - Pairs of balloons are forced to cross paths to provoke identity swaps
+ *
+ * Output hours use the same RawBalloonData format as the Windborne hour files,
+ * plus a parallel array of ground-truth IDs.
+ */
+
+import { RawBalloonData } from '../types/balloon';
+import { KM_PER_DEGREE, normalizeLongitude } from './geo.math';
+import { HOUR_MS } from './time.window';
+import { WindData, WindService, windLocationKey } from './wind.service';
+
+const SUBSTEPS_PER_HOUR = 4; // Integration steps per simulated hour
+const MAX_ABS_LATITUDE = 85;
+const MIN_ALTITUDE_KM = 8;
+const MAX_ALTITUDE_KM = 22;
+
+// Wind at a position/time, in km/h (east = +u, north = +v)
+export type WindField = (lat: number, lon: number, altitude_km: number, hour: number) => {
+  east_kmh: number;
+  north_kmh: number;
+};
+
+export interface SimulationOptions {
+  balloons: number;          // Fleet size at the start of the run
+  hours: number;             // Number of hourly snapshots
+  seed: number;              // RNG seed (same seed -> same fleet)
+  startTimestamp: string;    // Timestamp of the first (oldest) hour
+  dropoutRate: number;       // Chance a live balloon is missing from an hour file
+  launchRate: number;        // New balloons per hour, as a fraction of the initial fleet
+  terminationRate: number;   // Chance per hour a balloon terminates
+  positionNoiseKm: number;   // 1-sigma horizontal noise on reported positions
+  altitudeNoiseKm: number;   // 1-sigma noise on reported altitude
+  crossings: number;         // Balloon pairs forced to cross paths mid-run
+  // Where balloons start and launch (default: anywhere up to 70° latitude);
+  // min_lon > max_lon crosses the antimeridian
+  launchArea?: { min_lon: number; min_lat: number; max_lon: number; max_lat: number };
+  windField: WindField;
+}
+
+export interface SyntheticHour {
+  timestamp: string;
+  data: RawBalloonData[];    // Same format as a Windborne hour file
+  truth: string[];           // Ground-truth ID for each entry in data
+}
+
+export interface SyntheticConstellation {
+  options: Omit<SimulationOptions, 'windField'>;
+  hours: SyntheticHour[];    // Oldest first
+  truthIds: number;          // Balloons that existed at any point
+}
+
+interface TruthPosition {
+  lat: number;
+  lon: number;
+  alt: number;
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: Omit<SimulationOptions, 'windField'> = {
+  balloons: 1000,
+  hours: 24,
+  seed: 42,
+  startTimestamp: '2025-01-01T00:00:00.000Z',
+  dropoutRate: 0.03,
+  launchRate: 0.01,
+  terminationRate: 0.005,
+  positionNoiseKm: 2,
+  altitudeNoiseKm: 0.05,
+  crossings: 25,
+};
+
+/**
+ * Analytic global wind field
+ * Westerly jets at mid-latitudes, easterly trade winds in the tropics (both stronger
+ * aloft), plus an eastward-drifting meridional wave so paths curve
+ */
+export const analyticWindField: WindField = (lat, lon, altitude_km, hour) => {
+  const latRad = (lat * Math.PI) / 180;
+  const lonRad = (lon * Math.PI) / 180;
+  const altitudeFactor = 0.5 + altitude_km / 30;
+
+  const jet = 120 * Math.exp(-Math.pow((Math.abs(lat) - 40) / 12, 2));
+  const trades = -30 * Math.exp(-Math.pow(lat / 15, 2));
+  const wave = 40 * Math.sin(4 * lonRad - (2 * Math.PI * hour) / 48) * Math.cos(latRad);
+
+  return {
+    east_kmh: (jet + trades) * altitudeFactor,
+    north_kmh: wave * altitudeFactor,
+  };
+};
+
+/**
+ * Wind field backed by recorded samples (e.g. cached Open-Meteo WindData)
+ * Uses the nearest sample in lat/lon/altitude; time is ignored
+ */
+export function createRecordedWindField(samples: WindData[]): WindField {
+  if (samples.length === 0) {
+    throw new Error('Recorded wind field needs at least one sample');
+  }
+
+  return (lat, lon, altitude_km) => {
+    let nearest = samples[0];
+    let bestScore = Infinity;
+    for (const s of samples) {
+      const dLon = ((((s.longitude - lon + 180) % 360) + 360) % 360) - 180;
+      const score =
+        Math.pow(s.latitude - lat, 2) +
+        Math.pow(dLon * Math.cos((lat * Math.PI) / 180), 2) +
+        Math.pow((s.altitude_km - altitude_km) * 2, 2);
+      if (score < bestScore) {
+        bestScore = score;
+        nearest = s;
+      }
+    }
+    return { east_kmh: nearest.wind_u_ms * 3.6, north_kmh: nearest.wind_v_ms * 3.6 };
+  };
+}
+
+/**
+ * WindService stand-in that answers batched lookups from a simulated wind field
+ * (lets the benchmark exercise the tracker's wind priors without network access)
+ *
+ * @param startTimestamp - Timestamp of simulation hour 0
+ */
+export function createSimulatedWindService(
+  field: WindField,
+  startTimestamp: string
+): Pick<WindService, 'getWindAtMultipleLocations'> {
+  const startMs = new Date(startTimestamp).getTime();
+
+  return {
+    async getWindAtMultipleLocations(locations) {
+      const winds = new Map<string, WindData>();
+      for (const loc of locations) {
+        const timestamp = loc.timestamp || startTimestamp;
+        const hour = (new Date(timestamp).getTime() - startMs) / HOUR_MS;
+        const { east_kmh, north_kmh } = field(loc.latitude, loc.longitude, loc.altitude_km, hour);
+        winds.set(windLocationKey(loc), {
+          latitude: loc.latitude,
+          longitude: loc.longitude,
+          altitude_km: loc.altitude_km,
+          pressure_hpa: 1013.25 * Math.exp(-loc.altitude_km / 7.4),
+          wind_u_ms: east_kmh / 3.6,
+          wind_v_ms: north_kmh / 3.6,
+          wind_speed_kmh: Math.sqrt(east_kmh * east_kmh + north_kmh * north_kmh),
+          // Meteorological convention: direction the wind blows FROM
+          wind_direction_deg: ((Math.atan2(-east_kmh, -north_kmh) * 180) / Math.PI + 360) % 360,
+          timestamp,
+        });
+      }
+      return winds;
+    },
+  };
+}
+
+export class ConstellationSimulator {
+  private options: SimulationOptions;
+  private rngState: number;
+
+  constructor(options: Partial<SimulationOptions> = {}) {
+    this.options = { ...DEFAULT_SIMULATION_OPTIONS, windField: analyticWindField, ...options };
+    this.rngState = this.options.seed >>> 0;
+  }
+
+  /**
+   * Seeded uniform random number in [0, 1) (mulberry32)
+   */
+  private random(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Seeded standard normal random number (Box-Muller)
+   */
+  private gaussian(): number {
+    const u = Math.max(this.random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.random());
+  }
+
+  /**
+   * Move a position by an east/north displacement (km), reflecting off the poles
+   */
+  private displace(p: TruthPosition, east: number, north: number): TruthPosition {
+    let lat = p.lat + north / KM_PER_DEGREE;
+    let lon = p.lon + east / (KM_PER_DEGREE * Math.max(Math.cos((p.lat * Math.PI) / 180), 0.05));
+    if (lat > MAX_ABS_LATITUDE) {
+      lat = 2 * MAX_ABS_LATITUDE - lat;
+      lon += 180;
+    } else if (lat < -MAX_ABS_LATITUDE) {
+      lat = -2 * MAX_ABS_LATITUDE - lat;
+      lon += 180;
+    }
+    return { lat, lon: normalizeLongitude(lon), alt: p.alt };
+  }
+
+  /**
+   * Advance (direction = 1) or rewind (direction = -1) one hour through the wind field
+   */
+  private step(
+    p: TruthPosition,
+    offset: { east: number; north: number },
+    hour: number,
+    direction: 1 | -1
+  ): TruthPosition {
+    let position = p;
+    const dt = direction / SUBSTEPS_PER_HOUR;
+    for (let s = 0; s < SUBSTEPS_PER_HOUR; s++) {
+      const wind = this.options.windField(position.lat, position.lon, position.alt, hour + s * dt);
+      position = this.displace(position, (wind.east_kmh + offset.east) * dt, (wind.north_kmh + offset.north) * dt);
+    }
+    return position;
+  }
+
+  private randomPosition(): TruthPosition {
+    const area = this.options.launchArea;
+    if (area) {
+      const width = area.max_lon - area.min_lon + (area.min_lon > area.max_lon ? 360 : 0);
+      return {
+        lat: area.min_lat + this.random() * (area.max_lat - area.min_lat),
+        lon: normalizeLongitude(area.min_lon + this.random() * width),
+        alt: 12 + this.random() * 8,
+      };
+    }
+
+    // Uniform on the sphere between the latitude limits
+    const lat = (Math.asin(2 * this.random() - 1) * 180) / Math.PI;
+    return {
+      lat: Math.max(-70, Math.min(70, lat)),
+      lon: this.random() * 360 - 180,
+      alt: 12 + this.random() * 8,
+    };
+  }
+
+  /**
+   * Simulate a truth trajectory from a start hour/position forward (and optionally backward)
+   * Returns one position per hour, null while the balloon doesn't exist
+   */
+  private simulateTrajectory(
+    start: TruthPosition,
+    startHour: number,
+    backward: boolean
+  ): (TruthPosition | null)[] {
+    const { hours, terminationRate } = this.options;
+    const path: (TruthPosition | null)[] = new Array(hours).fill(null);
+
+    // Per-balloon offset from the large-scale wind (vertical shear), drifting slowly
+    const offset = { east: this.gaussian() * 15, north: this.gaussian() * 15 };
+    const walk = (p: TruthPosition): TruthPosition => ({
+      ...p,
+      alt: Math.max(MIN_ALTITUDE_KM, Math.min(MAX_ALTITUDE_KM, p.alt + this.gaussian() * 0.2)),
+    });
+
+    path[startHour] = start;
+
+    let current = start;
+    for (let h = startHour + 1; h < hours; h++) {
+      if (this.random() < terminationRate) break;
+      offset.east += this.gaussian() * 3;
+      offset.north += this.gaussian() * 3;
+      current = walk(this.step(current, offset, h - 1, 1));
+      path[h] = current;
+    }
+
+    if (backward) {
+      current = start;
+      for (let h = startHour - 1; h >= 0; h--) {
+        current = walk(this.step(current, offset, h + 1, -1));
+        path[h] = current;
+      }
+    }
+
+    return path;
+  }
+
+  /**
+   * Generate the constellation (deterministic for a given seed and options)
+   */
+  generate(): SyntheticConstellation {
+    const { balloons, hours, launchRate, crossings, dropoutRate, positionNoiseKm, altitudeNoiseKm } = this.options;
+    const trajectories: (TruthPosition | null)[][] = [];
+
+    // Initial fleet
+    for (let i = 0; i < balloons; i++) {
+      trajectories.push(this.simulateTrajectory(this.randomPosition(), 0, false));
+    }
+
+    // Forced crossings: a partner balloon passes (almost) through an existing balloon's
+    // position mid-run at a similar altitude, but with its own drift
+    for (let c = 0; c < crossings && hours >= 3; c++) {
+      const target = trajectories[Math.floor(this.random() * balloons)];
+      const crossHour = 1 + Math.floor(this.random() * (hours - 2));
+      const at = target[crossHour];
+      if (!at) continue;
+      const start = this.displace(
+        { ...at, alt: at.alt + this.gaussian() * 0.3 },
+        this.gaussian() * 5,
+        this.gaussian() * 5
+      );
+      trajectories.push(this.simulateTrajectory(start, crossHour, true));
+    }
+
+    // Launches during the run
+    const launchesPerHour = balloons * launchRate;
+    for (let h = 1; h < hours; h++) {
+      let launches = Math.floor(launchesPerHour);
+      if (this.random() < launchesPerHour - launches) launches++;
+      for (let l = 0; l < launches; l++) {
+        trajectories.push(this.simulateTrajectory(this.randomPosition(), h, false));
+      }
+    }
+
+    // Emit hour files: dropouts, measurement noise, shuffled order
+    const startMs = new Date(this.options.startTimestamp).getTime();
+    const output: SyntheticHour[] = [];
+
+    for (let h = 0; h < hours; h++) {
+      const entries: { raw: RawBalloonData; truth: string }[] = [];
+
+      trajectories.forEach((path, index) => {
+        const p = path[h];
+        if (!p || this.random() < dropoutRate) return;
+        const noisy = this.displace(p, this.gaussian() * positionNoiseKm, this.gaussian() * positionNoiseKm);
+        entries.push({
+          raw: [noisy.lat, noisy.lon, p.alt + this.gaussian() * altitudeNoiseKm],
+          truth: `truth_${String(index + 1).padStart(5, '0')}`,
+        });
+      });
+
+      for (let i = entries.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random() * (i + 1));
+        [entries[i], entries[j]] = [entries[j], entries[i]];
+      }
+
+      output.push({
+        timestamp: new Date(startMs + h * HOUR_MS).toISOString(),
+        data: entries.map(e => e.raw),
+        truth: entries.map(e => e.truth),
+      });
+    }
+
+    const { windField: _, ...options } = this.options;
+    return { options, hours: output, truthIds: trajectories.length };
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Fixed-Lag Track Smoother
+ * Retroactively corrects ID swaps once later hours reveal them
+ *
+ * The tracker commits each hour's IDs using at most ~3 hours of history. When two
+ * balloons cross paths, a wrong assignment at hour N is often only obvious at N+2,
+ * when the velocities no longer line up. The smoother re-solves the link between
+ * hour N-1 and hour N using the whole path through the last `lagHours` hours - either
+ * the tracks swapped from hour N on, or only at hour N (the tracker swapped back the hour
+ * after) - and swaps IDs (atomically, with an audit record) when that is clearly better.
+ * The moved rows get their Kalman filter re-run from the new ID's track, so later hours
+ * gate on it. `TrackerBenchmark` with smoothing measures the effect on identity errors.
+ */
+
+import munkres from 'munkres-js';
+import { BalloonDataPoint, TrackCorrection, TrackFilterState, TrackReassignment } from '../types/balloon';
+import { IDatabase } from './database.factory';
+import { haversineDistance, KM_PER_DEGREE, longitudeDelta, toRadians } from './geo.math';
+import { KalmanFilter } from './kalman.service';
+import { HOUR_MS } from './time.window';
+import { DEFAULT_TRACKER_PROFILE, TrackerProfile } from './tracker.profiles';
+
+const DEFAULT_LAG_HOURS = 2; // Hours of lookahead before a link is re-examined
+const MIN_IMPROVEMENT = 2; // Path cost a swap must save before we rewrite history
+
+// Path smoothness: a track keeps its velocity and altitude from hour to hour, up to wind
+// changes and position noise - two balloons crossing differ in both
+const ACCELERATION_SIGMA_KMH = 10; // 1-sigma velocity change per hour (km/h)
+const ALTITUDE_SIGMA_KM = 0.3;     // 1-sigma altitude change per hour
+
+export class TrackSmoother {
+  private db: IDatabase;
+  private lagHours: number;
+  private profile: TrackerProfile; // The tracker's profile, so both apply the same gates
+  private kalman: KalmanFilter;
+
+  constructor(db: IDatabase, options: { lagHours?: number; profile?: TrackerProfile } = {}) {
+    this.db = db;
+    this.profile = options.profile ?? DEFAULT_TRACKER_PROFILE;
+    this.kalman = new KalmanFilter({
+      processNoise: this.profile.kalman.process_noise_km2_per_h3,
+      measurementSigmaKm: this.profile.kalman.measurement_sigma_km,
+    });
+    const envLagHours = parseInt(process.env.TRACKER_SMOOTHING_LAG_HOURS || '', 10);
+    this.lagHours = options.lagHours ??
+      (isNaN(envLagHours) ? DEFAULT_LAG_HOURS : envLagHours);
+  }
+
+  /**
+   * Speed and bearing between two consecutive positions
+   */
+  private calculateVelocity(
+    prev: BalloonDataPoint,
+    curr: BalloonDataPoint
+  ): { speed_kmh: number; direction_deg: number } {
+    const distance = haversineDistance(prev.latitude, prev.longitude, curr.latitude, curr.longitude);
+    const timeDiffHours =
+      (new Date(curr.timestamp).getTime() - new Date(prev.timestamp).getTime()) / HOUR_MS;
+    const speed_kmh = timeDiffHours > 0 ? distance / timeDiffHours : 0;
+
+    const dLon = toRadians(longitudeDelta(prev.longitude, curr.longitude));
+    const lat1 = toRadians(prev.latitude);
+    const lat2 = toRadians(curr.latitude);
+    const y = Math.sin(dLon) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+    const direction_deg = ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+
+    return { speed_kmh, direction_deg };
+  }
+
+  /**
+   * East/north velocity (km/h) between two positions, in the tangent plane at their midpoint
+   */
+  private velocityVector(prev: BalloonDataPoint, curr: BalloonDataPoint): { east_kmh: number; north_kmh: number; hours: number } {
+    const hours = (new Date(curr.timestamp).getTime() - new Date(prev.timestamp).getTime()) / HOUR_MS;
+    const midLatitude = toRadians((prev.latitude + curr.latitude) / 2);
+    const east = longitudeDelta(prev.longitude, curr.longitude) * KM_PER_DEGREE * Math.cos(midLatitude);
+    const north = (curr.latitude - prev.latitude) * KM_PER_DEGREE;
+    return { east_kmh: east / hours, north_kmh: north / hours, hours };
+  }
+
+  /**
+   * Smoothness cost of a multi-hour path (chronological positions)
+   * Squared velocity changes and altitude steps, each in units of its expected hourly spread
+   * Returns Infinity if any step breaks the tracker's hard gates
+   */
+  private calculatePathCost(path: BalloonDataPoint[]): number {
+    const gates = this.profile.gates;
+    let cost = 0;
+    let prevVelocity: { east_kmh: number; north_kmh: number; hours: number } | null = null;
+
+    for (let i = 1; i < path.length; i++) {
+      const velocity = this.velocityVector(path[i - 1], path[i]);
+      const altitudeDelta = Math.abs(path[i].altitude_km - path[i - 1].altitude_km);
+
+      if (Math.hypot(velocity.east_kmh, velocity.north_kmh) > gates.max_distance_km_per_hour || altitudeDelta > gates.max_altitude_delta_km) {
+        return Infinity;
+      }
+
+      cost += Math.pow(altitudeDelta / ALTITUDE_SIGMA_KM, 2) / velocity.hours;
+
+      if (prevVelocity) {
+        const hours = (prevVelocity.hours + velocity.hours) / 2;
+        const change = Math.hypot(velocity.east_kmh - prevVelocity.east_kmh, velocity.north_kmh - prevVelocity.north_kmh);
+        cost += Math.pow(change / ACCELERATION_SIGMA_KMH, 2) / hours;
+      }
+
+      prevVelocity = velocity;
+    }
+
+    return cost;
+  }
+
+  /**
+   * Re-run the Kalman filter from the end of a track's prefix through the rows it takes over
+   * (coasting rows are predicted, observed ones updated)
+   */
+  private refilter(prefixEnd: BalloonDataPoint, rows: BalloonDataPoint[]): TrackFilterState[] {
+    let state = prefixEnd.kalman_state ?? this.kalman.initialize(prefixEnd);
+
+    return rows.map(row => {
+      const predicted = this.kalman.predict(state, row.timestamp);
+      state = row.status === 'lost' ? predicted : this.kalman.update(predicted, row);
+      const velocity = this.kalman.getVelocity(state);
+      return {
+        timestamp: row.timestamp,
+        kalman_state: state,
+        filtered_speed_kmh: velocity.speed_kmh,
+        filtered_direction_deg: velocity.direction_deg,
+        velocity_uncertainty_kmh: velocity.speed_sigma_kmh,
+      };
+    });
+  }
+
+  /**
+   * Re-examine the link into hour (latestTimestamp - lagHours) using lookahead up to latestTimestamp
+   * Applies and returns any ID swaps found
+   *
+   * @param latestTimestamp - Newest tracked hour (ISO, top of hour)
+   */
+  async smoothWindow(latestTimestamp: string): Promise<TrackCorrection[]> {
+    if (this.lagHours < 1) {
+      return [];
+    }
+
+    const latestMs = new Date(latestTimestamp).getTime();
+    const joinMs = latestMs - this.lagHours * HOUR_MS;
+
+    // Load hours (join - 2) .. latest, keyed by hour index relative to the join hour
+    // Coasting rows aren't part of any path, but move (and are re-filtered) with their ID
+    const rowsByHour = new Map<number, Map<string, BalloonDataPoint>>();
+    const coastingByHour = new Map<number, Map<string, BalloonDataPoint>>();
+    for (let h = -2; h <= this.lagHours; h++) {
+      const timestamp = new Date(joinMs + h * HOUR_MS).toISOString();
+      const rows = await this.db.getTrackedBalloonsAtTimestamp(timestamp);
+      const observed = new Map<string, BalloonDataPoint>();
+      const coasting = new Map<string, BalloonDataPoint>();
+      for (const row of rows) {
+        // Uploaded sondes keep the IDs they were uploaded with
+        if (row.source) continue;
+        (row.status === 'lost' ? coasting : observed).set(row.id, row);
+      }
+      rowsByHour.set(h, observed);
+      coastingByHour.set(h, coasting);
+    }
+
+    const prefixHour = rowsByHour.get(-1)!;
+    const joinHour = rowsByHour.get(0)!;
+
+    // Prefix paths end at hour join-1, suffix paths start at the join hour
+    const prefixes = new Map<string, BalloonDataPoint[]>();
+    for (const [id, row] of prefixHour) {
+      const before = rowsByHour.get(-2)!.get(id);
+      prefixes.set(id, before ? [before, row] : [row]);
+    }
+
+    const suffixes = new Map<string, BalloonDataPoint[]>();
+    for (const [id, row] of joinHour) {
+      const path = [row];
+      for (let h = 1; h <= this.lagHours; h++) {
+        const later = rowsByHour.get(h)!.get(id);
+        if (later) path.push(later);
+      }
+      suffixes.set(id, path);
+    }
+
+    // Only IDs that currently continue through the join can be permuted
+    const linkedIds = [...prefixes.keys()].filter(id => suffixes.has(id));
+    if (linkedIds.length < 2) {
+      return [];
+    }
+
+    // Group linked IDs into clusters of plausible alternative links (union-find)
+    const parent = new Map<string, string>(linkedIds.map(id => [id, id]));
+    const find = (id: string): string => {
+      while (parent.get(id) !== id) {
+        parent.set(id, parent.get(parent.get(id)!)!);
+        id = parent.get(id)!;
+      }
+      return id;
+    };
+
+    for (const prefixId of linkedIds) {
+      const end = prefixes.get(prefixId)!.at(-1)!;
+      for (const suffixId of linkedIds) {
+        if (prefixId === suffixId) continue;
+        const start = suffixes.get(suffixId)![0];
+        const distance = haversineDistance(end.latitude, end.longitude, start.latitude, start.longitude);
+        const altitudeDelta = Math.abs(start.altitude_km - end.altitude_km);
+        if (distance <= this.profile.gates.max_distance_km_per_hour && altitudeDelta <= this.profile.gates.max_altitude_delta_km) {
+          parent.set(find(prefixId), find(suffixId));
+        }
+      }
+    }
+
+    const clusters = new Map<string, string[]>();
+    for (const id of linkedIds) {
+      const root = find(id);
+      if (!clusters.has(root)) clusters.set(root, []);
+      clusters.get(root)!.push(id);
+    }
+
+    const corrections: TrackCorrection[] = [];
+    const fromTimestamp = new Date(joinMs).toISOString();
+
+    for (const ids of clusters.values()) {
+      if (ids.length < 2) continue;
+
+      const INFINITY_COST = 1e9;
+      const finite = (cost: number) => (cost === Infinity ? INFINITY_COST : cost);
+      const joinRow = (id: string) => suffixes.get(id)![0];
+      const tail = (id: string) => suffixes.get(id)!.slice(1);
+
+      // Rows: prefixes, columns: the suffix continuing it from the join hour on...
+      const suffixCosts = ids.map(prefixId => ids.map(suffixId =>
+        finite(this.calculatePathCost([...prefixes.get(prefixId)!, ...suffixes.get(suffixId)!]))
+      ));
+      // ...or only the join hour's row, the track's own later hours unchanged (a one-hour swap
+      // at a crossing, which the tracker already undid the hour after)
+      const joinCosts = ids.map(prefixId => ids.map(joinId =>
+        finite(this.calculatePathCost([...prefixes.get(prefixId)!, joinRow(joinId), ...tail(prefixId)]))
+      ));
+      // Both diagonals are the current tracks
+      const costBefore = ids.reduce((sum, _, i) => sum + suffixCosts[i][i], 0);
+
+      const [suffixAssignments, joinAssignments] = [munkres(suffixCosts), munkres(joinCosts)];
+      const suffixCostAfter = suffixAssignments.reduce((sum, [i, j]) => sum + suffixCosts[i][j], 0);
+      const joinCostAfter = joinAssignments.reduce((sum, [i, j]) => sum + joinCosts[i][j], 0);
+      const joinHourOnly = joinCostAfter < suffixCostAfter;
+      const [assignments, costAfter] = joinHourOnly
+        ? [joinAssignments, joinCostAfter]
+        : [suffixAssignments, suffixCostAfter];
+
+      if (costAfter >= INFINITY_COST || costBefore - costAfter < MIN_IMPROVEMENT) {
+        continue;
+      }
+
+      const moves = assignments.filter(([i, j]) => i !== j);
+      if (moves.length === 0) continue;
+
+      const rowsOf = (id: string, fromHour: number) => {
+        const rows: BalloonDataPoint[] = [];
+        for (let h = fromHour; h <= this.lagHours; h++) {
+          const row = rowsByHour.get(h)!.get(id) ?? coastingByHour.get(h)!.get(id);
+          if (row) rows.push(row);
+        }
+        return rows;
+      };
+
+      const reassignments: TrackReassignment[] = moves.map(([i, j]) => {
+        const prefixEnd = prefixes.get(ids[i])!.at(-1)!;
+        const velocity = this.calculateVelocity(prefixEnd, joinRow(ids[j]));
+        return {
+          old_id: ids[j],
+          new_id: ids[i],
+          join_speed_kmh: velocity.speed_kmh,
+          join_direction_deg: velocity.direction_deg,
+          filter_states: this.refilter(prefixEnd, joinHourOnly ? [joinRow(ids[j])] : rowsOf(ids[j], 0)),
+        };
+      });
+
+      await this.applyCorrection(corrections, {
+        from_timestamp: fromTimestamp,
+        to_timestamp: latestTimestamp,
+        reassignments,
+        cost_before: costBefore,
+        cost_after: costAfter,
+      });
+
+      if (!joinHourOnly) continue;
+
+      // Swapping the join hour alone is the same swap from the join on, undone from the next hour on
+      const nextTimestamp = new Date(joinMs + HOUR_MS).toISOString();
+      await this.applyCorrection(corrections, {
+        from_timestamp: nextTimestamp,
+        to_timestamp: latestTimestamp,
+        reassignments: moves.map(([i, j]) => {
+          // ids[i] holds ids[j]'s later hours since the first swap; they go back to ids[j],
+          // which now continues from the join row it took over
+          const taken = reassignments.find(r => r.new_id === ids[j])!;
+          const joinEnd = { ...joinRow(taken.old_id), kalman_state: taken.filter_states[0].kalman_state };
+          const rows = rowsOf(ids[j], 1);
+          const velocity = rows.length > 0 ? this.calculateVelocity(joinEnd, rows[0]) : { speed_kmh: 0, direction_deg: 0 };
+          return {
+            old_id: ids[i],
+            new_id: ids[j],
+            join_speed_kmh: velocity.speed_kmh,
+            join_direction_deg: velocity.direction_deg,
+            filter_states: this.refilter(joinEnd, rows),
+          };
+        }),
+        cost_before: costBefore,
+        cost_after: costAfter,
+      });
+    }
+
+    return corrections;
+  }
+
+  /**
+   * Apply one correction and log it
+   */
+  private async applyCorrection(corrections: TrackCorrection[], correction: TrackCorrection): Promise<void> {
+    await this.db.applyTrackCorrection(correction);
+    corrections.push(correction);
+
+    console.log(
+      `[Smoother] ${correction.from_timestamp}: corrected ${correction.reassignments.map(r => `${r.old_id}->${r.new_id}`).join(', ')} ` +
+      `(path cost ${correction.cost_before.toFixed(1)} -> ${correction.cost_after.toFixed(1)})`
+    );
+  }
+
+  /**
+   * Sweep every window across a set of tracked hours (oldest to newest)
+   * Used after a full re-track, where no window has been smoothed yet
+   *
+   * @param timestamps - Tracked hour timestamps (any order)
+   */
+  async smoothAll(timestamps: string[]): Promise<TrackCorrection[]> {
+    const sorted = [...new Set(timestamps)].sort();
+    const corrections: TrackCorrection[] = [];
+
+    // The first windows need (lagHours + 1) earlier hours to have a prefix
+    for (const timestamp of sorted.slice(this.lagHours + 1)) {
+      corrections.push(...await this.smoothWindow(timestamp));
+    }
+
+    if (corrections.length > 0) {
+      console.log(`[Smoother] Applied ${corrections.length} corrections across ${sorted.length} hours`);
+    }
+
+    return corrections;
+  }
+}
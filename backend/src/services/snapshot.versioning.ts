@@ -0,0 +1,91 @@
+/**
+ * Snapshot Versioning
+ * Content hashes and diffs for hour files that change when re-fetched
+ *
+ * The NN.json files are relative to "now", so the same hour can be served with different
+ * content on a later fetch. Each distinct content becomes a new version of the hour
+ * (balloon_snapshot_versions); balloon_snapshots always holds the latest one. Tracking
+ * records the version it was built on, so an hour whose latest version is newer than
+ * its tracked version is stale.
+ */
+
+import crypto from 'crypto';
+import { RawBalloonData, SnapshotDiff } from '../types/balloon';
+import { haversineDistance } from './geo.math';
+
+const MAX_MOVE_KM = 200; // A removed and an added row closer than this count as one moved balloon
+
+/**
+ * SHA-256 of the stored (validated) rows
+ */
+export function hashSnapshot(rawData: RawBalloonData[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(rawData)).digest('hex');
+}
+
+/**
+ * Compare two versions of an hour file
+ * Rows have no IDs, so identical rows are matched first; the remaining removed and added
+ * rows are paired nearest-first (within MAX_MOVE_KM) and reported as moved
+ */
+export function diffSnapshots(
+  timestamp: string,
+  fromVersion: number,
+  fromData: RawBalloonData[],
+  toVersion: number,
+  toData: RawBalloonData[]
+): SnapshotDiff {
+  const key = (row: RawBalloonData) => `${row[0]},${row[1]},${row[2]}`;
+
+  // Multiset of the old rows, consumed by identical new rows
+  const remaining = new Map<string, RawBalloonData[]>();
+  for (const row of fromData) {
+    const rows = remaining.get(key(row)) ?? [];
+    rows.push(row);
+    remaining.set(key(row), rows);
+  }
+
+  let unchanged = 0;
+  const added: RawBalloonData[] = [];
+  for (const row of toData) {
+    const matches = remaining.get(key(row));
+    if (matches && matches.length > 0) {
+      matches.pop();
+      unchanged++;
+    } else {
+      added.push(row);
+    }
+  }
+  const removed = [...remaining.values()].flat();
+
+  // Pair removed/added rows, closest pairs first
+  const pairs: { removedIdx: number; addedIdx: number; distance: number }[] = [];
+  removed.forEach((r, removedIdx) => {
+    added.forEach((a, addedIdx) => {
+      const distance = haversineDistance(r[0], r[1], a[0], a[1]);
+      if (distance <= MAX_MOVE_KM) pairs.push({ removedIdx, addedIdx, distance });
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const pairedRemoved = new Set<number>();
+  const pairedAdded = new Set<number>();
+  const moved: SnapshotDiff['moved'] = [];
+  for (const { removedIdx, addedIdx, distance } of pairs) {
+    if (pairedRemoved.has(removedIdx) || pairedAdded.has(addedIdx)) continue;
+    pairedRemoved.add(removedIdx);
+    pairedAdded.add(addedIdx);
+    moved.push({ from: removed[removedIdx], to: added[addedIdx], distance_km: distance });
+  }
+
+  return {
+    timestamp,
+    from_version: fromVersion,
+    to_version: toVersion,
+    from_count: fromData.length,
+    to_count: toData.length,
+    unchanged_count: unchanged,
+    moved,
+    added: added.filter((_, i) => !pairedAdded.has(i)),
+    removed: removed.filter((_, i) => !pairedRemoved.has(i)),
+  };
+}
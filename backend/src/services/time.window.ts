@@ -0,0 +1,72 @@
+/**
+ * Absolute Time Windows
+ * Resolves the time parameters of read endpoints - ISO timestamps, from/to ranges and the
+ * hour_offset alias - into absolute hours, so a URL names the same data whenever it is asked
+ *
+ * hour_offset counts back from the current data hour (the top of the current UTC hour, as
+ * WindborneService stores it), never from the request time, so it only moves on the hour.
+ */
+
+import { TimeRange } from '../types/balloon';
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DEFAULT_FLEET_WINDOW_HOURS = 24;
+export const MAX_FLEET_WINDOW_HOURS = 72; // Fleet windows are read hour by hour
+
+/**
+ * Top of the hour a timestamp falls in, in the stored form
+ */
+export function floorToHour(timestamp: string | number | Date): string {
+  const ms = new Date(timestamp).getTime();
+  return new Date(ms - (((ms % HOUR_MS) + HOUR_MS) % HOUR_MS)).toISOString();
+}
+
+/**
+ * The current data hour
+ */
+export function currentHour(): string {
+  return floorToHour(Date.now());
+}
+
+/**
+ * Hours between a stored hour and the current data hour (0 = current, 1 = an hour ago, ...)
+ */
+export function hourOffsetOf(timestamp: string): number {
+  return Math.round((new Date(currentHour()).getTime() - new Date(timestamp).getTime()) / HOUR_MS);
+}
+
+/**
+ * The hour an endpoint reads: an explicit timestamp (floored to its hour) wins over
+ * hour_offset, which defaults to the current hour
+ */
+export function resolveHour(params: { timestamp?: string; hour_offset?: number }): string {
+  if (params.timestamp) return floorToHour(params.timestamp);
+  return new Date(new Date(currentHour()).getTime() - (params.hour_offset ?? 0) * HOUR_MS).toISOString();
+}
+
+/**
+ * Normalize an inclusive from/to window to stored timestamp form (absent ends stay open)
+ */
+export function toTimeRange(params: { from?: string; to?: string }): TimeRange {
+  return {
+    from: params.from ? new Date(params.from).toISOString() : undefined,
+    to: params.to ? new Date(params.to).toISOString() : undefined,
+  };
+}
+
+/**
+ * Window of a fleet-wide read: to defaults to the newest stored hour (or the current one),
+ * from to DEFAULT_FLEET_WINDOW_HOURS before it
+ */
+export function resolveFleetWindow(range: TimeRange, latestTimestamp: string | null): Required<TimeRange> {
+  const to = range.to ?? (latestTimestamp ? floorToHour(latestTimestamp) : currentHour());
+  const from = range.from ?? new Date(new Date(to).getTime() - DEFAULT_FLEET_WINDOW_HOURS * HOUR_MS).toISOString();
+  return { from, to };
+}
+
+/**
+ * Length of a window in hours
+ */
+export function windowHours(window: Required<TimeRange>): number {
+  return (new Date(window.to).getTime() - new Date(window.from).getTime()) / HOUR_MS;
+}
@@ -0,0 +1,151 @@
+/**
+ * Tracker Profiles
+ * Named, validated sets of tracker tuning parameters (weights, thresholds, gates)
+ *
+ * The built-in 'default' profile holds the production values. Extra profiles are
+ * loaded from a JSON file (TRACKER_PROFILES_PATH) and only need the fields they
+ * change - everything else is inherited from 'default':
+ *
+ *   { "profiles": { "strict": { "max_acceptable_cost": 50, "gates": { "kalman_gate_d2": 9.21 } } } }
+ *
+ * The active profile is selected with TRACKER_PROFILE (defaults to 'default').
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+
+const WeightsSchema = z.object({
+  distance: z.number().min(0),  // How far from predicted position (Mahalanobis, relative to the gate)
+  direction: z.number().min(0), // How much direction changed (dominant factor)
+  speed: z.number().min(0),     // How much speed changed
+  altitude: z.number().min(0),  // How much altitude changed
+});
+
+const GatesSchema = z.object({
+  max_distance_km_per_hour: z.number().positive(), // Hard limit - extreme polar vortex/jet stream speeds
+  max_altitude_delta_km: z.number().positive(),    // Hard gate on altitude change per hour
+  max_direction_change_deg: z.number().positive(), // Direction change that scores the full direction cost
+  kalman_gate_d2: z.number().positive(),           // Hard gate on Mahalanobis distance² to the prediction
+});
+
+const KalmanSchema = z.object({
+  process_noise_km2_per_h3: z.number().positive(), // Acceleration noise (how fast velocity may change)
+  measurement_sigma_km: z.number().positive(),     // Position noise of reported coordinates
+});
+
+export const TrackerProfileSchema = z.object({
+  weights: WeightsSchema,
+  max_acceptable_cost: z.number().positive(),         // Reject matches above this cost
+  greedy_cost_threshold: z.number().positive(),       // Greedy phase only accepts clearly good matches
+  greedy_altitude_threshold_km: z.number().positive(), // Greedy phase altitude limit (stricter than the gate)
+  coast_penalty_per_hour: z.number().min(0),          // Added cost per hour a track has been coasting
+  gates: GatesSchema,
+  kalman: KalmanSchema,
+}).refine(p => p.greedy_cost_threshold <= p.max_acceptable_cost, {
+  message: 'greedy_cost_threshold must not exceed max_acceptable_cost',
+  path: ['greedy_cost_threshold'],
+});
+
+// What a config file may specify per profile (merged over 'default')
+const TrackerProfileOverrideSchema = z.object({
+  weights: WeightsSchema.partial().strict(),
+  max_acceptable_cost: z.number(),
+  greedy_cost_threshold: z.number(),
+  greedy_altitude_threshold_km: z.number(),
+  coast_penalty_per_hour: z.number(),
+  gates: GatesSchema.partial().strict(),
+  kalman: KalmanSchema.partial().strict(),
+}).partial().strict();
+
+const TrackerProfilesFileSchema = z.object({
+  profiles: z.record(z.string().min(1), TrackerProfileOverrideSchema),
+}).strict();
+
+export type TrackerProfile = z.infer<typeof TrackerProfileSchema>;
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+// Production tuning - direction is the PRIMARY factor, balloons follow predictable curved paths
+export const DEFAULT_TRACKER_PROFILE: TrackerProfile = {
+  weights: {
+    distance: 0.15,
+    direction: 0.55,
+    speed: 0.10,
+    altitude: 0.20,
+  },
+  // With normalized scoring (0-100 range), 70 represents a reasonable match
+  max_acceptable_cost: 70,
+  greedy_cost_threshold: 30,
+  greedy_altitude_threshold_km: 5,
+  coast_penalty_per_hour: 5,
+  gates: {
+    max_distance_km_per_hour: 600,
+    max_altitude_delta_km: 10,
+    max_direction_change_deg: 45,
+    kalman_gate_d2: 13.82, // Chi-square (2 dof) 99.9%
+  },
+  kalman: {
+    process_noise_km2_per_h3: 2500, // ~50 km/h velocity change per hour (jet-stream turns)
+    measurement_sigma_km: 2,
+  },
+};
+
+/**
+ * Load all tracker profiles: the built-in default plus any from the config file
+ * Throws with the validation issues if the file or a merged profile is invalid
+ *
+ * @param configPath - JSON profiles file (defaults to TRACKER_PROFILES_PATH, optional)
+ */
+export function loadTrackerProfiles(
+  configPath: string | undefined = process.env.TRACKER_PROFILES_PATH
+): Map<string, TrackerProfile> {
+  const profiles = new Map<string, TrackerProfile>([[DEFAULT_PROFILE_NAME, DEFAULT_TRACKER_PROFILE]]);
+
+  if (!configPath) {
+    return profiles;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read tracker profiles from ${configPath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const file = TrackerProfilesFileSchema.safeParse(raw);
+  if (!file.success) {
+    throw new Error(`Invalid tracker profiles file ${configPath}:\n${z.prettifyError(file.error)}`);
+  }
+
+  for (const [name, override] of Object.entries(file.data.profiles)) {
+    const merged = TrackerProfileSchema.safeParse({
+      ...DEFAULT_TRACKER_PROFILE,
+      ...override,
+      weights: { ...DEFAULT_TRACKER_PROFILE.weights, ...override.weights },
+      gates: { ...DEFAULT_TRACKER_PROFILE.gates, ...override.gates },
+      kalman: { ...DEFAULT_TRACKER_PROFILE.kalman, ...override.kalman },
+    });
+
+    if (!merged.success) {
+      throw new Error(`Invalid tracker profile "${name}":\n${z.prettifyError(merged.error)}`);
+    }
+
+    profiles.set(name, merged.data);
+  }
+
+  console.log(`[Tracker] Loaded ${profiles.size} tracker profiles: ${[...profiles.keys()].join(', ')}`);
+  return profiles;
+}
+
+/**
+ * Look up a profile by name, throwing if it doesn't exist
+ */
+export function getTrackerProfile(profiles: Map<string, TrackerProfile>, name: string): TrackerProfile {
+  const profile = profiles.get(name);
+  if (!profile) {
+    throw new Error(`Unknown tracker profile "${name}" (available: ${[...profiles.keys()].join(', ')})`);
+  }
+  return profile;
+}
@@ -0,0 +1,256 @@
+/**
+ * Tracker Regression Scenarios
+ * Fixed synthetic fleets with known ground truth that the tracker must keep handling
+ * (see scripts/regression.ts)
+ *
+ * The Pacific crossing fleet starts around 180°: westerly jets carry its mid-latitude
+ * balloons east over the dateline, trade winds carry the tropical ones west. The same fleet
+ * shifted 180° to Greenwich is the control - the analytic wind field is identical there, so
+ * any difference between the two runs is an antimeridian bug (R-tree candidate search,
+ * Kalman innovations, longitude deltas, bearings).
+ *
+ * The crossing fleets are dense, with many forced crossings: the fixed-lag smoother run after
+ * every hour must leave fewer ID switches than the tracker alone.
+ */
+
+import assert from 'assert/strict';
+import { BalloonDataPoint } from '../types/balloon';
+import { InMemoryBalloonSource } from './balloon.source';
+import { TrackerBenchmark } from './benchmark.service';
+import { MemoryService } from './database.memory';
+import { normalizeLongitude } from './geo.math';
+import { JobLock } from './job.lock';
+import { LifecycleDetector } from './lifecycle.service';
+import { ConstellationSimulator, SimulationOptions, SyntheticConstellation } from './simulator.service';
+import { TrackSmoother } from './smoother.service';
+import { currentHour } from './time.window';
+import { BalloonTracker } from './tracker.service';
+import { UpdateStream } from './update.stream';
+import { WindborneService } from './windborne.service';
+
+// Sparse enough that the control run has no identity errors at all
+export const PACIFIC_CROSSING_SCENARIO: Partial<SimulationOptions> = {
+  balloons: 30,
+  hours: 12,
+  seed: 7,
+  crossings: 0,
+  launchRate: 0.01,
+  launchArea: { min_lon: 172, min_lat: 5, max_lon: -178, max_lat: 50 },
+};
+
+// Dense enough that the tracker swaps IDs at some forced crossings
+export const CROSSING_FLEET_SCENARIO: Partial<SimulationOptions> = {
+  balloons: 300,
+  hours: 24,
+  crossings: 40,
+};
+const CROSSING_FLEET_SEEDS = [1, 2, 3];
+
+const TOLERANCE = 1e-6;
+
+export interface RegressionResult {
+  check: string;
+  passed: boolean;
+  error?: string;
+  duration_ms: number;
+}
+
+interface RegressionCheck {
+  name: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * The scenario moved 180° east or west
+ */
+function shifted(scenario: Partial<SimulationOptions>): Partial<SimulationOptions> {
+  const area = scenario.launchArea!;
+  return {
+    ...scenario,
+    launchArea: { ...area, min_lon: normalizeLongitude(area.min_lon + 180), max_lon: normalizeLongitude(area.max_lon + 180) },
+  };
+}
+
+/**
+ * Ground-truth balloons whose consecutive reported positions are on either side of 180°
+ */
+function dateLineCrossings(constellation: SyntheticConstellation): number {
+  const lastLon = new Map<string, number>();
+  const crossed = new Set<string>();
+  for (const hour of constellation.hours) {
+    hour.data.forEach((raw, index) => {
+      const lon = raw[1];
+      const truth = hour.truth[index];
+      const previous = lastLon.get(truth);
+      if (previous !== undefined && Math.abs(lon - previous) > 180) crossed.add(truth);
+      lastLon.set(truth, lon);
+    });
+  }
+  return crossed.size;
+}
+
+/**
+ * Track the constellation oldest hour first, keyed by ground-truth ID
+ * (observed positions only, in hour order)
+ */
+async function trackByTruth(constellation: SyntheticConstellation): Promise<Map<string, BalloonDataPoint[]>> {
+  const tracker = new BalloonTracker(undefined, { persist: false });
+  const historyByBalloonId = new Map<string, BalloonDataPoint[]>();
+  const byTruth = new Map<string, BalloonDataPoint[]>();
+  let previousHourData: BalloonDataPoint[] = [];
+
+  for (const hour of constellation.hours) {
+    const truthByKey = new Map<string, string>();
+    const currentHourData: BalloonDataPoint[] = hour.data.map((raw, index) => {
+      truthByKey.set(`${raw[0]},${raw[1]},${raw[2]}`, hour.truth[index]);
+      return {
+        id: `temp_${index}`,
+        latitude: raw[0],
+        longitude: raw[1],
+        altitude_km: raw[2],
+        timestamp: hour.timestamp,
+        hour_offset: 0,
+        confidence: 1.0,
+        status: 'active' as const,
+      };
+    });
+
+    const tracked = await tracker.trackBalloons(currentHourData, previousHourData, historyByBalloonId);
+    for (const balloon of tracked.filter(b => b.status !== 'lost')) {
+      historyByBalloonId.set(balloon.id, [...(historyByBalloonId.get(balloon.id) ?? []), balloon].slice(-3));
+      const truth = truthByKey.get(`${balloon.latitude},${balloon.longitude},${balloon.altitude_km}`)!;
+      byTruth.set(truth, [...(byTruth.get(truth) ?? []), balloon]);
+    }
+    previousHourData = tracked;
+  }
+
+  return byTruth;
+}
+
+/**
+ * A WindborneService on an in-memory database and hour files, fully fetched
+ */
+async function windborneFixture(hours: SyntheticConstellation['hours']) {
+  const db = new MemoryService({ memorySnapshotPath: '' });
+  const tracker = new BalloonTracker(db);
+  const source = new InMemoryBalloonSource(Object.fromEntries([...hours].reverse().map((h, offset) => [offset, h.data])));
+  const service = new WindborneService(
+    db, tracker, new TrackSmoother(db), new LifecycleDetector(db), source, new JobLock(db), new UpdateStream()
+  );
+  await service.getBalloonData(); // Waits for the startup full fetch
+  return { db, source, service };
+}
+
+const CHECKS: RegressionCheck[] = [
+  {
+    name: 'Pacific crossing fleet keeps every ID across 180°',
+    run: async () => {
+      const constellation = new ConstellationSimulator(PACIFIC_CROSSING_SCENARIO).generate();
+      assert.ok(dateLineCrossings(constellation) >= 10, 'the fixture should carry balloons across 180°');
+
+      const metrics = await new TrackerBenchmark().run(constellation);
+      assert.equal(metrics.id_switches, 0, 'ID switches');
+      assert.equal(metrics.fragmentations, 0, 'fragmented tracks');
+      assert.equal(metrics.false_new_tracks, 0, 'new tracks for known balloons');
+      assert.equal(metrics.tracks, metrics.truth_balloons, 'one track per balloon');
+    },
+  },
+  {
+    name: 'Pacific crossing tracks match the same fleet at Greenwich',
+    run: async () => {
+      const pacific = await trackByTruth(new ConstellationSimulator(PACIFIC_CROSSING_SCENARIO).generate());
+      const greenwich = await trackByTruth(new ConstellationSimulator(shifted(PACIFIC_CROSSING_SCENARIO)).generate());
+
+      assert.deepEqual([...pacific.keys()].sort(), [...greenwich.keys()].sort());
+      for (const [truth, track] of pacific) {
+        const control = greenwich.get(truth)!;
+        assert.equal(track.length, control.length, `${truth}: observations`);
+        track.forEach((p, i) => {
+          const c = control[i];
+          const at = `${truth} at ${p.timestamp}`;
+          assert.equal(p.id, c.id, `${at}: track ID`);
+          assert.ok(Math.abs((p.speed_kmh ?? 0) - (c.speed_kmh ?? 0)) < TOLERANCE, `${at}: speed ${p.speed_kmh} vs ${c.speed_kmh} km/h`);
+          assert.ok(Math.abs((p.direction_deg ?? 0) - (c.direction_deg ?? 0)) < TOLERANCE, `${at}: bearing ${p.direction_deg} vs ${c.direction_deg}°`);
+          assert.ok(p.direction_deg === undefined || (p.direction_deg >= 0 && p.direction_deg < 360), `${at}: bearing ${p.direction_deg}° outside [0, 360)`);
+          assert.ok(Math.abs((p.filtered_speed_kmh ?? 0) - (c.filtered_speed_kmh ?? 0)) < TOLERANCE, `${at}: filtered speed`);
+        });
+      }
+    },
+  },
+  {
+    name: 'fixed-lag smoothing leaves fewer ID switches on crossing fleets',
+    run: async () => {
+      for (const seed of CROSSING_FLEET_SEEDS) {
+        const constellation = new ConstellationSimulator({ ...CROSSING_FLEET_SCENARIO, seed }).generate();
+        const tracked = await new TrackerBenchmark().run(constellation);
+        const smoothed = await new TrackerBenchmark(undefined, undefined, { smoothing: true }).run(constellation);
+
+        assert.ok(tracked.id_switches > 0, `seed ${seed}: the fixture should make the tracker swap IDs`);
+        assert.ok(
+          smoothed.id_switches < tracked.id_switches,
+          `seed ${seed}: ${smoothed.id_switches} ID switches smoothed vs ${tracked.id_switches} tracked`
+        );
+        assert.ok(smoothed.fragmentations <= tracked.fragmentations, `seed ${seed}: fragmented tracks`);
+        assert.ok(smoothed.false_new_tracks <= tracked.false_new_tracks, `seed ${seed}: new tracks for known balloons`);
+      }
+    },
+  },
+  {
+    name: 'repeated hourly updates of the same hour replace its tracking instead of adding to it',
+    run: async () => {
+      const constellation = new ConstellationSimulator({ balloons: 40, hours: 24, seed: 11 }).generate();
+      const { db, source, service } = await windborneFixture(constellation.hours);
+      try {
+        const hour = currentHour();
+        const observedIds = async () => (await db.getTrackedBalloonsAtTimestamp(hour))
+          .filter(b => b.status !== 'lost')
+          .map(b => b.id)
+          .sort();
+
+        const fileSize = constellation.hours[constellation.hours.length - 1].data.length;
+        const tracked = await observedIds();
+        assert.equal(tracked.length, fileSize, 'startup tracks one row per balloon');
+
+        // Cron refresh, then the scheduler, on an unchanged hour file
+        await service.forceRefresh('cron');
+        await service.forceRefresh('manual');
+        assert.deepEqual(await observedIds(), tracked, 'unchanged file keeps its tracking');
+
+        // The hour file changes on re-fetch (one balloon fewer): re-tracked, not appended
+        const changed = constellation.hours[constellation.hours.length - 1].data.slice(1);
+        source.setHour(0, changed);
+        await service.forceRefresh('cron');
+        await service.forceRefresh('manual');
+        const retracked = await observedIds();
+        assert.equal(retracked.length, changed.length, 'changed file replaces the hour');
+        assert.equal(new Set(retracked).size, retracked.length, 'no duplicate IDs');
+      } finally {
+        service.stopHourlyScheduler();
+      }
+    },
+  },
+];
+
+/**
+ * Run every scenario check (each builds its own tracker)
+ */
+export async function runTrackerRegressions(): Promise<RegressionResult[]> {
+  const results: RegressionResult[] = [];
+
+  for (const check of CHECKS) {
+    const startedAt = Date.now();
+    try {
+      await check.run();
+      results.push({ check: check.name, passed: true, duration_ms: Date.now() - startedAt });
+    } catch (error) {
+      results.push({
+        check: check.name,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        duration_ms: Date.now() - startedAt,
+      });
+    }
+  }
+
+  return results;
+}
@@ -2,12 +2,18 @@
  * Balloon Tracking Service
  * Implements optimal bipartite matching with Hungarian algorithm
  * Uses velocity continuity to prevent balloon identity swaps
+ * Each track carries a constant-velocity Kalman state used for prediction, gating and confidence
  */
 
 import RBush from 'rbush';
 import munkres from 'munkres-js';
-import { BalloonDataPoint } from '../types/balloon';
+import { BalloonDataPoint, BalloonQuery, KalmanState, MatchPhase, MatchScoreBreakdown, TimeRange, TrackingDiagnosticsEntry } from '../types/balloon';
 import { IDatabase } from './database.factory';
+import { haversineDistance, longitudeDelta, normalizeLongitude, toRadians } from './geo.math';
+import { KalmanFilter } from './kalman.service';
+import { HOUR_MS, floorToHour, hourOffsetOf } from './time.window';
+import { DEFAULT_TRACKER_PROFILE, TrackerProfile } from './tracker.profiles';
+import { WindData, WindService, windLocationKey } from './wind.service';
 
 interface BalloonTreeNode {
   minX: number;
@@ -17,25 +23,27 @@ interface BalloonTreeNode {
   balloon: BalloonDataPoint;
 }
 
-const MAX_DISTANCE_KM_PER_HOUR = 600; // Hard limit - extreme polar vortex/jet stream speeds
-const TYPICAL_DISTANCE_KM_PER_HOUR = 150; // Typical balloon drift speed for scoring normalization
-const MAX_ALTITUDE_DELTA_KM = 10; // Hard gate: balloons can't change altitude by more than 10km/hour
-const MAX_DIRECTION_CHANGE_DEG = 45; // Hard gate: balloons follow smooth curves, max 45° change per hour
-const EARTH_RADIUS_KM = 6371;
-
-// Scoring weights for normalized cost components (should sum to ~1.0)
-// Direction is the PRIMARY factor - balloons follow predictable curved paths
-const SCORING_WEIGHTS = {
-  distance: 0.15,   // How far from predicted position (quadratic scaling)
-  direction: 0.55,  // How much direction changed (dominant factor)
-  speed: 0.10,      // How much speed changed
-  altitude: 0.20,   // How much altitude changed
-};
+interface MatchScore {
+  cost: number; // Total cost (0-100 + gap penalty), Infinity when a hard gate rejects the pair
+  breakdown: MatchScoreBreakdown | null; // Weighted components, null when rejected
+  likelihood: number; // Kalman likelihood of the observation under this track's prediction
+}
+
+const REJECTED_MATCH: MatchScore = { cost: Infinity, breakdown: null, likelihood: 0 };
+
+// Scoring weights, cost thresholds and hard gates come from the tracker profile
+// (see tracker.profiles.ts)
+const CLUTTER_DENSITY_PER_KM2 = 1e-8; // Density of unrelated (new) balloons, used for association confidence
+const DEFAULT_MAX_COAST_HOURS = 3; // Keep unmatched tracks alive this many hours before dropping them
 
 export class BalloonTracker {
   private nextId = 1;
   private db: IDatabase;
   private trackedBalloons: Map<string, BalloonDataPoint[]> = new Map(); // id -> trajectory history
+  private kalman: KalmanFilter;
+  private profile: TrackerProfile;
+  private persist: boolean; // Save tracked hours to the DB (off for offline re-tracking)
+  private windService?: Pick<WindService, 'getWindAtMultipleLocations'>; // Wind priors for new tracks (optional)
 
   // OPTIMIZATION: In-memory cache for processHistoricalData results
   // Keyed by timestamp, reduces DB queries when data hasn't changed
@@ -44,8 +52,30 @@ export class BalloonTracker {
   private cacheMaxAge = 600000; // 10 minutes (data updates hourly, so aggressive caching is safe)
   private cacheCreatedAt: number = 0;
 
-  constructor(db?: IDatabase) {
+  // Number of consecutive hours an unmatched track is coasted (marked 'lost') before it's dropped
+  // Configurable via TRACKER_MAX_COAST_HOURS
+  private maxCoastHours: number;
+
+  constructor(
+    db?: IDatabase,
+    options: {
+      maxCoastHours?: number;
+      profile?: TrackerProfile;
+      persist?: boolean;
+      windService?: Pick<WindService, 'getWindAtMultipleLocations'>;
+    } = {}
+  ) {
     this.db = db!;
+    const envCoastHours = parseInt(process.env.TRACKER_MAX_COAST_HOURS || '', 10);
+    this.maxCoastHours = options.maxCoastHours ??
+      (isNaN(envCoastHours) ? DEFAULT_MAX_COAST_HOURS : envCoastHours);
+    this.profile = options.profile ?? DEFAULT_TRACKER_PROFILE;
+    this.persist = options.persist ?? true;
+    this.windService = options.windService;
+    this.kalman = new KalmanFilter({
+      processNoise: this.profile.kalman.process_noise_km2_per_h3,
+      measurementSigmaKm: this.profile.kalman.measurement_sigma_km,
+    });
   }
 
   async initialize() {
@@ -68,30 +98,51 @@ export class BalloonTracker {
   }
 
   /**
-   * Calculate distance between two lat/lon points using Haversine formula
+   * Drop processed data caches (after stored IDs were rewritten, e.g. by the smoother)
+   * Keeps nextId and tracking state
    */
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) *
-      Math.cos(this.toRadians(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return EARTH_RADIUS_KM * c;
+  invalidateCache(): void {
+    this.processedDataCache.clear();
+    this.cacheTimestamp = null;
+    this.cacheCreatedAt = 0;
   }
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  /**
+   * Query the R-tree for nodes within a lat/lon box around a point
+   * Boxes that extend past ±180° are split and wrapped so balloons on the
+   * other side of the dateline are still found as candidates
+   */
+  private searchAcrossAntimeridian(
+    tree: RBush<BalloonTreeNode>,
+    lat: number,
+    lon: number,
+    radiusDeg: number
+  ): BalloonTreeNode[] {
+    const minY = lat - radiusDeg;
+    const maxY = lat + radiusDeg;
+    const minX = lon - radiusDeg;
+    const maxX = lon + radiusDeg;
+
+    // Box covers the whole globe horizontally - no wrapping needed
+    if (maxX - minX >= 360) {
+      return tree.search({ minX: -180, minY, maxX: 180, maxY });
+    }
+
+    if (minX < -180) {
+      return [
+        ...tree.search({ minX: -180, minY, maxX, maxY }),
+        ...tree.search({ minX: minX + 360, minY, maxX: 180, maxY }),
+      ];
+    }
+
+    if (maxX > 180) {
+      return [
+        ...tree.search({ minX, minY, maxX: 180, maxY }),
+        ...tree.search({ minX: -180, minY, maxX: maxX - 360, maxY }),
+      ];
+    }
+
+    return tree.search({ minX, minY, maxX, maxY });
   }
 
   /**
@@ -113,7 +164,7 @@ export class BalloonTracker {
     prev: BalloonDataPoint,
     curr: BalloonDataPoint
   ): { speed_kmh: number; direction_deg: number } {
-    const distance = this.calculateDistance(
+    const distance = haversineDistance(
       prev.latitude,
       prev.longitude,
       curr.latitude,
@@ -126,10 +177,10 @@ export class BalloonTracker {
 
     const speed_kmh = timeDiffHours > 0 ? distance / timeDiffHours : 0;
 
-    // Calculate bearing/direction
-    const dLon = this.toRadians(curr.longitude - prev.longitude);
-    const lat1 = this.toRadians(prev.latitude);
-    const lat2 = this.toRadians(curr.latitude);
+    // Calculate bearing/direction (shortest way around, so dateline crossings keep their heading)
+    const dLon = toRadians(longitudeDelta(prev.longitude, curr.longitude));
+    const lat1 = toRadians(prev.latitude);
+    const lat2 = toRadians(curr.latitude);
 
     const y = Math.sin(dLon) * Math.cos(lat2);
     const x =
@@ -142,6 +193,99 @@ export class BalloonTracker {
     return { speed_kmh, direction_deg };
   }
 
+  /**
+   * Filter state to predict a previous balloon from
+   * Rows tracked before Kalman states were persisted are seeded from their
+   * averaged (or stored) velocity
+   */
+  private getKalmanState(prev: BalloonDataPoint, history: BalloonDataPoint[] = []): KalmanState {
+    if (prev.kalman_state) {
+      return prev.kalman_state;
+    }
+
+    const avgVelocity = history.length >= 2 ? this.calculateAveragedVelocity(history.slice(-3)) : null;
+    return this.kalman.initialize(avgVelocity ? { ...prev, ...avgVelocity } : prev);
+  }
+
+  /**
+   * Seed tracks that have no velocity estimate yet with the wind at their position
+   * (freshly appearing balloons would otherwise be predicted to stand still)
+   * All lookups for the hour go through one batched getWindAtMultipleLocations call
+   * Returns how many tracks were seeded; tracks without wind data keep their uninformed prior
+   */
+  private async applyWindPriors(
+    previousData: BalloonDataPoint[],
+    states: Map<string, KalmanState>
+  ): Promise<number> {
+    if (!this.windService) {
+      return 0;
+    }
+
+    const needsPrior = previousData.filter(b => this.kalman.isVelocityUnknown(states.get(b.id)!));
+    if (needsPrior.length === 0) {
+      return 0;
+    }
+
+    const locations = needsPrior.map(b => ({
+      latitude: b.latitude,
+      longitude: b.longitude,
+      altitude_km: b.altitude_km,
+      timestamp: b.timestamp,
+    }));
+
+    let winds: Map<string, WindData>;
+    try {
+      winds = await this.windService.getWindAtMultipleLocations(locations);
+    } catch (error) {
+      console.warn(`[Tracker] Wind lookup failed, tracking without wind priors: ${error instanceof Error ? error.message : error}`);
+      return 0;
+    }
+
+    let seeded = 0;
+    needsPrior.forEach((b, i) => {
+      const wind = winds.get(windLocationKey(locations[i]));
+      if (!wind) return;
+      states.set(b.id, this.kalman.seedVelocityFromWind(states.get(b.id)!, {
+        east_kmh: wind.wind_u_ms * 3.6,
+        north_kmh: wind.wind_v_ms * 3.6,
+      }));
+      seeded++;
+    });
+
+    return seeded;
+  }
+
+  /**
+   * Attach a filter state and the filtered velocity it implies to a tracked point
+   */
+  private withKalmanState(balloon: BalloonDataPoint, state: KalmanState): BalloonDataPoint {
+    const velocity = this.kalman.getVelocity(state);
+    return {
+      ...balloon,
+      kalman_state: state,
+      filtered_speed_kmh: velocity.speed_kmh,
+      filtered_direction_deg: velocity.direction_deg,
+      velocity_uncertainty_kmh: velocity.speed_sigma_kmh,
+    };
+  }
+
+  /**
+   * Probability that a candidate is the right association for an observation
+   * Its Kalman likelihood relative to all candidates plus the chance it's an unrelated balloon
+   */
+  private associationConfidence(likelihood: number, candidates: { likelihood: number }[]): number {
+    const total = candidates.reduce((sum, c) => sum + c.likelihood, 0) + CLUTTER_DENSITY_PER_KM2;
+    return Math.min(1, likelihood / total);
+  }
+
+  /**
+   * Number of hours since a track was last actually observed
+   * Coasting tracks ('lost') carry the count in gap_hours
+   */
+  private getGapHours(balloon: BalloonDataPoint): number {
+    return balloon.status === 'lost' ? balloon.gap_hours ?? 1 : 0;
+  }
+
   /**
    * Calculate averaged velocity from up to 3 historical positions
    * Uses weighted average: more recent positions have higher weight
@@ -202,24 +346,30 @@ export class BalloonTracker {
    * Calculate the matching score between a current balloon and a previous balloon
    * Lower scores indicate better matches
    *
-   * Uses normalized scoring with weighted components:
-   * - Distance from predicted position (35%)
-   * - Direction change (30%)
-   * - Speed change (15%)
+   * Uses normalized scoring with weighted components (default profile weights):
+   * - Mahalanobis distance from the Kalman-predicted position (15%)
+   * - Direction change vs. filtered velocity (55%)
+   * - Speed change vs. filtered velocity (10%)
    * - Altitude change (20%)
    *
+   * For tracks without observed motion the prediction is the wind-advected position
+   * when wind priors are enabled (see applyWindPriors), so distance and direction are
+   * scored against the wind rather than a stationary balloon.
+   *
    * @param curr - Current balloon position to match
    * @param prev - Previous balloon position (most recent)
-   * @param history - Optional array of up to 3 most recent positions for this balloon (including prev)
+   * @param predicted - prev's Kalman state predicted to curr's timestamp
    * @param debug - Enable debug logging
+   * @returns Total cost plus the weighted component breakdown (persisted for diagnostics)
    */
   private calculateMatchScore(
     curr: BalloonDataPoint,
     prev: BalloonDataPoint,
-    history: BalloonDataPoint[] = [],
+    predicted: KalmanState,
     debug: boolean = false
-  ): number {
-    const distance = this.calculateDistance(
+  ): MatchScore {
+    const { weights, gates } = this.profile;
+    const distance = haversineDistance(
       curr.latitude,
       curr.longitude,
       prev.latitude,
@@ -227,121 +377,90 @@ export class BalloonTracker {
     );
 
     // HARD GATE 1: Distance - reject if too far horizontally
-    if (distance > MAX_DISTANCE_KM_PER_HOUR) {
-      return Infinity;
+    if (distance > gates.max_distance_km_per_hour) {
+      return REJECTED_MATCH;
     }
 
     // HARD GATE 2: Altitude - reject impossible vertical jumps
     const altitudeDelta = Math.abs(curr.altitude_km - prev.altitude_km);
-    if (altitudeDelta > MAX_ALTITUDE_DELTA_KM) {
-      return Infinity;
+    if (altitudeDelta > gates.max_altitude_delta_km) {
+      return REJECTED_MATCH;
     }
 
-    // Get velocity - prefer averaged velocity from history if available
-    let avgVelocity: { speed_kmh: number; direction_deg: number } | null = null;
-
-    if (history.length >= 2) {
-      // Use up to last 3 positions for averaged velocity
-      avgVelocity = this.calculateAveragedVelocity(history.slice(-3));
-    }
-
-    // Fall back to stored velocity on prev if no history available
-    const velocity = avgVelocity || (prev.speed_kmh && prev.direction_deg ?
-      { speed_kmh: prev.speed_kmh, direction_deg: prev.direction_deg } : null);
-
-    // Predict where the balloon SHOULD be based on velocity
-    let predictedLat = prev.latitude;
-    let predictedLon = prev.longitude;
-    let hasPrediction = false;
-
-    if (velocity && velocity.speed_kmh > 0) {
-      hasPrediction = true;
-      const distKm = velocity.speed_kmh; // Distance traveled in 1 hour
-      const rad = velocity.direction_deg * (Math.PI / 180);
-      const latRad = prev.latitude * (Math.PI / 180);
-
-      // Standard bearing: 0° = North, 90° = East
-      const dLat = (distKm * Math.cos(rad)) / EARTH_RADIUS_KM;
-      const dLon = (distKm * Math.sin(rad)) / (EARTH_RADIUS_KM * Math.cos(latRad));
-
-      predictedLat += dLat * (180 / Math.PI);
-      predictedLon += dLon * (180 / Math.PI);
+    // HARD GATE 3: Mahalanobis distance to the filter prediction
+    // The gate follows the track's filtered velocity and widens with its uncertainty
+    // (new and coasting tracks), instead of a fixed direction-change limit
+    const { mahalanobis_d2, likelihood } = this.kalman.innovation(predicted, curr);
+    if (mahalanobis_d2 > gates.kalman_gate_d2) {
+      return REJECTED_MATCH;
     }
 
-    const predictedDist = this.calculateDistance(
-      curr.latitude,
-      curr.longitude,
-      predictedLat,
-      predictedLon
-    );
-
     // Calculate the direction from prev to curr
     const impliedVelocity = this.calculateVelocity(prev, curr);
 
-    // HARD GATE 3: Direction - reject extreme direction changes when we have velocity data
-    // Balloons follow smooth curved paths; 90°+ changes in one hour indicate wrong match
-    let directionChange = 0;
-    if (hasPrediction && velocity!.speed_kmh > 10) {
-      directionChange = this.angleDifference(velocity!.direction_deg, impliedVelocity.direction_deg);
-      if (directionChange > MAX_DIRECTION_CHANGE_DEG) {
-        return Infinity;
-      }
-    }
+    // Direction/speed continuity only count once the filter has a confident velocity
+    const filtered = this.kalman.getVelocity(predicted);
+    const hasVelocity = filtered.speed_kmh > 10 && filtered.speed_sigma_kmh < filtered.speed_kmh;
 
     // NORMALIZED SCORING STRATEGY:
     // Each component is normalized to 0-1 range, then weighted
     // This makes tuning easier and scoring more predictable
 
-    // 1. Distance score (0-1): How far from predicted/actual position
-    // Uses quadratic scaling based on typical speed, so:
-    //   - Close matches (< typical) get low scores
-    //   - Far matches get progressively higher scores
-    //   - Very far matches (approaching max) get scores near 1.0
-    // Examples with TYPICAL=150km: 75km->0.25, 150km->1.0, 300km->4.0 (clamped to 1)
-    const effectiveDist = hasPrediction ? predictedDist : distance;
-    const distanceScore = Math.min(1, Math.pow(effectiveDist / TYPICAL_DISTANCE_KM_PER_HOUR, 2));
+    // 1. Distance score (0-1): Mahalanobis distance relative to the gate
+    // Already accounts for prediction uncertainty, so coasting tracks (whose covariance
+    // grew with every missed hour) aren't penalized for larger raw position errors
+    const distanceScore = Math.min(1, mahalanobis_d2 / gates.kalman_gate_d2);
 
     // 2. Direction score (0-1): How much did the heading change
     // Uses cubic scaling - direction is the most important factor for balloon tracking
-    // With MAX_DIRECTION_CHANGE_DEG = 45:
-    //   15° -> 0.037, 22.5° -> 0.125, 30° -> 0.30, 45° -> 1.0
-    let directionScore = 0;
-    if (hasPrediction && velocity!.speed_kmh > 10) {
-      directionScore = Math.pow(directionChange / MAX_DIRECTION_CHANGE_DEG, 3);
-    }
+    // With max_direction_change_deg = 45:
+    //   15° -> 0.037, 22.5° -> 0.125, 30° -> 0.30, 45°+ -> 1.0
+    const directionChange = hasVelocity
+      ? this.angleDifference(filtered.direction_deg, impliedVelocity.direction_deg)
+      : 0;
+    const directionScore = Math.min(1, Math.pow(directionChange / gates.max_direction_change_deg, 3));
 
     // 3. Speed score (0-1): How much did the speed change (log scale for ratio)
     let speedScore = 0;
-    if (hasPrediction && velocity!.speed_kmh > 10) {
-      const speedRatio = impliedVelocity.speed_kmh / velocity!.speed_kmh;
+    if (hasVelocity) {
+      const speedRatio = impliedVelocity.speed_kmh / filtered.speed_kmh;
       // Log scale: ratio of 0.5 or 2.0 gives ~0.7, ratio of 0.25 or 4.0 gives ~1.4 (clamped)
       speedScore = Math.min(1, Math.abs(Math.log(speedRatio)) / Math.log(4));
     }
 
     // 4. Altitude score (0-1): Normalized altitude change with quadratic scaling
     // Small changes are tolerated, large changes penalized more heavily
-    const altitudeScore = Math.pow(altitudeDelta / MAX_ALTITUDE_DELTA_KM, 2);
-
-    // Weighted combination
-    const normalizedCost =
-      SCORING_WEIGHTS.distance * distanceScore +
-      SCORING_WEIGHTS.direction * directionScore +
-      SCORING_WEIGHTS.speed * speedScore +
-      SCORING_WEIGHTS.altitude * altitudeScore;
-
-    // Scale to range comparable with MAX_ACCEPTABLE_COST for threshold checks
-    // normalizedCost is 0-1, multiply by 100 to get 0-100 range
-    const score = normalizedCost * 100;
+    const altitudeScore = Math.pow(altitudeDelta / gates.max_altitude_delta_km, 2);
+
+    // Weighted combination, scaled to range comparable with max_acceptable_cost
+    // Each component is 0-1 weighted, multiply by 100 to get the 0-100 range
+    // Coasting tracks pay a small penalty per missed hour
+    const gapHours = this.getGapHours(prev);
+    const breakdown: MatchScoreBreakdown = {
+      distance: weights.distance * distanceScore * 100,
+      direction: weights.direction * directionScore * 100,
+      speed: weights.speed * speedScore * 100,
+      altitude: weights.altitude * altitudeScore * 100,
+      gap_penalty: gapHours * this.profile.coast_penalty_per_hour,
+    };
+
+    const score =
+      breakdown.distance +
+      breakdown.direction +
+      breakdown.speed +
+      breakdown.altitude +
+      breakdown.gap_penalty;
 
     if (debug) {
       console.log(`[Score] ${prev.id} -> curr: dist=${distance.toFixed(1)}km, ` +
-        `predictedDist=${predictedDist.toFixed(1)}km (hasPred=${hasPrediction}, histLen=${history.length}), ` +
+        `mahalanobis²=${mahalanobis_d2.toFixed(2)} (filtered ${filtered.speed_kmh.toFixed(0)}±` +
+        `${filtered.speed_sigma_kmh.toFixed(0)} km/h), ` +
         `scores=[dist=${distanceScore.toFixed(2)}, dir=${directionScore.toFixed(2)}, ` +
-        `spd=${speedScore.toFixed(2)}, alt=${altitudeScore.toFixed(2)}], ` +
+        `spd=${speedScore.toFixed(2)}, alt=${altitudeScore.toFixed(2)}, gap=${gapHours}h], ` +
         `TOTAL=${score.toFixed(1)}`);
     }
 
-    return score;
+    return { cost: score, breakdown, likelihood };
   }
 
   /**
@@ -352,74 +471,162 @@ export class BalloonTracker {
    * This is much faster than full Hungarian (O(k³) where k << n) while still
    * resolving swap conflicts properly.
    *
+   * Gap bridging: previous balloons that find no match are not discarded. Their Kalman
+   * state is predicted forward and returned as 'lost' placeholders (with gap_hours),
+   * so they can be re-acquired for up to maxCoastHours hours.
+   *
+   * Wind priors: with a windService configured, tracks that have no velocity yet are
+   * seeded with the wind at their last position (one batched lookup per hour). If the
+   * lookup fails the hour is tracked without them.
+   *
+   * Uploaded sondes: points with an external_id (POST /api/ingest) are tracked as
+   * `<source>:<external_id>` and never matched; anonymous points are only matched against previous tracks of the same source
+   * (the feed, or one upload source tag), so uploads never take over feed IDs or vice versa.
+   *
    * @param currentData - Balloon positions at current timestamp
-   * @param previousData - Balloon positions at previous timestamp (1 hour ago)
-   * @param historyByBalloonId - Optional map of balloon ID -> last 3 positions for better velocity estimation
+   * @param previousData - Balloon positions at previous timestamp (1 hour ago), including coasting 'lost' tracks
+   * @param historyByBalloonId - Optional map of balloon ID -> last 3 positions (seeds tracks without a Kalman state)
    */
-  trackBalloons(
+  async trackBalloons(
     currentData: BalloonDataPoint[],
     previousData: BalloonDataPoint[],
     historyByBalloonId: Map<string, BalloonDataPoint[]> = new Map()
-  ): BalloonDataPoint[] {
+  ): Promise<BalloonDataPoint[]> {
+    const identified = currentData.filter(b => b.external_id);
+    const anonymous = currentData.filter(b => !b.external_id);
+
+    const tracked = identified.length > 0 ? this.trackIdentified(identified, previousData) : [];
+    if (tracked.length > 0 && this.persist) {
+      await this.db.saveTrackedBalloons(tracked);
+    }
+
+    if (anonymous.length > 0 || identified.length === 0) {
+      const source = anonymous[0]?.source;
+      const sameSource = previousData.filter(b => !b.external_id && b.source === source);
+      tracked.push(...await this.matchBalloons(anonymous, sameSource, historyByBalloonId));
+    }
+
+    return tracked;
+  }
+
+  /**
+   * Uploaded sondes with an external ID: the ID is the track, no matching needed
+   * Track IDs are namespaced by source, so two uploaders' sonde numbers never collide
+   * The Kalman state continues from the previous hour's row of the same ID, if there is one
+   */
+  private trackIdentified(currentData: BalloonDataPoint[], previousData: BalloonDataPoint[]): BalloonDataPoint[] {
+    const previousById = new Map(
+      previousData.filter(b => b.external_id).map(b => [b.id, b])
+    );
+
+    return currentData.map(balloon => {
+      const id = `${balloon.source}:${balloon.external_id}`;
+      const prev = previousById.get(id);
+      if (!prev) {
+        return this.withKalmanState({
+          ...balloon,
+          id,
+          status: 'new' as const,
+          confidence: 1.0,
+        }, this.kalman.initialize(balloon));
+      }
+
+      const velocity = this.calculateVelocity(prev, balloon);
+      const predicted = this.kalman.predict(this.getKalmanState(prev), balloon.timestamp);
+      return this.withKalmanState({
+        ...balloon,
+        id,
+        speed_kmh: velocity.speed_kmh,
+        direction_deg: velocity.direction_deg,
+        status: 'active' as const,
+        confidence: 1.0,
+      }, this.kalman.update(predicted, balloon));
+    });
+  }
+
+  /**
+   * Match anonymous positions of one source against its previous hour
+   */
+  private async matchBalloons(
+    currentData: BalloonDataPoint[],
+    previousData: BalloonDataPoint[],
+    historyByBalloonId: Map<string, BalloonDataPoint[]> = new Map()
+  ): Promise<BalloonDataPoint[]> {
     // Maximum cost threshold - reject matches above this (likely wrong balloon)
-    // With normalized scoring (0-100 range), 70 represents a reasonable match
-    const MAX_ACCEPTABLE_COST = 70;
+    const MAX_ACCEPTABLE_COST = this.profile.max_acceptable_cost;
 
     // Stricter threshold for greedy matching (must be clearly good match)
-    const GREEDY_COST_THRESHOLD = 30;
+    const GREEDY_COST_THRESHOLD = this.profile.greedy_cost_threshold;
 
     // Maximum altitude delta for greedy matching (stricter than hard gate)
-    const GREEDY_ALTITUDE_THRESHOLD = 5;
+    const GREEDY_ALTITUDE_THRESHOLD = this.profile.greedy_altitude_threshold_km;
 
     if (previousData.length === 0) {
       console.log(`[Tracker] First hour - assigning ${currentData.length} new IDs starting from ${this.nextId}`);
-      return currentData.map((balloon) => ({
+      return currentData.map((balloon) => this.withKalmanState({
         ...balloon,
         id: `balloon_${String(this.nextId++).padStart(4, '0')}`,
         status: 'new' as const,
         confidence: 1.0,
-      }));
+      }, this.kalman.initialize(balloon)));
     }
 
     const timestamp = currentData[0]?.timestamp || 'unknown';
     const startTime = Date.now();
 
     // Build R-tree for efficient spatial queries
+    // Longitudes are indexed in [-180, 180); searches wrap across the antimeridian
     const tree = new RBush<BalloonTreeNode>();
-    const prevNodes: BalloonTreeNode[] = previousData.map((balloon) => ({
-      minX: balloon.longitude,
-      minY: balloon.latitude,
-      maxX: balloon.longitude,
-      maxY: balloon.latitude,
-      balloon,
-    }));
+    const prevNodes: BalloonTreeNode[] = previousData.map((balloon) => {
+      const lon = normalizeLongitude(balloon.longitude);
+      return {
+        minX: lon,
+        minY: balloon.latitude,
+        maxX: lon,
+        maxY: balloon.latitude,
+        balloon,
+      };
+    });
     tree.load(prevNodes);
 
-    const searchRadius = (MAX_DISTANCE_KM_PER_HOUR * 1.5) / 111;
+    // Predict every previous track's filter state to the current hour once
+    // Tracks without observed motion use the wind at their position as velocity (if enabled)
+    const states = new Map<string, KalmanState>();
+    for (const prev of previousData) {
+      states.set(prev.id, this.getKalmanState(prev, historyByBalloonId.get(prev.id)));
+    }
+    const windSeededCount = await this.applyWindPriors(previousData, states);
+
+    const predictedStates = new Map<string, KalmanState>();
+    for (const [id, state] of states) {
+      predictedStates.set(id, this.kalman.predict(state, timestamp));
+    }
+
+    const searchRadius = (this.profile.gates.max_distance_km_per_hour * 1.5) / 111;
 
     // Build candidate lists for each current balloon
-    type CandidateMatch = { prevIdx: number; prev: BalloonDataPoint; cost: number };
+    type CandidateMatch = {
+      prevIdx: number;
+      prev: BalloonDataPoint;
+      cost: number;
+      breakdown: MatchScoreBreakdown;
+      likelihood: number;
+    };
     const candidatesPerCurrent: Map<number, CandidateMatch[]> = new Map();
     const prevIndexMap = new Map<string, number>();
     previousData.forEach((b, i) => prevIndexMap.set(b.id, i));
 
     for (let currIdx = 0; currIdx < currentData.length; currIdx++) {
       const curr = currentData[currIdx];
-      const nearby = tree.search({
-        minX: curr.longitude - searchRadius,
-        minY: curr.latitude - searchRadius,
-        maxX: curr.longitude + searchRadius,
-        maxY: curr.latitude + searchRadius,
-      });
+      const nearby = this.searchAcrossAntimeridian(tree, curr.latitude, curr.longitude, searchRadius);
 
       const candidates: CandidateMatch[] = [];
       for (const node of nearby) {
-        // Get history for this balloon (up to last 3 positions)
-        const history = historyByBalloonId.get(node.balloon.id) || [];
-        const cost = this.calculateMatchScore(curr, node.balloon, history);
-        if (cost < Infinity && cost <= MAX_ACCEPTABLE_COST) {
+        const predicted = predictedStates.get(node.balloon.id)!;
+        const { cost, breakdown, likelihood } = this.calculateMatchScore(curr, node.balloon, predicted);
+        if (breakdown && cost <= MAX_ACCEPTABLE_COST) {
           const prevIdx = prevIndexMap.get(node.balloon.id)!;
-          candidates.push({ prevIdx, prev: node.balloon, cost });
+          candidates.push({ prevIdx, prev: node.balloon, cost, breakdown, likelihood });
         }
       }
       // Sort by cost (best first)
@@ -513,7 +720,18 @@ export class BalloonTracker {
             altDelta < GREEDY_ALTITUDE_THRESHOLD &&
             best.cost < GREEDY_COST_THRESHOLD) {
           // Unambiguous, good match
-          this.addMatch(tracked, currentData[currIdx], best.prev, best.cost, matchedCurrIndices, matchedPrevIds, currIdx);
+          this.addMatch(
+            tracked,
+            currentData[currIdx],
+            best.prev,
+            predictedStates.get(best.prev.id)!,
+            best,
+            'greedy',
+            this.associationConfidence(best.likelihood, candidates),
+            matchedCurrIndices,
+            matchedPrevIds,
+            currIdx
+          );
         } else {
           // Doesn't meet strict criteria - defer to phase 2
           conflictingCurrIndices.push(currIdx);
@@ -528,7 +746,18 @@ export class BalloonTracker {
             best.cost < secondBest.cost * 0.5 &&
             altDelta < GREEDY_ALTITUDE_THRESHOLD &&
             !matchedPrevIds.has(best.prev.id)) {
-          this.addMatch(tracked, currentData[currIdx], best.prev, best.cost, matchedCurrIndices, matchedPrevIds, currIdx);
+          this.addMatch(
+            tracked,
+            currentData[currIdx],
+            best.prev,
+            predictedStates.get(best.prev.id)!,
+            best,
+            'greedy',
+            this.associationConfidence(best.likelihood, candidates),
+            matchedCurrIndices,
+            matchedPrevIds,
+            currIdx
+          );
         } else {
           // Ambiguous - defer to phase 2
           conflictingCurrIndices.push(currIdx);
@@ -599,12 +828,16 @@ export class BalloonTracker {
 
           const currIdx = conflictingCurrIndices[i];
           const prevIdx = unmatchedPrevIndices[j];
+          const candidate = conflictCandidates.get(currIdx)!.find(c => c.prevIdx === prevIdx)!;
 
           this.addMatch(
             tracked,
             currentData[currIdx],
             previousData[prevIdx],
-            cost,
+            predictedStates.get(previousData[prevIdx].id)!,
+            { cost, breakdown: candidate.breakdown },
+            'hungarian',
+            this.associationConfidence(candidate.likelihood, candidatesPerCurrent.get(currIdx) || []),
             matchedCurrIndices,
             matchedPrevIds,
             currIdx
@@ -616,36 +849,65 @@ export class BalloonTracker {
     // Assign new IDs to remaining unmatched current balloons
     for (let i = 0; i < currentData.length; i++) {
       if (!matchedCurrIndices.has(i)) {
-        tracked.push({
+        tracked.push(this.withKalmanState({
           ...currentData[i],
           id: `balloon_${String(this.nextId++).padStart(4, '0')}`,
           status: 'new' as const,
           confidence: 0.5,
-        });
+        }, this.kalman.initialize(currentData[i])));
       }
     }
 
-    const lostCount = previousData.filter(prev => !matchedPrevIds.has(prev.id)).length;
+    const reacquiredCount = tracked.filter(b => b.status === 'active' && b.gap_hours).length;
+
+    // Keep unmatched previous tracks alive as coasting hypotheses (marked 'lost')
+    // so a balloon missing from one or more hour files keeps its ID when it reappears
+    let lostCount = 0;
+    let droppedCount = 0;
+    const hourOffset = currentData[0]?.hour_offset ?? 0;
+    for (const prev of previousData) {
+      if (matchedPrevIds.has(prev.id)) {
+        continue;
+      }
+
+      const gapHours = this.getGapHours(prev) + 1;
+      if (gapHours > this.maxCoastHours || timestamp === 'unknown') {
+        droppedCount++;
+        continue;
+      }
+
+      tracked.push(this.coastTrack(prev, predictedStates.get(prev.id)!, timestamp, hourOffset, gapHours));
+      lostCount++;
+    }
+
     const elapsed = Date.now() - startTime;
 
     console.log(
-      `[Tracker] ${timestamp}: ${tracked.filter(b => b.status === 'active').length} matched, ` +
-      `${tracked.filter(b => b.status === 'new').length} new, ${lostCount} lost ` +
+      `[Tracker] ${timestamp}: ${tracked.filter(b => b.status === 'active').length} matched ` +
+      `(${reacquiredCount} re-acquired), ${tracked.filter(b => b.status === 'new').length} new, ` +
+      `${lostCount} lost, ${droppedCount} dropped, ${windSeededCount} wind-seeded ` +
       `(${conflictingCurrIndices.length} conflicts resolved via Hungarian) [${elapsed}ms]`
     );
 
-    this.db.saveTrackedBalloons(tracked);
+    if (this.persist) {
+      await this.db.saveTrackedBalloons(tracked);
+    }
     return tracked;
   }
 
   /**
    * Helper to add a match and record velocity
+   * Updates the track's Kalman state with the new observation
+   * Also records the match cost, its weighted breakdown and the phase that made the match
    */
   private addMatch(
     tracked: BalloonDataPoint[],
     curr: BalloonDataPoint,
     prev: BalloonDataPoint,
-    cost: number,
+    predicted: KalmanState,
+    score: { cost: number; breakdown: MatchScoreBreakdown },
+    phase: MatchPhase,
+    confidence: number,
     matchedCurrIndices: Set<number>,
     matchedPrevIds: Set<string>,
     currIdx: number
@@ -653,20 +915,33 @@ export class BalloonTracker {
     matchedCurrIndices.add(currIdx);
     matchedPrevIds.add(prev.id);
 
-    const velocity = this.calculateVelocity(prev, curr);
-
-    // Confidence based on physical plausibility using exponential decay
-    // cost is 0-100 (normalized), so cost/100 gives 0-1 range
-    // Low cost -> high confidence, high cost -> low confidence
-    // exp(-0) = 1.0, exp(-2) ≈ 0.14, floored at 0.3
-    const normalizedCost = cost / 100;
-    const confidence = Math.max(0.3, Math.exp(-normalizedCost * 2));
+    const { cost } = score;
+    let velocity = this.calculateVelocity(prev, curr);
+
+    // Re-acquired after a gap: prev is a coasted projection, so the one-hour velocity
+    // only captures the projection error. Blend with the coasted velocity to get the
+    // average velocity over the whole gap (flat-earth vector average).
+    const gapHours = this.getGapHours(prev);
+    if (gapHours > 0 && prev.speed_kmh != null && prev.direction_deg != null) {
+      const toVector = (v: { speed_kmh: number; direction_deg: number }, weight: number) => {
+        const rad = toRadians(v.direction_deg);
+        return { east: v.speed_kmh * Math.sin(rad) * weight, north: v.speed_kmh * Math.cos(rad) * weight };
+      };
+      const coasted = toVector({ speed_kmh: prev.speed_kmh, direction_deg: prev.direction_deg }, gapHours);
+      const observed = toVector(velocity, 1);
+      const east = (coasted.east + observed.east) / (gapHours + 1);
+      const north = (coasted.north + observed.north) / (gapHours + 1);
+      velocity = {
+        speed_kmh: Math.sqrt(east * east + north * north),
+        direction_deg: ((Math.atan2(east, north) * 180) / Math.PI + 360) % 360,
+      };
+    }
 
     // Log significant direction changes (for debugging)
     if (prev.speed_kmh && prev.direction_deg && velocity.speed_kmh > 20) {
       const dirChange = this.angleDifference(prev.direction_deg, velocity.direction_deg);
       if (dirChange > 60) {
-        const dist = this.calculateDistance(prev.latitude, prev.longitude, curr.latitude, curr.longitude);
+        const dist = haversineDistance(prev.latitude, prev.longitude, curr.latitude, curr.longitude);
         console.log(`[Tracker WARNING] Balloon ${prev.id} changed direction by ${dirChange.toFixed(0)}° ` +
           `(${prev.direction_deg.toFixed(0)}° -> ${velocity.direction_deg.toFixed(0)}°), ` +
           `speed: ${prev.speed_kmh.toFixed(0)} -> ${velocity.speed_kmh.toFixed(0)} km/h, ` +
@@ -676,19 +951,54 @@ export class BalloonTracker {
       }
     }
 
-    tracked.push({
+    tracked.push(this.withKalmanState({
       ...curr,
       id: prev.id,
       speed_kmh: velocity.speed_kmh,
       direction_deg: velocity.direction_deg,
       confidence,
       status: 'active' as const,
-    });
+      gap_hours: gapHours > 0 ? gapHours : undefined,
+      match_cost: cost,
+      match_phase: phase,
+      score_breakdown: score.breakdown,
+    }, this.kalman.update(predicted, curr)));
+  }
+
+  /**
+   * Carry an unmatched track forward one hour on its Kalman prediction
+   * Returns a 'lost' placeholder that carries the ID into the next tracking pass
+   * (its covariance keeps growing, so the gate widens for every missed hour)
+   */
+  private coastTrack(
+    prev: BalloonDataPoint,
+    predicted: KalmanState,
+    timestamp: string,
+    hourOffset: number,
+    gapHours: number
+  ): BalloonDataPoint {
+    return this.withKalmanState({
+      ...prev,
+      latitude: predicted.latitude,
+      longitude: predicted.longitude,
+      timestamp,
+      hour_offset: hourOffset,
+      // Confidence decays with every hour we go without seeing the balloon
+      confidence: Math.max(0.1, prev.confidence * 0.7),
+      status: 'lost' as const,
+      gap_hours: gapHours,
+      // Not matched this hour - clear the diagnostics carried over from prev
+      match_cost: undefined,
+      match_phase: undefined,
+      score_breakdown: undefined,
+    }, predicted);
   }
 
   /**
    * Process all historical data to assign consistent IDs across time
    * OPTIMIZED: Uses in-memory cache to avoid reprocessing when data hasn't changed
+   * Tracks and saves every hour not tracked yet, so callers must hold the tracking lock
+   * (see job.lock.ts); readers use getTrackedHistory instead
    */
   async processHistoricalData(allData: BalloonDataPoint[]): Promise<BalloonDataPoint[]> {
     // Get current timestamp to use as cache key
@@ -739,7 +1049,8 @@ export class BalloonTracker {
 
       let tracked: BalloonDataPoint[];
 
-      if (existingTracking && existingTracking.length > 0) {
+      // Uploaded sondes alone don't mean the feed hour was tracked
+      if (existingTracking.some((b: BalloonDataPoint) => !b.source)) {
         console.log(`Loaded ${existingTracking.length} balloons from DB for ${timestamp}`);
 
         // CRITICAL FIX: Recalculate hour_offset based on current time
@@ -754,9 +1065,10 @@ export class BalloonTracker {
         }));
 
         // Ensure nextId is ahead of any loaded IDs (handle restart continuity)
+        // Only tracker-assigned IDs count, like getMaxBalloonId (uploads keep their own)
         const maxId = existingTracking.reduce((max: number, b: BalloonDataPoint) => {
-          const numId = parseInt(b.id.replace('balloon_', ''));
-          return isNaN(numId) ? max : Math.max(max, numId);
+          if (b.source || !/^balloon_\d+$/.test(b.id)) return max;
+          return Math.max(max, parseInt(b.id.slice('balloon_'.length), 10));
         }, 0);
         if (maxId >= this.nextId) {
           this.nextId = maxId + 1;
@@ -767,12 +1079,16 @@ export class BalloonTracker {
           const samplePrevIds = previousHourData.slice(0, 3).map(b => b.id).join(', ');
           console.log(`  Sample previous balloon IDs: ${samplePrevIds}`);
         }
-        tracked = this.trackBalloons(currentHourData, previousHourData, historyByBalloonId);
+        tracked = await this.trackBalloons(currentHourData, previousHourData, historyByBalloonId);
         // trackBalloons now saves to DB
+        tracked.push(...existingTracking.filter((b: BalloonDataPoint) => b.source));
       }
 
-      // Update history for each tracked balloon (keep last 3 positions)
-      for (const balloon of tracked) {
+      // Coasting placeholders ('lost') carry IDs forward but aren't observations
+      const observed = tracked.filter(b => b.status !== 'lost');
+
+      // Update history for each observed balloon (keep last 3 positions)
+      for (const balloon of observed) {
         const history = historyByBalloonId.get(balloon.id) || [];
         history.push(balloon);
         // Keep only the last 3 positions
@@ -782,11 +1098,11 @@ export class BalloonTracker {
         historyByBalloonId.set(balloon.id, history);
       }
 
-      processedData.push(...tracked);
+      processedData.push(...observed);
       previousHourData = tracked;
 
       // Store in cache by hour for future retrieval
-      this.processedDataCache.set(`hour_${hour}`, tracked);
+      this.processedDataCache.set(`hour_${hour}`, observed);
     }
 
     console.log(
@@ -802,35 +1118,82 @@ export class BalloonTracker {
 
   /**
    * Get balloons at a specific timestamp from database
+   * Excludes coasting 'lost' placeholders (projected, not observed, positions)
    */
   async getBalloonsAtTimestamp(timestamp: string): Promise<BalloonDataPoint[]> {
-    const balloons = await this.db.getTrackedBalloonsAtTimestamp(timestamp);
+    const balloons = (await this.db.getTrackedBalloonsAtTimestamp(timestamp))
+      .filter((b: BalloonDataPoint) => b.status !== 'lost');
 
-    // Recalculate hour_offset based on current time
-    const currentTime = new Date();
-    const balloonTime = new Date(timestamp);
-    const hoursDiff = Math.round((currentTime.getTime() - balloonTime.getTime()) / (1000 * 60 * 60));
+    // Recalculate hour_offset against the current data hour (stable within the hour)
+    const hourOffset = hourOffsetOf(timestamp);
 
     return balloons.map((b: BalloonDataPoint) => ({
       ...b,
-      hour_offset: hoursDiff
+      hour_offset: hourOffset
     }));
   }
 
   /**
-   * Get trajectory for a specific balloon directly from database
-   * OPTIMIZED: Loads only ~24 records instead of calling processHistoricalData (24,000 records)
+   * Filtered points of one hour (GET /api/balloons), with hour_offset recalculated like above
+   * Coasting 'lost' placeholders are excluded unless the query asks for them by status
    */
-  async getBalloonTrajectoryFromDB(balloonId: string): Promise<BalloonDataPoint[]> {
-    const positions = await this.db.getBalloonTrajectory(balloonId);
-
-    // Recalculate hour_offset based on current time
-    const currentTime = new Date();
-    return positions.map((p: BalloonDataPoint) => {
-      const balloonTime = new Date(p.timestamp);
-      const hoursDiff = Math.round((currentTime.getTime() - balloonTime.getTime()) / (1000 * 60 * 60));
-      return { ...p, hour_offset: hoursDiff };
+  async queryBalloons(query: BalloonQuery): Promise<BalloonDataPoint[]> {
+    const balloons = await this.db.queryTrackedBalloons({
+      ...query,
+      statuses: query.statuses ?? ['active', 'new'],
     });
+
+    const hourOffset = hourOffsetOf(query.timestamp);
+    return balloons.map((b: BalloonDataPoint) => ({ ...b, hour_offset: hourOffset }));
+  }
+
+  /**
+   * Observed points of every balloon in an inclusive window (oldest hour first), read hour
+   * by hour like getBalloonsAtTimestamp. Read-only: unlike processHistoricalData it never
+   * tracks, so an hour no tracking job has covered yet is simply missing
+   */
+  async getTrackedHistory(window: Required<TimeRange>): Promise<BalloonDataPoint[]> {
+    const firstHour = Math.ceil(new Date(window.from).getTime() / HOUR_MS) * HOUR_MS;
+    const lastHour = new Date(floorToHour(window.to)).getTime();
+
+    const points: BalloonDataPoint[] = [];
+    for (let hour = firstHour; hour <= lastHour; hour += HOUR_MS) {
+      points.push(...await this.getBalloonsAtTimestamp(new Date(hour).toISOString()));
+    }
+    return points;
+  }
+
+  /**
+   * Get trajectory for a specific balloon directly from database
+   * OPTIMIZED: Loads only this balloon's records instead of calling processHistoricalData (24,000 records)
+   * Excludes coasting 'lost' placeholders, so gaps show up as gaps
+   * Spans the downsampled archive unless `range` excludes it
+   */
+  async getBalloonTrajectoryFromDB(balloonId: string, range?: TimeRange): Promise<BalloonDataPoint[]> {
+    const positions = (await this.db.getBalloonTrajectory(balloonId, range))
+      .filter((p: BalloonDataPoint) => p.status !== 'lost');
+
+    // Recalculate hour_offset against the current data hour
+    return positions.map((p: BalloonDataPoint) => ({ ...p, hour_offset: hourOffsetOf(p.timestamp) }));
+  }
+
+  /**
+   * Get per-hour tracking diagnostics for a balloon (oldest first)
+   * Includes coasting 'lost' hours so gaps in the track are visible
+   */
+  async getTrackingDiagnostics(balloonId: string, range?: TimeRange): Promise<TrackingDiagnosticsEntry[]> {
+    const positions = await this.db.getBalloonTrajectory(balloonId, range);
+
+    return positions.map((p: BalloonDataPoint) => ({
+      timestamp: p.timestamp,
+      hour_offset: hourOffsetOf(p.timestamp),
+      status: p.status,
+      confidence: p.confidence,
+      match_phase: p.match_phase ?? null,
+      match_cost: p.match_cost ?? null,
+      score_breakdown: p.score_breakdown ?? null,
+      gap_hours: p.gap_hours ?? null,
+    }));
   }
 
   /**
@@ -0,0 +1,60 @@
+/**
+ * Live Update Stream (GET /api/stream)
+ * Fans data-job events out to Server-Sent Events clients, so maps refresh as soon as a new
+ * hour is tracked instead of on their next poll
+ *
+ * Events are in-process: an instance announces the hourly updates and refreshes it ran, and
+ * any new hour it sees afterwards - including one another instance tracked while this one
+ * waited on the tracking lock. Nothing is replayed; a reconnecting client gets a 'ready' event
+ * with the newest hour and catches up from that.
+ */
+
+import { UpdateStreamEvents } from '../types/balloon';
+
+export type UpdateStreamEventType = keyof UpdateStreamEvents;
+
+export interface UpdateStreamMessage<K extends UpdateStreamEventType = UpdateStreamEventType> {
+  id: number;
+  type: K;
+  data: UpdateStreamEvents[K];
+}
+
+export type UpdateStreamListener = (message: UpdateStreamMessage) => void;
+
+export class UpdateStream {
+  private listeners = new Set<UpdateStreamListener>();
+  private nextId = 1;
+
+  get clientCount(): number {
+    return this.listeners.size;
+  }
+
+  /**
+   * Receive every published event until the returned unsubscribe is called
+   */
+  subscribe(listener: UpdateStreamListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send an event to every subscriber (a failing subscriber never affects the others)
+   */
+  publish<K extends UpdateStreamEventType>(type: K, data: UpdateStreamEvents[K]): void {
+    const message: UpdateStreamMessage = { id: this.nextId++, type, data };
+    if (this.listeners.size > 0) {
+      console.log(`[Stream] ${type} -> ${this.listeners.size} client(s)`);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.warn('[Stream] Dropping a client after a failed write:', error instanceof Error ? error.message : error);
+        this.listeners.delete(listener);
+      }
+    }
+  }
+}
@@ -49,6 +49,15 @@ export interface WindData {
   timestamp: string;
 }
 
+/**
+ * Key of a location in the map returned by getWindAtMultipleLocations
+ * Includes the timestamp when one was requested
+ */
+export function windLocationKey(loc: { latitude: number; longitude: number; altitude_km: number; timestamp?: string }): string {
+  const key = `${loc.latitude.toFixed(2)},${loc.longitude.toFixed(2)},${loc.altitude_km.toFixed(1)}`;
+  return loc.timestamp ? `${key},${loc.timestamp}` : key;
+}
+
 interface OpenMeteoResponse {
   latitude: number;
   longitude: number;
@@ -485,9 +494,7 @@ export class WindService {
             const wind_v_ms = -windSpeed_ms * Math.cos(direction_rad);
 
             // Build key with timestamp if provided
-            const key = loc.timestamp
-              ? `${loc.latitude.toFixed(2)},${loc.longitude.toFixed(2)},${loc.altitude_km.toFixed(1)},${loc.timestamp}`
-              : `${loc.latitude.toFixed(2)},${loc.longitude.toFixed(2)},${loc.altitude_km.toFixed(1)}`;
+            const key = windLocationKey(loc);
 
             windDataMap.set(key, {
               latitude: loc.latitude,
@@ -557,8 +564,8 @@ export class WindService {
   /**
    * Clear all cached wind data (useful for testing or forced refresh)
    */
-  clearCache(): void {
-    this.db.clearExpiredWindCache(0); // Clear everything
+  async clearCache(): Promise<void> {
+    await this.db.clearExpiredWindCache(0); // Clear everything
     console.log('Wind data cache cleared');
   }
 }
@@ -3,28 +3,66 @@
  * Implements incremental fetching strategy from CLAUDE.md
  */
 
-import axios from 'axios';
-import { RawBalloonData, BalloonDataPoint } from '../types/balloon';
+import {
+  RawBalloonData,
+  BalloonDataPoint,
+  BackfillHourResult,
+  BackfillResult,
+  IngestionQualityReport,
+  JobRun,
+  JobTrigger,
+  SnapshotSaveResult,
+} from '../types/balloon';
 import { IDatabase } from './database.factory';
 import { BalloonTracker } from './tracker.service';
+import { TrackSmoother } from './smoother.service';
+import { LifecycleDetector } from './lifecycle.service';
+import { BalloonDataSource } from './balloon.source';
+import { analyzeHourFile, failedHourReport, withPreviousCount } from './ingestion.quality';
+import { planBackfill, withRetry } from './backfill.planner';
+import { JobLock } from './job.lock';
+import { JobRunHandle, JobRunRecorder } from './job.runs';
+import { UpdateStream } from './update.stream';
 
-const WINDBORNE_API_BASE = 'https://a.windbornesystems.com/treasure';
 const MAX_HOURS = 24;
 
 export class WindborneService {
   private db: IDatabase;
   private tracker: BalloonTracker;
+  private smoother: TrackSmoother;
+  private lifecycle: LifecycleDetector;
+  private source: BalloonDataSource;
+  private jobLock: JobLock;
+  private jobRuns: JobRunRecorder;
+  private stream: UpdateStream;
+  private announcedHour: string | null = null; // Newest hour announced on the update stream
   private balloonHistory: BalloonDataPoint[] = [];
   private lastUpdateTimestamp: string | null = null;
+  private historyHour: string | null = null; // Current hour when balloonHistory was loaded (its hour_offsets)
   private autoUpdateEnabled: boolean = true;
   private updateCleanupInterval: NodeJS.Timeout | null = null;
   private nextScheduledRun: Date | null = null;
   private initializationPromise: Promise<void>;
   private isInitialized: boolean = false;
 
-  constructor(db: IDatabase, tracker: BalloonTracker) {
+  constructor(
+    db: IDatabase,
+    tracker: BalloonTracker,
+    smoother: TrackSmoother,
+    lifecycle: LifecycleDetector,
+    source: BalloonDataSource,
+    jobLock: JobLock,
+    stream: UpdateStream
+  ) {
     this.db = db;
     this.tracker = tracker;
+    this.smoother = smoother;
+    this.lifecycle = lifecycle;
+    this.source = source;
+    this.jobLock = jobLock;
+    this.stream = stream;
+    this.jobRuns = new JobRunRecorder(db, run => this.announceJob(run));
+    console.log(`📡 Balloon data source: ${source.name}`);
     // Start async initialization but don't block constructor
     this.initializationPromise = this.initializeData();
   }
@@ -47,7 +85,7 @@ export class WindborneService {
       if (!latestFromDB || latestFromDB !== currentTimestamp) {
         console.log('⚠️  Current hour data missing - triggering fallback full fetch');
         console.log(`   Reason: latestFromDB=${latestFromDB}, currentTimestamp=${currentTimestamp}`);
-        await this.fallbackFullFetch();
+        await this.fallbackFullFetch('startup');
         console.log(`   After fallback: balloonHistory.length = ${this.balloonHistory.length}`);
       } else {
         console.log('✅ Current hour data found in database');
@@ -77,16 +115,22 @@ export class WindborneService {
         this.lastUpdateTimestamp = latestFromDB;
         console.log(`✅ Loaded ${this.balloonHistory.length} balloons from database`);
 
+        this.historyHour = currentTimestamp;
+
         // Clear tracker's in-memory cache to force fresh processing
-        (this.tracker as any).processedDataCache.clear();
-        (this.tracker as any).cacheTimestamp = null;
+        this.tracker.invalidateCache();
 
+        // Hours stored but not tracked yet get tracked here, so this takes the lock too
         console.log(`🔄 Processing balloon tracking data...`);
-        const trackedData = await this.tracker.processHistoricalData(this.balloonHistory);
+        const trackedData = await this.runTrackingJob(
+          'startup-tracking',
+          () => this.tracker.processHistoricalData(this.balloonHistory)
+        );
         console.log(`✅ Tracking complete - ${trackedData.length} balloons processed`);
       }
 
       this.isInitialized = true;
+      this.announcedHour = await this.db.getLatestSnapshotTimestamp();
       console.log('✅ Initialization complete');
 
       // Start the scheduler after data check (only in non-serverless environments)
@@ -125,18 +169,35 @@ export class WindborneService {
    * - Database is empty/corrupted
    * - Current hour data is missing
    * - Recovering from extended downtime
+   *
+   * Runs under the tracking lock; if another instance is already tracking, its result is
+   * loaded from the database instead
+   */
+  private fallbackFullFetch(trigger: JobTrigger): Promise<void> {
+    return this.runTrackingJob(
+      'full-fetch',
+      () => this.jobRuns.record('full_fetch', trigger, run => this.performFullFetch(run)),
+      async () => { await this.loadHistoryFromDatabase(); }
+    );
+  }
+
+  /**
+   * Full fetch body (caller holds the tracking lock)
    */
-  private async fallbackFullFetch(): Promise<void> {
+  private async performFullFetch(run: JobRunHandle): Promise<void> {
     try {
       console.log('🔄 FALLBACK: Fetching all 24 hours from Windborne API...');
       const startTime = Date.now();
 
       // Fetch all 24 hours
+      run.phase('fetch');
       const allData = await this.fetchAll24Hours();
+      run.count({ balloons_fetched: allData.length });
       console.log(`   fetchAll24Hours returned ${allData.length} balloons`);
 
       if (allData.length === 0) {
         console.error('❌ Fallback failed: No data received from API');
+        run.markFailed('No data received from API');
         return;
       }
 
@@ -149,6 +210,7 @@ export class WindborneService {
         hourGroups.get(balloon.timestamp)!.push(balloon);
       }
 
+      run.phase('save');
       console.log(`💾 Saving ${hourGroups.size} hours of data to database...`);
       for (const [timestamp, balloons] of hourGroups) {
         const rawData: RawBalloonData[] = balloons.map(b => [
@@ -156,24 +218,37 @@ export class WindborneService {
           b.longitude,
           b.altitude_km
         ]);
-        await this.db.saveBalloonSnapshot(timestamp, rawData);
+        await this.storeSnapshot(timestamp, rawData);
         console.log(`   Saved snapshot for ${timestamp}: ${balloons.length} balloons`);
       }
 
       // Update in-memory cache
       this.balloonHistory = allData;
       this.lastUpdateTimestamp = this.getCurrentTimestamp();
+      this.historyHour = this.lastUpdateTimestamp;
 
       // IMPORTANT: Process and save to tracked_balloons table
+      run.phase('track');
       console.log(`🔄 Processing balloon tracking data...`);
       const trackedData = await this.tracker.processHistoricalData(this.balloonHistory);
+      run.countTracked(trackedData);
       await this.db.saveTrackedBalloons(trackedData);
       console.log(`✅ Saved ${trackedData.length} tracked balloons to database`);
 
-      // Clean up stale data (older than 24 hours)
+      // Re-examine every hour's links now that the full window is known
+      run.phase('smooth');
+      await this.runSmoother(() => this.smoother.smoothAll([...hourGroups.keys()]));
+
+      // Lifecycle events for every hour, now that IDs are final
+      run.phase('lifecycle');
+      await this.runLifecycleDetection(() => this.lifecycle.detectAll([...hourGroups.keys()]));
+
+      // Apply the retention policy (archive + delete rows past the full-resolution window)
+      run.phase('cleanup');
       console.log('🧹 Cleaning up stale data...');
-      const { deletedTrackedBalloons, deletedSnapshots } = await this.db.cleanupStaleData();
-      console.log(`   Deleted ${deletedTrackedBalloons} tracked balloons and ${deletedSnapshots} snapshots`);
+      const { deletedTrackedBalloons, deletedSnapshots, archivedTrackedBalloons } = await this.db.cleanupStaleData();
+      run.count({ rows_deleted: deletedTrackedBalloons + deletedSnapshots });
+      console.log(`   Deleted ${deletedTrackedBalloons} tracked balloons and ${deletedSnapshots} snapshots (${archivedTrackedBalloons} archived)`);
 
       const elapsed = Date.now() - startTime;
       console.log(`✅ Fallback complete in ${elapsed}ms - ${allData.length} balloons loaded across ${hourGroups.size} hours`);
@@ -204,7 +279,11 @@ export class WindborneService {
     console.log('🚀 Starting coordinated hourly update + cleanup scheduler...');
 
     // Run initial cleanup on startup
-    this.db.cleanupStaleData();
+    this.jobRuns.record('cleanup', 'startup', async (run) => {
+      run.phase('cleanup');
+      const { deletedTrackedBalloons, deletedSnapshots } = await this.db.cleanupStaleData();
+      run.count({ rows_deleted: deletedTrackedBalloons + deletedSnapshots });
+    }).catch(error => console.error('❌ Startup cleanup failed:', error));
 
     // Calculate time until next hour + 90 seconds (XX:01:30)
     const scheduleNextRun = () => {
@@ -218,7 +297,7 @@ export class WindborneService {
       console.log(`⏰ Next update scheduled for: ${nextHour.toISOString()} (in ${Math.round(delay / 1000)}s)`);
 
       this.updateCleanupInterval = setTimeout(async () => {
-        await this.runHourlyUpdate();
+        await this.runHourlyUpdate(false, 'scheduler');
         scheduleNextRun(); // Schedule next run
       }, delay);
     };
@@ -229,98 +308,239 @@ export class WindborneService {
   /**
    * Execute hourly update + cleanup cycle
    * This runs at :01:30 of every hour (or when manually triggered)
-   * Includes fallback to full fetch if incremental update fails
+   * Missing hours (including a failed incremental fetch) are backfilled, not re-fetched wholesale
+   *
+   * Runs under the tracking lock, so a cron refresh and the scheduler never track the same
+   * hour twice; the caller that finds it taken reloads the other run's result from the database
    *
    * @param forceRun - If true, run even if autoUpdate is disabled (for manual refresh)
+   * @param trigger - What started the run (recorded in job_runs)
    */
-  private async runHourlyUpdate(forceRun: boolean = false): Promise<void> {
+  private async runHourlyUpdate(forceRun: boolean = false, trigger: JobTrigger = 'scheduler'): Promise<void> {
     if (!this.autoUpdateEnabled && !forceRun) {
       console.log('⏭️  Auto-update disabled, skipping hourly update');
       return;
     }
 
+    await this.runTrackingJob(
+      'hourly-update',
+      () => this.jobRuns.record('hourly_update', trigger, run => this.performHourlyUpdate(run)),
+      async () => { await this.loadHistoryFromDatabase(); }
+    );
+    await this.announceLatestHour();
+  }
+
+  /**
+   * Run a job that writes tracked_balloons under the tracking lock (see job.lock.ts)
+   */
+  private runTrackingJob<T>(job: string, work: () => Promise<T>, follow?: () => Promise<T>): Promise<T> {
+    return this.jobLock.run(job, async () => {
+      // Another instance may have assigned IDs since this one last tracked
+      await this.tracker.initialize();
+      return work();
+    }, follow);
+  }
+
+  /**
+   * Hourly update body (caller holds the tracking lock)
+   * Errors are recovered from (by backfilling) and recorded on the run, not thrown
+   */
+  private async performHourlyUpdate(run: JobRunHandle): Promise<void> {
     try {
       console.log('🔄 Running hourly update cycle...');
       const startTime = Date.now();
 
       // Step 1: Fetch new hour data from Windborne API
       console.log('📥 Fetching latest hour data from Windborne API...');
+      run.phase('fetch');
       const currentTimestamp = this.getCurrentTimestamp();
       const newHourData = await this.fetchHourData(0);
+      run.count({ balloons_fetched: newHourData.length });
 
       if (newHourData.length > 0) {
         console.log(`✅ Fetched ${newHourData.length} balloons for ${currentTimestamp}`);
 
         // Save NEW snapshot to database
-        await this.db.saveBalloonSnapshot(currentTimestamp, newHourData);
+        const saved = await this.storeSnapshot(currentTimestamp, newHourData, 0);
         console.log(`💾 Saved new hour snapshot to database`);
 
-        // OPTIMIZED: Only load PREVIOUS hour for tracking (not all 24 hours!)
-        // Balloon tracking only needs adjacent hours: hour N-1 to match against hour N
-        const previousHourTimestamp = new Date(new Date(currentTimestamp).getTime() - 60 * 60 * 1000).toISOString();
-        const previousHourFormatted = previousHourTimestamp.slice(0, 13) + ':00:00.000Z';
-
-        console.log(`📥 Loading previous hour (${previousHourFormatted}) from tracked_balloons...`);
-        const previousHourTracked = await this.db.getTrackedBalloonsAtTimestamp(previousHourFormatted);
-        console.log(`   Found ${previousHourTracked.length} tracked balloons from previous hour`);
-
-        // Convert new hour raw data to BalloonDataPoint format
-        const newHourBalloons: BalloonDataPoint[] = newHourData.map((raw, index) => ({
-          id: `temp_0_${index}`,
-          latitude: raw[0],
-          longitude: raw[1],
-          altitude_km: raw[2],
-          timestamp: currentTimestamp,
-          hour_offset: 0,
-          confidence: 1.0,
-          status: 'active' as const,
-        }));
-
-        // Track new hour against previous hour ONLY (not all 24 hours!)
-        console.log(`🔄 Tracking ${newHourBalloons.length} new balloons against ${previousHourTracked.length} from previous hour...`);
-        const trackedNewHour = this.tracker.trackBalloons(newHourBalloons, previousHourTracked);
-        console.log(`✅ Tracking complete`);
-
-        // Log sample IDs to verify proper continuity
-        const sampleIds = trackedNewHour.slice(0, 5).map(b => b.id).join(', ');
-        const newCount = trackedNewHour.filter(b => b.status === 'new').length;
-        const continuedCount = trackedNewHour.filter(b => b.status === 'active').length;
-        console.log(`   Sample IDs: ${sampleIds}`);
-        console.log(`   Continued: ${continuedCount}, New: ${newCount}`);
-
-        // Save ONLY the new hour to tracked_balloons (not all 24 hours)
-        await this.db.saveTrackedBalloons(trackedNewHour);
-        console.log(`✅ Saved ${trackedNewHour.length} tracked balloons to database`);
-
-        // Update in-memory cache with just the new hour
-        // (balloonHistory is mainly for getBalloonData(), not for tracking)
-        this.balloonHistory = trackedNewHour;
-        this.lastUpdateTimestamp = currentTimestamp;
+        if (saved.tracked_version === saved.version) {
+          // A refresh earlier this hour (or another instance) already tracked this file
+          console.log(`⏭️  ${currentTimestamp} is already tracked on snapshot v${saved.version} - skipping tracking`);
+          this.lastUpdateTimestamp = currentTimestamp;
+        } else {
+          await this.trackCurrentHour(currentTimestamp, newHourData, run);
+        }
       } else {
-        // FALLBACK: If incremental fetch returns no data, do full fetch
-        console.warn('⚠️  No balloon data received from incremental fetch - triggering fallback');
-        await this.fallbackFullFetch();
+        // Retried below with backoff, without touching the hours we already have
+        console.warn('⚠️  No balloon data received from incremental fetch - backfilling instead');
       }
 
-      // Step 2: Clean up stale data (older than 24 hours)
+      // Step 1b: Fetch any hours of the window that are still missing and re-track from there
+      run.phase('backfill');
+      await this.runBackfill(run);
+
+      // Step 2: Apply the retention policy (archive + delete rows past the full-resolution window)
+      run.phase('cleanup');
       console.log('🧹 Cleaning up stale data...');
-      const { deletedTrackedBalloons, deletedSnapshots } = await this.db.cleanupStaleData();
+      const { deletedTrackedBalloons, deletedSnapshots, archivedTrackedBalloons } = await this.db.cleanupStaleData();
+      run.count({ rows_deleted: deletedTrackedBalloons + deletedSnapshots });
 
       const elapsed = Date.now() - startTime;
-      console.log(`✨ Hourly update complete in ${elapsed}ms (deleted ${deletedTrackedBalloons} tracked + ${deletedSnapshots} snapshots)`);
+      console.log(`✨ Hourly update complete in ${elapsed}ms (deleted ${deletedTrackedBalloons} tracked + ${deletedSnapshots} snapshots, archived ${archivedTrackedBalloons})`);
 
     } catch (error) {
       console.error('❌ Error during hourly update:', error);
-      // On error, try fallback as last resort
-      console.log('🔄 Attempting fallback full fetch due to error...');
+      run.markFailed(error);
+      // On error, repair only the hours that are missing (no full re-fetch)
+      console.log('🩹 Attempting backfill of missing hours due to error...');
+      run.phase('backfill');
       try {
-        await this.fallbackFullFetch();
-      } catch (fallbackError) {
-        console.error('❌ Fallback also failed:', fallbackError);
+        await this.runBackfill(run);
+      } catch (backfillError) {
+        console.error('❌ Backfill also failed:', backfillError);
       }
     }
   }
 
+  /**
+   * Track the current hour's file against the previous hour and save it (caller holds the
+   * tracking lock), then smooth and detect lifecycle events
+   * Feed rows already stored for the hour (tracked on an older version of the file) are
+   * replaced, never added to
+   */
+  private async trackCurrentHour(currentTimestamp: string, newHourData: RawBalloonData[], run: JobRunHandle): Promise<void> {
+    await this.db.clearTrackingFrom(currentTimestamp);
+
+    // OPTIMIZED: Only load PREVIOUS hour for tracking (not all 24 hours!)
+    // Balloon tracking only needs adjacent hours: hour N-1 to match against hour N
+    const previousHourTimestamp = new Date(new Date(currentTimestamp).getTime() - 60 * 60 * 1000).toISOString();
+    const previousHourFormatted = previousHourTimestamp.slice(0, 13) + ':00:00.000Z';
+
+    run.phase('track');
+    console.log(`📥 Loading previous hour (${previousHourFormatted}) from tracked_balloons...`);
+    const previousHourTracked = await this.db.getTrackedBalloonsAtTimestamp(previousHourFormatted);
+    console.log(`   Found ${previousHourTracked.length} tracked balloons from previous hour`);
+
+    // Convert new hour raw data to BalloonDataPoint format
+    const newHourBalloons: BalloonDataPoint[] = newHourData.map((raw, index) => ({
+      id: `temp_0_${index}`,
+      latitude: raw[0],
+      longitude: raw[1],
+      altitude_km: raw[2],
+      timestamp: currentTimestamp,
+      hour_offset: 0,
+      confidence: 1.0,
+      status: 'active' as const,
+    }));
+
+    // Track new hour against previous hour ONLY (not all 24 hours!)
+    // previousHourTracked includes coasting 'lost' tracks, so balloons missing
+    // from recent hour files can still be re-acquired with their old IDs
+    console.log(`🔄 Tracking ${newHourBalloons.length} new balloons against ${previousHourTracked.length} from previous hour...`);
+    const trackedNewHour = await this.tracker.trackBalloons(newHourBalloons, previousHourTracked);
+    run.countTracked(trackedNewHour);
+    console.log(`✅ Tracking complete`);
+
+    // Log sample IDs to verify proper continuity
+    const sampleIds = trackedNewHour.slice(0, 5).map(b => b.id).join(', ');
+    const newCount = trackedNewHour.filter(b => b.status === 'new').length;
+    const continuedCount = trackedNewHour.filter(b => b.status === 'active').length;
+    const lostCount = trackedNewHour.filter(b => b.status === 'lost').length;
+    console.log(`   Sample IDs: ${sampleIds}`);
+    console.log(`   Continued: ${continuedCount}, New: ${newCount}, Lost (coasting): ${lostCount}`);
+
+    // Save ONLY the new hour to tracked_balloons (not all 24 hours)
+    await this.db.saveTrackedBalloons(trackedNewHour);
+    console.log(`✅ Saved ${trackedNewHour.length} tracked balloons to database`);
+
+    // Fixed-lag smoothing: with this hour known, re-check links from a few hours back
+    run.phase('smooth');
+    await this.runSmoother(() => this.smoother.smoothWindow(currentTimestamp));
+
+    // Lifecycle events (launch, burst, disappearance, ...) for the new hour
+    run.phase('lifecycle');
+    await this.runLifecycleDetection(() => this.lifecycle.detectHour(currentTimestamp));
+
+    // Update in-memory cache with just the new hour
+    // (balloonHistory is mainly for getBalloonData(), not for tracking)
+    this.balloonHistory = trackedNewHour.filter(b => b.status !== 'lost');
+    this.lastUpdateTimestamp = currentTimestamp;
+    this.historyHour = null; // Just the new hour - getBalloonData() reloads the full window
+  }
+
+  /**
+   * Announce a finished hourly update or refresh on the update stream (other jobs stay quiet)
+   */
+  private announceJob(run: JobRun): void {
+    if (run.kind !== 'hourly_update' && run.kind !== 'refresh') return;
+
+    this.stream.publish(run.status === 'failed' ? 'job_failed' : 'job_finished', {
+      id: run.id,
+      kind: run.kind,
+      trigger: run.trigger,
+      status: run.status,
+      finished_at: run.finished_at,
+      duration_ms: run.duration_ms,
+      error: run.error,
+      balloons_fetched: run.balloons_fetched,
+      balloons_continued: run.balloons_continued,
+      balloons_new: run.balloons_new,
+    });
+  }
+
+  /**
+   * Announce the newest hour on the update stream if it's newer than the last one announced
+   * (whichever instance tracked it). Best-effort - the update itself already succeeded
+   */
+  private async announceLatestHour(): Promise<void> {
+    try {
+      const latest = await this.db.getLatestSnapshotTimestamp();
+      if (!latest || latest === this.announcedHour) return;
+
+      const balloons = await this.tracker.getBalloonsAtTimestamp(latest);
+      this.stream.publish('new_hour', {
+        timestamp: latest,
+        previous_timestamp: this.announcedHour,
+        balloon_count: balloons.length,
+      });
+      this.announcedHour = latest;
+    } catch (error) {
+      console.error('❌ Failed to announce the new hour:', error);
+    }
+  }
+
+  /**
+   * Run a smoothing pass and invalidate tracker caches if any IDs were rewritten
+   * Smoothing is best-effort - a failure must not fail the update that triggered it
+   */
+  private async runSmoother(pass: () => Promise<unknown[]>): Promise<void> {
+    try {
+      const corrections = await pass();
+      if (corrections.length > 0) {
+        console.log(`🔀 Smoother corrected ${corrections.length} track swap(s)`);
+        this.tracker.invalidateCache();
+      }
+    } catch (error) {
+      console.error('❌ Track smoothing failed:', error);
+    }
+  }
+
+  /**
+   * Run lifecycle event detection
+   * Best-effort like smoothing - a failure must not fail the update that triggered it
+   */
+  private async runLifecycleDetection(pass: () => Promise<unknown[]>): Promise<void> {
+    try {
+      const events = await pass();
+      if (events.length > 0) {
+        console.log(`📍 Detected ${events.length} lifecycle event(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Lifecycle event detection failed:', error);
+    }
+  }
+
   /**
    * Stop the hourly scheduler (for graceful shutdown)
    */
@@ -340,63 +560,257 @@ export class WindborneService {
   }
 
   /**
-   * Fetch data from a specific hour endpoint
+   * Fetch data for a specific hour from the configured data source
+   * Records the hour's quality report (see ingestion.quality.ts)
    * @param hourOffset - 0 for current (00.json), 1 for 1 hour ago (01.json), etc.
    */
   async fetchHourData(hourOffset: number): Promise<RawBalloonData[]> {
+    const { data, report } = await this.fetchHourWithReport(hourOffset);
+    await this.saveQualityReports([report]);
+    return data;
+  }
+
+  /**
+   * Fetch and validate one hour without saving its quality report
+   * Invalid rows are dropped; the report says which and why
+   */
+  private async fetchHourWithReport(hourOffset: number): Promise<{ data: RawBalloonData[]; report: IngestionQualityReport }> {
     const paddedHour = hourOffset.toString().padStart(2, '0');
-    const url = `${WINDBORNE_API_BASE}/${paddedHour}.json`;
+    const timestamp = this.getTimestampForOffset(hourOffset);
 
     const startTime = Date.now();
-    console.log(`    [Hour ${paddedHour}] Fetching ${url}...`);
+    console.log(`    [Hour ${paddedHour}] Fetching ${paddedHour}.json from ${this.source.name}...`);
 
+    let payload: unknown;
     try {
-      const response = await axios.get<RawBalloonData[]>(url, {
-        timeout: 30000, // Increased to 30s for serverless cold starts
-        validateStatus: (status) => status >= 200 && status < 300, // Accept all 2xx codes
-      });
-
+      payload = await this.source.fetchHour(hourOffset);
+    } catch (error) {
       const elapsed = Date.now() - startTime;
-      console.log(`    [Hour ${paddedHour}] ✓ Success in ${elapsed}ms - ${response.data.length} balloons`);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`    [Hour ${paddedHour}] ✗ Failed after ${elapsed}ms:`, message);
+      return { data: [], report: failedHourReport(timestamp, this.source.name, message) };
+    }
+
+    const { data, report } = analyzeHourFile(timestamp, this.source.name, payload);
 
-      // Validate data structure
-      if (!Array.isArray(response.data)) {
-        console.error(`    [Hour ${paddedHour}] ✗ Invalid data: not an array`);
-        return [];
+    if (report.fetch_error) {
+      console.error(`    [Hour ${paddedHour}] ✗ ${report.fetch_error}`);
+      return { data, report };
+    }
+
+    const elapsed = Date.now() - startTime;
+    console.log(`    [Hour ${paddedHour}] ✓ Success in ${elapsed}ms - ${report.raw_count} balloons`);
+
+    if (report.accepted_count < report.raw_count) {
+      console.log(`    [Hour ${paddedHour}] Filtered ${report.raw_count - report.accepted_count} invalid entries`);
+    }
+
+    return { data, report };
+  }
+
+  /**
+   * Fetch one hour, retrying failed or empty fetches with exponential backoff
+   */
+  private async fetchHourWithRetry(
+    hourOffset: number
+  ): Promise<{ data: RawBalloonData[]; report: IngestionQualityReport; attempts: number }> {
+    const { result, attempts } = await withRetry(
+      (attempt) => {
+        if (attempt > 1) {
+          console.log(`    [Hour ${hourOffset.toString().padStart(2, '0')}] Retry ${attempt - 1}...`);
+        }
+        return this.fetchHourWithReport(hourOffset);
+      },
+      ({ data }) => data.length > 0
+    );
+    return { ...result, attempts };
+  }
+
+  /**
+   * Fetch the hours of the 24-hour window that have no stored snapshot, then re-run
+   * tracking from the earliest repaired hour forward (see backfill.planner.ts)
+   * Concurrent calls share the run in progress; if another tracking job holds the lock,
+   * this waits for it and then backfills whatever it left missing
+   */
+  backfillMissingHours(trigger: JobTrigger = 'manual'): Promise<BackfillResult> {
+    return this.runTrackingJob('backfill', () => this.jobRuns.record('backfill', trigger, (run) => {
+      run.phase('backfill');
+      return this.runBackfill(run);
+    }));
+  }
+
+  /**
+   * Backfill body (caller holds the tracking lock); counts go to the caller's run
+   */
+  private async runBackfill(run: JobRunHandle): Promise<BackfillResult> {
+    const startTime = Date.now();
+    const currentTimestamp = this.getCurrentTimestamp();
+    const plan = planBackfill(currentTimestamp, await this.db.getSnapshotTimestamps({
+      from: this.getTimestampForOffset(MAX_HOURS - 1),
+    }));
+
+    const result: BackfillResult = {
+      checked_hours: plan.expected.length,
+      missing_hours: plan.missing.length,
+      repaired: [],
+      failed: [],
+      retracked_from: null,
+      retracked_hours: 0,
+      duration_ms: 0,
+    };
+
+    if (plan.missing.length > 0) {
+      console.log(`🩹 Backfilling ${plan.missing.length} missing hour(s): ${plan.missing.map(h => h.hour_offset).join(', ')}`);
+
+      const fetched = await Promise.all(plan.missing.map(async (hour) => ({
+        hour,
+        ...await this.fetchHourWithRetry(hour.hour_offset),
+      })));
+      await this.saveQualityReports(fetched.map(f => f.report));
+
+      for (const { hour, data, report, attempts } of fetched) {
+        const hourResult: BackfillHourResult = {
+          timestamp: hour.timestamp,
+          hour_offset: hour.hour_offset,
+          attempts,
+          balloon_count: data.length,
+          error: data.length > 0 ? null : report.fetch_error ?? 'No valid balloons in file',
+        };
+
+        if (data.length > 0) {
+          await this.storeSnapshot(hour.timestamp, data, hour.hour_offset);
+          run.count({ balloons_fetched: data.length });
+          result.repaired.push(hourResult);
+        } else {
+          result.failed.push(hourResult);
+        }
       }
 
-      // Filter out corrupted/invalid entries
-      const validData = response.data.filter((entry) => {
-        if (!Array.isArray(entry) || entry.length !== 3) return false;
-        const [lat, lon, alt] = entry;
-        return (
-          typeof lat === 'number' &&
-          typeof lon === 'number' &&
-          typeof alt === 'number' &&
-          lat >= -90 && lat <= 90 &&
-          lon >= -180 && lon <= 180 &&
-          alt > 0 && alt < 50 // Stratospheric balloons typically under 50km
-        );
-      });
+      // Missing hours are oldest first, so the first repaired one is the earliest
+      if (result.repaired.length > 0) {
+        result.retracked_from = result.repaired[0].timestamp;
+        result.retracked_hours = await this.retrackFrom(result.retracked_from, plan.expected, run);
+      }
+    }
+
+    result.duration_ms = Date.now() - startTime;
+    console.log(
+      `🩹 Backfill done in ${result.duration_ms}ms - repaired ${result.repaired.length}, ` +
+      `still missing ${result.failed.length}, re-tracked ${result.retracked_hours} hour(s)`
+    );
+    return result;
+  }
+
+  /**
+   * Re-run tracking hour by hour from a timestamp to the current hour
+   * Tracks continue from the stored hour before `fromTimestamp`, so IDs up to there are kept.
+   * Hours that are still missing are skipped (the filter predicts across the gap).
+   *
+   * @param fromTimestamp - Earliest hour to re-track
+   * @param window - Window timestamps (any order)
+   * @param run - Job run the re-tracked IDs are counted on
+   * @returns Number of hours re-tracked
+   */
+  private async retrackFrom(fromTimestamp: string, window: string[], run: JobRunHandle): Promise<number> {
+    const hours = window.filter(t => t >= fromTimestamp).sort();
+    const previousTimestamp = new Date(new Date(fromTimestamp).getTime() - 60 * 60 * 1000).toISOString();
+
+    console.log(`🔄 Re-tracking ${hours.length} hour(s) from ${fromTimestamp}...`);
+    await this.db.clearTrackingFrom(fromTimestamp);
+
+    let previous = await this.db.getTrackedBalloonsAtTimestamp(previousTimestamp);
+    const retracked: string[] = [];
+    let latestObserved: BalloonDataPoint[] = [];
+
+    for (const timestamp of hours) {
+      const snapshot = await this.db.getBalloonSnapshot(timestamp);
+      if (!snapshot || snapshot.length === 0) continue;
+
+      const hourOffset = Math.round(this.hoursDiff(timestamp, this.getCurrentTimestamp()));
+      const hourBalloons: BalloonDataPoint[] = snapshot.map((raw, index) => ({
+        id: `temp_${hourOffset}_${index}`,
+        latitude: raw[0],
+        longitude: raw[1],
+        altitude_km: raw[2],
+        timestamp,
+        hour_offset: hourOffset,
+        confidence: 1.0,
+        status: 'active' as const,
+      }));
 
-      if (validData.length < response.data.length) {
-        console.log(`    [Hour ${paddedHour}] Filtered ${response.data.length - validData.length} invalid entries`);
+      const tracked = await this.tracker.trackBalloons(hourBalloons, previous);
+      run.countTracked(tracked);
+      await this.db.saveTrackedBalloons(tracked);
+      retracked.push(timestamp);
+      previous = tracked;
+      latestObserved = tracked.filter(b => b.status !== 'lost');
+    }
+
+    if (retracked.length > 0) {
+      await this.runSmoother(() => this.smoother.smoothAll(retracked));
+      await this.runLifecycleDetection(() => this.lifecycle.detectAll(retracked));
+      this.tracker.invalidateCache();
+
+      // Same in-memory state the hourly update leaves behind
+      const newest = retracked[retracked.length - 1];
+      if (newest === this.getCurrentTimestamp()) {
+        this.balloonHistory = latestObserved;
+        this.lastUpdateTimestamp = newest;
+        this.historyHour = null;
       }
+    }
 
-      return validData;
-    } catch (error) {
-      const elapsed = Date.now() - startTime;
-      if (axios.isAxiosError(error)) {
-        console.error(`    [Hour ${paddedHour}] ✗ Failed after ${elapsed}ms:`, error.message);
-        if (error.code) console.error(`    [Hour ${paddedHour}]   Error code: ${error.code}`);
-        if (error.response) {
-          console.error(`    [Hour ${paddedHour}]   HTTP Status: ${error.response.status}`);
-          console.error(`    [Hour ${paddedHour}]   Response URL: ${error.response.config?.url}`);
+    return retracked.length;
+  }
+
+  /**
+   * Save an hour's snapshot with where it came from
+   * A re-fetch with different content becomes a new version (see snapshot.versioning.ts);
+   * if the hour was already tracked on an older version, that tracking is now stale
+   *
+   * @param hourOffset - Hour file the rows were fetched from (omit for re-saves of known rows)
+   * @returns The save result, with the version the hour's tracking was built on
+   */
+  private async storeSnapshot(timestamp: string, rawData: RawBalloonData[], hourOffset?: number): Promise<SnapshotSaveResult> {
+    const saved = await this.db.saveBalloonSnapshot(timestamp, rawData, {
+      source_url: hourOffset === undefined ? undefined : this.source.locate(hourOffset),
+    });
+
+    if (saved.created && saved.previous_version !== null) {
+      const staleNote = saved.tracked_version !== null
+        ? ` - tracking built on v${saved.tracked_version} is stale`
+        : '';
+      console.warn(`[Snapshots] ${timestamp} changed on re-fetch: v${saved.previous_version} -> v${saved.version}${staleNote}`);
+    }
+    return saved;
+  }
+
+  /**
+   * Fill in the fleet-size delta and persist quality reports (best-effort)
+   * The previous hour comes from the same batch if present, otherwise from the database
+   */
+  private async saveQualityReports(reports: IngestionQualityReport[]): Promise<void> {
+    const sorted = [...reports].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const saved = new Map<string, IngestionQualityReport>();
+
+    try {
+      for (const report of sorted) {
+        const previousTimestamp = new Date(new Date(report.timestamp).getTime() - 60 * 60 * 1000).toISOString();
+        const previous = saved.get(previousTimestamp)
+          ?? (await this.db.getIngestionReports({ from: previousTimestamp, to: previousTimestamp }))[0];
+        // A failed previous hour has no meaningful count to compare against
+        const previousCount = previous && !previous.fetch_error ? previous.accepted_count : null;
+
+        const complete = withPreviousCount(report, previousCount);
+        await this.db.saveIngestionReport(complete);
+        saved.set(complete.timestamp, complete);
+
+        if (complete.anomalies.length > 0) {
+          console.warn(`[Ingestion] ${complete.timestamp}: ${complete.anomalies.join(', ')}`);
         }
-      } else {
-        console.error(`    [Hour ${paddedHour}] ✗ Unexpected error after ${elapsed}ms:`, error);
       }
-      return [];
+    } catch (error) {
+      console.warn('[Ingestion] Failed to save quality reports:', error instanceof Error ? error.message : error);
     }
   }
 
@@ -412,6 +826,8 @@ export class WindborneService {
     const BATCH_SIZE = 6; // Fetch 6 hours at a time
     let successfulFetches = 0;
     let failedFetches = 0;
+    // Saved once all hours are in, so each hour can be compared with the one before it
+    const reports: IngestionQualityReport[] = [];
 
     for (let batchStart = 0; batchStart < MAX_HOURS; batchStart += BATCH_SIZE) {
       const batchEnd = Math.min(batchStart + BATCH_SIZE, MAX_HOURS);
@@ -420,7 +836,7 @@ export class WindborneService {
       // Fetch this batch in parallel
       const batchPromises = [];
       for (let hourOffset = batchStart; hourOffset < batchEnd; hourOffset++) {
-        batchPromises.push(this.fetchHourData(hourOffset));
+        batchPromises.push(this.fetchHourWithRetry(hourOffset));
       }
 
       const batchResults = await Promise.all(batchPromises);
@@ -428,12 +844,13 @@ export class WindborneService {
       // Process results from this batch
       for (let i = 0; i < batchResults.length; i++) {
         const hourOffset = batchStart + i;
-        const rawData = batchResults[i];
+        const { data: rawData, report } = batchResults[i];
+        reports.push(report);
         const timestamp = this.getTimestampForOffset(hourOffset);
 
         if (rawData.length > 0) {
           // Save snapshot to DB
-          await this.db.saveBalloonSnapshot(timestamp, rawData);
+          await this.storeSnapshot(timestamp, rawData, hourOffset);
 
           // Convert raw data to BalloonDataPoints
           const hourData = rawData.map((raw, index) => ({
@@ -456,6 +873,8 @@ export class WindborneService {
       }
     }
 
+    await this.saveQualityReports(reports);
+
     console.log(`Fetched ${allData.length} balloon data points across 24 hours`);
     console.log(`  Successful: ${successfulFetches} hours, Failed: ${failedFetches} hours`);
     return allData;
@@ -479,19 +898,6 @@ export class WindborneService {
     return this.getTimestampForOffset(0);
   }
 
-  /**
-   * Check if two timestamps are consecutive hours
-   */
-  private isConsecutiveHour(lastTimestamp: string, currentTimestamp: string): boolean {
-    const last = new Date(lastTimestamp);
-    const current = new Date(currentTimestamp);
-    const diffMs = current.getTime() - last.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
-
-    // Allow some tolerance (should be 1 hour difference)
-    return diffHours >= 0.9 && diffHours <= 1.1;
-  }
-
   /**
    * Calculate hours difference between two timestamps
    */
@@ -503,113 +909,55 @@ export class WindborneService {
   }
 
   /**
-   * Main method to get balloon data with smart incremental fetching
+   * Rebuild the in-memory history from the last 24 hours of stored snapshots
+   * Used after another instance's tracking job, whose results are only in the database
    */
-  async getBalloonData(): Promise<BalloonDataPoint[]> {
-    // Ensure initialization is complete before serving data
-    await this.ensureInitialized();
-    console.log(`📡 getBalloonData() called - balloonHistory has ${this.balloonHistory.length} balloons`);
-
+  private async loadHistoryFromDatabase(): Promise<BalloonDataPoint[]> {
     const currentTimestamp = this.getCurrentTimestamp();
+    const snapshots = await this.db.getAllSnapshots();
+    this.balloonHistory = [];
 
-    // First load or catch-up scenario (auto-update was disabled or server just started)
-    // NOTE: isConsecutiveHour checks for ~1 hour difference, so it returns false if timestamps are the same
-    // We need to handle the case where lastUpdateTimestamp === currentTimestamp (already up-to-date)
-    if (
-      !this.lastUpdateTimestamp ||
-      (this.lastUpdateTimestamp !== currentTimestamp && !this.isConsecutiveHour(this.lastUpdateTimestamp, currentTimestamp))
-    ) {
-      console.log(`📍 Initial load or catch-up - lastUpdate=${this.lastUpdateTimestamp}, current=${currentTimestamp}`);
-
-      // Try to load from DB first to see if we have recent data
-      const latestFromDB = await this.db.getLatestSnapshotTimestamp();
-      console.log(`   latestFromDB=${latestFromDB}, isConsecutive=${latestFromDB && this.isConsecutiveHour(latestFromDB, currentTimestamp)}`);
-
-      if (latestFromDB && (latestFromDB === currentTimestamp || this.isConsecutiveHour(latestFromDB, currentTimestamp))) {
-        console.log(`Found recent data in DB (${latestFromDB}), restoring history...`);
-        // Load all available snapshots from DB
-        const snapshots = await this.db.getAllSnapshots();
-        this.balloonHistory = [];
-
-        const now = new Date(currentTimestamp);
+    for (const snap of snapshots) {
+      // Only keep last 24 hours relative to NOW
+      if (this.hoursDiff(snap.timestamp, currentTimestamp) < 24) {
+        const hourOffset = Math.round(this.hoursDiff(snap.timestamp, currentTimestamp));
 
-        for (const snap of snapshots) {
-          // Only keep last 24 hours relative to NOW
-          if (this.hoursDiff(snap.timestamp, currentTimestamp) < 24) {
-            const hourOffset = Math.round(this.hoursDiff(snap.timestamp, currentTimestamp));
-
-            const hourData = snap.data.map((raw: RawBalloonData, index: number) => ({
-              id: `temp_${hourOffset}_${index}`,
-              latitude: raw[0],
-              longitude: raw[1],
-              altitude_km: raw[2],
-              timestamp: snap.timestamp,
-              hour_offset: hourOffset,
-              confidence: 1.0,
-              status: 'active' as const,
-            }));
-
-            this.balloonHistory.push(...hourData);
-          }
-        }
-
-        this.lastUpdateTimestamp = latestFromDB;
-
-        // If we are still slightly behind (e.g. latestDB is 1 hour ago), let the next block handle it?
-        // No, the next block checks currentTimestamp != lastUpdateTimestamp, so it will fetch the newest hour automatically!
-        // Perfect.
+        const hourData = snap.data.map((raw: RawBalloonData, index: number) => ({
+          id: `temp_${hourOffset}_${index}`,
+          latitude: raw[0],
+          longitude: raw[1],
+          altitude_km: raw[2],
+          timestamp: snap.timestamp,
+          hour_offset: hourOffset,
+          confidence: 1.0,
+          status: 'active' as const,
+        }));
 
-        if (this.balloonHistory.length === 0) {
-          // DB had data but it was all old
-          console.log('DB data was too old, fetching fresh from API');
-          this.balloonHistory = await this.fetchAll24Hours();
-          this.lastUpdateTimestamp = currentTimestamp;
-        }
-      } else {
-        // No useful DB data, fetch from API
-        console.log('No recent DB data, fetching all 24 hours from API');
-        this.balloonHistory = await this.fetchAll24Hours();
-        this.lastUpdateTimestamp = currentTimestamp;
+        this.balloonHistory.push(...hourData);
       }
-
-      return this.balloonHistory;
     }
 
-    // Normal incremental update (only fetch newest hour)
-    if (currentTimestamp !== this.lastUpdateTimestamp) {
-      console.log('Fetching only newest hour');
-      const newHourData = await this.fetchHourData(0);
-      const timestamp = currentTimestamp;
-
-      if (newHourData.length > 0) {
-        await this.db.saveBalloonSnapshot(timestamp, newHourData);
-      }
-
-      // Convert to BalloonDataPoints (temporary IDs for now, tracking comes later)
-      const trackedBalloons: BalloonDataPoint[] = newHourData.map((raw, index) => ({
-        id: `temp_0_${index}`,
-        latitude: raw[0],
-        longitude: raw[1],
-        altitude_km: raw[2],
-        timestamp,
-        hour_offset: 0,
-        confidence: 1.0,
-        status: 'active' as const,
-      }));
-
-      // Add new hour to beginning, remove data older than 24 hours
-      this.balloonHistory.unshift(...trackedBalloons);
-      this.balloonHistory = this.balloonHistory.filter(
-        (b) => this.hoursDiff(b.timestamp, currentTimestamp) < 24
-      );
+    this.lastUpdateTimestamp = await this.db.getLatestSnapshotTimestamp();
+    this.historyHour = currentTimestamp;
+    // Tracked IDs may have been rewritten by the other run
+    this.tracker.invalidateCache();
+    return this.balloonHistory;
+  }
 
-      // Update hour_offset for all existing data
-      this.balloonHistory = this.balloonHistory.map((b) => ({
-        ...b,
-        hour_offset: Math.round(this.hoursDiff(b.timestamp, currentTimestamp)),
-      }));
+  /**
+   * Balloon history of the last 24 hours, from the snapshots in the database
+   * Read-only: fetching, storing and tracking new hours is left to the jobs holding the
+   * tracking lock (hourly update, refresh, backfill, full fetch). The in-memory copy is
+   * reloaded once the database has a newer hour or the hour has turned (hour_offsets moved)
+   */
+  async getBalloonData(): Promise<BalloonDataPoint[]> {
+    // Ensure initialization is complete before serving data
+    await this.ensureInitialized();
 
-      this.lastUpdateTimestamp = currentTimestamp;
+    const latestFromDB = await this.db.getLatestSnapshotTimestamp();
+    if (latestFromDB !== this.lastUpdateTimestamp || this.historyHour !== this.getCurrentTimestamp()) {
+      console.log(`📍 Reloading history - lastUpdate=${this.lastUpdateTimestamp}, latestFromDB=${latestFromDB}`);
+      await this.loadHistoryFromDatabase();
     }
 
     return this.balloonHistory;
@@ -638,22 +986,29 @@ export class WindborneService {
   }
 
   /**
-   * Manual refresh: Fetch latest hour and re-process all tracking
-   * This is simpler than the automated hourly update - just ensures we have the latest data
+   * Manual refresh: the hourly update (fetch and track the current hour, backfill missing
+   * hours, clean up) regardless of the auto-update setting
+   * Failures are recorded on the refresh run and announced like any other job failure
    */
-  async forceRefresh(): Promise<BalloonDataPoint[]> {
+  async forceRefresh(trigger: JobTrigger = 'manual'): Promise<BalloonDataPoint[]> {
     console.log('🔄 Manual refresh triggered');
 
-    try {
-      // Just run the normal hourly update logic
-      // It will fetch the current hour and re-process all 24 hours
-      await this.runHourlyUpdate(true); // forceRun = true (bypass autoUpdate check)
-      return this.getBalloonData();
-    } catch (error) {
-      console.error('❌ Error during refresh, falling back to full fetch:', error);
-      await this.fallbackFullFetch();
-      return this.getBalloonData();
-    }
+    // Startup may itself be waiting for the tracking lock (full fetch on a cold instance);
+    // taking the lock first would leave both waiting on each other
+    await this.ensureInitialized();
+
+    // Concurrent refreshes coalesce into one run; a refresh that finds another instance
+    // (or the scheduler) tracking returns that run's result
+    const data = await this.runTrackingJob(
+      'refresh',
+      () => this.jobRuns.record('refresh', trigger, async (run) => {
+        await this.performHourlyUpdate(run);
+        return this.loadHistoryFromDatabase();
+      }),
+      () => this.loadHistoryFromDatabase()
+    );
+    await this.announceLatestHour();
+    return data;
   }
 
   /**
@@ -662,7 +1017,7 @@ export class WindborneService {
    */
   async triggerImmediateUpdate(): Promise<void> {
     console.log('⚡ Immediate update triggered (manual)');
-    await this.runHourlyUpdate();
+    await this.runHourlyUpdate(false, 'manual');
   }
 
   /**
@@ -680,8 +1035,13 @@ export class WindborneService {
    * DEVELOPMENT ONLY: Complete data rebuild
    * Wipes all tracked balloons and snapshots, then fetches and processes all 24 hours
    * WARNING: This is a destructive operation!
+   * Waits for any running tracking job first, so it never wipes data mid-update
    */
-  async completeRebuild(): Promise<{ success: boolean; message: string; balloonCount: number }> {
+  completeRebuild(): Promise<{ success: boolean; message: string; balloonCount: number }> {
+    return this.runTrackingJob('rebuild', () => this.jobRuns.record('rebuild', 'manual', run => this.runCompleteRebuild(run)));
+  }
+
+  private async runCompleteRebuild(run: JobRunHandle): Promise<{ success: boolean; message: string; balloonCount: number }> {
     console.log('🚨 COMPLETE REBUILD: Wiping all data and rebuilding from scratch...');
     console.log('');
 
@@ -695,6 +1055,7 @@ export class WindborneService {
       console.log('');
 
       // Step 2: Wipe all existing data from database
+      run.phase('clear');
       console.log('1️⃣ Clearing all tracked balloons and snapshots from database...');
       await this.db.clearAllData();
 
@@ -721,7 +1082,7 @@ export class WindborneService {
       // Step 5: Fetch and process all 24 hours from Windborne API
       console.log('4️⃣ Fetching all 24 hours from Windborne API and processing tracking...');
       console.log('');
-      await this.fallbackFullFetch();
+      await this.performFullFetch(run);
 
       const balloonCount = this.balloonHistory.length;
       const trackedCount = await this.db.getAllTrackedBalloons();
@@ -746,6 +1107,7 @@ export class WindborneService {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Rebuild failed:', errorMessage);
       console.error(error);
+      run.markFailed(error);
 
       return {
         success: false,
@@ -14,7 +14,371 @@ export interface BalloonDataPoint {
   direction_deg?: number;
   confidence: number;   // Tracking confidence (0-1)
   status: 'active' | 'new' | 'lost';
+  gap_hours?: number;   // Hours without an observation ('lost' = hours coasted, re-acquired = gap bridged)
+  match_cost?: number;  // Total tracker cost of the match that linked this point (lower = better)
+  match_phase?: MatchPhase; // Which tracking phase made the match
+  score_breakdown?: MatchScoreBreakdown; // Weighted cost components (sum to match_cost)
+  kalman_state?: KalmanState; // Constant-velocity filter state after this observation
+  filtered_speed_kmh?: number; // Kalman-filtered velocity (less noisy than speed_kmh/direction_deg)
+  filtered_direction_deg?: number;
+  velocity_uncertainty_kmh?: number; // 1-sigma uncertainty of filtered_speed_kmh
   trajectory?: BalloonTrajectory; // Optional trajectory data (included in main balloon response)
+  source?: string;      // Upload source tag (POST /api/ingest); unset for the Windborne feed
+  external_id?: string; // ID assigned by the uploader (tracked as `<source>:<external_id>`)
+}
+
+// Kalman filter state (constant-velocity model in a local east/north plane)
+export interface KalmanState {
+  latitude: number;           // Filtered position
+  longitude: number;
+  velocity_east_kmh: number;
+  velocity_north_kmh: number;
+  covariance: number[][];     // 4x4 over [east_km, north_km, v_east_kmh, v_north_kmh]
+  timestamp: string;          // Time the state is valid for
+}
+
+export type MatchPhase = 'greedy' | 'hungarian' | 'smoother';
+
+// Weighted cost components from the tracker's match scoring (same units as match_cost)
+export interface MatchScoreBreakdown {
+  distance: number;    // Distance from predicted position (Mahalanobis, normalized by the gate)
+  direction: number;   // Heading change
+  speed: number;       // Speed change
+  altitude: number;    // Altitude change
+  gap_penalty: number; // Penalty for re-acquiring a coasting track
+}
+
+export interface TrackingDiagnosticsEntry {
+  timestamp: string;
+  hour_offset: number;
+  status: BalloonDataPoint['status'];
+  confidence: number;
+  match_phase: MatchPhase | null;
+  match_cost: number | null;
+  score_breakdown: MatchScoreBreakdown | null;
+  gap_hours: number | null;
+}
+
+// Fixed-lag smoother: ID rewrite when later hours reveal a track swap
+export interface TrackReassignment {
+  old_id: string;             // ID the rows had before the correction
+  new_id: string;             // ID the rows carry after the correction
+  join_speed_kmh: number;     // Recomputed velocity at the corrected link
+  join_direction_deg: number;
+  filter_states: TrackFilterState[]; // Kalman filter re-run over the rewritten rows, oldest first
+}
+
+// Filter state of one rewritten row, continued from the new ID's own track
+export interface TrackFilterState {
+  timestamp: string;
+  kalman_state: KalmanState;
+  filtered_speed_kmh: number;
+  filtered_direction_deg: number;
+  velocity_uncertainty_kmh: number;
+}
+
+export interface TrackCorrection {
+  from_timestamp: string;     // First hour rewritten (the corrected link); later hours are rewritten too
+  to_timestamp: string;       // Last hour of lookahead the correction was judged on
+  reassignments: TrackReassignment[];
+  cost_before: number;        // Multi-hour path cost of the original assignment
+  cost_after: number;         // Path cost after the correction
+}
+
+// One audit row per reassigned ID
+export interface TrackCorrectionRecord {
+  id: number;
+  corrected_at: string;
+  from_timestamp: string;
+  to_timestamp: string;
+  old_id: string;
+  new_id: string;
+  cost_before: number;
+  cost_after: number;
+}
+
+// Offline re-track (tracker profile tuning) compared against the live tracks
+export interface RetrackStats {
+  tracks: number;           // Unique IDs
+  new_tracks: number;       // Tracks started after the first hour
+  observations: number;
+  mean_confidence: number;
+}
+
+export interface RetrackReport {
+  profile: string;
+  namespace: string;        // Scratch namespace the re-tracked rows were written to
+  from_timestamp: string | null;
+  to_timestamp: string | null;
+  hours: number;
+  live: RetrackStats;
+  retrack: RetrackStats;
+  id_switches: number;      // Links along live tracks that the profile assigns to a different ID
+  link_agreement: number;   // Fraction of live links (consecutive observations) the profile reproduces
+  unmatched_observations: number; // Snapshot points with no live tracked row (e.g. hours not tracked yet)
+  duration_ms: number;
+}
+
+// Optional time window for trajectory queries (inclusive ISO timestamps)
+export interface TimeRange {
+  from?: string;
+  to?: string;
+}
+
+// Result of one retention run (see retention.policy.ts)
+export interface RetentionCleanupResult {
+  deletedTrackedBalloons: number; // Rows removed from the full-resolution table
+  deletedSnapshots: number;
+  archivedTrackedBalloons: number; // Of those, rows kept in the downsampled archive
+  archivedSnapshots: number;
+  expiredArchiveRows: number;      // Archive rows (tracked + snapshots) past the archive window
+}
+
+// Schema migrations (see database.migrations.ts)
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;  // null while pending
+}
+
+export interface MigrationRunResult {
+  dry_run: boolean;
+  migrations: {               // Applied (or, in a dry run, pending) migrations in order
+    version: number;
+    name: string;
+    statements: string[];
+  }[];
+}
+
+// Snapshot versions (see snapshot.versioning.ts)
+export interface SnapshotSource {
+  source_url?: string;        // File the rows were fetched from
+  fetched_at?: string;        // Defaults to the time of saving
+}
+
+export interface SnapshotSaveResult {
+  version: number;            // Latest version of the hour after saving
+  created: boolean;           // False if the content matched the latest version
+  previous_version: number | null;
+  tracked_version: number | null; // Version the stored tracking was built on
+}
+
+export interface SnapshotVersionInfo {
+  timestamp: string;
+  version: number;
+  content_hash: string;
+  fetched_at: string | null;  // Null for rows stored before versioning
+  source_url: string | null;
+  balloon_count: number;
+}
+
+export interface SnapshotStaleness {
+  timestamp: string;
+  version: number;            // Latest version
+  tracked_version: number;    // Older version the tracking was built on
+}
+
+export interface SnapshotDiff {
+  timestamp: string;
+  from_version: number;
+  to_version: number;
+  from_count: number;
+  to_count: number;
+  unchanged_count: number;
+  moved: { from: RawBalloonData; to: RawBalloonData; distance_km: number }[];
+  added: RawBalloonData[];
+  removed: RawBalloonData[];
+}
+
+// Outcome of one hour in a backfill run (see backfill.planner.ts)
+export interface BackfillHourResult {
+  timestamp: string;
+  hour_offset: number;        // 0 = current hour (00.json)
+  attempts: number;
+  balloon_count: number;      // Accepted rows (0 if the hour is still missing)
+  error: string | null;       // Last failure, for hours that are still missing
+}
+
+export interface BackfillResult {
+  checked_hours: number;      // Size of the expected window
+  missing_hours: number;      // Hours without a snapshot before the run
+  repaired: BackfillHourResult[];
+  failed: BackfillHourResult[];
+  retracked_from: string | null; // Earliest repaired hour; tracking was re-run from here forward
+  retracked_hours: number;
+  duration_ms: number;
+}
+
+// Ingestion data-quality report, one per ingested hour file (see ingestion.quality.ts)
+export type IngestionRejectReason =
+  | 'malformed'               // Not a [lat, lon, alt] triple
+  | 'non_finite'              // NaN, Infinity or not a number
+  | 'latitude_out_of_range'
+  | 'longitude_out_of_range'
+  | 'altitude_out_of_range';
+
+export type IngestionAnomaly =
+  | 'fetch_failed'            // Source error or payload that isn't an array
+  | 'empty'                   // File fetched but had no entries
+  | 'high_rejection_rate'
+  | 'duplicate_coordinates'
+  | 'coordinate_cluster'
+  | 'fleet_size_change';      // Accepted count jumped vs. the previous hour
+
+export interface CoordinateCluster {
+  latitude: number;
+  longitude: number;
+  count: number;              // Accepted rows at exactly this lat/lon
+}
+
+export interface IngestionQualityReport {
+  timestamp: string;          // Hour the file belongs to
+  source: string;             // Balloon data source name
+  raw_count: number;          // Entries in the file (0 if the fetch failed)
+  accepted_count: number;
+  rejected: Record<IngestionRejectReason, number>;
+  duplicate_rows: number;     // Accepted rows repeating an earlier row exactly
+  coordinate_clusters: CoordinateCluster[]; // Largest first
+  previous_count: number | null; // accepted_count of the previous hour, if it was ingested
+  count_delta: number | null;
+  fetch_error: string | null;
+  anomalies: IngestionAnomaly[];
+  ingested_at: string;
+}
+
+export interface IngestionReportFilter {
+  from?: string;              // Inclusive ISO timestamp
+  to?: string;                // Inclusive ISO timestamp
+  anomalous_only?: boolean;
+  limit?: number;
+}
+
+// Cross-instance job lease (see job.lock.ts)
+export interface JobLockLease {
+  name: string;               // Locked resource, e.g. "tracking"
+  owner: string;              // Holder of this acquisition (instance + random suffix)
+  job: string;                // What the holder is running, e.g. "hourly-update"
+  acquired_at: string;
+  expires_at: string;         // Free for anyone once passed, unless renewed
+}
+
+// Positions of our own sondes uploaded through POST /api/ingest (see ingest.service.ts)
+export interface IngestedPosition {
+  timestamp: string;          // Report time as uploaded (tracked at the top of its hour)
+  latitude: number;
+  longitude: number;
+  altitude_km: number;
+  external_id?: string;       // Uploader's sonde ID; anonymous positions are matched like the feed
+}
+
+export interface IngestResult {
+  source: string;
+  accepted: number;           // Positions stored (latest report per sonde and hour)
+  hours: string[];            // Hours tracked, oldest first
+  balloons_continued: number;
+  balloons_new: number;
+  ids: string[];              // Tracked IDs of the uploaded positions
+}
+
+// Recorded runs of the data jobs (see job.runs.ts)
+export type JobKind = 'hourly_update' | 'refresh' | 'backfill' | 'full_fetch' | 'rebuild' | 'cleanup' | 'ingest';
+export type JobTrigger = 'scheduler' | 'cron' | 'manual' | 'startup';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed'; // 'running' with no finished_at after a crash
+
+export interface JobRunCounts {
+  balloons_fetched: number;   // Accepted rows fetched from the data source
+  balloons_continued: number; // Tracked points that kept an existing ID
+  balloons_new: number;       // Tracked points that got a new ID
+  rows_deleted: number;       // Tracked points + snapshots removed by retention cleanup
+}
+
+export interface JobRun extends JobRunCounts {
+  id: number;
+  kind: JobKind;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  phases: Record<string, number>; // Milliseconds per phase, in run order
+  error: string | null;
+  error_stack: string | null;
+}
+
+export interface JobRunFilter {
+  kind?: JobKind;
+  status?: JobRunStatus;
+  from?: string;              // Inclusive ISO timestamp (started_at)
+  to?: string;                // Inclusive ISO timestamp (started_at)
+  limit?: number;
+}
+
+// Server-Sent Events of GET /api/stream, by event name (see update.stream.ts)
+export interface UpdateStreamEvents {
+  ready: {                             // Sent on every (re)connect
+    latest_timestamp: string | null;   // Newest hour with data
+  };
+  new_hour: {
+    timestamp: string;                 // Newest hour with data
+    previous_timestamp: string | null; // Newest hour before it
+    balloon_count: number;             // Tracked balloons in that hour (coasting ones excluded)
+  };
+  job_finished: UpdateStreamJob;       // Hourly update or refresh succeeded
+  job_failed: UpdateStreamJob;         // ... or failed (the hour may still have been backfilled)
+}
+
+export type UpdateStreamJob = Pick<JobRun,
+  'id' | 'kind' | 'trigger' | 'status' | 'finished_at' | 'duration_ms' | 'error'
+  | 'balloons_fetched' | 'balloons_continued' | 'balloons_new'>;
+
+// Lifecycle events detected after each tracked hour
+export type BalloonEventType =
+  | 'launch'           // New track first seen at low altitude
+  | 'ascent_complete'  // Climb levelled off at float altitude
+  | 'burst'            // Rapid descent (burst or cut-down)
+  | 'disappearance'    // Observed track missing from the hour file
+  | 'reacquisition';   // Coasting track matched again after a gap
+
+export interface BalloonEvent {
+  balloon_id: string;
+  type: BalloonEventType;
+  timestamp: string;          // Hour the event was detected at
+  latitude: number;           // Position of the observation the event refers to
+  longitude: number;
+  altitude_km: number;
+  details?: Record<string, number>; // Type-specific measurements (rates, gap length, ...)
+}
+
+export interface BalloonEventRecord extends BalloonEvent {
+  id: number;
+  detected_at: string;
+}
+
+export interface BalloonEventFilter {
+  types?: BalloonEventType[];
+  balloon_id?: string;
+  from?: string;              // Inclusive ISO timestamp
+  to?: string;                // Inclusive ISO timestamp
+  // Bounding box; min_lon > max_lon means the box crosses the antimeridian
+  bbox?: { min_lon: number; min_lat: number; max_lon: number; max_lat: number };
+  order?: 'asc' | 'desc';     // By timestamp, then ID. Default: desc (newest first)
+  limit?: number;             // Applied after ordering
+}
+
+// Filters of GET /api/balloons, applied in the database; results are ordered by ID
+export interface BalloonQuery {
+  timestamp: string;          // Hour to read
+  // min_lon > max_lon means the box crosses the antimeridian
+  bbox?: { min_lon: number; min_lat: number; max_lon: number; max_lat: number };
+  near?: { latitude: number; longitude: number; radius_km: number }; // Great-circle distance
+  min_altitude_km?: number;   // Inclusive bounds
+  max_altitude_km?: number;
+  min_speed_kmh?: number;     // Points without a speed (new tracks) never match a speed bound
+  max_speed_kmh?: number;
+  statuses?: BalloonDataPoint['status'][]; // Default: every status
+  min_confidence?: number;    // Points saved without a confidence count as 1
+  after_id?: string;          // Keyset cursor: only IDs sorting after this one
+  limit?: number;
 }
 
 export interface RawBalloonData {
@@ -28,8 +392,11 @@ export interface BalloonResponse {
   updated_at: string;
   data_age_minutes: number;
   source: string;
+  timestamp: string;    // The hour returned
+  hour_offset: number;  // Same hour relative to the current one
   balloon_count: number;
-  balloons: BalloonDataPoint[];
+  balloons: Partial<BalloonDataPoint>[]; // Only the requested fields with ?fields=
+  next_cursor: string | null;  // Pass as ?cursor= for the next page (null: last page)
 }
 
 export interface Settings {
@@ -43,6 +410,8 @@ export interface HealthResponse {
   dataFreshness: number; // minutes since last update
   balloonCount: number;
   autoUpdateEnabled: boolean;
+  anomalousHours: { timestamp: string; anomalies: IngestionAnomaly[] }[]; // Last 24 hours, newest first
+  lastSuccessfulJob: Pick<JobRun, 'id' | 'kind' | 'trigger' | 'finished_at'> | null;
 }
 
 // Phase 2: Trajectory and Wind Data Types
@@ -78,6 +447,7 @@ export interface WindData {
 
 export interface TrajectoryResponse {
   balloon_id: string;
+  reference_timestamp: string;  // Hour the prediction starts from
   trajectory: BalloonTrajectory;
   wind_data?: WindData;
 }
@@ -4,14 +4,16 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import type { BalloonDataPoint, BalloonTrajectory, ValueCalculationResult } from '../types/balloon';
+import type { BalloonDataPoint, BalloonTrajectory, BalloonEvent, ValueCalculationResult } from '../types/balloon';
 import { balloonApi } from '../services/api';
 import BalloonValueChart from './BalloonValueChart';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { EVENT_STYLES, describeEvent } from './eventStyles';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 
 interface BalloonDetailPanelProps {
     balloon: BalloonDataPoint;
     trajectory?: BalloonTrajectory;
+    events?: BalloonEvent[]; // Lifecycle events (launch, burst, ...) for the timeline
     onClose: () => void;
     isClosing: boolean;
 }
@@ -22,6 +24,7 @@ const valueCache = new Map<string, ValueCalculationResult>();
 export default function BalloonDetailPanel({
     balloon,
     trajectory,
+    events = [],
     onClose,
     isClosing,
 }: BalloonDetailPanelProps) {
@@ -249,6 +252,19 @@ export default function BalloonDetailPanel({
             };
         });
 
+    // Place events on the same T-Nh axis as the altitude chart (positive = after the newest position)
+    const newestPositionTime = historicalPositions.length > 0
+        ? Math.max(...historicalPositions.map(p => new Date(p.timestamp).getTime()))
+        : null;
+    const timelineEvents = [...events]
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()) // Newest first
+        .map((event) => ({
+            event,
+            hoursAgo: newestPositionTime !== null
+                ? Math.round((newestPositionTime - new Date(event.timestamp).getTime()) / (1000 * 60 * 60))
+                : null,
+        }));
+
     // Custom tooltip for altitude chart
     const AltitudeTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: { label: string; altitude: number } }> }) => {
         if (active && payload && payload.length) {
@@ -413,6 +429,17 @@ export default function BalloonDetailPanel({
                                                 domain={['auto', 'auto']}
                                             />
                                             <Tooltip content={<AltitudeTooltip />} />
+                                            {timelineEvents
+                                                .filter(({ hoursAgo }) => hoursAgo !== null && hoursAgo >= 0)
+                                                .map(({ event, hoursAgo }) => (
+                                                    <ReferenceLine
+                                                        key={event.id}
+                                                        x={-hoursAgo!}
+                                                        stroke={EVENT_STYLES[event.type].color}
+                                                        strokeDasharray="4 2"
+                                                        label={{ value: EVENT_STYLES[event.type].icon, position: 'top', fontSize: 12 }}
+                                                    />
+                                                ))}
                                             <Line
                                                 type="monotone"
                                                 dataKey="altitude"
@@ -465,6 +492,30 @@ export default function BalloonDetailPanel({
                             <p className="text-slate-500 text-sm italic">No historical data available</p>
                         )}
                     </Section>
+
+                    {/* Lifecycle Events */}
+                    <Section title="Lifecycle Events">
+                        {timelineEvents.length > 0 ? (
+                            <div className="space-y-2 max-h-48 overflow-y-auto">
+                                {timelineEvents.map(({ event, hoursAgo }) => (
+                                    <div key={event.id} className="flex items-center gap-3 text-xs p-2 bg-slate-800 rounded">
+                                        <span className="text-slate-400 w-12">
+                                            {hoursAgo === null ? '' : hoursAgo >= 0 ? `T-${hoursAgo}h` : `T+${-hoursAgo}h`}
+                                        </span>
+                                        <span className="text-base">{EVENT_STYLES[event.type].icon}</span>
+                                        <div className="flex-1">
+                                            <p className="font-semibold" style={{ color: EVENT_STYLES[event.type].color }}>
+                                                {EVENT_STYLES[event.type].label}
+                                            </p>
+                                            <p className="text-slate-400">{describeEvent(event)}</p>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-slate-500 text-sm italic">No lifecycle events detected</p>
+                        )}
+                    </Section>
                 </div>
 
                 <div className='space-y-4 col-span-2'>
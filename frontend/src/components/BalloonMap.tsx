@@ -6,13 +6,15 @@
 import { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet.markercluster';
-import type { BalloonDataPoint, BalloonTrajectory } from '../types/balloon';
+import type { BalloonDataPoint, BalloonTrajectory, BalloonEvent } from '../types/balloon';
 import TrajectoryLayer from './TrajectoryLayer';
+import EventLayer from './EventLayer';
 import WindOverlay from './WindOverlay';
 
 interface BalloonMapProps {
   balloons: BalloonDataPoint[];
   trajectories?: BalloonTrajectory[];
+  events?: BalloonEvent[]; // Lifecycle events to mark on the map
   showTrajectories?: boolean;
   showPredictions?: boolean;
   showWindOverlay?: boolean;
@@ -26,6 +28,7 @@ interface BalloonMapProps {
 export default function BalloonMap({
   balloons,
   trajectories = [],
+  events = [],
   showTrajectories = false,
   showPredictions = false,
   showWindOverlay = false,
@@ -196,6 +199,10 @@ export default function BalloonMap({
         showPredictions={showPredictions}
         selectedBalloonId={selectedBalloonId}
       />
+      <EventLayer
+        map={mapRef.current}
+        events={events}
+      />
       <WindOverlay
         map={mapRef.current}
         enabled={showWindOverlay}
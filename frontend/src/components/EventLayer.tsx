@@ -0,0 +1,71 @@
+/**
+ * Event Layer Component
+ * Renders lifecycle events (launch, burst, disappearance, ...) as icon markers on the map
+ */
+
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import type { BalloonEvent } from '../types/balloon';
+import { EVENT_STYLES, describeEvent } from './eventStyles';
+
+interface EventLayerProps {
+  map: L.Map | null;
+  events: BalloonEvent[];
+}
+
+export default function EventLayer({ map, events }: EventLayerProps) {
+  const layerGroupRef = useRef<L.LayerGroup | null>(null);
+
+  useEffect(() => {
+    if (!map) return;
+
+    // Initialize layer group if not exists
+    if (!layerGroupRef.current) {
+      layerGroupRef.current = L.layerGroup().addTo(map);
+    }
+
+    layerGroupRef.current.clearLayers();
+
+    events.forEach((event) => {
+      const style = EVENT_STYLES[event.type];
+
+      const marker = L.marker([event.latitude, event.longitude], {
+        icon: L.divIcon({
+          className: 'balloon-event-marker',
+          html: `<div style="font-size: 18px; line-height: 18px; filter: drop-shadow(0 0 2px ${style.color});">${style.icon}</div>`,
+          iconSize: [18, 18],
+          iconAnchor: [9, 9],
+        }),
+        zIndexOffset: 1000, // Above trail markers
+      });
+
+      marker.bindPopup(`
+        <div class="text-xs">
+          <strong>${style.label}</strong><br/>
+          ${describeEvent(event)}<br/>
+          ${new Date(event.timestamp).toLocaleString()}
+        </div>
+      `);
+
+      marker.addTo(layerGroupRef.current!);
+    });
+
+    return () => {
+      if (layerGroupRef.current) {
+        layerGroupRef.current.clearLayers();
+      }
+    };
+  }, [map, events]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (layerGroupRef.current) {
+        layerGroupRef.current.remove();
+        layerGroupRef.current = null;
+      }
+    };
+  }, []);
+
+  return null; // This component doesn't render anything to the DOM
+}
@@ -0,0 +1,32 @@
+/**
+ * Display styles for balloon lifecycle events (shared by the map layer and detail panel)
+ */
+
+import type { BalloonEvent, BalloonEventType } from '../types/balloon';
+
+export const EVENT_STYLES: Record<BalloonEventType, { label: string; icon: string; color: string }> = {
+  launch: { label: 'Launch', icon: '🚀', color: '#22c55e' },
+  ascent_complete: { label: 'Ascent complete', icon: '🎈', color: '#3b82f6' },
+  burst: { label: 'Burst / rapid descent', icon: '💥', color: '#ef4444' },
+  disappearance: { label: 'Disappeared', icon: '👻', color: '#94a3b8' },
+  reacquisition: { label: 'Re-acquired', icon: '🔁', color: '#eab308' },
+};
+
+/**
+ * Short human-readable summary of an event's measurements
+ */
+export function describeEvent(event: BalloonEvent): string {
+  const d = event.details || {};
+  switch (event.type) {
+    case 'launch':
+      return `First seen at ${event.altitude_km.toFixed(1)} km`;
+    case 'ascent_complete':
+      return `Levelled off at ${(d.float_altitude_km ?? event.altitude_km).toFixed(1)} km`;
+    case 'burst':
+      return `Descending ${(d.descent_rate_km_per_hour ?? 0).toFixed(1)} km/h from ${(d.from_altitude_km ?? event.altitude_km).toFixed(1)} km`;
+    case 'disappearance':
+      return `Last seen at ${event.altitude_km.toFixed(1)} km`;
+    case 'reacquisition':
+      return `Back after ${d.gap_hours ?? 1}h gap`;
+  }
+}
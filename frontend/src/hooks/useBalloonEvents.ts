@@ -0,0 +1,22 @@
+/**
+ * Custom hook for a balloon's lifecycle events (launch, burst, disappearance, ...)
+ * Cached with React Query - events only change with the hourly update
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { balloonApi } from '../services/api';
+
+export function useBalloonEvents(balloonId: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['events', balloonId],
+    queryFn: () => balloonApi.getEvents({ balloonId: balloonId! }),
+    enabled: !!balloonId,
+    staleTime: 300000, // 5 minutes (matches useBalloonData)
+  });
+
+  return {
+    events: data?.events || [],
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Custom hook for the backend's live update stream (GET /api/stream)
+ * Calls back as soon as a new hour is tracked or a data job ends, and reports whether the
+ * stream is up so callers can poll while it isn't
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { balloonApi } from '../services/api';
+import type { NewHourEvent, StreamJobEvent, StreamReadyEvent } from '../types/balloon';
+
+interface UpdateStreamHandlers {
+  onReady?: (event: StreamReadyEvent) => void; // Every (re)connect
+  onNewHour?: (event: NewHourEvent) => void;
+  onJobFinished?: (event: StreamJobEvent) => void; // Succeeded or failed
+}
+
+function parseEvent<T>(event: Event): T {
+  return JSON.parse((event as MessageEvent<string>).data) as T;
+}
+
+export function useUpdateStream(handlers: UpdateStreamHandlers) {
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Latest handlers without reconnecting on every render
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const source = balloonApi.openUpdateStream();
+
+    source.addEventListener('ready', (event) => {
+      setIsConnected(true);
+      handlersRef.current.onReady?.(parseEvent<StreamReadyEvent>(event));
+    });
+    source.addEventListener('new_hour', (event) => {
+      handlersRef.current.onNewHour?.(parseEvent<NewHourEvent>(event));
+    });
+    source.addEventListener('job_finished', (event) => {
+      handlersRef.current.onJobFinished?.(parseEvent<StreamJobEvent>(event));
+    });
+    source.addEventListener('job_failed', (event) => {
+      const job = parseEvent<StreamJobEvent>(event);
+      console.warn(`⚠️ Backend ${job.kind} failed: ${job.error}`);
+      handlersRef.current.onJobFinished?.(job);
+    });
+
+    // The browser retries on its own (unless the server refused the stream outright)
+    source.onerror = () => setIsConnected(false);
+
+    return () => source.close();
+  }, []);
+
+  return { isConnected };
+}
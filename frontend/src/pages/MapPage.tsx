@@ -4,7 +4,7 @@
  * Full-screen map with balloon tracking and trajectory prediction
  */
 
-import { useState, useEffect, useMemo, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
 import BalloonMap from '../components/BalloonMap';
@@ -12,6 +12,8 @@ import ControlPanel from '../components/ControlPanel';
 import TimeSlider from '../components/TimeSlider';
 import BalloonDetailPanel from '../components/BalloonDetailPanel';
 import { useBalloonData, usePreloadBalloonData } from '../hooks/useBalloonData';
+import { useBalloonEvents } from '../hooks/useBalloonEvents';
+import { useUpdateStream } from '../hooks/useUpdateStream';
 import { balloonApi } from '../services/api';
 import type { BalloonDataPoint, BalloonTrajectory } from '../types/balloon';
 
@@ -38,37 +40,56 @@ export default function MapPage() {
   // Track last known update timestamp to detect backend updates
   const lastKnownTimestamp = useRef<string | null>(null);
 
-  // Poll for backend updates every hour to detect new data
+  // Initialize last known timestamp
   useEffect(() => {
+    if (settings?.lastUpdateTimestamp && !lastKnownTimestamp.current) {
+      lastKnownTimestamp.current = settings.lastUpdateTimestamp;
+    }
+  }, [settings?.lastUpdateTimestamp]);
+
+  // Refresh every cached hour once the backend has a newer one
+  const refreshForNewHour = useCallback(async (timestamp: string) => {
+    if (timestamp === lastKnownTimestamp.current) return;
+    console.log('🔄 New hourly data detected, refreshing all cached hours...');
+    lastKnownTimestamp.current = timestamp;
+
+    // Invalidate ALL balloon cache entries (hours 0-23)
+    // When a new hour arrives, historical data shifts (hour 0 → 1, hour 1 → 2, etc.)
+    await queryClient.invalidateQueries({ queryKey: ['settings'] });
+    await queryClient.invalidateQueries({ queryKey: ['balloons'] });
+    await queryClient.invalidateQueries({ queryKey: ['events'] });
+
+    // Re-preload all 24 hours in the background
+    await preloadAllHours();
+  }, [queryClient, preloadAllHours]);
+
+  // Live push from the backend: refresh as soon as a new hour is tracked
+  const { isConnected: isStreamConnected } = useUpdateStream({
+    // Catch up on an hour that arrived while the stream was down
+    onReady: ({ latest_timestamp }) => {
+      if (latest_timestamp && lastKnownTimestamp.current) refreshForNewHour(latest_timestamp);
+    },
+    onNewHour: ({ timestamp }) => refreshForNewHour(timestamp),
+    // Data age and last update time changed
+    onJobFinished: () => queryClient.invalidateQueries({ queryKey: ['settings'] }),
+  });
+
+  // Fall back to polling settings while the stream is down (or unsupported, e.g. serverless)
+  useEffect(() => {
+    if (isStreamConnected) return;
+
     const pollInterval = setInterval(async () => {
       // Refetch settings to check for new updates
       await queryClient.invalidateQueries({ queryKey: ['settings'] });
 
       const currentSettings = queryClient.getQueryData(['settings']) as { lastUpdateTimestamp: string } | undefined;
-
-      if (currentSettings?.lastUpdateTimestamp &&
-          currentSettings.lastUpdateTimestamp !== lastKnownTimestamp.current) {
-        console.log('🔄 New hourly data detected, refreshing all cached hours...');
-
-        // Invalidate ALL balloon cache entries (hours 0-23)
-        // When a new hour arrives, historical data shifts (hour 0 → 1, hour 1 → 2, etc.)
-        await queryClient.invalidateQueries({ queryKey: ['balloons'] });
-
-        // Re-preload all 24 hours in the background
-        await preloadAllHours();
-
-        // Update the last known timestamp
-        lastKnownTimestamp.current = currentSettings.lastUpdateTimestamp;
+      if (currentSettings?.lastUpdateTimestamp) {
+        await refreshForNewHour(currentSettings.lastUpdateTimestamp);
       }
-    }, 60 * 60 * 1000); // Every hour (3600000ms)
-
-    // Initialize last known timestamp
-    if (settings?.lastUpdateTimestamp && !lastKnownTimestamp.current) {
-      lastKnownTimestamp.current = settings.lastUpdateTimestamp;
-    }
+    }, 5 * 60 * 1000); // Every 5 minutes
 
     return () => clearInterval(pollInterval);
-  }, [queryClient, settings?.lastUpdateTimestamp, preloadAllHours]);
+  }, [queryClient, isStreamConnected, refreshForNewHour]);
 
   // Selected balloon state
   const [selectedBalloon, setSelectedBalloon] = useState<BalloonDataPoint | null>(null);
@@ -131,6 +152,9 @@ export default function MapPage() {
     }
   };
 
+  // Lifecycle events for the selected balloon (map markers + detail panel timeline)
+  const { events: selectedEvents } = useBalloonEvents(selectedBalloon?.id ?? null);
+
   // Get trajectory for selected balloon only
   const trajectories: BalloonTrajectory[] = useMemo(() => {
     if (!selectedBalloon?.trajectory) return [];
@@ -171,6 +195,7 @@ export default function MapPage() {
       <BalloonMap
         balloons={displayedBalloons}
         trajectories={trajectories}
+        events={selectedEvents}
         showTrajectories={!!selectedBalloon}
         showPredictions={!!selectedBalloon}
         showWindOverlay={false}
@@ -215,6 +240,7 @@ export default function MapPage() {
         <BalloonDetailPanel
           balloon={selectedBalloon}
           trajectory={selectedBalloon.trajectory}
+          events={selectedEvents}
           onClose={handleClosePanel}
           isClosing={isClosingPanel}
         />
@@ -11,7 +11,9 @@ import type {
   MultipleTrajectoryResponse,
   TrajectoryOptions,
   HistoryItem,
-  ValueCalculationResult
+  ValueCalculationResult,
+  EventsResponse,
+  EventFilterOptions
 } from '../types/balloon';
 
 // In production (Vercel), use relative /api path which gets rewritten to backend
@@ -66,6 +68,25 @@ export const balloonApi = {
     return response.data;
   },
 
+  /**
+   * Get lifecycle events (launch, burst, disappearance, ...), newest first unless order is asc
+   */
+  async getEvents(options: EventFilterOptions = {}): Promise<EventsResponse> {
+    const { types, balloonId, from, to, bbox, order, limit } = options;
+    const response = await api.get<EventsResponse>('/events', {
+      params: {
+        type: types?.join(','),
+        balloon_id: balloonId,
+        from,
+        to,
+        bbox: bbox?.join(','),
+        order,
+        limit,
+      },
+    });
+    return response.data;
+  },
+
   /**
    * Get health status
    */
@@ -82,6 +103,14 @@ export const balloonApi = {
     return response.data;
   },
 
+  /**
+   * Open the live update stream (new hours, finished data jobs)
+   * The caller closes it; the browser reconnects by itself after a drop
+   */
+  openUpdateStream(): EventSource {
+    return new EventSource(`${API_BASE_URL}/stream`);
+  },
+
   /**
    * Toggle auto-update
    */
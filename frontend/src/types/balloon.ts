@@ -13,6 +13,10 @@ export interface BalloonDataPoint {
   direction_deg?: number;
   confidence: number;
   status: 'active' | 'new' | 'lost';
+  gap_hours?: number; // Hours bridged when a balloon was re-acquired after a gap
+  filtered_speed_kmh?: number; // Kalman-filtered velocity
+  filtered_direction_deg?: number;
+  velocity_uncertainty_kmh?: number; // 1-sigma uncertainty of filtered_speed_kmh
   trajectory?: BalloonTrajectory; // Included in main balloon response
 }
 
@@ -20,8 +24,41 @@ export interface BalloonResponse {
   updated_at: string;
   data_age_minutes: number;
   source: string;
+  timestamp: string; // The hour returned (absolute; hour_offset is relative to the current hour)
+  hour_offset: number;
   balloon_count: number;
   balloons: BalloonDataPoint[];
+  next_cursor: string | null; // Set when ?limit= left more balloons for another page
+}
+
+// Lifecycle events detected by the backend after each hourly update
+export type BalloonEventType = 'launch' | 'ascent_complete' | 'burst' | 'disappearance' | 'reacquisition';
+
+export interface BalloonEvent {
+  id: number;
+  balloon_id: string;
+  type: BalloonEventType;
+  timestamp: string;
+  latitude: number;
+  longitude: number;
+  altitude_km: number;
+  details?: Record<string, number>; // Type-specific measurements (rates, gap length, ...)
+  detected_at: string;
+}
+
+export interface EventsResponse {
+  count: number;
+  events: BalloonEvent[];
+}
+
+export interface EventFilterOptions {
+  types?: BalloonEventType[];
+  balloonId?: string;
+  from?: string;
+  to?: string;
+  bbox?: [number, number, number, number]; // min_lon, min_lat, max_lon, max_lat
+  order?: 'asc' | 'desc'; // Default: desc (newest first)
+  limit?: number;
 }
 
 export interface Settings {
@@ -30,12 +67,38 @@ export interface Settings {
   dataAgeMinutes: number;
 }
 
+// Server-Sent Events of GET /api/stream
+export interface StreamReadyEvent {
+  latest_timestamp: string | null; // Newest hour with data when the stream (re)connected
+}
+
+export interface NewHourEvent {
+  timestamp: string;
+  previous_timestamp: string | null;
+  balloon_count: number;
+}
+
+export interface StreamJobEvent {
+  id: number;
+  kind: 'hourly_update' | 'refresh';
+  trigger: string;
+  status: 'succeeded' | 'failed';
+  finished_at: string | null;
+  duration_ms: number | null;
+  error: string | null;
+  balloons_fetched: number;
+  balloons_continued: number;
+  balloons_new: number;
+}
+
 export interface HealthResponse {
   status: 'healthy' | 'degraded' | 'unhealthy';
   lastUpdate: string | null;
   dataFreshness: number;
   balloonCount: number;
   autoUpdateEnabled: boolean;
+  anomalousHours: { timestamp: string; anomalies: string[] }[]; // Hours with ingestion quality anomalies
+  lastSuccessfulJob: { id: number; kind: string; trigger: string; finished_at: string | null } | null; // Latest data job that completed
 }
 
 // Phase 2: Trajectory and Prediction Types
@@ -59,10 +122,13 @@ export interface BalloonTrajectory {
 
 export interface TrajectoryResponse {
   balloon_id: string;
+  reference_timestamp?: string; // Hour predicted from (single-balloon endpoint only)
   trajectory: BalloonTrajectory;
 }
 
 export interface MultipleTrajectoryResponse {
+  reference_timestamp: string;
+  reference_hour_offset: number;
   trajectories: TrajectoryResponse[];
 }
 